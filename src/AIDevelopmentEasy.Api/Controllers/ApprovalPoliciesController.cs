@@ -0,0 +1,92 @@
+using AIDevelopmentEasy.Api.Models;
+using AIDevelopmentEasy.Api.Repositories.Interfaces;
+using Microsoft.AspNetCore.Mvc;
+
+namespace AIDevelopmentEasy.Api.Controllers;
+
+/// <summary>
+/// API endpoints for managing approval policies (named sets of gates that continue without waiting)
+/// </summary>
+[ApiController]
+[Route("api/[controller]")]
+public class ApprovalPoliciesController : ControllerBase
+{
+    private readonly IApprovalPolicyRepository _approvalPolicyRepository;
+    private readonly ILogger<ApprovalPoliciesController> _logger;
+
+    public ApprovalPoliciesController(
+        IApprovalPolicyRepository approvalPolicyRepository,
+        ILogger<ApprovalPoliciesController> logger)
+    {
+        _approvalPolicyRepository = approvalPolicyRepository;
+        _logger = logger;
+    }
+
+    /// <summary>
+    /// Get all approval policies
+    /// </summary>
+    [HttpGet]
+    public async Task<ActionResult<IEnumerable<ApprovalPolicyDto>>> GetAll(CancellationToken cancellationToken)
+    {
+        var policies = await _approvalPolicyRepository.GetAllAsync(cancellationToken);
+        return Ok(policies);
+    }
+
+    /// <summary>
+    /// Get an approval policy by ID
+    /// </summary>
+    [HttpGet("{id}")]
+    public async Task<ActionResult<ApprovalPolicyDto>> GetById(string id, CancellationToken cancellationToken)
+    {
+        var policy = await _approvalPolicyRepository.GetByIdAsync(id, cancellationToken);
+
+        if (policy == null)
+            return NotFound();
+
+        return Ok(policy);
+    }
+
+    /// <summary>
+    /// Create an approval policy
+    /// </summary>
+    [HttpPost]
+    public async Task<ActionResult<ApprovalPolicyDto>> Create([FromBody] SaveApprovalPolicyRequest request, CancellationToken cancellationToken)
+    {
+        if (string.IsNullOrWhiteSpace(request.Name))
+            return BadRequest(new { error = "Name is required" });
+
+        var policy = await _approvalPolicyRepository.CreateAsync(request, cancellationToken);
+        return CreatedAtAction(nameof(GetById), new { id = policy.Id }, policy);
+    }
+
+    /// <summary>
+    /// Update an approval policy. Runs already started keep the policy as it was.
+    /// </summary>
+    [HttpPut("{id}")]
+    public async Task<ActionResult<ApprovalPolicyDto>> Update(string id, [FromBody] SaveApprovalPolicyRequest request, CancellationToken cancellationToken)
+    {
+        if (string.IsNullOrWhiteSpace(request.Name))
+            return BadRequest(new { error = "Name is required" });
+
+        var policy = await _approvalPolicyRepository.UpdateAsync(id, request, cancellationToken);
+
+        if (policy == null)
+            return NotFound();
+
+        return Ok(policy);
+    }
+
+    /// <summary>
+    /// Delete an approval policy
+    /// </summary>
+    [HttpDelete("{id}")]
+    public async Task<ActionResult> Delete(string id, CancellationToken cancellationToken)
+    {
+        var deleted = await _approvalPolicyRepository.DeleteAsync(id, cancellationToken);
+
+        if (!deleted)
+            return NotFound();
+
+        return NoContent();
+    }
+}
@@ -14,15 +14,18 @@ namespace AIDevelopmentEasy.Api.Controllers;
 public class CodebasesController : ControllerBase
 {
     private readonly ICodebaseRepository _codebaseRepository;
+    private readonly IApprovalPolicyRepository _approvalPolicyRepository;
     private readonly CodeAnalysisAgent _codeAnalysisAgent;
     private readonly ILogger<CodebasesController> _logger;
 
     public CodebasesController(
         ICodebaseRepository codebaseRepository,
+        IApprovalPolicyRepository approvalPolicyRepository,
         CodeAnalysisAgent codeAnalysisAgent,
         ILogger<CodebasesController> logger)
     {
         _codebaseRepository = codebaseRepository;
+        _approvalPolicyRepository = approvalPolicyRepository;
         _codeAnalysisAgent = codeAnalysisAgent;
         _logger = logger;
     }
@@ -51,6 +54,37 @@ public class CodebasesController : ControllerBase
         return Ok(codebase);
     }
 
+    /// <summary>
+    /// Get the content of a source file inside the codebase (absolute or codebase-relative path)
+    /// </summary>
+    [HttpGet("{id}/source")]
+    public async Task<ActionResult<SourceFileDto>> GetSourceFile(string id, [FromQuery] string path, CancellationToken cancellationToken)
+    {
+        if (string.IsNullOrWhiteSpace(path))
+            return BadRequest("Path is required");
+
+        var codebase = await _codebaseRepository.GetByIdAsync(id, cancellationToken);
+        if (codebase == null)
+            return NotFound();
+
+        var root = Path.GetFullPath(codebase.Path);
+        var fullPath = Path.GetFullPath(Path.IsPathRooted(path) ? path : Path.Combine(root, path));
+        var relativePath = Path.GetRelativePath(root, fullPath);
+
+        // Only files under the codebase root can be read
+        if (relativePath.StartsWith("..") || Path.IsPathRooted(relativePath))
+            return BadRequest("Path is outside the codebase");
+
+        if (!System.IO.File.Exists(fullPath))
+            return NotFound($"File not found: {relativePath}");
+
+        return Ok(new SourceFileDto
+        {
+            Path = relativePath.Replace('\\', '/'),
+            Content = await System.IO.File.ReadAllTextAsync(fullPath, cancellationToken)
+        });
+    }
+
     /// <summary>
     /// Get the full analysis for a codebase
     /// </summary>
@@ -215,6 +249,26 @@ public class CodebasesController : ControllerBase
         return Accepted(new { message = "Analysis started", id });
     }
 
+    /// <summary>
+    /// Assign the default approval policy for stories and requirements on this codebase (null clears it)
+    /// </summary>
+    [HttpPut("{id}/approval-policy")]
+    public async Task<ActionResult> UpdateApprovalPolicy(string id, [FromBody] AssignApprovalPolicyRequest request, CancellationToken cancellationToken)
+    {
+        if (!string.IsNullOrEmpty(request.ApprovalPolicyId)
+            && await _approvalPolicyRepository.GetByIdAsync(request.ApprovalPolicyId, cancellationToken) == null)
+        {
+            return BadRequest(new { error = $"Approval policy not found: {request.ApprovalPolicyId}" });
+        }
+
+        var updated = await _codebaseRepository.UpdateApprovalPolicyAsync(id, request.ApprovalPolicyId, cancellationToken);
+
+        if (!updated)
+            return NotFound();
+
+        return NoContent();
+    }
+
     /// <summary>
     /// Delete a codebase
     /// </summary>
@@ -13,16 +13,31 @@ namespace AIDevelopmentEasy.Api.Controllers;
 public class PipelineController : ControllerBase
 {
     private readonly IPipelineService _pipelineService;
+    private readonly IPipelineQueueService _queueService;
     private readonly IOutputRepository _outputRepository;
+    private readonly IPipelineLogRepository _pipelineLogRepository;
+    private readonly ILLMCallRepository _llmCallRepository;
     private readonly ILogger<PipelineController> _logger;
 
+    private const int MaxLogPageSize = 500;
+
+    // The parts of git check-ref-format a typed branch name can get wrong
+    private static readonly System.Text.RegularExpressions.Regex BranchNamePattern = new(
+        @"^(?![/.-])(?!.*(\.\.|//|@\{|/\.))[^\s~^:?*\[\\\x00-\x1f\x7f]+(?<![/.]|\.lock)$");
+
     public PipelineController(
         IPipelineService pipelineService,
+        IPipelineQueueService queueService,
         IOutputRepository outputRepository,
+        IPipelineLogRepository pipelineLogRepository,
+        ILLMCallRepository llmCallRepository,
         ILogger<PipelineController> logger)
     {
         _pipelineService = pipelineService;
+        _queueService = queueService;
         _outputRepository = outputRepository;
+        _pipelineLogRepository = pipelineLogRepository;
+        _llmCallRepository = llmCallRepository;
         _logger = logger;
     }
 
@@ -40,6 +55,37 @@ public class PipelineController : ControllerBase
             var status = await _pipelineService.StartAsync(
                 storyId,
                 request?.AutoApproveAll ?? false,
+                request?.ApprovalPolicyId,
+                cancellationToken);
+
+            return Ok(status);
+        }
+        catch (ArgumentException ex)
+        {
+            return NotFound(ex.Message);
+        }
+        catch (InvalidOperationException ex)
+        {
+            return BadRequest(ex.Message);
+        }
+    }
+
+    /// <summary>
+    /// Rerun a story's pipeline from a completed or failed phase, keeping the earlier phases' results
+    /// </summary>
+    [HttpPost("{storyId}/rerun")]
+    public async Task<ActionResult<PipelineStatusDto>> Rerun(
+        string storyId,
+        [FromBody] RerunPipelineRequest request,
+        CancellationToken cancellationToken)
+    {
+        try
+        {
+            var status = await _pipelineService.RerunFromPhaseAsync(
+                storyId,
+                request.FromPhase,
+                request.AutoApproveAll,
+                request.ApprovalPolicyId,
                 cancellationToken);
 
             return Ok(status);
@@ -65,13 +111,79 @@ public class PipelineController : ControllerBase
     }
 
     /// <summary>
-    /// Approve a phase
+    /// Approve a phase. Planning approval may carry an edited task plan,
+    /// Coding approval per-file decisions, PullRequest approval the composed pull request.
     /// </summary>
     [HttpPost("{storyId}/approve/{phase}")]
-    public async Task<ActionResult> ApprovePhase(string storyId, PipelinePhase phase, CancellationToken cancellationToken)
+    public async Task<ActionResult> ApprovePhase(
+        string storyId,
+        PipelinePhase phase,
+        [FromBody] ApprovePhaseRequest? request,
+        CancellationToken cancellationToken)
     {
-        var approved = await _pipelineService.ApprovePhaseAsync(storyId, phase, cancellationToken);
-        
+        var editedTasks = request?.Tasks;
+        if (editedTasks != null)
+        {
+            if (phase != PipelinePhase.Planning)
+                return BadRequest("An edited task plan can only be submitted with the Planning approval");
+
+            var errors = await _pipelineService.ValidatePlanAsync(storyId, editedTasks, cancellationToken);
+            if (errors.Count > 0)
+            {
+                foreach (var (field, message) in errors)
+                    ModelState.AddModelError(field, message);
+                return ValidationProblem(ModelState);
+            }
+        }
+
+        var fileDecisions = request?.Files;
+        if (fileDecisions != null)
+        {
+            if (phase != PipelinePhase.Coding)
+                return BadRequest("File decisions can only be submitted with the Coding approval");
+
+            for (var i = 0; i < fileDecisions.Count; i++)
+            {
+                if (fileDecisions[i].Decision == FileReviewDecision.Reject && string.IsNullOrWhiteSpace(fileDecisions[i].Note))
+                    ModelState.AddModelError($"files[{i}].note", "Explain what should change when rejecting a file");
+            }
+            if (!ModelState.IsValid)
+                return ValidationProblem(ModelState);
+        }
+
+        var pullRequest = request?.PullRequest;
+        if (pullRequest != null)
+        {
+            if (phase != PipelinePhase.PullRequest)
+                return BadRequest("Pull request details can only be submitted with the PullRequest approval");
+
+            pullRequest.BranchName = pullRequest.BranchName.Trim();
+            pullRequest.BaseBranch = string.IsNullOrWhiteSpace(pullRequest.BaseBranch) ? null : pullRequest.BaseBranch.Trim();
+            pullRequest.Title = pullRequest.Title.Trim();
+            pullRequest.Labels = pullRequest.Labels.Select(l => l.Trim()).Where(l => l.Length > 0).Distinct().ToList();
+            pullRequest.Reviewers = pullRequest.Reviewers.Select(r => r.Trim().TrimStart('@')).Where(r => r.Length > 0).Distinct().ToList();
+
+            if (!BranchNamePattern.IsMatch(pullRequest.BranchName))
+                ModelState.AddModelError("pullRequest.branchName", "Enter a valid git branch name, e.g. feature/my-change");
+            if (pullRequest.BaseBranch != null && !BranchNamePattern.IsMatch(pullRequest.BaseBranch))
+                ModelState.AddModelError("pullRequest.baseBranch", "Enter a valid git branch name or leave it empty");
+            if (pullRequest.Title.Length == 0)
+                ModelState.AddModelError("pullRequest.title", "Enter a title");
+            if (!ModelState.IsValid)
+                return ValidationProblem(ModelState);
+        }
+
+        bool approved;
+        try
+        {
+            approved = await _pipelineService.ApprovePhaseAsync(
+                storyId, phase, editedTasks, fileDecisions, pullRequest, cancellationToken);
+        }
+        catch (ArgumentException ex)
+        {
+            return BadRequest(ex.Message);
+        }
+
         if (!approved)
             return BadRequest("Cannot approve phase - pipeline not waiting for approval at this phase");
 
@@ -88,8 +200,16 @@ public class PipelineController : ControllerBase
         [FromBody] RejectPhaseRequest? request,
         CancellationToken cancellationToken)
     {
+        var feedback = request == null ? null : new PhaseRejectionDto
+        {
+            Category = request.Category,
+            Reason = string.IsNullOrWhiteSpace(request.Reason) ? null : request.Reason.Trim(),
+            TaskReferences = request.TaskReferences ?? new List<int>(),
+            FileReferences = request.FileReferences ?? new List<string>()
+        };
+
         var rejected = await _pipelineService.RejectPhaseAsync(
-            storyId, phase, request?.Reason, cancellationToken);
+            storyId, phase, feedback, cancellationToken);
         
         if (!rejected)
             return BadRequest("Cannot reject phase - pipeline not waiting for approval at this phase");
@@ -117,6 +237,107 @@ public class PipelineController : ControllerBase
         return Ok(running);
     }
 
+    /// <summary>
+    /// Get the batch queue
+    /// </summary>
+    [HttpGet("queue")]
+    public async Task<ActionResult<PipelineQueueDto>> GetQueue(CancellationToken cancellationToken)
+    {
+        var queue = await _queueService.GetQueueAsync(cancellationToken);
+        return Ok(queue);
+    }
+
+    /// <summary>
+    /// Add stories to the batch queue, in the order given
+    /// </summary>
+    [HttpPost("queue")]
+    public async Task<ActionResult<PipelineQueueDto>> Enqueue(
+        [FromBody] EnqueueStoriesRequest request,
+        CancellationToken cancellationToken)
+    {
+        try
+        {
+            var queue = await _queueService.EnqueueAsync(request, cancellationToken);
+            return Ok(queue);
+        }
+        catch (ArgumentException ex)
+        {
+            return NotFound(ex.Message);
+        }
+        catch (InvalidOperationException ex)
+        {
+            return BadRequest(ex.Message);
+        }
+    }
+
+    /// <summary>
+    /// Change the queue's concurrency limit and failure behaviour
+    /// </summary>
+    [HttpPut("queue/settings")]
+    public async Task<ActionResult<PipelineQueueDto>> UpdateQueueSettings(
+        [FromBody] UpdatePipelineQueueSettingsRequest request,
+        CancellationToken cancellationToken)
+    {
+        if (request.MaxConcurrency < 1 || request.MaxConcurrency > PipelineQueueDto.MaxConcurrencyLimit)
+            return BadRequest($"Concurrency must be between 1 and {PipelineQueueDto.MaxConcurrencyLimit}");
+
+        var queue = await _queueService.UpdateSettingsAsync(request, cancellationToken);
+        return Ok(queue);
+    }
+
+    /// <summary>
+    /// Change the start order of queued stories
+    /// </summary>
+    [HttpPut("queue/order")]
+    public async Task<ActionResult<PipelineQueueDto>> ReorderQueue(
+        [FromBody] ReorderPipelineQueueRequest request,
+        CancellationToken cancellationToken)
+    {
+        var queue = await _queueService.ReorderAsync(request.ItemIds, cancellationToken);
+        return Ok(queue);
+    }
+
+    /// <summary>
+    /// Cancel a queued story, or the pipeline of a running one
+    /// </summary>
+    [HttpDelete("queue/{itemId}")]
+    public async Task<ActionResult> CancelQueueItem(string itemId, CancellationToken cancellationToken)
+    {
+        try
+        {
+            var cancelled = await _queueService.CancelItemAsync(itemId, cancellationToken);
+
+            if (!cancelled)
+                return NotFound();
+
+            return NoContent();
+        }
+        catch (InvalidOperationException ex)
+        {
+            return BadRequest(ex.Message);
+        }
+    }
+
+    /// <summary>
+    /// Start queued stories again after the queue paused on a failure
+    /// </summary>
+    [HttpPost("queue/resume")]
+    public async Task<ActionResult<PipelineQueueDto>> ResumeQueue(CancellationToken cancellationToken)
+    {
+        var queue = await _queueService.ResumeAsync(cancellationToken);
+        return Ok(queue);
+    }
+
+    /// <summary>
+    /// Remove finished stories from the queue
+    /// </summary>
+    [HttpDelete("queue/finished")]
+    public async Task<ActionResult<PipelineQueueDto>> ClearFinishedQueueItems(CancellationToken cancellationToken)
+    {
+        var queue = await _queueService.ClearFinishedAsync(cancellationToken);
+        return Ok(queue);
+    }
+
     /// <summary>
     /// Get generated files for a story
     /// </summary>
@@ -127,6 +348,28 @@ public class PipelineController : ControllerBase
         return Ok(files);
     }
 
+    /// <summary>
+    /// Get generated files paired with their original codebase content (null for new files)
+    /// </summary>
+    [HttpGet("{storyId}/output/diff")]
+    public async Task<ActionResult<List<OutputFileDiffDto>>> GetOutputDiff(string storyId, CancellationToken cancellationToken)
+    {
+        var files = await _outputRepository.GetGeneratedFilesAsync(storyId, cancellationToken);
+        var originals = await _outputRepository.GetOriginalFilesAsync(storyId, cancellationToken);
+
+        var diffs = files
+            .OrderBy(f => f.Key, StringComparer.OrdinalIgnoreCase)
+            .Select(f => new OutputFileDiffDto
+            {
+                Path = f.Key,
+                Original = originals.GetValueOrDefault(f.Key),
+                Modified = f.Value
+            })
+            .ToList();
+
+        return Ok(diffs);
+    }
+
     /// <summary>
     /// Get review report for a story
     /// </summary>
@@ -141,6 +384,20 @@ public class PipelineController : ControllerBase
         return Ok(report);
     }
 
+    /// <summary>
+    /// Download the patch written by the PullRequest phase
+    /// </summary>
+    [HttpGet("{storyId}/pull-request/patch")]
+    public async Task<ActionResult> GetPullRequestPatch(string storyId, CancellationToken cancellationToken)
+    {
+        var patch = await _outputRepository.GetPullRequestPatchAsync(storyId, cancellationToken);
+
+        if (patch == null)
+            return NotFound();
+
+        return File(System.Text.Encoding.UTF8.GetBytes(patch), "text/x-diff", $"{storyId}.patch");
+    }
+
     /// <summary>
     /// List all outputs
     /// </summary>
@@ -151,6 +408,34 @@ public class PipelineController : ControllerBase
         return Ok(outputs);
     }
 
+    /// <summary>
+    /// Send review findings back to Coding as fix tasks (while the Reviewing phase waits for approval)
+    /// </summary>
+    [HttpPost("{storyId}/review/fix-tasks")]
+    public async Task<ActionResult> CreateReviewFixTasks(
+        string storyId,
+        [FromBody] CreateReviewFixTasksRequest request,
+        CancellationToken cancellationToken)
+    {
+        try
+        {
+            var created = await _pipelineService.CreateReviewFixTasksAsync(storyId, request.Findings, cancellationToken);
+
+            if (!created)
+                return BadRequest("Cannot create fix tasks - the pipeline is not waiting for review approval");
+
+            return Ok(new { Message = $"{request.Findings.Count} review finding(s) sent back to Coding" });
+        }
+        catch (ArgumentException ex)
+        {
+            return BadRequest(ex.Message);
+        }
+        catch (InvalidOperationException ex)
+        {
+            return BadRequest(ex.Message);
+        }
+    }
+
     /// <summary>
     /// Approve retry with specified action
     /// </summary>
@@ -178,6 +463,67 @@ public class PipelineController : ControllerBase
         return Ok(retryInfo);
     }
 
+    /// <summary>
+    /// Get a file from the manual fix workspace
+    /// </summary>
+    [HttpGet("{storyId}/manual-fix/file")]
+    public async Task<ActionResult<SourceFileDto>> GetManualFixFile(
+        string storyId,
+        [FromQuery] string path,
+        CancellationToken cancellationToken)
+    {
+        var content = await _pipelineService.GetManualFixFileAsync(storyId, path, cancellationToken);
+        if (content == null)
+            return NotFound(new { Message = $"{path} is not part of a manual fix for this story" });
+
+        return Ok(new SourceFileDto { Path = path, Content = content });
+    }
+
+    /// <summary>
+    /// Save a file edited in the manual fix workspace
+    /// </summary>
+    [HttpPut("{storyId}/manual-fix/file")]
+    public async Task<ActionResult> SaveManualFixFile(
+        string storyId,
+        [FromBody] SaveManualFixFileRequest request,
+        CancellationToken cancellationToken)
+    {
+        var saved = await _pipelineService.SaveManualFixFileAsync(storyId, request.Path, request.Content, cancellationToken);
+
+        if (!saved)
+            return BadRequest("Cannot save - the file is not part of a pending manual fix");
+
+        return Ok(new { Message = $"Saved {request.Path}" });
+    }
+
+    /// <summary>
+    /// Finish the manual fix and run the tests again
+    /// </summary>
+    [HttpPost("{storyId}/manual-fix/resume")]
+    public async Task<ActionResult> ResumeManualFix(string storyId, CancellationToken cancellationToken)
+    {
+        var resumed = await _pipelineService.ResumeManualFixAsync(storyId, cancellationToken);
+
+        if (!resumed)
+            return BadRequest("Cannot resume - no manual fix pending");
+
+        return Ok(new { Message = "Running the tests again" });
+    }
+
+    /// <summary>
+    /// Approve going over the exceeded budget the run is paused for, and continue
+    /// </summary>
+    [HttpPost("{storyId}/budget/continue")]
+    public async Task<ActionResult> ContinueOverBudget(string storyId, CancellationToken cancellationToken)
+    {
+        var continued = await _pipelineService.ContinueOverBudgetAsync(storyId, cancellationToken);
+
+        if (!continued)
+            return BadRequest("Cannot continue - the pipeline is not paused for its budget");
+
+        return Ok(new { Message = "Continuing over the budget" });
+    }
+
     /// <summary>
     /// Get pipeline execution history (all phase details from completed pipeline)
     /// </summary>
@@ -214,9 +560,41 @@ public class PipelineController : ControllerBase
             return BadRequest(new { Message = "Failed to parse pipeline history" });
         }
     }
+
+    /// <summary>
+    /// Get a page of the latest pipeline run's log (newest page first, entries oldest first)
+    /// </summary>
+    [HttpGet("{storyId}/logs")]
+    public async Task<ActionResult<PipelineLogPageDto>> GetLogs(
+        string storyId,
+        [FromQuery] string? beforeId,
+        [FromQuery] int limit = 200,
+        CancellationToken cancellationToken = default)
+    {
+        var page = await _pipelineLogRepository.GetPageAsync(
+            storyId, beforeId, Math.Clamp(limit, 1, MaxLogPageSize), cancellationToken);
+        return Ok(page);
+    }
+
+    /// <summary>
+    /// Get the transcript of an LLM call (rendered prompts and raw completion)
+    /// </summary>
+    [HttpGet("{storyId}/llm-calls/{callId}")]
+    public async Task<ActionResult<LLMCallDetailDto>> GetLLMCall(string storyId, string callId, CancellationToken cancellationToken)
+    {
+        var call = await _llmCallRepository.GetAsync(storyId, callId, cancellationToken);
+
+        if (call == null)
+            return NotFound(new { Message = "No transcript recorded for this LLM call" });
+
+        return Ok(call);
+    }
 }
 
 public class RejectPhaseRequest
 {
+    public RejectionCategory Category { get; set; } = RejectionCategory.Other;
     public string? Reason { get; set; }
+    public List<int>? TaskReferences { get; set; }
+    public List<string>? FileReferences { get; set; }
 }
@@ -14,15 +14,18 @@ public class RequirementsController : ControllerBase
 {
     private readonly IRequirementRepository _requirementRepository;
     private readonly IRequirementWizardService _wizardService;
+    private readonly IRequirementRunService _runService;
     private readonly ILogger<RequirementsController> _logger;
 
     public RequirementsController(
         IRequirementRepository requirementRepository,
         IRequirementWizardService wizardService,
+        IRequirementRunService runService,
         ILogger<RequirementsController> logger)
     {
         _requirementRepository = requirementRepository;
         _wizardService = wizardService;
+        _runService = runService;
         _logger = logger;
     }
 
@@ -88,6 +91,26 @@ public class RequirementsController : ControllerBase
         return Ok(requirement);
     }
 
+    /// <summary>
+    /// Set the LLM budget across the requirement's stories. Runs pause when it is exceeded.
+    /// A budget without limits clears it; unlike other fields it can change at any status.
+    /// </summary>
+    [HttpPut("{id}/budget")]
+    public async Task<ActionResult> UpdateBudget(string id, [FromBody] CostBudgetDto request, CancellationToken cancellationToken)
+    {
+        if (request.MaxTokens <= 0 || request.MaxCostUSD <= 0)
+        {
+            return BadRequest(new { error = "Budget limits must be greater than zero" });
+        }
+
+        var updated = await _requirementRepository.UpdateBudgetAsync(id, request.HasLimits ? request : null, cancellationToken);
+
+        if (!updated)
+            return NotFound();
+
+        return NoContent();
+    }
+
     /// <summary>
     /// Delete a requirement
     /// </summary>
@@ -122,7 +145,11 @@ public class RequirementsController : ControllerBase
     {
         try
         {
-            var status = await _wizardService.StartAsync(id, request?.AutoApproveAll ?? false, cancellationToken);
+            var status = await _wizardService.StartAsync(
+                id,
+                request?.AutoApproveAll ?? false,
+                request?.ApprovalPolicyId,
+                cancellationToken);
             return Ok(status);
         }
         catch (ArgumentException ex)
@@ -248,4 +275,42 @@ public class RequirementsController : ControllerBase
         var storyIds = await _requirementRepository.GetCreatedStoryIdsAsync(id, cancellationToken);
         return Ok(storyIds);
     }
+
+    /// <summary>
+    /// Get the stories created from this requirement as a dependency graph with their run status
+    /// </summary>
+    [HttpGet("{id}/stories/graph")]
+    public async Task<ActionResult<StoryGraphDto>> GetStoryGraph(string id, CancellationToken cancellationToken)
+    {
+        try
+        {
+            var graph = await _runService.GetStoryGraphAsync(id, cancellationToken);
+            return Ok(graph);
+        }
+        catch (ArgumentException ex)
+        {
+            return NotFound(new { error = ex.Message });
+        }
+    }
+
+    /// <summary>
+    /// Queue the unfinished stories of this requirement in dependency order
+    /// </summary>
+    [HttpPost("{id}/stories/run")]
+    public async Task<ActionResult<PipelineQueueDto>> RunStories(string id, [FromBody] RunRequirementStoriesRequest? request, CancellationToken cancellationToken)
+    {
+        try
+        {
+            var queue = await _runService.RunStoriesAsync(id, request ?? new RunRequirementStoriesRequest(), cancellationToken);
+            return Ok(queue);
+        }
+        catch (ArgumentException ex)
+        {
+            return NotFound(new { error = ex.Message });
+        }
+        catch (InvalidOperationException ex)
+        {
+            return BadRequest(new { error = ex.Message });
+        }
+    }
 }
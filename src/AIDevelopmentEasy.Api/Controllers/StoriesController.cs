@@ -15,6 +15,7 @@ public class StoriesController : ControllerBase
     private readonly IStoryRepository _storyRepository;
     private readonly ITaskRepository _taskRepository;
     private readonly IApprovalRepository _approvalRepository;
+    private readonly IApprovalPolicyRepository _approvalPolicyRepository;
     private readonly IStoryNameGenerator _storyNameGenerator;
     private readonly ILogger<StoriesController> _logger;
 
@@ -22,12 +23,14 @@ public class StoriesController : ControllerBase
         IStoryRepository storyRepository,
         ITaskRepository taskRepository,
         IApprovalRepository approvalRepository,
+        IApprovalPolicyRepository approvalPolicyRepository,
         IStoryNameGenerator storyNameGenerator,
         ILogger<StoriesController> logger)
     {
         _storyRepository = storyRepository;
         _taskRepository = taskRepository;
         _approvalRepository = approvalRepository;
+        _approvalPolicyRepository = approvalPolicyRepository;
         _storyNameGenerator = storyNameGenerator;
         _logger = logger;
     }
@@ -180,6 +183,47 @@ public class StoriesController : ControllerBase
         return Ok(new { message = "Target information updated successfully" });
     }
 
+    /// <summary>
+    /// Assign the approval policy used when the story's pipeline starts.
+    /// Null falls back to the codebase's policy.
+    /// </summary>
+    [HttpPut("{id}/approval-policy")]
+    public async Task<ActionResult> UpdateApprovalPolicy(string id, [FromBody] AssignApprovalPolicyRequest request, CancellationToken cancellationToken)
+    {
+        if (!string.IsNullOrEmpty(request.ApprovalPolicyId)
+            && await _approvalPolicyRepository.GetByIdAsync(request.ApprovalPolicyId, cancellationToken) == null)
+        {
+            return BadRequest(new { error = $"Approval policy not found: {request.ApprovalPolicyId}" });
+        }
+
+        var updated = await _storyRepository.UpdateApprovalPolicyAsync(id, request.ApprovalPolicyId, cancellationToken);
+
+        if (!updated)
+            return NotFound();
+
+        return NoContent();
+    }
+
+    /// <summary>
+    /// Set the LLM budget for each pipeline run of the story. The run pauses when it is exceeded.
+    /// A budget without limits clears it.
+    /// </summary>
+    [HttpPut("{id}/budget")]
+    public async Task<ActionResult> UpdateBudget(string id, [FromBody] CostBudgetDto request, CancellationToken cancellationToken)
+    {
+        if (request.MaxTokens <= 0 || request.MaxCostUSD <= 0)
+        {
+            return BadRequest(new { error = "Budget limits must be greater than zero" });
+        }
+
+        var updated = await _storyRepository.UpdateBudgetAsync(id, request.HasLimits ? request : null, cancellationToken);
+
+        if (!updated)
+            return NotFound();
+
+        return NoContent();
+    }
+
     /// <summary>
     /// Delete a story
     /// </summary>
@@ -1,4 +1,6 @@
+using System.Collections.Concurrent;
 using AIDevelopmentEasy.Api.Models;
+using AIDevelopmentEasy.Api.Repositories.Interfaces;
 using Microsoft.AspNetCore.SignalR;
 
 namespace AIDevelopmentEasy.Api.Hubs;
@@ -9,10 +11,12 @@ namespace AIDevelopmentEasy.Api.Hubs;
 /// </summary>
 public class PipelineHub : Hub
 {
+    private readonly IPipelineNotificationService _notificationService;
     private readonly ILogger<PipelineHub> _logger;
 
-    public PipelineHub(ILogger<PipelineHub> logger)
+    public PipelineHub(IPipelineNotificationService notificationService, ILogger<PipelineHub> logger)
     {
+        _notificationService = notificationService;
         _logger = logger;
     }
 
@@ -54,6 +58,18 @@ public class PipelineHub : Hub
             Context.ConnectionId, storyId);
     }
 
+    /// <summary>
+    /// Updates sent for a story after the given timestamp (all buffered updates when null).
+    /// Called by clients after a reconnect to fill the gap.
+    /// </summary>
+    public IReadOnlyList<PipelineUpdateMessage> GetUpdatesSince(string storyId, DateTime? since)
+    {
+        var updates = _notificationService.GetUpdatesSince(storyId, since);
+        _logger.LogInformation("Client {ConnectionId} replaying {Count} updates for story: {StoryId}",
+            Context.ConnectionId, updates.Count, storyId);
+        return updates;
+    }
+
     /// <summary>
     /// Subscribe to all pipeline updates
     /// </summary>
@@ -85,6 +101,7 @@ public interface IPipelineNotificationService
     Task NotifyProgressAsync(string storyId, string message, int? progress = null);
     Task NotifyPipelineCompletedAsync(string storyId, string outputPath);
     Task NotifyStoryListChangedAsync();
+    Task NotifyQueueChangedAsync();
     
     // Retry and Fix Task notifications
     Task NotifyRetryRequiredAsync(string storyId, PipelinePhase failedPhase, RetryInfoDto retryInfo);
@@ -95,6 +112,13 @@ public interface IPipelineNotificationService
     // LLM call notifications
     Task NotifyLLMCallStartingAsync(string storyId, LLMCallInfo callInfo);
     Task NotifyLLMCallCompletedAsync(string storyId, LLMCallResult result);
+
+    // Deployment and error notifications
+    Task NotifyDeploymentFileWrittenAsync(string storyId, string filePath, bool isNewFile, bool success, string? error = null);
+    Task NotifyErrorAsync(string storyId, PipelinePhase phase, Exception exception);
+
+    // Replay of recent updates for reconnecting clients
+    IReadOnlyList<PipelineUpdateMessage> GetUpdatesSince(string storyId, DateTime? since);
 }
 
 /// <summary>
@@ -102,14 +126,23 @@ public interface IPipelineNotificationService
 /// </summary>
 public class SignalRPipelineNotificationService : IPipelineNotificationService
 {
+    /// <summary>
+    /// Recent updates kept per story for replay after a client reconnects
+    /// </summary>
+    private const int MaxBufferedUpdatesPerStory = 500;
+
     private readonly IHubContext<PipelineHub> _hubContext;
+    private readonly IPipelineLogRepository _logRepository;
     private readonly ILogger<SignalRPipelineNotificationService> _logger;
+    private readonly ConcurrentDictionary<string, Queue<PipelineUpdateMessage>> _recentUpdates = new();
 
     public SignalRPipelineNotificationService(
         IHubContext<PipelineHub> hubContext,
+        IPipelineLogRepository logRepository,
         ILogger<SignalRPipelineNotificationService> logger)
     {
         _hubContext = hubContext;
+        _logRepository = logRepository;
         _logger = logger;
     }
 
@@ -168,6 +201,11 @@ public class SignalRPipelineNotificationService : IPipelineNotificationService
         await _hubContext.Clients.Group("all_updates").SendAsync("StoryListChanged");
     }
 
+    public async Task NotifyQueueChangedAsync()
+    {
+        await _hubContext.Clients.Group("all_updates").SendAsync("QueueChanged");
+    }
+
     public async Task NotifyRetryRequiredAsync(string storyId, PipelinePhase failedPhase, RetryInfoDto retryInfo)
     {
         var update = CreateUpdate(storyId, "RetryRequired", failedPhase, 
@@ -257,6 +295,38 @@ public class SignalRPipelineNotificationService : IPipelineNotificationService
             storyId, result.AgentName, result.TotalTokens, result.ActualCostUSD, result.Duration.TotalSeconds);
     }
 
+    public async Task NotifyDeploymentFileWrittenAsync(string storyId, string filePath, bool isNewFile, bool success, string? error = null)
+    {
+        var message = success
+            ? $"{(isNewFile ? "Created" : "Updated")} {filePath}"
+            : $"Failed to write {filePath}: {error}";
+        var update = CreateUpdate(storyId, "DeploymentFileWritten", PipelinePhase.Deployment, message,
+            new { FilePath = filePath, IsNewFile = isNewFile, Success = success, Error = error });
+        await SendToStoryGroupAsync(storyId, "PipelineUpdate", update);
+    }
+
+    public async Task NotifyErrorAsync(string storyId, PipelinePhase phase, Exception exception)
+    {
+        var update = CreateUpdate(storyId, "Error", phase, exception.Message,
+            new { ExceptionType = exception.GetType().Name, exception.Message });
+        await SendToStoryGroupAsync(storyId, "PipelineUpdate", update);
+        _logger.LogError("[{StoryId}] Pipeline error in {Phase}: {Error}", storyId, phase, exception.Message);
+    }
+
+    public IReadOnlyList<PipelineUpdateMessage> GetUpdatesSince(string storyId, DateTime? since)
+    {
+        if (!_recentUpdates.TryGetValue(storyId, out var buffer))
+            return Array.Empty<PipelineUpdateMessage>();
+
+        lock (buffer)
+        {
+            // Inclusive: updates sharing the timestamp are de-duplicated by Id on the client
+            return buffer
+                .Where(u => since == null || u.Timestamp >= since.Value.ToUniversalTime())
+                .ToList();
+        }
+    }
+
     private PipelineUpdateMessage CreateUpdate(string storyId, string updateType, PipelinePhase phase, string message, object? data = null)
     {
         return new PipelineUpdateMessage
@@ -269,12 +339,35 @@ public class SignalRPipelineNotificationService : IPipelineNotificationService
         };
     }
 
-    private async Task SendToStoryGroupAsync(string storyId, string method, object message)
+    private async Task SendToStoryGroupAsync(string storyId, string method, PipelineUpdateMessage message)
     {
+        Remember(message);
+
+        try
+        {
+            await _logRepository.AppendAsync(message);
+        }
+        catch (Exception ex)
+        {
+            // The run log is best-effort; never fail the pipeline over it
+            _logger.LogWarning(ex, "[{StoryId}] Failed to persist pipeline update", storyId);
+        }
+
         // Send to specific story subscribers
         await _hubContext.Clients.Group($"story_{storyId}").SendAsync(method, message);
         
         // Also send to "all updates" subscribers
         await _hubContext.Clients.Group("all_updates").SendAsync(method, message);
     }
+
+    private void Remember(PipelineUpdateMessage message)
+    {
+        var buffer = _recentUpdates.GetOrAdd(message.StoryId, _ => new Queue<PipelineUpdateMessage>());
+        lock (buffer)
+        {
+            buffer.Enqueue(message);
+            while (buffer.Count > MaxBufferedUpdatesPerStory)
+                buffer.Dequeue();
+        }
+    }
 }
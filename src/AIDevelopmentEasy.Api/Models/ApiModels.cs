@@ -15,6 +15,16 @@ public class StoryDto
     /// The requirement this story was created from (if any)
     /// </summary>
     public string? RequirementId { get; set; }
+
+    /// <summary>
+    /// Approval policy for this story's runs; overrides the codebase's policy
+    /// </summary>
+    public string? ApprovalPolicyId { get; set; }
+
+    /// <summary>
+    /// LLM spend allowed per pipeline run of this story (retries included); null when unlimited
+    /// </summary>
+    public CostBudgetDto? Budget { get; set; }
     public DateTime CreatedAt { get; set; }
     public DateTime? LastProcessedAt { get; set; }
     public List<TaskDto> Tasks { get; set; } = new();
@@ -167,6 +177,41 @@ public class PipelineStatusDto
     /// Target phase to return to after retry approval
     /// </summary>
     public PipelinePhase? RetryTargetPhase { get; set; }
+
+    /// <summary>
+    /// Manual fix workspace while UnitTesting waits for the user to fix failed tests by hand
+    /// </summary>
+    public ManualFixDto? ManualFix { get; set; }
+
+    /// <summary>
+    /// Set while the run is paused because a cost budget was exceeded
+    /// </summary>
+    public BudgetPauseDto? BudgetPause { get; set; }
+
+    /// <summary>
+    /// Phase this run was restarted from; the phases before it kept their results from the earlier run
+    /// </summary>
+    public PipelinePhase? RerunFrom { get; set; }
+
+    /// <summary>
+    /// Policy this run was started with (as it was then); null when every phase waits for approval
+    /// </summary>
+    public ApprovalPolicyDto? ApprovalPolicy { get; set; }
+
+    /// <summary>
+    /// Rejections recorded for this story across runs (oldest first)
+    /// </summary>
+    public List<PhaseRejectionDto> Rejections { get; set; } = new();
+
+    /// <summary>
+    /// Results of every UnitTesting run in this pipeline run (oldest first), one per retry attempt
+    /// </summary>
+    public List<TestSummaryDto> TestRuns { get; set; } = new();
+
+    /// <summary>
+    /// Every retry attempt of this pipeline run (oldest first); RetryInfo only describes the pending one
+    /// </summary>
+    public List<RetryAttemptDto> RetryHistory { get; set; } = new();
 }
 
 /// <summary>
@@ -182,6 +227,26 @@ public class PhaseStatusDto
     public object? Result { get; set; }
     /// <summary>LLM calls made during this phase (since last approval).</summary>
     public List<LLMCallResult>? LlmCallsSummary { get; set; }
+    /// <summary>Every execution of the phase in this run, oldest first (retries and revisions add runs).</summary>
+    public List<PhaseRunDto> Runs { get; set; } = new();
+    /// <summary>Result is left over from before a rerun and no longer matches the earlier phases; cleared when the phase runs again.</summary>
+    public bool IsStale { get; set; }
+}
+
+/// <summary>
+/// One execution of a phase, for the run timeline
+/// </summary>
+public class PhaseRunDto
+{
+    public int RetryAttempt { get; set; }
+    public PhaseState State { get; set; }
+    public DateTime StartedAt { get; set; }
+    /// <summary>When the agent finished and the phase started waiting for a decision; null if it never waited.</summary>
+    public DateTime? WaitingSince { get; set; }
+    public DateTime? CompletedAt { get; set; }
+    public List<LLMCallResult> LlmCalls { get; set; } = new();
+    /// <summary>Name of the approval policy that approved this run without waiting for the user; null when a user decided.</summary>
+    public string? AutoApprovedBy { get; set; }
 }
 
 /// <summary>
@@ -190,6 +255,21 @@ public class PhaseStatusDto
 public class ProcessStoryRequest
 {
     public bool AutoApproveAll { get; set; } = false;
+
+    /// <summary>
+    /// Approval policy for this run; defaults to the story's, then the codebase's policy
+    /// </summary>
+    public string? ApprovalPolicyId { get; set; }
+}
+
+/// <summary>
+/// Request to rerun a pipeline from one of its phases
+/// </summary>
+public class RerunPipelineRequest
+{
+    public PipelinePhase FromPhase { get; set; }
+    public bool AutoApproveAll { get; set; } = false;
+    public string? ApprovalPolicyId { get; set; }
 }
 
 /// <summary>
@@ -199,6 +279,95 @@ public class ApprovePhaseRequest
 {
     public bool Approved { get; set; } = true;
     public string? Comment { get; set; }
+
+    /// <summary>
+    /// Edited task plan (Planning approval only). Replaces the planner's tasks when set.
+    /// </summary>
+    public List<TaskDto>? Tasks { get; set; }
+
+    /// <summary>
+    /// Per-file review of the generated code (Coding approval only).
+    /// Files without a decision are accepted.
+    /// </summary>
+    public List<CodingFileDecisionDto>? Files { get; set; }
+
+    /// <summary>
+    /// Composed pull request (PullRequest approval only). Without it the prefilled draft
+    /// is opened as a GitHub PR.
+    /// </summary>
+    public PullRequestOptionsDto? PullRequest { get; set; }
+}
+
+/// <summary>
+/// Reviewer decision for one generated file at Coding approval
+/// </summary>
+public class CodingFileDecisionDto
+{
+    /// <summary>File key as listed in the Coding result (e.g. "MyProject/Services/UserService.cs").</summary>
+    public string Path { get; set; } = string.Empty;
+    public FileReviewDecision Decision { get; set; } = FileReviewDecision.Accept;
+    /// <summary>What CoderAgent should change; required when rejecting.</summary>
+    public string? Note { get; set; }
+}
+
+/// <summary>
+/// Reviewer feedback recorded when a phase is rejected
+/// </summary>
+public class PhaseRejectionDto
+{
+    public PipelinePhase Phase { get; set; }
+    public RejectionCategory Category { get; set; } = RejectionCategory.Other;
+    public string? Reason { get; set; }
+    /// <summary>Indexes of the planned tasks the feedback refers to.</summary>
+    public List<int> TaskReferences { get; set; } = new();
+    /// <summary>Files (relative paths) the feedback refers to.</summary>
+    public List<string> FileReferences { get; set; } = new();
+    public DateTime RejectedAt { get; set; }
+}
+
+/// <summary>
+/// Generated file with the codebase content it replaces
+/// </summary>
+public class OutputFileDiffDto
+{
+    public string Path { get; set; } = string.Empty;
+    /// <summary>Content before the pipeline changed it; null when the file is new.</summary>
+    public string? Original { get; set; }
+    public string Modified { get; set; } = string.Empty;
+    public bool IsNewFile => Original == null;
+}
+
+/// <summary>
+/// Full transcript of one LLM call, for the call inspector
+/// </summary>
+public class LLMCallDetailDto
+{
+    public string CallId { get; set; } = string.Empty;
+    public string StoryId { get; set; } = string.Empty;
+    public string AgentName { get; set; } = string.Empty;
+    public PipelinePhase Phase { get; set; }
+    /// <summary>Prompt files the prompts were built from (e.g. "coder/coder-csharp").</summary>
+    public List<string> PromptFiles { get; set; } = new();
+    /// <summary>Prompt sections in the order they were sent, followed by the completion.</summary>
+    public List<LLMCallSectionDto> Sections { get; set; } = new();
+    public int PromptTokens { get; set; }
+    public int CompletionTokens { get; set; }
+    public int TotalTokens { get; set; }
+    public decimal ActualCostUSD { get; set; }
+    public TimeSpan Duration { get; set; }
+    public DateTime Timestamp { get; set; }
+}
+
+/// <summary>
+/// One section of an LLM call transcript
+/// </summary>
+public class LLMCallSectionDto
+{
+    /// <summary>"system", "user", "assistant" or "completion".</summary>
+    public string Role { get; set; } = string.Empty;
+    public string Content { get; set; } = string.Empty;
+    /// <summary>Token count for the section: estimated for prompt sections, as reported for the completion.</summary>
+    public int Tokens { get; set; }
 }
 
 /// <summary>
@@ -206,6 +375,10 @@ public class ApprovePhaseRequest
 /// </summary>
 public class PipelineUpdateMessage
 {
+    /// <summary>
+    /// Unique per update, lets clients de-duplicate replayed updates
+    /// </summary>
+    public string Id { get; set; } = Guid.NewGuid().ToString("N");
     public string StoryId { get; set; } = string.Empty;
     public string UpdateType { get; set; } = string.Empty;
     public PipelinePhase Phase { get; set; }
@@ -214,6 +387,19 @@ public class PipelineUpdateMessage
     public DateTime Timestamp { get; set; } = DateTime.UtcNow;
 }
 
+/// <summary>
+/// A page of a pipeline run's log, oldest entry first
+/// </summary>
+public class PipelineLogPageDto
+{
+    public List<PipelineUpdateMessage> Entries { get; set; } = new();
+
+    /// <summary>
+    /// True when older entries exist before the first one in this page
+    /// </summary>
+    public bool HasMore { get; set; }
+}
+
 // ═══════════════════════════════════════════════════════════════════════════════
 // Codebase DTOs
 // ═══════════════════════════════════════════════════════════════════════════════
@@ -230,6 +416,21 @@ public class CodebaseDto
     public DateTime? AnalyzedAt { get; set; }
     public DateTime CreatedAt { get; set; }
     public CodebaseSummaryDto? Summary { get; set; }
+
+    /// <summary>
+    /// Default approval policy for stories and requirements on this codebase
+    /// </summary>
+    public string? ApprovalPolicyId { get; set; }
+}
+
+/// <summary>
+/// Content of a codebase source file
+/// </summary>
+public class SourceFileDto
+{
+    /// <summary>Path relative to the codebase root.</summary>
+    public string Path { get; set; } = string.Empty;
+    public string Content { get; set; } = string.Empty;
 }
 
 /// <summary>
@@ -419,7 +620,8 @@ public enum FixTaskType
 {
     BuildError,       // Compilation error
     TestFailure,      // Unit test failure
-    IntegrationError  // Integration/dependency issue
+    IntegrationError, // Integration/dependency issue
+    ReviewFinding     // Issue found by the code review
 }
 
 /// <summary>
@@ -431,6 +633,7 @@ public class TestResultDto
     public string ClassName { get; set; } = string.Empty;
     public string? FilePath { get; set; }
     public bool Passed { get; set; }
+    public bool Skipped { get; set; }
     public string? ErrorMessage { get; set; }
     public string? StackTrace { get; set; }
     public TimeSpan Duration { get; set; }
@@ -452,6 +655,17 @@ public class TestSummaryDto
     public TimeSpan TotalDuration { get; set; }
     public bool IsBreakingChange => ExistingTestsFailed > 0;
     public List<TestResultDto> FailedTests { get; set; } = new();
+
+    /// <summary>
+    /// Every executed test, passed, failed and skipped (empty when only console output was available)
+    /// </summary>
+    public List<TestResultDto> Tests { get; set; } = new();
+
+    /// <summary>
+    /// Retry attempt the tests ran in (0 = first run)
+    /// </summary>
+    public int RetryAttempt { get; set; }
+    public DateTime RunAt { get; set; }
 }
 
 /// <summary>
@@ -468,6 +682,81 @@ public class RetryInfoDto
     public DateTime? LastAttemptAt { get; set; }
 }
 
+/// <summary>
+/// One retry attempt: what triggered it, how it was handled and the code it changed
+/// </summary>
+public class RetryAttemptDto
+{
+    /// <summary>1-based attempt number (matches TaskDto.RetryAttempt of its fix tasks)</summary>
+    public int Attempt { get; set; }
+    public RetryReason Reason { get; set; }
+    public string? Error { get; set; }
+    /// <summary>Test results that triggered the attempt</summary>
+    public TestSummaryDto? TestSummary { get; set; }
+    public List<FixTaskDto> FixTasks { get; set; } = new();
+    /// <summary>Action picked for the attempt (null while waiting for a decision)</summary>
+    public RetryAction? Action { get; set; }
+    public DateTime RequestedAt { get; set; }
+    public DateTime? StartedAt { get; set; }
+    /// <summary>Files changed by the attempt's fix tasks</summary>
+    public List<RetryFileChangeDto> Changes { get; set; } = new();
+}
+
+/// <summary>
+/// File content before and after a retry attempt's fix
+/// </summary>
+public class RetryFileChangeDto
+{
+    public string Path { get; set; } = string.Empty;
+    public string? Before { get; set; }  // null for files the fix created
+    public string After { get; set; } = string.Empty;
+}
+
+/// <summary>
+/// Issue from the review report, sent back to Coding as a fix task
+/// </summary>
+public class ReviewFindingDto
+{
+    /// <summary>critical, major or minor</summary>
+    public string Severity { get; set; } = string.Empty;
+    public string? Category { get; set; }
+    /// <summary>Generated file the finding refers to, as named in the report</summary>
+    public string File { get; set; } = string.Empty;
+    public int? Line { get; set; }
+    public string Description { get; set; } = string.Empty;
+    public string? Suggestion { get; set; }
+}
+
+/// <summary>
+/// Request to fix review findings before approving the Reviewing phase
+/// </summary>
+public class CreateReviewFixTasksRequest
+{
+    public List<ReviewFindingDto> Findings { get; set; } = new();
+}
+
+/// <summary>
+/// Why a reviewer rejected a phase
+/// </summary>
+public enum RejectionCategory
+{
+    WrongApproach,
+    MissingFiles,
+    Style,
+    IncorrectTarget,
+    Other
+}
+
+/// <summary>
+/// What happens to a generated file after Coding approval
+/// </summary>
+public enum FileReviewDecision
+{
+    Accept,     // Carried forward as is
+    Reject,     // Sent back to CoderAgent with the reviewer's note
+    Exclude     // Dropped - not debugged, reviewed or deployed
+}
+
 /// <summary>
 /// Reason for retry
 /// </summary>
@@ -475,7 +764,8 @@ public enum RetryReason
 {
     BuildFailed,
     TestsFailed,
-    IntegrationFailed
+    IntegrationFailed,
+    ReviewFindings
 }
 
 /// <summary>
@@ -498,3 +788,363 @@ public enum RetryAction
     SkipTests,     // Skip failed tests and continue
     Abort          // Abort the pipeline
 }
+
+/// <summary>
+/// Workspace for fixing failed tests by hand (RetryAction.ManualFix)
+/// </summary>
+public class ManualFixDto
+{
+    public List<FixTaskDto> FixTasks { get; set; } = new();
+    public List<ManualFixFileDto> Files { get; set; } = new();
+    public DateTime StartedAt { get; set; }
+}
+
+/// <summary>
+/// Deployed file named by a fix task, opened at the failing line
+/// </summary>
+public class ManualFixFileDto
+{
+    /// <summary>Path relative to the codebase root</summary>
+    public string Path { get; set; } = string.Empty;
+    /// <summary>1-based failing line, when the error location or stack trace names one</summary>
+    public int? Line { get; set; }
+    /// <summary>Indexes of the fix tasks that point at this file</summary>
+    public List<int> FixTaskIndexes { get; set; } = new();
+    /// <summary>The file was saved in the workspace</summary>
+    public bool Saved { get; set; }
+}
+
+/// <summary>
+/// Save a file edited in the manual fix workspace
+/// </summary>
+public class SaveManualFixFileRequest
+{
+    public string Path { get; set; } = string.Empty;
+    public string Content { get; set; } = string.Empty;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Approval Policy DTOs
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/// <summary>
+/// Named set of approval gates that continue without waiting for the user.
+/// Gates not listed stop for a decision as usual.
+/// </summary>
+public class ApprovalPolicyDto
+{
+    /// <summary>
+    /// Policy id a start request can pass to make every gate wait, overriding assigned policies
+    /// </summary>
+    public const string ManualId = "manual";
+
+    public string Id { get; set; } = string.Empty;
+    public string Name { get; set; } = string.Empty;
+    public string? Description { get; set; }
+
+    /// <summary>
+    /// Pipeline phases approved automatically. UnitTesting also covers the retry decision after
+    /// failed tests (auto-fix); PullRequest completes without a PR.
+    /// </summary>
+    public List<PipelinePhase> AutoApprovePhases { get; set; } = new();
+
+    /// <summary>
+    /// Requirement wizard phases approved automatically (Analysis, Refinement, Decomposition)
+    /// </summary>
+    public List<WizardPhaseDto> AutoApproveWizardPhases { get; set; } = new();
+
+    public DateTime CreatedAt { get; set; }
+    public DateTime UpdatedAt { get; set; }
+}
+
+/// <summary>
+/// Request to create or update an approval policy
+/// </summary>
+public class SaveApprovalPolicyRequest
+{
+    public string Name { get; set; } = string.Empty;
+    public string? Description { get; set; }
+    public List<PipelinePhase> AutoApprovePhases { get; set; } = new();
+    public List<WizardPhaseDto> AutoApproveWizardPhases { get; set; } = new();
+}
+
+/// <summary>
+/// Request to assign an approval policy to a story or codebase (null clears it)
+/// </summary>
+public class AssignApprovalPolicyRequest
+{
+    public string? ApprovalPolicyId { get; set; }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Pipeline Queue DTOs
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/// <summary>
+/// Batch queue of stories started one after another, a few at a time
+/// </summary>
+public class PipelineQueueDto
+{
+    /// <summary>
+    /// Highest MaxConcurrency accepted
+    /// </summary>
+    public const int MaxConcurrencyLimit = 5;
+
+    /// <summary>
+    /// Pipelines allowed to run at once; pipelines started outside the queue count too
+    /// </summary>
+    public int MaxConcurrency { get; set; }
+
+    /// <summary>
+    /// Stop starting queued stories after a run fails (true) or carry on with the next one (false)
+    /// </summary>
+    public bool PauseOnFailure { get; set; }
+
+    /// <summary>
+    /// Why the queue stopped starting stories; null while it is active
+    /// </summary>
+    public string? PausedReason { get; set; }
+
+    /// <summary>
+    /// Queued items in start order, then running and finished ones
+    /// </summary>
+    public List<PipelineQueueItemDto> Items { get; set; } = new();
+}
+
+/// <summary>
+/// One story in the pipeline queue
+/// </summary>
+public class PipelineQueueItemDto
+{
+    public string Id { get; set; } = string.Empty;
+    public string StoryId { get; set; } = string.Empty;
+    public string StoryName { get; set; } = string.Empty;
+    public QueueItemState State { get; set; }
+
+    /// <summary>
+    /// Approval policy the run is started with; null uses the story's, then the codebase's policy
+    /// </summary>
+    public string? ApprovalPolicyId { get; set; }
+
+    /// <summary>
+    /// Stories that must complete before this one starts
+    /// </summary>
+    public List<string> DependsOn { get; set; } = new();
+
+    /// <summary>
+    /// Why the run failed, was cancelled or is blocked
+    /// </summary>
+    public string? Message { get; set; }
+
+    public DateTime EnqueuedAt { get; set; }
+    public DateTime? StartedAt { get; set; }
+    public DateTime? FinishedAt { get; set; }
+}
+
+public enum QueueItemState
+{
+    Queued,
+    Running,
+    Completed,
+    Failed,     // Did not complete (failed, rejected or cancelled outside the queue)
+    Cancelled,  // Removed from the queue, or cancelled from the queue panel
+    Blocked     // Not started because a story it depends on did not complete
+}
+
+/// <summary>
+/// Request to add stories to the pipeline queue, in the order given
+/// </summary>
+public class EnqueueStoriesRequest
+{
+    public List<string> StoryIds { get; set; } = new();
+    public string? ApprovalPolicyId { get; set; }
+
+    /// <summary>
+    /// Story id -> stories in this batch that must complete first. Dependencies outside the batch are ignored.
+    /// </summary>
+    public Dictionary<string, List<string>> DependsOn { get; set; } = new();
+
+    /// <summary>
+    /// Queue settings to apply with this batch; current settings are kept when null
+    /// </summary>
+    public int? MaxConcurrency { get; set; }
+    public bool? PauseOnFailure { get; set; }
+}
+
+/// <summary>
+/// Request to change how the queue runs
+/// </summary>
+public class UpdatePipelineQueueSettingsRequest
+{
+    public int MaxConcurrency { get; set; } = 1;
+    public bool PauseOnFailure { get; set; } = true;
+}
+
+/// <summary>
+/// New start order of queued items; queued items not listed keep their place after the listed ones
+/// </summary>
+public class ReorderPipelineQueueRequest
+{
+    public List<string> ItemIds { get; set; } = new();
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Pull Request DTOs
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/// <summary>
+/// What the PullRequest phase makes of the deployed changes
+/// </summary>
+public enum PullRequestTarget
+{
+    GitHub,         // Branch, commit, push and open a PR with the GitHub CLI (gh)
+    LocalBranch,    // Branch and commit in the local repository only
+    PatchFile       // Write a .patch file next to the story output; the repository is left as is
+}
+
+/// <summary>
+/// Pull request details offered at the PullRequest phase, prefilled from the story,
+/// its tasks, the test summary and the review report
+/// </summary>
+public class PullRequestDraftDto
+{
+    /// <summary>
+    /// GitHub at first; after a failed attempt, the target that was tried
+    /// </summary>
+    public PullRequestTarget Target { get; set; } = PullRequestTarget.GitHub;
+
+    public string BranchName { get; set; } = string.Empty;
+
+    /// <summary>
+    /// Branch the codebase repository is on; null when the codebase is not in a git repository
+    /// </summary>
+    public string? BaseBranch { get; set; }
+
+    public string Title { get; set; } = string.Empty;
+
+    /// <summary>
+    /// Markdown description
+    /// </summary>
+    public string Body { get; set; } = string.Empty;
+
+    public List<string> Labels { get; set; } = new();
+    public List<string> Reviewers { get; set; } = new();
+
+    /// <summary>
+    /// Deployed files relative to the codebase root, including updated project files
+    /// </summary>
+    public List<string> Files { get; set; } = new();
+
+    public int NewFiles { get; set; }
+    public int ModifiedFiles { get; set; }
+    public int RetryAttempts { get; set; }
+
+    /// <summary>
+    /// Why the last attempt failed; the phase waits for approval again with the submitted details
+    /// </summary>
+    public string? Error { get; set; }
+}
+
+/// <summary>
+/// Pull request details submitted with the PullRequest approval
+/// </summary>
+public class PullRequestOptionsDto
+{
+    public PullRequestTarget Target { get; set; } = PullRequestTarget.GitHub;
+    public string BranchName { get; set; } = string.Empty;
+
+    /// <summary>
+    /// Branch the GitHub PR merges into; the repository's default branch when empty
+    /// </summary>
+    public string? BaseBranch { get; set; }
+
+    public string Title { get; set; } = string.Empty;
+    public string Body { get; set; } = string.Empty;
+    public List<string> Labels { get; set; } = new();
+    public List<string> Reviewers { get; set; } = new();
+}
+
+/// <summary>
+/// Outcome of the PullRequest phase, kept as its result
+/// </summary>
+public class PullRequestResultDto
+{
+    public PullRequestTarget Target { get; set; }
+    public string BranchName { get; set; } = string.Empty;
+    public string? CommitSha { get; set; }
+
+    /// <summary>
+    /// GitHub PR address (GitHub only)
+    /// </summary>
+    public string? Url { get; set; }
+
+    /// <summary>
+    /// Set when a patch file was written; download it from the pull request patch endpoint
+    /// </summary>
+    public bool HasPatch { get; set; }
+
+    public string Message { get; set; } = string.Empty;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Cost Budget DTOs
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/// <summary>
+/// Limits on LLM spend. A null limit is not enforced; a budget without limits is removed.
+/// Budgets are enforced at phase boundaries: the phase in progress is not interrupted,
+/// so spend can end up above a limit by that phase's own calls.
+/// </summary>
+public class CostBudgetDto
+{
+    /// <summary>
+    /// Total tokens (prompt and completion)
+    /// </summary>
+    public int? MaxTokens { get; set; }
+
+    public decimal? MaxCostUSD { get; set; }
+
+    public bool HasLimits => MaxTokens.HasValue || MaxCostUSD.HasValue;
+}
+
+/// <summary>
+/// What a budget covers
+/// </summary>
+public enum BudgetScope
+{
+    Story,          // one pipeline run of the story, retries included
+    Requirement     // every run of every story created from the requirement
+}
+
+/// <summary>
+/// A run paused before a phase because a budget was exceeded. It continues only once approved.
+/// </summary>
+public class BudgetPauseDto
+{
+    public BudgetScope Scope { get; set; }
+
+    /// <summary>
+    /// Story or requirement the budget belongs to
+    /// </summary>
+    public string ScopeId { get; set; } = string.Empty;
+
+    /// <summary>
+    /// Phase that waits to start
+    /// </summary>
+    public PipelinePhase Phase { get; set; }
+
+    public CostBudgetDto Budget { get; set; } = new();
+    public int SpentTokens { get; set; }
+    public decimal SpentCostUSD { get; set; }
+    public DateTime PausedAt { get; set; }
+}
+
+/// <summary>
+/// LLM calls recorded for a story across all its runs
+/// </summary>
+public class LLMUsageDto
+{
+    public int Calls { get; set; }
+    public int TotalTokens { get; set; }
+    public decimal CostUSD { get; set; }
+}
@@ -51,6 +51,10 @@ public class LLMCallInfo
 /// </summary>
 public class LLMCallResult
 {
+    /// <summary>
+    /// Id of the call's stored transcript; null for calls recorded before transcripts were kept
+    /// </summary>
+    public string? CallId { get; set; }
     public string AgentName { get; set; } = string.Empty;
     public string Phase { get; set; } = string.Empty;
     public int PromptTokens { get; set; }
@@ -17,6 +17,11 @@ public class RequirementDto
     public RequirementStatusDto Status { get; set; }
     public WizardPhaseDto CurrentPhase { get; set; }
     public string? CodebaseId { get; set; }
+
+    /// <summary>
+    /// LLM spend allowed across all runs of the requirement's stories; null when unlimited
+    /// </summary>
+    public CostBudgetDto? Budget { get; set; }
     public DateTime CreatedAt { get; set; }
     public DateTime UpdatedAt { get; set; }
     public DateTime? CompletedAt { get; set; }
@@ -88,6 +93,11 @@ public class WizardStatusDto
     public DateTime? StartedAt { get; set; }
     public DateTime? CompletedAt { get; set; }
     public string? Error { get; set; }
+
+    /// <summary>
+    /// Policy the wizard was started with; null when every phase waits for approval
+    /// </summary>
+    public ApprovalPolicyDto? ApprovalPolicy { get; set; }
 }
 
 /// <summary>
@@ -101,6 +111,11 @@ public class WizardPhaseStatusDto
     public DateTime? StartedAt { get; set; }
     public DateTime? CompletedAt { get; set; }
     public object? Result { get; set; }
+
+    /// <summary>
+    /// Name of the approval policy that approved this phase without waiting for the user
+    /// </summary>
+    public string? AutoApprovedBy { get; set; }
 }
 
 // ═══════════════════════════════════════════════════════════════════════════════
@@ -173,6 +188,11 @@ public class StoryDefinitionDto
     public List<string> Dependencies { get; set; } = new();
     public string? TechnicalNotes { get; set; }
     public bool Selected { get; set; } = true;
+
+    /// <summary>
+    /// Story created from this definition; Dependencies name other definitions by Id
+    /// </summary>
+    public string? CreatedStoryId { get; set; }
 }
 
 /// <summary>
@@ -186,6 +206,75 @@ public class CreateStoriesRequest
     public List<string> SelectedStoryIds { get; set; } = new();
 }
 
+// ═══════════════════════════════════════════════════════════════════════════════
+// Story Dependency Graph DTOs
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/// <summary>
+/// Stories created from a requirement, linked by their definitions' dependencies
+/// </summary>
+public class StoryGraphDto
+{
+    public string RequirementId { get; set; } = string.Empty;
+
+    /// <summary>
+    /// Stories in run order (topological, then creation order)
+    /// </summary>
+    public List<StoryGraphNodeDto> Nodes { get; set; } = new();
+
+    /// <summary>
+    /// Some dependencies form a cycle, so the stories cannot be run in order
+    /// </summary>
+    public bool HasCycle { get; set; }
+}
+
+/// <summary>
+/// One story in the dependency graph
+/// </summary>
+public class StoryGraphNodeDto
+{
+    public string StoryId { get; set; } = string.Empty;
+
+    /// <summary>
+    /// Definition the story was created from (e.g. "STR-1"); null when it cannot be matched
+    /// </summary>
+    public string? DefinitionId { get; set; }
+
+    public string Name { get; set; } = string.Empty;
+    public StoryStatus Status { get; set; }
+
+    /// <summary>
+    /// State of the story's latest pipeline queue item; null when it was never queued
+    /// </summary>
+    public QueueItemState? QueueState { get; set; }
+    public string? QueueMessage { get; set; }
+
+    /// <summary>
+    /// Stories of this requirement that must complete first
+    /// </summary>
+    public List<string> DependsOn { get; set; } = new();
+
+    /// <summary>
+    /// Longest dependency chain leading to this story (0 = no dependencies)
+    /// </summary>
+    public int Level { get; set; }
+
+    /// <summary>
+    /// The story is part of (or depends on) a dependency cycle
+    /// </summary>
+    public bool InCycle { get; set; }
+}
+
+/// <summary>
+/// Request to run a requirement's stories in dependency order
+/// </summary>
+public class RunRequirementStoriesRequest
+{
+    public string? ApprovalPolicyId { get; set; }
+    public int? MaxConcurrency { get; set; }
+    public bool? PauseOnFailure { get; set; }
+}
+
 // ═══════════════════════════════════════════════════════════════════════════════
 // Wizard Action Requests
 // ═══════════════════════════════════════════════════════════════════════════════
@@ -199,6 +288,11 @@ public class StartWizardRequest
     /// Auto-approve all phases (skip waiting for user approval)
     /// </summary>
     public bool AutoApproveAll { get; set; } = false;
+
+    /// <summary>
+    /// Approval policy for the wizard; defaults to the codebase's policy
+    /// </summary>
+    public string? ApprovalPolicyId { get; set; }
 }
 
 /// <summary>
@@ -117,12 +117,18 @@ builder.Services.AddControllers();
 // SignalR
 builder.Services.AddSignalR();
 
-// CORS (for development with separate React dev server)
+// CORS (for development with separate React dev server, plus any UI origins that
+// point a backend profile at this instance - see Cors:AllowedOrigins)
+var corsOrigins = new[] { "http://localhost:3000", "http://localhost:5173" }
+    .Concat(builder.Configuration.GetSection("Cors:AllowedOrigins").Get<string[]>() ?? Array.Empty<string>())
+    .Distinct()
+    .ToArray();
+
 builder.Services.AddCors(options =>
 {
     options.AddPolicy("AllowReactApp", policy =>
     {
-        policy.WithOrigins("http://localhost:3000", "http://localhost:5173")
+        policy.WithOrigins(corsOrigins)
               .AllowAnyHeader()
               .AllowAnyMethod()
               .AllowCredentials();
@@ -153,6 +159,12 @@ builder.Services.AddSingleton<IStoryRepository>(sp =>
 builder.Services.AddSingleton<IOutputRepository>(sp =>
     new FileSystemOutputRepository(outputPath, sp.GetRequiredService<ILogger<FileSystemOutputRepository>>()));
 
+builder.Services.AddSingleton<IPipelineLogRepository>(sp =>
+    new FileSystemPipelineLogRepository(storiesPath, sp.GetRequiredService<ILogger<FileSystemPipelineLogRepository>>()));
+
+builder.Services.AddSingleton<ILLMCallRepository>(sp =>
+    new FileSystemLLMCallRepository(storiesPath, sp.GetRequiredService<ILogger<FileSystemLLMCallRepository>>()));
+
 builder.Services.AddSingleton<ICodebaseRepository>(sp =>
     new FileSystemCodebaseRepository(codebasesPath, sp.GetRequiredService<ILogger<FileSystemCodebaseRepository>>()));
 
@@ -162,6 +174,9 @@ builder.Services.AddSingleton<IRequirementRepository>(sp =>
 builder.Services.AddSingleton<IKnowledgeRepository>(sp =>
     new FileSystemKnowledgeRepository(knowledgeBasePath, sp.GetRequiredService<ILogger<FileSystemKnowledgeRepository>>()));
 
+builder.Services.AddSingleton<IApprovalPolicyRepository>(sp =>
+    new FileSystemApprovalPolicyRepository(appDataDir, sp.GetRequiredService<ILogger<FileSystemApprovalPolicyRepository>>()));
+
 // Codebase analysis (multi-language: C#, Go, Rust, Python, React/TypeScript)
 builder.Services.AddSingleton<AIDevelopmentEasy.Core.Analysis.ICodebaseAnalyzer, AIDevelopmentEasy.Core.Analysis.CSharp.CSharpCodebaseAnalyzer>();
 builder.Services.AddSingleton<AIDevelopmentEasy.Core.Analysis.ICodebaseAnalyzer, AIDevelopmentEasy.Core.Analysis.Go.GoCodebaseAnalyzer>();
@@ -207,10 +222,13 @@ builder.Services.AddSingleton(sp =>
 builder.Services.AddSingleton<IStoryNameGenerator>(sp =>
     new StoryNameGenerator(openAIClient, deploymentName, sp.GetRequiredService<ILogger<StoryNameGenerator>>()));
 builder.Services.AddSingleton<IPipelineNotificationService, SignalRPipelineNotificationService>();
+builder.Services.AddSingleton<IPullRequestService, PullRequestService>();
 builder.Services.AddSingleton<IPipelineService, PipelineService>();
+builder.Services.AddSingleton<IPipelineQueueService, PipelineQueueService>();
 
 // Requirement Wizard Service
 builder.Services.AddSingleton<IRequirementWizardService, RequirementWizardService>();
+builder.Services.AddSingleton<IRequirementRunService, RequirementRunService>();
 
 // Knowledge Service
 builder.Services.AddSingleton<IKnowledgeService, KnowledgeService>();
@@ -270,7 +288,7 @@ _ = LLMUsageTracker.Instance;
 BaseAgent.OnLLMCallCompleted = (info) =>
 {
     LLMUsageTracker.Instance.RecordFromCore(info);
-    PipelineService.InvokePipelineLLMCallback(PipelineService.FromCoreInfo(info));
+    PipelineService.InvokePipelineLLMCallback(info);
 };
 Log.Information("  LLM Usage Tracker: Initialized");
 
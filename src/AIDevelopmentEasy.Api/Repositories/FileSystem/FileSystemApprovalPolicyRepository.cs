@@ -0,0 +1,196 @@
+using System.Text.Json;
+using AIDevelopmentEasy.Api.Models;
+using AIDevelopmentEasy.Api.Repositories.Interfaces;
+
+namespace AIDevelopmentEasy.Api.Repositories.FileSystem;
+
+/// <summary>
+/// File system based implementation of IApprovalPolicyRepository.
+/// All policies are stored in a single approval-policies.json file, which is
+/// seeded with a few common policies the first time it is read.
+/// </summary>
+public class FileSystemApprovalPolicyRepository : IApprovalPolicyRepository
+{
+    private readonly string _filePath;
+    private readonly ILogger<FileSystemApprovalPolicyRepository> _logger;
+    private readonly JsonSerializerOptions _jsonOptions;
+    private readonly SemaphoreSlim _lock = new(1, 1);
+
+    private const string FileName = "approval-policies.json";
+
+    public FileSystemApprovalPolicyRepository(string dataPath, ILogger<FileSystemApprovalPolicyRepository> logger)
+    {
+        _filePath = Path.Combine(dataPath, FileName);
+        _logger = logger;
+        _jsonOptions = new JsonSerializerOptions
+        {
+            PropertyNamingPolicy = JsonNamingPolicy.CamelCase,
+            WriteIndented = true
+        };
+    }
+
+    public async Task<IEnumerable<ApprovalPolicyDto>> GetAllAsync(CancellationToken cancellationToken = default)
+    {
+        await _lock.WaitAsync(cancellationToken);
+        try
+        {
+            var policies = await LoadPoliciesAsync(cancellationToken);
+            return policies.OrderBy(p => p.Name, StringComparer.OrdinalIgnoreCase).ToList();
+        }
+        finally
+        {
+            _lock.Release();
+        }
+    }
+
+    public async Task<ApprovalPolicyDto?> GetByIdAsync(string id, CancellationToken cancellationToken = default)
+    {
+        await _lock.WaitAsync(cancellationToken);
+        try
+        {
+            var policies = await LoadPoliciesAsync(cancellationToken);
+            return policies.FirstOrDefault(p => p.Id == id);
+        }
+        finally
+        {
+            _lock.Release();
+        }
+    }
+
+    public async Task<ApprovalPolicyDto> CreateAsync(SaveApprovalPolicyRequest request, CancellationToken cancellationToken = default)
+    {
+        await _lock.WaitAsync(cancellationToken);
+        try
+        {
+            var policies = await LoadPoliciesAsync(cancellationToken);
+            var policy = new ApprovalPolicyDto
+            {
+                Id = GenerateId(),
+                CreatedAt = DateTime.UtcNow
+            };
+            Apply(policy, request);
+            policies.Add(policy);
+
+            await SavePoliciesAsync(policies, cancellationToken);
+            _logger.LogInformation("Created approval policy: {Id} - {Name}", policy.Id, policy.Name);
+            return policy;
+        }
+        finally
+        {
+            _lock.Release();
+        }
+    }
+
+    public async Task<ApprovalPolicyDto?> UpdateAsync(string id, SaveApprovalPolicyRequest request, CancellationToken cancellationToken = default)
+    {
+        await _lock.WaitAsync(cancellationToken);
+        try
+        {
+            var policies = await LoadPoliciesAsync(cancellationToken);
+            var policy = policies.FirstOrDefault(p => p.Id == id);
+            if (policy == null)
+                return null;
+
+            Apply(policy, request);
+            await SavePoliciesAsync(policies, cancellationToken);
+            _logger.LogInformation("Updated approval policy: {Id} - {Name}", policy.Id, policy.Name);
+            return policy;
+        }
+        finally
+        {
+            _lock.Release();
+        }
+    }
+
+    public async Task<bool> DeleteAsync(string id, CancellationToken cancellationToken = default)
+    {
+        await _lock.WaitAsync(cancellationToken);
+        try
+        {
+            var policies = await LoadPoliciesAsync(cancellationToken);
+            if (policies.RemoveAll(p => p.Id == id) == 0)
+                return false;
+
+            await SavePoliciesAsync(policies, cancellationToken);
+            _logger.LogInformation("Deleted approval policy: {Id}", id);
+            return true;
+        }
+        finally
+        {
+            _lock.Release();
+        }
+    }
+
+    #region Private Methods
+
+    private static void Apply(ApprovalPolicyDto policy, SaveApprovalPolicyRequest request)
+    {
+        policy.Name = request.Name.Trim();
+        policy.Description = string.IsNullOrWhiteSpace(request.Description) ? null : request.Description.Trim();
+        policy.AutoApprovePhases = request.AutoApprovePhases.Distinct().OrderBy(p => p).ToList();
+        policy.AutoApproveWizardPhases = request.AutoApproveWizardPhases.Distinct().OrderBy(p => p).ToList();
+        policy.UpdatedAt = DateTime.UtcNow;
+    }
+
+    private static string GenerateId()
+    {
+        // Format: POL-YYYYMMDD-XXXX (like STR-/REQ- ids)
+        var date = DateTime.UtcNow.ToString("yyyyMMdd");
+        var random = Guid.NewGuid().ToString("N")[..4].ToUpper();
+        return $"POL-{date}-{random}";
+    }
+
+    private async Task<List<ApprovalPolicyDto>> LoadPoliciesAsync(CancellationToken cancellationToken)
+    {
+        if (!File.Exists(_filePath))
+        {
+            var defaults = CreateDefaultPolicies();
+            await SavePoliciesAsync(defaults, cancellationToken);
+            _logger.LogInformation("Seeded {Count} default approval policies", defaults.Count);
+            return defaults;
+        }
+
+        var json = await File.ReadAllTextAsync(_filePath, cancellationToken);
+        return JsonSerializer.Deserialize<List<ApprovalPolicyDto>>(json, _jsonOptions) ?? new List<ApprovalPolicyDto>();
+    }
+
+    private async Task SavePoliciesAsync(List<ApprovalPolicyDto> policies, CancellationToken cancellationToken)
+    {
+        var json = JsonSerializer.Serialize(policies, _jsonOptions);
+        await File.WriteAllTextAsync(_filePath, json, cancellationToken);
+    }
+
+    private static List<ApprovalPolicyDto> CreateDefaultPolicies()
+    {
+        var now = DateTime.UtcNow;
+        return new List<ApprovalPolicyDto>
+        {
+            new()
+            {
+                Id = "POL-REVIEW-GATES",
+                Name = "Auto-approve analysis, planning & review",
+                Description = "Analysis, planning and review continue on their own; code, deployment and the pull request wait for a decision.",
+                AutoApprovePhases = new() { PipelinePhase.Analysis, PipelinePhase.Planning, PipelinePhase.Reviewing },
+                AutoApproveWizardPhases = new() { WizardPhaseDto.Analysis },
+                CreatedAt = now,
+                UpdatedAt = now
+            },
+            new()
+            {
+                Id = "POL-UNTIL-DEPLOY",
+                Name = "Stop before deployment",
+                Description = "Everything up to the review continues on its own; deployment, tests and the pull request wait for a decision.",
+                AutoApprovePhases = new()
+                {
+                    PipelinePhase.Analysis, PipelinePhase.Planning, PipelinePhase.Coding,
+                    PipelinePhase.Debugging, PipelinePhase.Reviewing
+                },
+                AutoApproveWizardPhases = new() { WizardPhaseDto.Analysis, WizardPhaseDto.Refinement, WizardPhaseDto.Decomposition },
+                CreatedAt = now,
+                UpdatedAt = now
+            }
+        };
+    }
+
+    #endregion
+}
@@ -6,7 +6,8 @@ namespace AIDevelopmentEasy.Api.Repositories.FileSystem;
 
 /// <summary>
 /// File system based implementation of IApprovalRepository.
-/// Approval state is stored as _approved.json and _completed.json files.
+/// Approval state is stored as _approved.json and _completed.json files,
+/// phase rejection history as _rejections.json.
 /// </summary>
 public class FileSystemApprovalRepository : IApprovalRepository
 {
@@ -17,6 +18,7 @@ public class FileSystemApprovalRepository : IApprovalRepository
     private const string ApprovedFileName = "_approved.json";
     private const string CompletedFileName = "_completed.json";
     private const string InProgressFileName = "_inprogress.json";
+    private const string RejectionsFileName = "_rejections.json";
 
     public FileSystemApprovalRepository(string storiesPath, ILogger<FileSystemApprovalRepository> logger)
     {
@@ -140,6 +142,38 @@ public class FileSystemApprovalRepository : IApprovalRepository
         return Task.CompletedTask;
     }
 
+    public async Task AddRejectionAsync(string storyId, PhaseRejectionDto rejection, CancellationToken cancellationToken = default)
+    {
+        var folderPath = GetStoryFolder(storyId);
+        Directory.CreateDirectory(folderPath);
+
+        var rejections = await GetRejectionsAsync(storyId, cancellationToken);
+        rejections.Add(rejection);
+
+        var json = JsonSerializer.Serialize(rejections, _jsonOptions);
+        await File.WriteAllTextAsync(GetRejectionsFilePath(storyId), json, cancellationToken);
+
+        _logger.LogInformation("Phase {Phase} rejection recorded for story: {StoryId}", rejection.Phase, storyId);
+    }
+
+    public async Task<List<PhaseRejectionDto>> GetRejectionsAsync(string storyId, CancellationToken cancellationToken = default)
+    {
+        var filePath = GetRejectionsFilePath(storyId);
+        if (!File.Exists(filePath))
+            return new List<PhaseRejectionDto>();
+
+        try
+        {
+            var json = await File.ReadAllTextAsync(filePath, cancellationToken);
+            return JsonSerializer.Deserialize<List<PhaseRejectionDto>>(json, _jsonOptions) ?? new List<PhaseRejectionDto>();
+        }
+        catch (JsonException ex)
+        {
+            _logger.LogWarning(ex, "Failed to read rejection history for story: {StoryId}", storyId);
+            return new List<PhaseRejectionDto>();
+        }
+    }
+
     public async Task<StoryStatus> GetStatusAsync(string storyId, CancellationToken cancellationToken = default)
     {
         var isCompleted = await IsCompletedAsync(storyId, cancellationToken);
@@ -177,4 +211,9 @@ public class FileSystemApprovalRepository : IApprovalRepository
     {
         return Path.Combine(GetStoryFolder(storyId), InProgressFileName);
     }
+
+    private string GetRejectionsFilePath(string storyId)
+    {
+        return Path.Combine(GetStoryFolder(storyId), RejectionsFileName);
+    }
 }
@@ -244,6 +244,26 @@ public class FileSystemCodebaseRepository : ICodebaseRepository
         }
     }
 
+    public async Task<bool> UpdateApprovalPolicyAsync(string id, string? approvalPolicyId, CancellationToken cancellationToken = default)
+    {
+        var metadataPath = Path.Combine(GetCodebaseDirectory(id), MetadataFileName);
+        if (!File.Exists(metadataPath))
+            return false;
+
+        EnsureWritable(metadataPath);
+        var json = await File.ReadAllTextAsync(metadataPath, cancellationToken);
+        var metadata = JsonSerializer.Deserialize<CodebaseMetadata>(json, _jsonOptions);
+        if (metadata == null)
+            return false;
+
+        metadata.ApprovalPolicyId = approvalPolicyId;
+        var updatedJson = JsonSerializer.Serialize(metadata, _jsonOptions);
+        await File.WriteAllTextAsync(metadataPath, updatedJson, cancellationToken);
+
+        _logger.LogInformation("Updated codebase {Id} approval policy to: {PolicyId}", id, approvalPolicyId ?? "none");
+        return true;
+    }
+
     public Task<bool> DeleteAsync(string id, CancellationToken cancellationToken = default)
     {
         var codebaseDir = GetCodebaseDirectory(id);
@@ -384,7 +404,8 @@ public class FileSystemCodebaseRepository : ICodebaseRepository
                 Path = metadata.Path,
                 Status = metadata.Status,
                 AnalyzedAt = metadata.AnalyzedAt,
-                CreatedAt = metadata.CreatedAt
+                CreatedAt = metadata.CreatedAt,
+                ApprovalPolicyId = metadata.ApprovalPolicyId
             };
 
             // Load summary from analysis if available
@@ -437,5 +458,6 @@ public class FileSystemCodebaseRepository : ICodebaseRepository
         public CodebaseStatus Status { get; set; }
         public DateTime? AnalyzedAt { get; set; }
         public DateTime CreatedAt { get; set; }
+        public string? ApprovalPolicyId { get; set; }
     }
 }
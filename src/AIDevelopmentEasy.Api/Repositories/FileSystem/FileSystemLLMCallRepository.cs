@@ -0,0 +1,159 @@
+using System.Collections.Concurrent;
+using System.Text.Json;
+using AIDevelopmentEasy.Api.Models;
+using AIDevelopmentEasy.Api.Repositories.Interfaces;
+
+namespace AIDevelopmentEasy.Api.Repositories.FileSystem;
+
+/// <summary>
+/// File system based implementation of ILLMCallRepository.
+/// Each call is stored as stories/{id}/llm_calls/{callId}.json, so transcripts
+/// stay available for earlier runs after a story is reprocessed. Running token and
+/// cost totals are kept in stories/{id}/_llm_usage.json so budget checks don't
+/// have to read the transcripts.
+/// </summary>
+public class FileSystemLLMCallRepository : ILLMCallRepository
+{
+    private readonly string _storiesPath;
+    private readonly ILogger<FileSystemLLMCallRepository> _logger;
+    private readonly JsonSerializerOptions _jsonOptions;
+    private readonly ConcurrentDictionary<string, SemaphoreSlim> _locks = new();
+
+    private const string CallsFolderName = "llm_calls";
+    private const string UsageFileName = "_llm_usage.json";
+
+    public FileSystemLLMCallRepository(string storiesPath, ILogger<FileSystemLLMCallRepository> logger)
+    {
+        _storiesPath = storiesPath;
+        _logger = logger;
+        _jsonOptions = new JsonSerializerOptions
+        {
+            PropertyNamingPolicy = JsonNamingPolicy.CamelCase
+        };
+    }
+
+    public async Task SaveAsync(LLMCallDetailDto call, CancellationToken cancellationToken = default)
+    {
+        var filePath = GetCallFilePath(call.StoryId, call.CallId)
+            ?? throw new ArgumentException($"Invalid LLM call id: {call.CallId}");
+
+        var gate = GetLock(call.StoryId);
+        await gate.WaitAsync(cancellationToken);
+        try
+        {
+            // Totals are read before the transcript is written, so a rebuild doesn't count this call twice
+            var usage = await ReadUsageAsync(call.StoryId, cancellationToken);
+
+            Directory.CreateDirectory(Path.GetDirectoryName(filePath)!);
+            var json = JsonSerializer.Serialize(call, _jsonOptions);
+            await File.WriteAllTextAsync(filePath, json, cancellationToken);
+
+            usage.Calls++;
+            usage.TotalTokens += call.TotalTokens;
+            usage.CostUSD += call.ActualCostUSD;
+            await WriteUsageAsync(call.StoryId, usage, cancellationToken);
+        }
+        finally
+        {
+            gate.Release();
+        }
+
+        _logger.LogDebug("Saved LLM call transcript: {FilePath}", filePath);
+    }
+
+    public async Task<LLMCallDetailDto?> GetAsync(string storyId, string callId, CancellationToken cancellationToken = default)
+    {
+        var filePath = GetCallFilePath(storyId, callId);
+        if (filePath == null || !File.Exists(filePath))
+            return null;
+
+        var json = await File.ReadAllTextAsync(filePath, cancellationToken);
+        return JsonSerializer.Deserialize<LLMCallDetailDto>(json, _jsonOptions);
+    }
+
+    public async Task<LLMUsageDto> GetUsageAsync(string storyId, CancellationToken cancellationToken = default)
+    {
+        var gate = GetLock(storyId);
+        await gate.WaitAsync(cancellationToken);
+        try
+        {
+            return await ReadUsageAsync(storyId, cancellationToken);
+        }
+        finally
+        {
+            gate.Release();
+        }
+    }
+
+    // Reads the totals file; when it is missing (stories run before it existed) or unreadable,
+    // the totals are rebuilt from the transcripts once and stored
+    private async Task<LLMUsageDto> ReadUsageAsync(string storyId, CancellationToken cancellationToken)
+    {
+        var usagePath = GetUsageFilePath(storyId);
+        if (File.Exists(usagePath))
+        {
+            try
+            {
+                var stored = JsonSerializer.Deserialize<LLMUsageDto>(await File.ReadAllTextAsync(usagePath, cancellationToken), _jsonOptions);
+                if (stored != null)
+                    return stored;
+            }
+            catch (JsonException ex)
+            {
+                _logger.LogWarning(ex, "Rebuilding unreadable LLM usage totals for story {StoryId}", storyId);
+            }
+        }
+
+        var usage = new LLMUsageDto();
+        var folder = Path.Combine(_storiesPath, storyId, CallsFolderName);
+        if (!Directory.Exists(folder))
+            return usage;
+
+        foreach (var filePath in Directory.EnumerateFiles(folder, "*.json"))
+        {
+            try
+            {
+                var json = await File.ReadAllTextAsync(filePath, cancellationToken);
+                var call = JsonSerializer.Deserialize<LLMCallDetailDto>(json, _jsonOptions);
+                if (call == null)
+                    continue;
+
+                usage.Calls++;
+                usage.TotalTokens += call.TotalTokens;
+                usage.CostUSD += call.ActualCostUSD;
+            }
+            catch (Exception ex) when (ex is IOException or JsonException)
+            {
+                _logger.LogWarning(ex, "Skipped unreadable LLM call transcript: {FilePath}", filePath);
+            }
+        }
+
+        await WriteUsageAsync(storyId, usage, cancellationToken);
+        return usage;
+    }
+
+    private async Task WriteUsageAsync(string storyId, LLMUsageDto usage, CancellationToken cancellationToken)
+    {
+        var json = JsonSerializer.Serialize(usage, _jsonOptions);
+        await File.WriteAllTextAsync(GetUsageFilePath(storyId), json, cancellationToken);
+    }
+
+    private SemaphoreSlim GetLock(string storyId)
+    {
+        return _locks.GetOrAdd(storyId, _ => new SemaphoreSlim(1, 1));
+    }
+
+    private string GetUsageFilePath(string storyId)
+    {
+        return Path.Combine(_storiesPath, storyId, UsageFileName);
+    }
+
+    // Ids come from the URL; only plain ids may become file names
+    private string? GetCallFilePath(string storyId, string callId)
+    {
+        if (string.IsNullOrEmpty(callId) || !callId.All(char.IsLetterOrDigit))
+            return null;
+
+        return Path.Combine(_storiesPath, storyId, CallsFolderName, $"{callId}.json");
+    }
+}
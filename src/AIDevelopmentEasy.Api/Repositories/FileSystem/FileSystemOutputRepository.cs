@@ -12,6 +12,20 @@ public class FileSystemOutputRepository : IOutputRepository
     private readonly string _outputPath;
     private readonly ILogger<FileSystemOutputRepository> _logger;
 
+    private const string ReviewReportFileName = "review_report.md";
+    private const string PipelineHistoryFileName = "pipeline_history.json";
+    private const string OriginalFilesFileName = "original_files.json";
+    private const string PullRequestPatchFileName = "pull_request.patch";
+
+    // Bookkeeping files that live next to the generated code but are not part of it
+    private static readonly HashSet<string> NonOutputFileNames = new(StringComparer.OrdinalIgnoreCase)
+    {
+        ReviewReportFileName,
+        PipelineHistoryFileName,
+        OriginalFilesFileName,
+        PullRequestPatchFileName
+    };
+
     public FileSystemOutputRepository(string outputPath, ILogger<FileSystemOutputRepository> logger)
     {
         _outputPath = outputPath;
@@ -74,7 +88,7 @@ public class FileSystemOutputRepository : IOutputRepository
             return files;
 
         var allFiles = Directory.GetFiles(outputDir, "*.*", SearchOption.AllDirectories)
-            .Where(f => !f.EndsWith("review_report.md"));
+            .Where(f => !NonOutputFileNames.Contains(Path.GetFileName(f)));
 
         foreach (var file in allFiles)
         {
@@ -100,7 +114,7 @@ public class FileSystemOutputRepository : IOutputRepository
             Directory.CreateDirectory(outputDir);
         }
 
-        var reportPath = Path.Combine(outputDir, "review_report.md");
+        var reportPath = Path.Combine(outputDir, ReviewReportFileName);
         await File.WriteAllTextAsync(reportPath, report, cancellationToken);
 
         _logger.LogInformation("Saved review report: {ReportPath}", reportPath);
@@ -113,7 +127,7 @@ public class FileSystemOutputRepository : IOutputRepository
         if (outputDir == null)
             return null;
 
-        var reportPath = Path.Combine(outputDir, "review_report.md");
+        var reportPath = Path.Combine(outputDir, ReviewReportFileName);
         
         if (!File.Exists(reportPath))
             return null;
@@ -121,6 +135,33 @@ public class FileSystemOutputRepository : IOutputRepository
         return await File.ReadAllTextAsync(reportPath, cancellationToken);
     }
 
+    public async Task SavePullRequestPatchAsync(string storyId, string patch, CancellationToken cancellationToken = default)
+    {
+        // The patch describes deployed changes, so the story always has an output directory by now
+        var outputDir = await GetOutputPathAsync(storyId, cancellationToken)
+            ?? throw new InvalidOperationException($"No output directory for story {storyId}");
+
+        var patchPath = Path.Combine(outputDir, PullRequestPatchFileName);
+        await File.WriteAllTextAsync(patchPath, patch, cancellationToken);
+
+        _logger.LogInformation("Saved pull request patch: {PatchPath}", patchPath);
+    }
+
+    public async Task<string?> GetPullRequestPatchAsync(string storyId, CancellationToken cancellationToken = default)
+    {
+        var outputDir = await GetOutputPathAsync(storyId, cancellationToken);
+
+        if (outputDir == null)
+            return null;
+
+        var patchPath = Path.Combine(outputDir, PullRequestPatchFileName);
+
+        if (!File.Exists(patchPath))
+            return null;
+
+        return await File.ReadAllTextAsync(patchPath, cancellationToken);
+    }
+
     public Task<IEnumerable<string>> ListOutputsAsync(CancellationToken cancellationToken = default)
     {
         if (!Directory.Exists(_outputPath))
@@ -148,7 +189,7 @@ public class FileSystemOutputRepository : IOutputRepository
             Directory.CreateDirectory(outputDir);
         }
 
-        var historyPath = Path.Combine(outputDir, "pipeline_history.json");
+        var historyPath = Path.Combine(outputDir, PipelineHistoryFileName);
         var jsonOptions = new JsonSerializerOptions 
         { 
             WriteIndented = true,
@@ -167,11 +208,76 @@ public class FileSystemOutputRepository : IOutputRepository
         if (outputDir == null)
             return null;
 
-        var historyPath = Path.Combine(outputDir, "pipeline_history.json");
+        var historyPath = Path.Combine(outputDir, PipelineHistoryFileName);
         
         if (!File.Exists(historyPath))
             return null;
 
         return await File.ReadAllTextAsync(historyPath, cancellationToken);
     }
+
+    public async Task SaveOriginalFilesAsync(string storyId, string projectName, Dictionary<string, string> originals, CancellationToken cancellationToken = default)
+    {
+        var outputDir = await GetOutputPathAsync(storyId, cancellationToken);
+
+        if (outputDir == null)
+        {
+            _logger.LogWarning("No output directory to store original files for story: {StoryId}", storyId);
+            return;
+        }
+
+        // Key originals exactly like GetGeneratedFilesAsync keys the generated files
+        var keyed = originals.ToDictionary(
+            kvp => Path.GetRelativePath(outputDir, Path.Combine(outputDir, projectName, kvp.Key)),
+            kvp => kvp.Value);
+
+        var json = JsonSerializer.Serialize(keyed, new JsonSerializerOptions { WriteIndented = true });
+        await File.WriteAllTextAsync(Path.Combine(outputDir, OriginalFilesFileName), json, cancellationToken);
+
+        _logger.LogInformation("Saved {Count} original files for story: {StoryId}", keyed.Count, storyId);
+    }
+
+    public async Task<Dictionary<string, string>> GetOriginalFilesAsync(string storyId, CancellationToken cancellationToken = default)
+    {
+        var outputDir = await GetOutputPathAsync(storyId, cancellationToken);
+
+        if (outputDir == null)
+            return new Dictionary<string, string>();
+
+        var originalsPath = Path.Combine(outputDir, OriginalFilesFileName);
+
+        if (!File.Exists(originalsPath))
+            return new Dictionary<string, string>();
+
+        var json = await File.ReadAllTextAsync(originalsPath, cancellationToken);
+        return JsonSerializer.Deserialize<Dictionary<string, string>>(json) ?? new Dictionary<string, string>();
+    }
+
+    public async Task RemoveOutputFilesAsync(string storyId, string projectName, IEnumerable<string> fileKeys, CancellationToken cancellationToken = default)
+    {
+        var outputDir = await GetOutputPathAsync(storyId, cancellationToken);
+
+        if (outputDir == null)
+            return;
+
+        var projectDir = Path.Combine(outputDir, projectName);
+
+        foreach (var fileKey in fileKeys)
+        {
+            var filePath = Path.GetFullPath(Path.Combine(projectDir, fileKey));
+
+            // Keys derive from LLM-chosen filenames - never delete outside the story's output
+            if (!filePath.StartsWith(Path.GetFullPath(outputDir) + Path.DirectorySeparatorChar, StringComparison.OrdinalIgnoreCase))
+            {
+                _logger.LogWarning("Refusing to remove file outside the output directory: {FileKey}", fileKey);
+                continue;
+            }
+
+            if (File.Exists(filePath))
+            {
+                File.Delete(filePath);
+                _logger.LogInformation("Removed output file: {FilePath}", filePath);
+            }
+        }
+    }
 }
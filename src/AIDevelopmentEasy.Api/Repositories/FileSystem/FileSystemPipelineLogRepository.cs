@@ -0,0 +1,149 @@
+using System.Collections.Concurrent;
+using System.Text.Json;
+using AIDevelopmentEasy.Api.Models;
+using AIDevelopmentEasy.Api.Repositories.Interfaces;
+
+namespace AIDevelopmentEasy.Api.Repositories.FileSystem;
+
+/// <summary>
+/// File system based implementation of IPipelineLogRepository.
+/// The current run is stored as JSON lines in stories/{id}/_pipeline_log.jsonl;
+/// previous runs are kept as stories/{id}/logs/{timestamp}.jsonl.
+/// </summary>
+public class FileSystemPipelineLogRepository : IPipelineLogRepository
+{
+    private readonly string _storiesPath;
+    private readonly ILogger<FileSystemPipelineLogRepository> _logger;
+    private readonly JsonSerializerOptions _jsonOptions;
+    private readonly ConcurrentDictionary<string, SemaphoreSlim> _locks = new();
+
+    private const string LogFileName = "_pipeline_log.jsonl";
+    private const string ArchiveFolderName = "logs";
+
+    public FileSystemPipelineLogRepository(string storiesPath, ILogger<FileSystemPipelineLogRepository> logger)
+    {
+        _storiesPath = storiesPath;
+        _logger = logger;
+        _jsonOptions = new JsonSerializerOptions
+        {
+            PropertyNamingPolicy = JsonNamingPolicy.CamelCase
+        };
+    }
+
+    public async Task StartRunAsync(string storyId, CancellationToken cancellationToken = default)
+    {
+        var gate = GetLock(storyId);
+        await gate.WaitAsync(cancellationToken);
+        try
+        {
+            var logPath = GetLogFilePath(storyId);
+            if (!File.Exists(logPath))
+                return;
+
+            var archiveDir = Path.Combine(GetStoryFolder(storyId), ArchiveFolderName);
+            Directory.CreateDirectory(archiveDir);
+
+            var archivePath = Path.Combine(archiveDir, $"{DateTime.UtcNow:yyyyMMdd_HHmmss}.jsonl");
+            File.Move(logPath, archivePath, overwrite: true);
+
+            _logger.LogInformation("Archived pipeline log for story {StoryId}: {ArchivePath}", storyId, archivePath);
+        }
+        finally
+        {
+            gate.Release();
+        }
+    }
+
+    public async Task AppendAsync(PipelineUpdateMessage update, CancellationToken cancellationToken = default)
+    {
+        var gate = GetLock(update.StoryId);
+        await gate.WaitAsync(cancellationToken);
+        try
+        {
+            Directory.CreateDirectory(GetStoryFolder(update.StoryId));
+            var line = JsonSerializer.Serialize(update, _jsonOptions) + Environment.NewLine;
+            await File.AppendAllTextAsync(GetLogFilePath(update.StoryId), line, cancellationToken);
+        }
+        finally
+        {
+            gate.Release();
+        }
+    }
+
+    public async Task<PipelineLogPageDto> GetPageAsync(string storyId, string? beforeId, int limit, CancellationToken cancellationToken = default)
+    {
+        var entries = await ReadEntriesAsync(storyId, cancellationToken);
+
+        var end = entries.Count;
+        if (!string.IsNullOrEmpty(beforeId))
+        {
+            var index = entries.FindIndex(e => e.Id == beforeId);
+            end = index >= 0 ? index : 0;
+        }
+
+        var start = Math.Max(0, end - limit);
+        return new PipelineLogPageDto
+        {
+            Entries = entries.GetRange(start, end - start),
+            HasMore = start > 0
+        };
+    }
+
+    private async Task<List<PipelineUpdateMessage>> ReadEntriesAsync(string storyId, CancellationToken cancellationToken)
+    {
+        var entries = new List<PipelineUpdateMessage>();
+        var logPath = GetLogFilePath(storyId);
+
+        if (!File.Exists(logPath))
+            return entries;
+
+        string[] lines;
+        var gate = GetLock(storyId);
+        await gate.WaitAsync(cancellationToken);
+        try
+        {
+            lines = await File.ReadAllLinesAsync(logPath, cancellationToken);
+        }
+        finally
+        {
+            gate.Release();
+        }
+
+        foreach (var line in lines)
+        {
+            if (string.IsNullOrWhiteSpace(line))
+                continue;
+
+            try
+            {
+                var entry = JsonSerializer.Deserialize<PipelineUpdateMessage>(line, _jsonOptions);
+                if (entry != null)
+                {
+                    entries.Add(entry);
+                }
+            }
+            catch (JsonException ex)
+            {
+                // A partially written last line (e.g. crash mid-append) shouldn't hide the rest
+                _logger.LogWarning(ex, "Skipping unreadable pipeline log line for story {StoryId}", storyId);
+            }
+        }
+
+        return entries;
+    }
+
+    private SemaphoreSlim GetLock(string storyId)
+    {
+        return _locks.GetOrAdd(storyId, _ => new SemaphoreSlim(1, 1));
+    }
+
+    private string GetStoryFolder(string storyId)
+    {
+        return Path.Combine(_storiesPath, storyId);
+    }
+
+    private string GetLogFilePath(string storyId)
+    {
+        return Path.Combine(GetStoryFolder(storyId), LogFileName);
+    }
+}
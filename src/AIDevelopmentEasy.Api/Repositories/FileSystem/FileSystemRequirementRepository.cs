@@ -141,6 +141,24 @@ public class FileSystemRequirementRepository : IRequirementRepository
         return MapToDto(entity);
     }
 
+    public async Task<bool> UpdateBudgetAsync(string id, CostBudgetDto? budget, CancellationToken cancellationToken = default)
+    {
+        var entity = await GetEntityAsync(id, cancellationToken);
+        if (entity == null)
+            return false;
+
+        // Unlike the content, the budget can change at any status - also while stories run
+        entity.BudgetMaxTokens = budget?.MaxTokens;
+        entity.BudgetMaxCostUSD = budget?.MaxCostUSD;
+        entity.UpdatedAt = DateTime.UtcNow;
+
+        await SaveEntityAsync(entity, cancellationToken);
+
+        _logger.LogInformation("Updated requirement budget: {Id} → {MaxTokens} tokens, {MaxCostUSD} USD",
+            id, budget?.MaxTokens, budget?.MaxCostUSD);
+        return true;
+    }
+
     public Task<bool> DeleteAsync(string id, CancellationToken cancellationToken = default)
     {
         var filePath = GetFilePath(id);
@@ -364,6 +382,7 @@ public class FileSystemRequirementRepository : IRequirementRepository
             Status = MapStatusToDto(entity.Status),
             CurrentPhase = MapPhaseToDto(entity.CurrentPhase),
             CodebaseId = entity.CodebaseId,
+            Budget = MapBudgetToDto(entity),
             CreatedAt = entity.CreatedAt,
             UpdatedAt = entity.UpdatedAt,
             CompletedAt = entity.CompletedAt,
@@ -384,6 +403,7 @@ public class FileSystemRequirementRepository : IRequirementRepository
             Status = MapStatusToDto(entity.Status),
             CurrentPhase = MapPhaseToDto(entity.CurrentPhase),
             CodebaseId = entity.CodebaseId,
+            Budget = MapBudgetToDto(entity),
             CreatedAt = entity.CreatedAt,
             UpdatedAt = entity.UpdatedAt,
             CompletedAt = entity.CompletedAt,
@@ -396,6 +416,11 @@ public class FileSystemRequirementRepository : IRequirementRepository
         };
     }
 
+    private static CostBudgetDto? MapBudgetToDto(Requirement entity) =>
+        entity.BudgetMaxTokens.HasValue || entity.BudgetMaxCostUSD.HasValue
+            ? new CostBudgetDto { MaxTokens = entity.BudgetMaxTokens, MaxCostUSD = entity.BudgetMaxCostUSD }
+            : null;
+
     // Type mappings
     private static RequirementTypeDto MapTypeToDto(RequirementType type) => type switch
     {
@@ -535,7 +560,8 @@ public class FileSystemRequirementRepository : IRequirementRepository
             EstimatedComplexity = MapComplexityToDto(def.EstimatedComplexity),
             Dependencies = def.Dependencies,
             TechnicalNotes = def.TechnicalNotes,
-            Selected = def.Selected
+            Selected = def.Selected,
+            CreatedStoryId = def.CreatedStoryId
         };
     }
 
@@ -550,7 +576,8 @@ public class FileSystemRequirementRepository : IRequirementRepository
             EstimatedComplexity = MapComplexityFromDto(dto.EstimatedComplexity),
             Dependencies = dto.Dependencies,
             TechnicalNotes = dto.TechnicalNotes,
-            Selected = dto.Selected
+            Selected = dto.Selected,
+            CreatedStoryId = dto.CreatedStoryId
         };
     }
 
@@ -356,6 +356,43 @@ public class FileSystemStoryRepository : IStoryRepository
         return true;
     }
 
+    public async Task<bool> UpdateApprovalPolicyAsync(string id, string? approvalPolicyId, CancellationToken cancellationToken = default)
+    {
+        var jsonPath = Path.Combine(_storiesPath, $"{id}.json");
+        if (!File.Exists(jsonPath))
+            return false;
+
+        var storyData = await LoadStoryDataAsync(jsonPath, cancellationToken);
+        if (storyData == null)
+            return false;
+
+        storyData.ApprovalPolicyId = approvalPolicyId;
+        storyData.UpdatedAt = DateTime.UtcNow;
+        await SaveStoryDataAsync(storyData, cancellationToken);
+
+        _logger.LogInformation("Updated story approval policy: {Id} → {PolicyId}", id, approvalPolicyId ?? "none");
+        return true;
+    }
+
+    public async Task<bool> UpdateBudgetAsync(string id, CostBudgetDto? budget, CancellationToken cancellationToken = default)
+    {
+        var jsonPath = Path.Combine(_storiesPath, $"{id}.json");
+        if (!File.Exists(jsonPath))
+            return false;
+
+        var storyData = await LoadStoryDataAsync(jsonPath, cancellationToken);
+        if (storyData == null)
+            return false;
+
+        storyData.Budget = budget;
+        storyData.UpdatedAt = DateTime.UtcNow;
+        await SaveStoryDataAsync(storyData, cancellationToken);
+
+        _logger.LogInformation("Updated story budget: {Id} → {MaxTokens} tokens, {MaxCostUSD} USD",
+            id, budget?.MaxTokens, budget?.MaxCostUSD);
+        return true;
+    }
+
     #region Private Methods
 
     private string GenerateId()
@@ -407,6 +444,8 @@ public class FileSystemStoryRepository : IStoryRepository
                 Status = status,
                 CodebaseId = data.CodebaseId,
                 RequirementId = data.RequirementId,
+                ApprovalPolicyId = data.ApprovalPolicyId,
+                Budget = data.Budget,
                 CreatedAt = data.CreatedAt,
                 LastProcessedAt = data.UpdatedAt,
                 Tasks = tasks.ToList(),
@@ -546,6 +585,8 @@ public class FileSystemStoryRepository : IStoryRepository
         public StoryType Type { get; set; }
         public string? CodebaseId { get; set; }
         public string? RequirementId { get; set; }
+        public string? ApprovalPolicyId { get; set; }
+        public CostBudgetDto? Budget { get; set; }
         public DateTime CreatedAt { get; set; }
         public DateTime UpdatedAt { get; set; }
 
@@ -0,0 +1,34 @@
+using AIDevelopmentEasy.Api.Models;
+
+namespace AIDevelopmentEasy.Api.Repositories.Interfaces;
+
+/// <summary>
+/// Repository interface for named approval policies (which approval gates continue on their own).
+/// </summary>
+public interface IApprovalPolicyRepository
+{
+    /// <summary>
+    /// Get all policies, ordered by name
+    /// </summary>
+    Task<IEnumerable<ApprovalPolicyDto>> GetAllAsync(CancellationToken cancellationToken = default);
+
+    /// <summary>
+    /// Get a policy by ID
+    /// </summary>
+    Task<ApprovalPolicyDto?> GetByIdAsync(string id, CancellationToken cancellationToken = default);
+
+    /// <summary>
+    /// Create a new policy
+    /// </summary>
+    Task<ApprovalPolicyDto> CreateAsync(SaveApprovalPolicyRequest request, CancellationToken cancellationToken = default);
+
+    /// <summary>
+    /// Update a policy; null when it does not exist
+    /// </summary>
+    Task<ApprovalPolicyDto?> UpdateAsync(string id, SaveApprovalPolicyRequest request, CancellationToken cancellationToken = default);
+
+    /// <summary>
+    /// Delete a policy. Stories and codebases still pointing at it fall back to the next policy in line.
+    /// </summary>
+    Task<bool> DeleteAsync(string id, CancellationToken cancellationToken = default);
+}
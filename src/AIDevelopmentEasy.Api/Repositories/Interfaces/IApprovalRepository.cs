@@ -53,6 +53,16 @@ public interface IApprovalRepository
     /// </summary>
     Task ResetCompletionAsync(string storyId, CancellationToken cancellationToken = default);
 
+    /// <summary>
+    /// Append a phase rejection to the story's rejection history
+    /// </summary>
+    Task AddRejectionAsync(string storyId, PhaseRejectionDto rejection, CancellationToken cancellationToken = default);
+
+    /// <summary>
+    /// Get all phase rejections recorded for a story (oldest first)
+    /// </summary>
+    Task<List<PhaseRejectionDto>> GetRejectionsAsync(string storyId, CancellationToken cancellationToken = default);
+
     /// <summary>
     /// Get the current status of a story based on approval/completion state
     /// </summary>
@@ -39,6 +39,11 @@ public interface ICodebaseRepository
     /// </summary>
     Task UpdateStatusAsync(string id, Models.CodebaseStatus status, CancellationToken cancellationToken = default);
 
+    /// <summary>
+    /// Assign the default approval policy for the codebase's stories and requirements (null clears it)
+    /// </summary>
+    Task<bool> UpdateApprovalPolicyAsync(string id, string? approvalPolicyId, CancellationToken cancellationToken = default);
+
     /// <summary>
     /// Delete a codebase
     /// </summary>
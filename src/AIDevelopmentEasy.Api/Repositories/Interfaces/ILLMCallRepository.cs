@@ -0,0 +1,25 @@
+using AIDevelopmentEasy.Api.Models;
+
+namespace AIDevelopmentEasy.Api.Repositories.Interfaces;
+
+/// <summary>
+/// Repository interface for LLM call transcripts (prompts and completions).
+/// </summary>
+public interface ILLMCallRepository
+{
+    /// <summary>
+    /// Save the transcript of a call made while running a story's pipeline
+    /// </summary>
+    Task SaveAsync(LLMCallDetailDto call, CancellationToken cancellationToken = default);
+
+    /// <summary>
+    /// Get a call transcript by id; null when it was never stored
+    /// </summary>
+    Task<LLMCallDetailDto?> GetAsync(string storyId, string callId, CancellationToken cancellationToken = default);
+
+    /// <summary>
+    /// Tokens and cost of every stored call of a story, across all its runs.
+    /// Served from running totals kept by SaveAsync, not by reading the transcripts.
+    /// </summary>
+    Task<LLMUsageDto> GetUsageAsync(string storyId, CancellationToken cancellationToken = default);
+}
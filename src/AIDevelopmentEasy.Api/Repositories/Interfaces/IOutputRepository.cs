@@ -20,6 +20,22 @@ public interface IOutputRepository
     /// </summary>
     Task<Dictionary<string, string>> GetGeneratedFilesAsync(string storyId, CancellationToken cancellationToken = default);
 
+    /// <summary>
+    /// Remove generated files from the latest output, keyed by path relative to the project folder
+    /// </summary>
+    Task RemoveOutputFilesAsync(string storyId, string projectName, IEnumerable<string> fileKeys, CancellationToken cancellationToken = default);
+
+    /// <summary>
+    /// Save the codebase content of modified files as it was before the pipeline changed them,
+    /// keyed by generated file path (relative to the project folder)
+    /// </summary>
+    Task SaveOriginalFilesAsync(string storyId, string projectName, Dictionary<string, string> originals, CancellationToken cancellationToken = default);
+
+    /// <summary>
+    /// Get the original content of modified files, keyed like GetGeneratedFilesAsync
+    /// </summary>
+    Task<Dictionary<string, string>> GetOriginalFilesAsync(string storyId, CancellationToken cancellationToken = default);
+
     /// <summary>
     /// Save review report
     /// </summary>
@@ -30,6 +46,16 @@ public interface IOutputRepository
     /// </summary>
     Task<string?> GetReviewReportAsync(string storyId, CancellationToken cancellationToken = default);
 
+    /// <summary>
+    /// Save the patch written by the PullRequest phase
+    /// </summary>
+    Task SavePullRequestPatchAsync(string storyId, string patch, CancellationToken cancellationToken = default);
+
+    /// <summary>
+    /// Get the pull request patch
+    /// </summary>
+    Task<string?> GetPullRequestPatchAsync(string storyId, CancellationToken cancellationToken = default);
+
     /// <summary>
     /// List all output directories
     /// </summary>
@@ -0,0 +1,26 @@
+using AIDevelopmentEasy.Api.Models;
+
+namespace AIDevelopmentEasy.Api.Repositories.Interfaces;
+
+/// <summary>
+/// Repository interface for pipeline run logs.
+/// Keeps every update sent for the latest pipeline run of a story.
+/// </summary>
+public interface IPipelineLogRepository
+{
+    /// <summary>
+    /// Start a new run log for a story, archiving the previous run's log
+    /// </summary>
+    Task StartRunAsync(string storyId, CancellationToken cancellationToken = default);
+
+    /// <summary>
+    /// Append an update to the story's current run log
+    /// </summary>
+    Task AppendAsync(PipelineUpdateMessage update, CancellationToken cancellationToken = default);
+
+    /// <summary>
+    /// Get up to <paramref name="limit"/> entries of the current run log that precede
+    /// the entry with id <paramref name="beforeId"/> (the newest entries when null)
+    /// </summary>
+    Task<PipelineLogPageDto> GetPageAsync(string storyId, string? beforeId, int limit, CancellationToken cancellationToken = default);
+}
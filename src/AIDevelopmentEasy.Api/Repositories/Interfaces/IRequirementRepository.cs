@@ -29,6 +29,11 @@ public interface IRequirementRepository
     /// </summary>
     Task<RequirementDto?> UpdateAsync(string id, UpdateRequirementRequest request, CancellationToken cancellationToken = default);
 
+    /// <summary>
+    /// Set the LLM budget across the requirement's stories (null clears it); allowed at any status
+    /// </summary>
+    Task<bool> UpdateBudgetAsync(string id, CostBudgetDto? budget, CancellationToken cancellationToken = default);
+
     /// <summary>
     /// Delete a requirement
     /// </summary>
@@ -43,6 +43,16 @@ public interface IStoryRepository
     /// </summary>
     Task<bool> UpdateTargetAsync(string id, UpdateStoryTargetRequest request, CancellationToken cancellationToken = default);
 
+    /// <summary>
+    /// Assign the approval policy used when the story's pipeline starts (null clears it)
+    /// </summary>
+    Task<bool> UpdateApprovalPolicyAsync(string id, string? approvalPolicyId, CancellationToken cancellationToken = default);
+
+    /// <summary>
+    /// Set the LLM budget for each pipeline run of the story (null clears it)
+    /// </summary>
+    Task<bool> UpdateBudgetAsync(string id, CostBudgetDto? budget, CancellationToken cancellationToken = default);
+
     /// <summary>
     /// Update story content (only allowed when status is NotStarted/Draft)
     /// </summary>
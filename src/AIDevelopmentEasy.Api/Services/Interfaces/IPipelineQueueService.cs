@@ -0,0 +1,47 @@
+using AIDevelopmentEasy.Api.Models;
+
+namespace AIDevelopmentEasy.Api.Services.Interfaces;
+
+/// <summary>
+/// Service interface for the batch pipeline queue.
+/// Starts queued stories in order while fewer than MaxConcurrency pipelines are running.
+/// </summary>
+public interface IPipelineQueueService
+{
+    /// <summary>
+    /// Get the queue with its settings and items
+    /// </summary>
+    Task<PipelineQueueDto> GetQueueAsync(CancellationToken cancellationToken = default);
+
+    /// <summary>
+    /// Add stories to the end of the queue, in the order given; a story with dependencies waits for them.
+    /// Throws ArgumentException for an unknown story and InvalidOperationException for a
+    /// completed, running or already queued one.
+    /// </summary>
+    Task<PipelineQueueDto> EnqueueAsync(EnqueueStoriesRequest request, CancellationToken cancellationToken = default);
+
+    /// <summary>
+    /// Change the concurrency limit and what happens after a failed run
+    /// </summary>
+    Task<PipelineQueueDto> UpdateSettingsAsync(UpdatePipelineQueueSettingsRequest request, CancellationToken cancellationToken = default);
+
+    /// <summary>
+    /// Change the start order of queued items
+    /// </summary>
+    Task<PipelineQueueDto> ReorderAsync(List<string> itemIds, CancellationToken cancellationToken = default);
+
+    /// <summary>
+    /// Cancel a queued item, or the pipeline of a running one. Returns false when the item is not found.
+    /// </summary>
+    Task<bool> CancelItemAsync(string itemId, CancellationToken cancellationToken = default);
+
+    /// <summary>
+    /// Start queued stories again after the queue paused on a failure
+    /// </summary>
+    Task<PipelineQueueDto> ResumeAsync(CancellationToken cancellationToken = default);
+
+    /// <summary>
+    /// Remove completed, failed, cancelled and blocked items
+    /// </summary>
+    Task<PipelineQueueDto> ClearFinishedAsync(CancellationToken cancellationToken = default);
+}
@@ -9,9 +9,16 @@ namespace AIDevelopmentEasy.Api.Services.Interfaces;
 public interface IPipelineService
 {
     /// <summary>
-    /// Start processing a story
+    /// Start processing a story. Gates listed in the approval policy (the given one, else the story's,
+    /// else the codebase's) continue without waiting; autoApproveAll approves every gate.
     /// </summary>
-    Task<PipelineStatusDto> StartAsync(string storyId, bool autoApproveAll = false, CancellationToken cancellationToken = default);
+    Task<PipelineStatusDto> StartAsync(string storyId, bool autoApproveAll = false, string? approvalPolicyId = null, CancellationToken cancellationToken = default);
+
+    /// <summary>
+    /// Rerun the last run from a completed or failed phase. Earlier phases keep their results;
+    /// this phase and the ones after it run again and are marked stale until they do.
+    /// </summary>
+    Task<PipelineStatusDto> RerunFromPhaseAsync(string storyId, PipelinePhase fromPhase, bool autoApproveAll = false, string? approvalPolicyId = null, CancellationToken cancellationToken = default);
 
     /// <summary>
     /// Get the current status of a pipeline
@@ -19,14 +26,29 @@ public interface IPipelineService
     Task<PipelineStatusDto?> GetStatusAsync(string storyId, CancellationToken cancellationToken = default);
 
     /// <summary>
-    /// Approve a phase and continue execution
+    /// Approve a phase and continue execution.
+    /// For Planning, an edited task plan replaces the generated one before Coding starts.
+    /// For Coding, file decisions exclude files or send them back to CoderAgent before Debugging.
+    /// For PullRequest, the composed pull request replaces the prefilled draft.
+    /// </summary>
+    Task<bool> ApprovePhaseAsync(
+        string storyId,
+        PipelinePhase phase,
+        List<TaskDto>? editedTasks = null,
+        List<CodingFileDecisionDto>? fileDecisions = null,
+        PullRequestOptionsDto? pullRequest = null,
+        CancellationToken cancellationToken = default);
+
+    /// <summary>
+    /// Validate an edited task plan against the story's codebase.
+    /// Returns error messages keyed by field path (e.g. "tasks[0].targetFiles"); empty when valid.
     /// </summary>
-    Task<bool> ApprovePhaseAsync(string storyId, PipelinePhase phase, CancellationToken cancellationToken = default);
+    Task<Dictionary<string, string>> ValidatePlanAsync(string storyId, List<TaskDto> tasks, CancellationToken cancellationToken = default);
 
     /// <summary>
-    /// Reject a phase (stop execution)
+    /// Reject a phase (stop execution). The feedback is kept in the story's rejection history.
     /// </summary>
-    Task<bool> RejectPhaseAsync(string storyId, PipelinePhase phase, string? reason = null, CancellationToken cancellationToken = default);
+    Task<bool> RejectPhaseAsync(string storyId, PipelinePhase phase, PhaseRejectionDto? feedback = null, CancellationToken cancellationToken = default);
 
     /// <summary>
     /// Cancel a running pipeline
@@ -52,4 +74,32 @@ public interface IPipelineService
     /// Get current retry info if any
     /// </summary>
     Task<RetryInfoDto?> GetRetryInfoAsync(string storyId, CancellationToken cancellationToken = default);
+
+    /// <summary>
+    /// Send review findings back to Coding as fix tasks while the Reviewing phase waits for approval.
+    /// Returns false when the pipeline is not waiting at Reviewing; throws InvalidOperationException
+    /// when no retry attempts are left.
+    /// </summary>
+    Task<bool> CreateReviewFixTasksAsync(string storyId, List<ReviewFindingDto> findings, CancellationToken cancellationToken = default);
+
+    /// <summary>
+    /// Get the current content of a file in the manual fix workspace (null when the file is not part of it)
+    /// </summary>
+    Task<string?> GetManualFixFileAsync(string storyId, string path, CancellationToken cancellationToken = default);
+
+    /// <summary>
+    /// Save a file edited in the manual fix workspace to the codebase
+    /// </summary>
+    Task<bool> SaveManualFixFileAsync(string storyId, string path, string content, CancellationToken cancellationToken = default);
+
+    /// <summary>
+    /// Finish the manual fix and run the tests again
+    /// </summary>
+    Task<bool> ResumeManualFixAsync(string storyId, CancellationToken cancellationToken = default);
+
+    /// <summary>
+    /// Approve the overrun of the budget the run is paused for and continue; that budget is not
+    /// checked again for the rest of the run. Returns false when the run is not paused for a budget.
+    /// </summary>
+    Task<bool> ContinueOverBudgetAsync(string storyId, CancellationToken cancellationToken = default);
 }
@@ -0,0 +1,27 @@
+using AIDevelopmentEasy.Api.Models;
+
+namespace AIDevelopmentEasy.Api.Services.Interfaces;
+
+/// <summary>
+/// Service interface for turning deployed changes into a GitHub PR,
+/// a local branch and commit, or a patch file.
+/// </summary>
+public interface IPullRequestService
+{
+    /// <summary>
+    /// Get the branch the git repository containing the path is on,
+    /// or null when the path is not in a git repository.
+    /// </summary>
+    Task<string?> GetCurrentBranchAsync(string path, CancellationToken cancellationToken = default);
+
+    /// <summary>
+    /// Create the pull request, branch or patch for the given deployed files (absolute paths).
+    /// Throws InvalidOperationException with the git or gh error when a command fails.
+    /// </summary>
+    Task<PullRequestResultDto> CreateAsync(
+        string storyId,
+        string codebasePath,
+        IReadOnlyCollection<string> files,
+        PullRequestOptionsDto options,
+        CancellationToken cancellationToken = default);
+}
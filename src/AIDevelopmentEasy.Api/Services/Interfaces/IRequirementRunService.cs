@@ -0,0 +1,25 @@
+using AIDevelopmentEasy.Api.Models;
+
+namespace AIDevelopmentEasy.Api.Services.Interfaces;
+
+/// <summary>
+/// Service interface for running the stories created from a requirement
+/// in the order given by their definitions' dependencies.
+/// </summary>
+public interface IRequirementRunService
+{
+    /// <summary>
+    /// Get the requirement's stories as a dependency graph with their current run status.
+    /// Throws ArgumentException when the requirement is not found.
+    /// </summary>
+    Task<StoryGraphDto> GetStoryGraphAsync(string requirementId, CancellationToken cancellationToken = default);
+
+    /// <summary>
+    /// Queue the requirement's unfinished stories in dependency order; a story waits for
+    /// the stories it depends on and is blocked when one of them does not complete.
+    /// Independent stories run side by side up to MaxConcurrency; each run keeps its own LLM
+    /// calls, transcripts and spend, which the requirement budget adds up per story.
+    /// Throws InvalidOperationException when the dependencies form a cycle or nothing is left to run.
+    /// </summary>
+    Task<PipelineQueueDto> RunStoriesAsync(string requirementId, RunRequirementStoriesRequest request, CancellationToken cancellationToken = default);
+}
@@ -14,9 +14,10 @@ public interface IRequirementWizardService
     /// </summary>
     /// <param name="requirementId">The requirement to process</param>
     /// <param name="autoApproveAll">Skip approval gates and run to completion</param>
+    /// <param name="approvalPolicyId">Policy whose wizard gates continue without waiting; defaults to the codebase's policy</param>
     /// <param name="cancellationToken">Cancellation token</param>
     /// <returns>Current wizard status</returns>
-    Task<WizardStatusDto> StartAsync(string requirementId, bool autoApproveAll = false, CancellationToken cancellationToken = default);
+    Task<WizardStatusDto> StartAsync(string requirementId, bool autoApproveAll = false, string? approvalPolicyId = null, CancellationToken cancellationToken = default);
 
     /// <summary>
     /// Get current wizard status for a requirement.
@@ -0,0 +1,452 @@
+using AIDevelopmentEasy.Api.Hubs;
+using AIDevelopmentEasy.Api.Models;
+using AIDevelopmentEasy.Api.Repositories.Interfaces;
+using AIDevelopmentEasy.Api.Services.Interfaces;
+
+namespace AIDevelopmentEasy.Api.Services;
+
+/// <summary>
+/// Batch queue for pipeline runs.
+///
+/// Queued stories are started in order through IPipelineService while fewer than
+/// MaxConcurrency pipelines are running (pipelines started by hand count too).
+/// A story with dependencies waits until they complete, and is blocked when one does not.
+/// A run that waits for approval keeps its slot. Concurrent runs are kept apart by
+/// PipelineService, which attributes each LLM call to the run that made it.
+/// A background loop polls the running items while the queue has work; when a run
+/// does not complete the queue either pauses until resumed or moves on to the next
+/// story, depending on PauseOnFailure.
+/// The queue lives in memory, like the running pipelines it starts.
+/// </summary>
+public class PipelineQueueService : IPipelineQueueService
+{
+    private static readonly TimeSpan PollInterval = TimeSpan.FromSeconds(2);
+
+    private readonly IPipelineService _pipelineService;
+    private readonly IStoryRepository _storyRepository;
+    private readonly IPipelineNotificationService _notificationService;
+    private readonly ILogger<PipelineQueueService> _logger;
+
+    private readonly SemaphoreSlim _lock = new(1, 1);
+    private readonly List<PipelineQueueItemDto> _items = new();
+    private int _maxConcurrency = 1;
+    private bool _pauseOnFailure = true;
+    private string? _pausedReason;
+    private bool _dispatching;
+
+    public PipelineQueueService(
+        IPipelineService pipelineService,
+        IStoryRepository storyRepository,
+        IPipelineNotificationService notificationService,
+        ILogger<PipelineQueueService> logger)
+    {
+        _pipelineService = pipelineService;
+        _storyRepository = storyRepository;
+        _notificationService = notificationService;
+        _logger = logger;
+    }
+
+    public async Task<PipelineQueueDto> GetQueueAsync(CancellationToken cancellationToken = default)
+    {
+        await _lock.WaitAsync(cancellationToken);
+        try
+        {
+            return Snapshot();
+        }
+        finally
+        {
+            _lock.Release();
+        }
+    }
+
+    public async Task<PipelineQueueDto> EnqueueAsync(EnqueueStoriesRequest request, CancellationToken cancellationToken = default)
+    {
+        var storyIds = request.StoryIds.Distinct().ToList();
+        if (storyIds.Count == 0)
+            throw new InvalidOperationException("No stories to queue");
+
+        await _lock.WaitAsync(cancellationToken);
+        try
+        {
+            var newItems = new List<PipelineQueueItemDto>();
+            foreach (var storyId in storyIds)
+            {
+                var story = await _storyRepository.GetByIdAsync(storyId, cancellationToken)
+                    ?? throw new ArgumentException($"Story not found: {storyId}");
+
+                if (story.Status == StoryStatus.Completed)
+                    throw new InvalidOperationException($"Story already completed: {story.Name}");
+
+                if (_items.Any(i => i.StoryId == storyId && i.State is QueueItemState.Queued or QueueItemState.Running))
+                    throw new InvalidOperationException($"Story already queued: {story.Name}");
+
+                if (await _pipelineService.IsRunningAsync(storyId, cancellationToken))
+                    throw new InvalidOperationException($"Pipeline already running for story: {story.Name}");
+
+                newItems.Add(new PipelineQueueItemDto
+                {
+                    Id = Guid.NewGuid().ToString("N")[..8],
+                    StoryId = storyId,
+                    StoryName = story.Name,
+                    State = QueueItemState.Queued,
+                    ApprovalPolicyId = request.ApprovalPolicyId,
+                    DependsOn = request.DependsOn.TryGetValue(storyId, out var dependsOn)
+                        ? dependsOn.Where(d => d != storyId && storyIds.Contains(d)).Distinct().ToList()
+                        : new List<string>(),
+                    EnqueuedAt = DateTime.UtcNow
+                });
+            }
+
+            if (request.MaxConcurrency.HasValue)
+                _maxConcurrency = Math.Clamp(request.MaxConcurrency.Value, 1, PipelineQueueDto.MaxConcurrencyLimit);
+            if (request.PauseOnFailure.HasValue)
+                _pauseOnFailure = request.PauseOnFailure.Value;
+
+            _items.AddRange(newItems);
+            _logger.LogInformation("[Queue] Queued {Count} stories: {StoryIds}", newItems.Count, string.Join(", ", storyIds));
+
+            EnsureDispatching();
+            await _notificationService.NotifyQueueChangedAsync();
+            return Snapshot();
+        }
+        finally
+        {
+            _lock.Release();
+        }
+    }
+
+    public async Task<PipelineQueueDto> UpdateSettingsAsync(UpdatePipelineQueueSettingsRequest request, CancellationToken cancellationToken = default)
+    {
+        await _lock.WaitAsync(cancellationToken);
+        try
+        {
+            _maxConcurrency = Math.Clamp(request.MaxConcurrency, 1, PipelineQueueDto.MaxConcurrencyLimit);
+            _pauseOnFailure = request.PauseOnFailure;
+            _logger.LogInformation("[Queue] Settings changed: max {MaxConcurrency} at once, pause on failure: {PauseOnFailure}",
+                _maxConcurrency, _pauseOnFailure);
+
+            // A higher limit may free slots for queued stories
+            EnsureDispatching();
+            await _notificationService.NotifyQueueChangedAsync();
+            return Snapshot();
+        }
+        finally
+        {
+            _lock.Release();
+        }
+    }
+
+    public async Task<PipelineQueueDto> ReorderAsync(List<string> itemIds, CancellationToken cancellationToken = default)
+    {
+        await _lock.WaitAsync(cancellationToken);
+        try
+        {
+            var queued = _items.Where(i => i.State == QueueItemState.Queued).ToList();
+            var ordered = itemIds
+                .Select(id => queued.FirstOrDefault(i => i.Id == id))
+                .OfType<PipelineQueueItemDto>()
+                .Distinct()
+                .ToList();
+            ordered.AddRange(queued.Except(ordered));
+
+            // Queued items are started from the front of the list; the others keep their order
+            var others = _items.Where(i => i.State != QueueItemState.Queued).ToList();
+            _items.Clear();
+            _items.AddRange(ordered);
+            _items.AddRange(others);
+
+            await _notificationService.NotifyQueueChangedAsync();
+            return Snapshot();
+        }
+        finally
+        {
+            _lock.Release();
+        }
+    }
+
+    public async Task<bool> CancelItemAsync(string itemId, CancellationToken cancellationToken = default)
+    {
+        await _lock.WaitAsync(cancellationToken);
+        try
+        {
+            var item = _items.FirstOrDefault(i => i.Id == itemId);
+            if (item == null)
+                return false;
+
+            switch (item.State)
+            {
+                case QueueItemState.Queued:
+                    item.Message = "Removed from the queue";
+                    break;
+                case QueueItemState.Running:
+                    await _pipelineService.CancelAsync(item.StoryId, cancellationToken);
+                    item.Message = "Pipeline cancelled from the queue";
+                    break;
+                default:
+                    throw new InvalidOperationException("Only queued or running items can be cancelled");
+            }
+
+            item.State = QueueItemState.Cancelled;
+            item.FinishedAt = DateTime.UtcNow;
+            _logger.LogInformation("[Queue] {StoryId}: {Message}", item.StoryId, item.Message);
+            BlockDependents();
+
+            EnsureDispatching();
+            await _notificationService.NotifyQueueChangedAsync();
+            return true;
+        }
+        finally
+        {
+            _lock.Release();
+        }
+    }
+
+    public async Task<PipelineQueueDto> ResumeAsync(CancellationToken cancellationToken = default)
+    {
+        await _lock.WaitAsync(cancellationToken);
+        try
+        {
+            if (_pausedReason != null)
+            {
+                _logger.LogInformation("[Queue] Resumed (was paused: {Reason})", _pausedReason);
+                _pausedReason = null;
+            }
+
+            EnsureDispatching();
+            await _notificationService.NotifyQueueChangedAsync();
+            return Snapshot();
+        }
+        finally
+        {
+            _lock.Release();
+        }
+    }
+
+    public async Task<PipelineQueueDto> ClearFinishedAsync(CancellationToken cancellationToken = default)
+    {
+        await _lock.WaitAsync(cancellationToken);
+        try
+        {
+            _items.RemoveAll(i => i.State is not (QueueItemState.Queued or QueueItemState.Running));
+            await _notificationService.NotifyQueueChangedAsync();
+            return Snapshot();
+        }
+        finally
+        {
+            _lock.Release();
+        }
+    }
+
+    #region Private Methods
+
+    /// <summary>
+    /// Start the dispatch loop unless it is already running. Call while holding the lock.
+    /// </summary>
+    private void EnsureDispatching()
+    {
+        if (_dispatching || !HasWork())
+            return;
+
+        _dispatching = true;
+        _ = Task.Run(DispatchLoopAsync);
+    }
+
+    /// <summary>
+    /// Running items need watching; queued items need starting unless the queue is paused
+    /// </summary>
+    private bool HasWork()
+    {
+        return _items.Any(i => i.State == QueueItemState.Running ||
+                               (i.State == QueueItemState.Queued && _pausedReason == null));
+    }
+
+    private async Task DispatchLoopAsync()
+    {
+        while (true)
+        {
+            await _lock.WaitAsync();
+            try
+            {
+                await DispatchAsync();
+
+                if (!HasWork())
+                {
+                    _dispatching = false;
+                    return;
+                }
+            }
+            catch (Exception ex)
+            {
+                _logger.LogError(ex, "[Queue] Dispatch failed");
+            }
+            finally
+            {
+                _lock.Release();
+            }
+
+            await Task.Delay(PollInterval);
+        }
+    }
+
+    /// <summary>
+    /// Record finished runs, then start queued stories while slots are free. Call while holding the lock.
+    /// </summary>
+    private async Task DispatchAsync()
+    {
+        var changed = false;
+
+        foreach (var item in _items.Where(i => i.State == QueueItemState.Running).ToList())
+        {
+            if (await _pipelineService.IsRunningAsync(item.StoryId))
+                continue;
+
+            var status = await _pipelineService.GetStatusAsync(item.StoryId);
+            if (status?.CurrentPhase == PipelinePhase.Completed)
+            {
+                item.State = QueueItemState.Completed;
+                item.Message = null;
+            }
+            else
+            {
+                var failedPhase = status?.Phases.FirstOrDefault(p => p.State == PhaseState.Failed);
+                MarkFailed(item, failedPhase != null
+                    ? $"Failed at {failedPhase.Phase}: {failedPhase.Message}"
+                    : $"Stopped at {status?.CurrentPhase.ToString() ?? "an unknown phase"} before completing");
+            }
+
+            item.FinishedAt = DateTime.UtcNow;
+            changed = true;
+        }
+
+        if (BlockDependents())
+            changed = true;
+
+        if (_pausedReason == null)
+        {
+            var running = (await _pipelineService.GetRunningPipelinesAsync()).Count();
+
+            while (running < _maxConcurrency && _pausedReason == null)
+            {
+                var next = _items.FirstOrDefault(i => i.State == QueueItemState.Queued && DependenciesMet(i));
+                if (next == null)
+                    break;
+
+                try
+                {
+                    await _pipelineService.StartAsync(next.StoryId, approvalPolicyId: next.ApprovalPolicyId);
+                    next.State = QueueItemState.Running;
+                    next.StartedAt = DateTime.UtcNow;
+                    running++;
+                    _logger.LogInformation("[Queue] Started {StoryId} ({Running}/{Max} running)",
+                        next.StoryId, running, _maxConcurrency);
+                }
+                catch (Exception ex)
+                {
+                    MarkFailed(next, $"Could not start: {ex.Message}");
+                    next.FinishedAt = DateTime.UtcNow;
+                }
+
+                changed = true;
+            }
+        }
+
+        if (changed)
+            await _notificationService.NotifyQueueChangedAsync();
+    }
+
+    /// <summary>
+    /// Latest queue item for a story (a story can be queued again after it finished)
+    /// </summary>
+    private PipelineQueueItemDto? FindLatestItem(string storyId)
+    {
+        return _items
+            .Where(i => i.StoryId == storyId)
+            .OrderByDescending(i => i.EnqueuedAt)
+            .FirstOrDefault();
+    }
+
+    /// <summary>
+    /// Every dependency completed, or is no longer in the queue (it finished and was cleared)
+    /// </summary>
+    private bool DependenciesMet(PipelineQueueItemDto item)
+    {
+        return item.DependsOn.All(storyId =>
+            FindLatestItem(storyId) is not { } dependency || dependency.State == QueueItemState.Completed);
+    }
+
+    /// <summary>
+    /// Block queued items whose dependencies did not complete, and the items depending on those.
+    /// Returns true when an item was blocked.
+    /// </summary>
+    private bool BlockDependents()
+    {
+        var blockedAny = false;
+        bool blocked;
+        do
+        {
+            blocked = false;
+            foreach (var item in _items.Where(i => i.State == QueueItemState.Queued))
+            {
+                var upstream = item.DependsOn
+                    .Select(FindLatestItem)
+                    .FirstOrDefault(d => d?.State is QueueItemState.Failed or QueueItemState.Cancelled or QueueItemState.Blocked);
+                if (upstream == null)
+                    continue;
+
+                item.State = QueueItemState.Blocked;
+                item.Message = $"Blocked: {upstream.StoryName} did not complete";
+                item.FinishedAt = DateTime.UtcNow;
+                _logger.LogWarning("[Queue] {StoryId}: {Message}", item.StoryId, item.Message);
+                blocked = blockedAny = true;
+            }
+        } while (blocked);
+
+        return blockedAny;
+    }
+
+    private void MarkFailed(PipelineQueueItemDto item, string message)
+    {
+        item.State = QueueItemState.Failed;
+        item.Message = message;
+        _logger.LogWarning("[Queue] {StoryId}: {Message}", item.StoryId, message);
+
+        if (_pauseOnFailure && _items.Any(i => i.State == QueueItemState.Queued))
+        {
+            _pausedReason = $"{item.StoryName}: {message}";
+            _logger.LogWarning("[Queue] Paused after a failed run");
+        }
+    }
+
+    private PipelineQueueDto Snapshot()
+    {
+        return new PipelineQueueDto
+        {
+            MaxConcurrency = _maxConcurrency,
+            PauseOnFailure = _pauseOnFailure,
+            PausedReason = _pausedReason,
+            Items = _items
+                .OrderBy(i => i.State switch
+                {
+                    QueueItemState.Queued => 0,
+                    QueueItemState.Running => 1,
+                    _ => 2
+                })
+                .Select(i => new PipelineQueueItemDto
+                {
+                    Id = i.Id,
+                    StoryId = i.StoryId,
+                    StoryName = i.StoryName,
+                    State = i.State,
+                    ApprovalPolicyId = i.ApprovalPolicyId,
+                    DependsOn = i.DependsOn.ToList(),
+                    Message = i.Message,
+                    EnqueuedAt = i.EnqueuedAt,
+                    StartedAt = i.StartedAt,
+                    FinishedAt = i.FinishedAt
+                })
+                .ToList()
+        };
+    }
+
+    #endregion
+}
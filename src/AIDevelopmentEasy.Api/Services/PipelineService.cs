@@ -34,9 +34,14 @@ public class PipelineService : IPipelineService
     private readonly ITaskRepository _taskRepository;
     private readonly IApprovalRepository _approvalRepository;
     private readonly IOutputRepository _outputRepository;
+    private readonly IPipelineLogRepository _pipelineLogRepository;
+    private readonly ILLMCallRepository _llmCallRepository;
     private readonly ICodebaseRepository _codebaseRepository;
+    private readonly IApprovalPolicyRepository _approvalPolicyRepository;
+    private readonly IRequirementRepository _requirementRepository;
     private readonly IPipelineNotificationService _notificationService;
     private readonly IKnowledgeService _knowledgeService;
+    private readonly IPullRequestService _pullRequestService;
     private readonly PlannerAgent _plannerAgent;
     private readonly CoderAgent _coderAgent;
     private readonly DebuggerAgent _debuggerAgent;
@@ -52,8 +57,12 @@ public class PipelineService : IPipelineService
     // Track completed pipelines for status retrieval (keeps last N completed for memory efficiency)
     private static readonly ConcurrentDictionary<string, PipelineStatusDto> _completedPipelines = new();
 
-    // LLM call callback for pipeline: when an LLM call completes, we add to current execution and notify
-    private static Action<LLMCallResult>? _currentPipelineLLMCallback;
+    // Last status of runs that stopped before completing (failed, rejected or cancelled), so they can be rerun
+    private static readonly ConcurrentDictionary<string, PipelineStatusDto> _stoppedPipelines = new();
+
+    // LLM call callback of the pipeline running on the current async flow: when an LLM call completes,
+    // it is added to that run's execution and notified. Per flow, so concurrent runs keep their own calls.
+    private static readonly AsyncLocal<Action<CoreLLMCallInfo>?> _pipelineLLMCallback = new();
     private static readonly object _callbackLock = new();
 
     public PipelineService(
@@ -61,9 +70,14 @@ public class PipelineService : IPipelineService
         ITaskRepository taskRepository,
         IApprovalRepository approvalRepository,
         IOutputRepository outputRepository,
+        IPipelineLogRepository pipelineLogRepository,
+        ILLMCallRepository llmCallRepository,
         ICodebaseRepository codebaseRepository,
+        IApprovalPolicyRepository approvalPolicyRepository,
+        IRequirementRepository requirementRepository,
         IPipelineNotificationService notificationService,
         IKnowledgeService knowledgeService,
+        IPullRequestService pullRequestService,
         PlannerAgent plannerAgent,
         CoderAgent coderAgent,
         DebuggerAgent debuggerAgent,
@@ -77,9 +91,14 @@ public class PipelineService : IPipelineService
         _taskRepository = taskRepository;
         _approvalRepository = approvalRepository;
         _outputRepository = outputRepository;
+        _pipelineLogRepository = pipelineLogRepository;
+        _llmCallRepository = llmCallRepository;
         _codebaseRepository = codebaseRepository;
+        _approvalPolicyRepository = approvalPolicyRepository;
+        _requirementRepository = requirementRepository;
         _notificationService = notificationService;
         _knowledgeService = knowledgeService;
+        _pullRequestService = pullRequestService;
         _plannerAgent = plannerAgent;
         _coderAgent = coderAgent;
         _debuggerAgent = debuggerAgent;
@@ -90,7 +109,7 @@ public class PipelineService : IPipelineService
         _logger = logger;
     }
 
-    public async Task<PipelineStatusDto> StartAsync(string storyId, bool autoApproveAll = false, CancellationToken cancellationToken = default)
+    public async Task<PipelineStatusDto> StartAsync(string storyId, bool autoApproveAll = false, string? approvalPolicyId = null, CancellationToken cancellationToken = default)
     {
         // Check if already running
         if (_runningPipelines.ContainsKey(storyId))
@@ -111,23 +130,144 @@ public class PipelineService : IPipelineService
             throw new InvalidOperationException($"Requirement already completed: {storyId}");
         }
 
+        var approvalPolicy = await ResolveApprovalPolicyAsync(story, approvalPolicyId, autoApproveAll, cancellationToken);
+
         // Create pipeline execution context
         var execution = new PipelineExecution
         {
             StoryId = storyId,
-            AutoApproveAll = autoApproveAll,
+            ApprovalPolicy = approvalPolicy,
             Status = CreateInitialStatus(storyId),
             CancellationTokenSource = CancellationTokenSource.CreateLinkedTokenSource(cancellationToken)
         };
+        execution.Status.ApprovalPolicy = approvalPolicy;
+
+        // Earlier rejections explain why phases are being redone
+        execution.Status.Rejections = await _approvalRepository.GetRejectionsAsync(storyId, cancellationToken);
 
         _runningPipelines[storyId] = execution;
 
+        // Each run gets a fresh log; the previous one is archived
+        await _pipelineLogRepository.StartRunAsync(storyId, cancellationToken);
+
         // Start pipeline execution in background
         _ = Task.Run(() => ExecutePipelineAsync(execution), execution.CancellationTokenSource.Token);
 
         return execution.Status;
     }
 
+    public async Task<PipelineStatusDto> RerunFromPhaseAsync(string storyId, PipelinePhase fromPhase, bool autoApproveAll = false, string? approvalPolicyId = null, CancellationToken cancellationToken = default)
+    {
+        if (_runningPipelines.ContainsKey(storyId))
+        {
+            throw new InvalidOperationException($"Pipeline already running for story: {storyId}");
+        }
+
+        var story = await _storyRepository.GetByIdAsync(storyId, cancellationToken);
+        if (story == null)
+        {
+            throw new ArgumentException($"Requirement not found: {storyId}");
+        }
+
+        // Tests run against the deployment they follow, which only lives as long as its run
+        if (fromPhase == PipelinePhase.UnitTesting)
+        {
+            throw new InvalidOperationException("Tests need a fresh deployment - rerun from Deployment instead");
+        }
+        if (fromPhase < PipelinePhase.Analysis || fromPhase > PipelinePhase.Deployment)
+        {
+            throw new InvalidOperationException($"Cannot rerun from {fromPhase}");
+        }
+
+        var previous = await GetStatusAsync(storyId, cancellationToken);
+        var fromStatus = previous?.Phases.FirstOrDefault(p => p.Phase == fromPhase);
+        if (previous == null || fromStatus == null)
+        {
+            throw new InvalidOperationException($"No earlier run to rerun for story: {storyId}");
+        }
+        if (fromStatus.State != PhaseState.Completed && fromStatus.State != PhaseState.Failed)
+        {
+            throw new InvalidOperationException($"{fromPhase} did not complete or fail in the last run");
+        }
+
+        var unfinished = previous.Phases.FirstOrDefault(p =>
+            p.Phase < fromPhase && p.State != PhaseState.Completed && p.State != PhaseState.Skipped);
+        if (unfinished != null)
+        {
+            throw new InvalidOperationException($"{unfinished.Phase} did not complete in the last run - rerun from there");
+        }
+
+        var approvalPolicy = await ResolveApprovalPolicyAsync(story, approvalPolicyId, autoApproveAll, cancellationToken);
+
+        if (fromPhase > PipelinePhase.Planning)
+        {
+            var tasks = (await _taskRepository.GetByStoryAsync(storyId, cancellationToken)).ToList();
+            if (tasks.Count == 0)
+            {
+                throw new InvalidOperationException("The plan was cleared - rerun from Planning");
+            }
+
+            if (fromPhase == PipelinePhase.Coding)
+            {
+                // Code the approved plan again; fix tasks belonged to the code being replaced
+                var originals = tasks.Where(t => t.Type == TaskType.Original).ToList();
+                foreach (var task in originals)
+                {
+                    task.Status = Models.TaskStatus.Pending;
+                }
+                await _taskRepository.SaveTasksAsync(storyId, originals, cancellationToken);
+            }
+        }
+
+        var status = CloneStatus(previous);
+        status.CurrentPhase = fromPhase;
+        status.CompletedAt = null;
+        status.RerunFrom = fromPhase;
+        status.ApprovalPolicy = approvalPolicy;
+
+        // Test runs and retries come from UnitTesting, which always runs again
+        status.TestRuns.Clear();
+        status.RetryHistory.Clear();
+
+        foreach (var phase in status.Phases.Where(p => p.Phase >= fromPhase))
+        {
+            phase.IsStale = phase.State != PhaseState.Pending;
+            phase.State = PhaseState.Pending;
+            phase.Message = null;
+            phase.StartedAt = null;
+            phase.CompletedAt = null;
+        }
+
+        var execution = new PipelineExecution
+        {
+            StoryId = storyId,
+            ApprovalPolicy = approvalPolicy,
+            Status = status,
+            RerunFrom = fromPhase,
+            CancellationTokenSource = CancellationTokenSource.CreateLinkedTokenSource(cancellationToken)
+        };
+
+        // Phases after Coding read the kept output back from disk
+        if (fromPhase > PipelinePhase.Coding)
+        {
+            execution.GeneratedFiles = await _outputRepository.GetGeneratedFilesAsync(storyId, cancellationToken);
+            foreach (var (path, original) in await _outputRepository.GetOriginalFilesAsync(storyId, cancellationToken))
+            {
+                execution.OriginalFiles.TryAdd(path, original);
+            }
+        }
+
+        _runningPipelines[storyId] = execution;
+
+        await _pipelineLogRepository.StartRunAsync(storyId, cancellationToken);
+        await _notificationService.NotifyProgressAsync(storyId,
+            $"Rerunning from {fromPhase} - earlier phases keep their results");
+
+        _ = Task.Run(() => ExecutePipelineAsync(execution), execution.CancellationTokenSource.Token);
+
+        return execution.Status;
+    }
+
     public async Task<PipelineStatusDto?> GetStatusAsync(string storyId, CancellationToken cancellationToken = default)
     {
         // Check running pipelines first
@@ -136,9 +276,20 @@ public class PipelineService : IPipelineService
             return execution.Status;
         }
 
+        // Rejections are recorded after the run ends, so always read them fresh
+        var rejections = await _approvalRepository.GetRejectionsAsync(storyId, cancellationToken);
+
+        // A run that stopped early is more recent than any completed one
+        if (_stoppedPipelines.TryGetValue(storyId, out var stoppedStatus))
+        {
+            stoppedStatus.Rejections = rejections;
+            return stoppedStatus;
+        }
+
         // Check completed pipelines (in-memory cache)
         if (_completedPipelines.TryGetValue(storyId, out var completedStatus))
         {
+            completedStatus.Rejections = rejections;
             return completedStatus;
         }
 
@@ -155,6 +306,7 @@ public class PipelineService : IPipelineService
                 if (status != null)
                 {
                     // Cache it for future requests
+                    status.Rejections = rejections;
                     _completedPipelines[storyId] = status;
                     return status;
                 }
@@ -170,29 +322,237 @@ public class PipelineService : IPipelineService
         {
             StoryId = storyId,
             CurrentPhase = PipelinePhase.None,
-            IsRunning = false
+            IsRunning = false,
+            Rejections = rejections
         };
     }
 
-    public Task<bool> ApprovePhaseAsync(string storyId, PipelinePhase phase, CancellationToken cancellationToken = default)
+    public async Task<bool> ApprovePhaseAsync(
+        string storyId,
+        PipelinePhase phase,
+        List<TaskDto>? editedTasks = null,
+        List<CodingFileDecisionDto>? fileDecisions = null,
+        PullRequestOptionsDto? pullRequest = null,
+        CancellationToken cancellationToken = default)
     {
         if (!_runningPipelines.TryGetValue(storyId, out var execution))
         {
-            return Task.FromResult(false);
+            return false;
         }
 
         if (execution.CurrentPhase != phase || execution.PhaseApprovalTcs == null)
         {
             _logger.LogWarning("Cannot approve phase {Phase} - current phase is {CurrentPhase}", phase, execution.CurrentPhase);
-            return Task.FromResult(false);
+            return false;
+        }
+
+        if (editedTasks != null)
+        {
+            if (phase != PipelinePhase.Planning)
+            {
+                _logger.LogWarning("[{StoryId}] Ignoring edited plan submitted with {Phase} approval", storyId, phase);
+            }
+            else
+            {
+                var (tasks, errors) = await NormalizeEditedPlanAsync(storyId, editedTasks, cancellationToken);
+                if (errors.Count > 0)
+                {
+                    throw new ArgumentException($"Edited plan is invalid: {string.Join("; ", errors.Values)}");
+                }
+
+                // Coding reads the plan from the task repository, so saving it is all it takes
+                await _taskRepository.SaveTasksAsync(storyId, tasks, cancellationToken);
+
+                var phaseStatus = execution.Status.Phases.First(p => p.Phase == PipelinePhase.Planning);
+                var modificationCount = tasks.Count(t => t.IsModification);
+                phaseStatus.Result = new
+                {
+                    TaskCount = tasks.Count,
+                    ModificationCount = modificationCount,
+                    NewFileCount = tasks.Count - modificationCount,
+                    Tasks = tasks.Select(t => new { t.Index, t.Title, t.IsModification, t.TargetFiles }).ToList(),
+                    EditedByUser = true
+                };
+
+                _logger.LogInformation("[{StoryId}] Plan edited before approval: {Count} tasks", storyId, tasks.Count);
+                await _notificationService.NotifyProgressAsync(storyId,
+                    $"✏️ Plan edited before approval: {tasks.Count} task(s)");
+            }
+        }
+
+        if (fileDecisions != null)
+        {
+            if (phase != PipelinePhase.Coding)
+            {
+                _logger.LogWarning("[{StoryId}] Ignoring file decisions submitted with {Phase} approval", storyId, phase);
+            }
+            else
+            {
+                var phaseStatus = execution.Status.Phases.First(p => p.Phase == PipelinePhase.Coding);
+                var files = GetResultFiles(phaseStatus.Result);
+
+                // Last decision per file wins; accepted files need no action
+                var decisions = fileDecisions
+                    .GroupBy(d => d.Path)
+                    .Select(g => g.Last())
+                    .Where(d => d.Decision != FileReviewDecision.Accept)
+                    .ToList();
+
+                var unknownFiles = decisions.Where(d => !files.ContainsKey(d.Path)).Select(d => d.Path).ToList();
+                if (unknownFiles.Count > 0)
+                {
+                    throw new ArgumentException($"Not part of the Coding output: {string.Join(", ", unknownFiles)}");
+                }
+
+                if (files.Count > 0 && decisions.Count(d => d.Decision == FileReviewDecision.Exclude) == files.Count)
+                {
+                    throw new ArgumentException("Every file is excluded - reject the Coding phase instead");
+                }
+
+                execution.PendingFileDecisions = decisions.Count > 0 ? decisions : null;
+                _logger.LogInformation("[{StoryId}] Coding approved with {Rejected} rejected and {Excluded} excluded file(s)",
+                    storyId,
+                    decisions.Count(d => d.Decision == FileReviewDecision.Reject),
+                    decisions.Count(d => d.Decision == FileReviewDecision.Exclude));
+            }
+        }
+
+        if (pullRequest != null)
+        {
+            if (phase != PipelinePhase.PullRequest)
+            {
+                _logger.LogWarning("[{StoryId}] Ignoring pull request details submitted with {Phase} approval", storyId, phase);
+            }
+            else
+            {
+                execution.PendingPullRequest = pullRequest;
+            }
         }
 
         execution.PhaseApprovalTcs.TrySetResult(true);
         _logger.LogInformation("[{StoryId}] Phase {Phase} approved", storyId, phase);
-        return Task.FromResult(true);
+        return true;
+    }
+
+    public async Task<Dictionary<string, string>> ValidatePlanAsync(string storyId, List<TaskDto> tasks, CancellationToken cancellationToken = default)
+    {
+        var (_, errors) = await NormalizeEditedPlanAsync(storyId, tasks, cancellationToken);
+        return errors;
+    }
+
+    /// <summary>
+    /// Cleans up a user-edited plan and checks it against the story's codebase.
+    /// Projects are matched case-insensitively; modification targets must be existing files
+    /// (their FullPath is resolved here), new-file targets must not exist yet.
+    /// Errors are keyed by field path, e.g. "tasks[2].targetFiles".
+    /// </summary>
+    private async Task<(List<TaskDto> Tasks, Dictionary<string, string> Errors)> NormalizeEditedPlanAsync(
+        string storyId,
+        List<TaskDto> editedTasks,
+        CancellationToken ct)
+    {
+        var errors = new Dictionary<string, string>();
+        if (editedTasks.Count == 0)
+        {
+            errors["tasks"] = "The plan must contain at least one task";
+            return (editedTasks, errors);
+        }
+
+        var story = await _storyRepository.GetByIdAsync(storyId, ct);
+        var analysis = !string.IsNullOrEmpty(story?.CodebaseId)
+            ? await _codebaseRepository.GetAnalysisAsync(story.CodebaseId, ct)
+            : null;
+
+        var tasks = new List<TaskDto>();
+        for (var i = 0; i < editedTasks.Count; i++)
+        {
+            var edited = editedTasks[i];
+            var key = $"tasks[{i}]";
+            var task = new TaskDto
+            {
+                Index = i + 1,
+                Title = edited.Title?.Trim() ?? string.Empty,
+                Description = edited.Description?.Trim() ?? string.Empty,
+                ProjectName = string.IsNullOrWhiteSpace(edited.ProjectName) ? "default" : edited.ProjectName.Trim(),
+                TargetFiles = (edited.TargetFiles ?? new List<string>())
+                    .Select(f => f.Trim().Replace('\\', '/'))
+                    .Where(f => f.Length > 0)
+                    .Distinct(StringComparer.OrdinalIgnoreCase)
+                    .ToList(),
+                DependsOnProjects = edited.DependsOnProjects ?? new List<string>(),
+                ProjectOrder = edited.ProjectOrder,
+                Status = Models.TaskStatus.Pending,
+                Type = TaskType.Original,
+                UsesExisting = edited.UsesExisting ?? new List<string>(),
+                IsModification = edited.IsModification,
+                Namespace = edited.Namespace,
+                TargetMethod = edited.TargetMethod,
+                CurrentContent = edited.CurrentContent
+            };
+
+            if (string.IsNullOrEmpty(task.Title))
+                errors[$"{key}.title"] = "Title is required";
+            if (task.ProjectOrder < 0)
+                errors[$"{key}.projectOrder"] = "Project order cannot be negative";
+            if (task.TargetFiles.Count == 0)
+                errors[$"{key}.targetFiles"] = "At least one target file is required";
+
+            if (analysis != null)
+            {
+                var project = analysis.Projects.FirstOrDefault(p =>
+                    p.Name.Equals(task.ProjectName, StringComparison.OrdinalIgnoreCase));
+
+                if (project == null)
+                {
+                    errors[$"{key}.projectName"] = $"Project '{task.ProjectName}' is not part of the codebase";
+                }
+                else
+                {
+                    task.ProjectName = project.Name;
+                    var projectFiles = project.Classes.Concat(project.Interfaces)
+                        .Select(t => t.FilePath.Replace('\\', '/'))
+                        .Where(f => !string.IsNullOrEmpty(f))
+                        .Distinct(StringComparer.OrdinalIgnoreCase)
+                        .ToList();
+
+                    foreach (var targetFile in task.TargetFiles)
+                    {
+                        var match = projectFiles.FirstOrDefault(f => f.Equals(targetFile, StringComparison.OrdinalIgnoreCase))
+                            ?? projectFiles.FirstOrDefault(f => f.EndsWith("/" + targetFile, StringComparison.OrdinalIgnoreCase));
+
+                        if (task.IsModification && match == null)
+                        {
+                            errors[$"{key}.targetFiles"] = $"'{targetFile}' does not exist in {project.Name} - only existing files can be modified";
+                        }
+                        else if (!task.IsModification && match != null)
+                        {
+                            errors[$"{key}.targetFiles"] = $"'{targetFile}' already exists in {project.Name} - mark the task as a modification";
+                        }
+                        else if (task.IsModification && task.FullPath == null)
+                        {
+                            task.FullPath = Path.Combine(analysis.CodebasePath, match!);
+                        }
+                    }
+                }
+
+                var unknownDependencies = task.DependsOnProjects
+                    .Where(d => !analysis.Projects.Any(p => p.Name.Equals(d, StringComparison.OrdinalIgnoreCase)))
+                    .ToList();
+                if (unknownDependencies.Count > 0)
+                    errors[$"{key}.dependsOnProjects"] = $"Unknown project(s): {string.Join(", ", unknownDependencies)}";
+            }
+            else if (task.IsModification)
+            {
+                task.FullPath = edited.FullPath;
+            }
+
+            tasks.Add(task);
+        }
+
+        return (tasks, errors);
     }
 
-    public async Task<bool> RejectPhaseAsync(string storyId, PipelinePhase phase, string? reason = null, CancellationToken cancellationToken = default)
+    public async Task<bool> RejectPhaseAsync(string storyId, PipelinePhase phase, PhaseRejectionDto? feedback = null, CancellationToken cancellationToken = default)
     {
         if (!_runningPipelines.TryGetValue(storyId, out var execution))
         {
@@ -204,8 +564,26 @@ public class PipelineService : IPipelineService
             return false;
         }
 
+        var reason = feedback != null ? FormatRejectionReason(feedback) : null;
         _logger.LogInformation("[{StoryId}] Phase {Phase} rejected. Reason: {Reason}", storyId, phase, reason);
 
+        // "Reject" on the PR phase means "complete without PR" - not reviewer feedback
+        if (feedback != null && phase != PipelinePhase.PullRequest)
+        {
+            feedback.Phase = phase;
+            feedback.RejectedAt = DateTime.UtcNow;
+            execution.Status.Rejections.Add(feedback);
+
+            try
+            {
+                await _approvalRepository.AddRejectionAsync(storyId, feedback, cancellationToken);
+            }
+            catch (Exception ex)
+            {
+                _logger.LogWarning(ex, "[{StoryId}] Failed to save rejection feedback", storyId);
+            }
+        }
+
         // If rejecting UnitTesting or later phases, rollback deployment changes
         if (phase >= PipelinePhase.UnitTesting && execution.LastDeploymentResult != null)
         {
@@ -297,6 +675,129 @@ public class PipelineService : IPipelineService
         return Task.FromResult<RetryInfoDto?>(null);
     }
 
+    public Task<bool> CreateReviewFixTasksAsync(string storyId, List<ReviewFindingDto> findings, CancellationToken cancellationToken = default)
+    {
+        if (!_runningPipelines.TryGetValue(storyId, out var execution))
+        {
+            return Task.FromResult(false);
+        }
+
+        if (execution.CurrentPhase != PipelinePhase.Reviewing || execution.PhaseApprovalTcs == null)
+        {
+            _logger.LogWarning("Cannot create review fix tasks - current phase is {CurrentPhase}", execution.CurrentPhase);
+            return Task.FromResult(false);
+        }
+
+        if (findings.Count == 0)
+        {
+            throw new ArgumentException("No review findings to fix");
+        }
+
+        if (execution.RetryAttempt >= PipelineExecution.MaxRetryAttempts)
+        {
+            throw new InvalidOperationException(
+                $"No retry attempts left ({execution.RetryAttempt}/{PipelineExecution.MaxRetryAttempts}) - approve or reject the review instead");
+        }
+
+        var fixTasks = BuildReviewFixTasks(execution, findings);
+        var reason = $"{fixTasks.Count} review finding(s) sent back to Coding";
+
+        execution.Status.RetryHistory.Add(new RetryAttemptDto
+        {
+            Attempt = execution.RetryAttempt + 1,
+            Reason = RetryReason.ReviewFindings,
+            Error = reason,
+            FixTasks = fixTasks,
+            Action = RetryAction.AutoFix,
+            RequestedAt = DateTime.UtcNow
+        });
+
+        // The Reviewing gate closes as rejected; the pipeline then retries from Coding with these tasks
+        execution.ReviewFixTasks = fixTasks;
+        execution.RejectionReason = reason;
+        execution.PhaseApprovalTcs.TrySetResult(false);
+
+        _logger.LogInformation("[{StoryId}] {Reason}", storyId, reason);
+        return Task.FromResult(true);
+    }
+
+    public async Task<string?> GetManualFixFileAsync(string storyId, string path, CancellationToken cancellationToken = default)
+    {
+        if (!TryGetManualFixFile(storyId, path, out _, out var file))
+            return null;
+
+        return File.Exists(file.FullPath) ? await File.ReadAllTextAsync(file.FullPath, cancellationToken) : string.Empty;
+    }
+
+    public async Task<bool> SaveManualFixFileAsync(string storyId, string path, string content, CancellationToken cancellationToken = default)
+    {
+        if (!TryGetManualFixFile(storyId, path, out var execution, out var file))
+        {
+            _logger.LogWarning("Cannot save {Path} - not part of a manual fix for {StoryId}", path, storyId);
+            return false;
+        }
+
+        // Keep the content from before the first save as the attempt's baseline
+        if (!file.Saved)
+        {
+            file.Before = File.Exists(file.FullPath) ? await File.ReadAllTextAsync(file.FullPath, cancellationToken) : null;
+            file.Saved = true;
+        }
+
+        await File.WriteAllTextAsync(file.FullPath, content, cancellationToken);
+        file.After = content;
+
+        // Later retries and the PR start from the generated files
+        if (file.GeneratedPath != null && execution.GeneratedFiles != null)
+            execution.GeneratedFiles[file.GeneratedPath] = content;
+
+        var fileStatus = execution.Status.ManualFix?.Files.FirstOrDefault(f => f.Path == path);
+        if (fileStatus != null)
+            fileStatus.Saved = true;
+
+        _logger.LogInformation("[{StoryId}] Manual fix saved: {Path}", storyId, path);
+        await _notificationService.NotifyProgressAsync(storyId, $"✏️ Manual fix saved: {path}");
+        return true;
+    }
+
+    public Task<bool> ResumeManualFixAsync(string storyId, CancellationToken cancellationToken = default)
+    {
+        if (!_runningPipelines.TryGetValue(storyId, out var execution) || execution.ManualFixTcs == null)
+        {
+            _logger.LogWarning("Cannot resume - no manual fix pending for {StoryId}", storyId);
+            return Task.FromResult(false);
+        }
+
+        execution.ManualFixTcs.TrySetResult(true);
+        _logger.LogInformation("[{StoryId}] Manual fix done, resuming tests", storyId);
+        return Task.FromResult(true);
+    }
+
+    public Task<bool> ContinueOverBudgetAsync(string storyId, CancellationToken cancellationToken = default)
+    {
+        if (!_runningPipelines.TryGetValue(storyId, out var execution) || execution.BudgetContinueTcs == null)
+        {
+            _logger.LogWarning("Cannot continue - {StoryId} is not paused for its budget", storyId);
+            return Task.FromResult(false);
+        }
+
+        execution.BudgetContinueTcs.TrySetResult(true);
+        _logger.LogInformation("[{StoryId}] Budget overrun approved, continuing", storyId);
+        return Task.FromResult(true);
+    }
+
+    private bool TryGetManualFixFile(
+        string storyId,
+        string path,
+        [System.Diagnostics.CodeAnalysis.NotNullWhen(true)] out PipelineExecution? execution,
+        [System.Diagnostics.CodeAnalysis.NotNullWhen(true)] out ManualFixFile? file)
+    {
+        file = null;
+        return _runningPipelines.TryGetValue(storyId, out execution) &&
+               execution.ManualFixTcs != null &&
+               execution.ManualFixFiles.TryGetValue(path, out file);
+    }
+
     private async Task ExecutePipelineAsync(PipelineExecution execution)
     {
         var storyId = execution.StoryId;
@@ -332,136 +833,35 @@ public class PipelineService : IPipelineService
 
             if (!string.IsNullOrEmpty(story.CodebaseId))
             {
+                if (execution.RerunFrom > PipelinePhase.Analysis)
+                {
+                    // Analysis keeps its result (ExecutePhaseAsync skips it), but later phases still need the codebase context
+                    var context = await LoadAnalysisContextAsync(execution, story, story.CodebaseId, content, ct);
+                    codebaseAnalysis = context.Analysis;
+                    classResult = context.ClassResult;
+                    referenceResult = context.ReferenceResult;
+                }
+
                 var analysisResult = await ExecutePhaseAsync(execution, PipelinePhase.Analysis, async () =>
                 {
                     await _notificationService.NotifyPhaseStartedAsync(storyId, PipelinePhase.Analysis,
                         "CodeAnalysisAgent analyzing codebase...");
 
-                    await _notificationService.NotifyProgressAsync(storyId, $"Loading codebase: {story.CodebaseId}");
-                    codebaseAnalysis = await _codebaseRepository.GetAnalysisAsync(story.CodebaseId, ct);
-
-                    if (codebaseAnalysis == null)
-                    {
-                        throw new InvalidOperationException($"Codebase analysis not found: {story.CodebaseId}");
-                    }
-
-                    var summary = codebaseAnalysis.Summary;
-                    var languages = summary.Languages ?? new List<string>();
-                    var languagesStr = languages.Count > 0 ? string.Join(", ", languages) : "unknown";
-                    await _notificationService.NotifyProgressAsync(storyId,
-                        $"Codebase loaded: {summary.TotalProjects} projects, {summary.TotalClasses} classes, languages: {languagesStr}");
-                    _logger.LogInformation("[Analysis] Codebase {CodebaseId} languages: {Languages} – planning will use matching file extensions",
-                        story.CodebaseId, languagesStr);
-
-                    // Use target class from story if provided, otherwise try to extract from content
-                    var targetClassName = !string.IsNullOrEmpty(story.TargetClass)
-                        ? story.TargetClass
-                        : ExtractTargetClassName(content);
-
-                    // Read target file content from disk if specified
-                    string? targetFileContent = null;
-                    string? targetMethodContent = null;
-                    if (!string.IsNullOrEmpty(story.TargetFile) && !string.IsNullOrEmpty(codebaseAnalysis.CodebasePath))
-                    {
-                        var fullPath = Path.Combine(codebaseAnalysis.CodebasePath, story.TargetFile);
-                        if (File.Exists(fullPath))
-                        {
-                            targetFileContent = await File.ReadAllTextAsync(fullPath, ct);
-                            await _notificationService.NotifyProgressAsync(storyId,
-                                $"Read target file: {story.TargetFile} ({targetFileContent.Length} chars)");
-
-                            // Extract specific method if specified
-                            if (!string.IsNullOrEmpty(story.TargetMethod))
-                            {
-                                targetMethodContent = ExtractMethodContent(targetFileContent, story.TargetMethod);
-                                if (!string.IsNullOrEmpty(targetMethodContent))
-                                {
-                                    await _notificationService.NotifyProgressAsync(storyId,
-                                        $"Extracted target method: {story.TargetMethod}");
-                                }
-                            }
-                        }
-                        else
-                        {
-                            _logger.LogWarning("[Analysis] Target file not found: {Path}", fullPath);
-                        }
-                    }
-
-                    // Read test file content if specified
-                    string? targetTestFileContent = null;
-                    if (!string.IsNullOrEmpty(story.TargetTestFile) && !string.IsNullOrEmpty(codebaseAnalysis.CodebasePath))
-                    {
-                        var fullTestPath = Path.Combine(codebaseAnalysis.CodebasePath, story.TargetTestFile);
-                        if (File.Exists(fullTestPath))
-                        {
-                            targetTestFileContent = await File.ReadAllTextAsync(fullTestPath, ct);
-                            await _notificationService.NotifyProgressAsync(storyId,
-                                $"Read target test file: {story.TargetTestFile} ({targetTestFileContent.Length} chars)");
-                        }
-                    }
-
-                    // Only search for class if NOT using targeted modification (file/class already specified)
-                    var hasExplicitTarget = !string.IsNullOrEmpty(story.TargetFile) && !string.IsNullOrEmpty(story.TargetClass);
-
-                    if (!string.IsNullOrEmpty(targetClassName) && !hasExplicitTarget)
-                    {
-                        // No explicit target - try to find class in codebase
-                        await _notificationService.NotifyProgressAsync(storyId,
-                            $"Searching for class: {targetClassName}...");
-
-                        classResult = await _codeAnalysisAgent.FindClassAsync(codebaseAnalysis, targetClassName, includeContent: true);
-
-                        if (classResult.Found)
-                        {
-                            await _notificationService.NotifyProgressAsync(storyId,
-                                $"Found class at: {classResult.FilePath}");
-
-                            referenceResult = await _codeAnalysisAgent.FindReferencesAsync(codebaseAnalysis, targetClassName, ct);
-
-                            await _notificationService.NotifyProgressAsync(storyId,
-                                $"Found {referenceResult.References.Count} references in {referenceResult.AffectedFiles.Count} files");
-                        }
-                        else
-                        {
-                            await _notificationService.NotifyProgressAsync(storyId,
-                                $"Class '{targetClassName}' not found, will create new code");
-                        }
-                    }
-                    else if (hasExplicitTarget)
-                    {
-                        // Explicit target specified - use it directly, no need to search
-                        await _notificationService.NotifyProgressAsync(storyId,
-                            $"Using explicit target: {story.TargetClass} in {story.TargetFile}");
-
-                        _logger.LogInformation("[Analysis] Explicit target: {Project}/{File}/{Class}.{Method}",
-                            story.TargetProject, story.TargetFile, story.TargetClass, story.TargetMethod);
-                    }
-
-                    // Store target info in execution for later use
-                    execution.TargetInfo = new TargetInfo
-                    {
-                        Project = story.TargetProject,
-                        File = story.TargetFile,
-                        Class = story.TargetClass,
-                        Method = story.TargetMethod,
-                        ChangeType = story.ChangeType,
-                        FileContent = targetFileContent,
-                        MethodContent = targetMethodContent,
-                        TestProject = story.TargetTestProject,
-                        TestFile = story.TargetTestFile,
-                        TestClass = story.TargetTestClass,
-                        TestFileContent = targetTestFileContent
-                    };
+                    var context = await LoadAnalysisContextAsync(execution, story, story.CodebaseId, content, ct);
+                    codebaseAnalysis = context.Analysis;
+                    classResult = context.ClassResult;
+                    referenceResult = context.ReferenceResult;
 
+                    var summary = context.Analysis.Summary;
                     return new
                     {
-                        CodebaseName = codebaseAnalysis.CodebaseName,
-                        CodebasePath = codebaseAnalysis.CodebasePath,
+                        CodebaseName = context.Analysis.CodebaseName,
+                        CodebasePath = context.Analysis.CodebasePath,
                         TotalProjects = summary.TotalProjects,
                         TotalClasses = summary.TotalClasses,
                         TotalInterfaces = summary.TotalInterfaces,
                         Patterns = summary.DetectedPatterns,
-                        TargetClass = targetClassName,
+                        TargetClass = context.TargetClassName,
                         TargetFile = story.TargetFile,
                         TargetMethod = story.TargetMethod,
                         ChangeType = story.ChangeType.ToString(),
@@ -469,8 +869,8 @@ public class PipelineService : IPipelineService
                         ClassFilePath = classResult?.FullPath,
                         ReferenceCount = referenceResult?.References.Count ?? 0,
                         AffectedFiles = referenceResult?.AffectedFiles ?? new List<string>(),
-                        HasTargetFileContent = targetFileContent != null,
-                        HasTestFileContent = targetTestFileContent != null
+                        HasTargetFileContent = execution.TargetInfo?.FileContent != null,
+                        HasTestFileContent = execution.TargetInfo?.TestFileContent != null
                     };
                 }, ct);
 
@@ -665,6 +1065,12 @@ public class PipelineService : IPipelineService
                                 {
                                     modifiedFiles[fileKey] = code.ToString()!;
 
+                                    // Keep the pre-change content so reviewers can diff the modification
+                                    if (response.Data.TryGetValue("original_code", out var originalCode) && originalCode is string original)
+                                    {
+                                        execution.OriginalFiles.TryAdd(fileKey, original);
+                                    }
+
                                     // If we have the full path, we could write back to the original file
                                     if (response.Data.TryGetValue("full_path", out var fullPath) && !string.IsNullOrEmpty(fullPath?.ToString()))
                                     {
@@ -702,6 +1108,11 @@ public class PipelineService : IPipelineService
                     story?.Name ?? storyId,
                     generatedFiles.ToDictionary(k => k.Key, v => v.Value),
                     ct);
+                await _outputRepository.SaveOriginalFilesAsync(
+                    storyId,
+                    story?.Name ?? storyId,
+                    execution.OriginalFiles.ToDictionary(k => k.Key, v => v.Value),
+                    ct);
 
                 return new
                 {
@@ -722,6 +1133,8 @@ public class PipelineService : IPipelineService
                 execution.GeneratedFiles = files;
             }
 
+            if (!await ApplyCodingFileDecisionsAsync(execution, story, content, codebaseAnalysis, ct)) return;
+
             // Phase 4: Debugging (DebuggerAgent - verify and fix code)
             // IMPORTANT: For targeted method modifications, we compile with dummy wrappers
             // The actual codebase is NOT modified until Deployment phase
@@ -868,7 +1281,11 @@ public class PipelineService : IPipelineService
                 };
             }, ct);
 
-            if (!reviewResult.Approved) return;
+            if (!reviewResult.Approved)
+            {
+                await RetryFromReviewAsync(execution, codebaseAnalysis, story, ct);
+                return;
+            }
 
             // Phase 6: Deployment (DeploymentAgent - deploy to codebase and build)
             // Only run if a codebase is associated
@@ -973,6 +1390,13 @@ public class PipelineService : IPipelineService
                     // Store for potential rollback
                     lastDeploymentResult = deploymentResult;
 
+                    foreach (var copied in deploymentResult.CopiedFiles)
+                    {
+                        await _notificationService.NotifyDeploymentFileWrittenAsync(storyId,
+                            Path.GetRelativePath(deploymentResult.CodebasePath, copied.TargetPath),
+                            copied.IsNewFile, copied.Success, copied.Error);
+                    }
+
                     if (deploymentResult.Success)
                     {
                         await _notificationService.NotifyProgressAsync(storyId,
@@ -1076,69 +1500,10 @@ public class PipelineService : IPipelineService
                     return;
                 }
 
-                // Phase 8: Pull Request Creation (OPTIONAL)
-                // User can choose to create PR or complete without PR
-                var prPhaseStatus = execution.Status.Phases.First(p => p.Phase == PipelinePhase.PullRequest);
-                execution.CurrentPhase = PipelinePhase.PullRequest;
-                execution.Status.CurrentPhase = PipelinePhase.PullRequest;
-                prPhaseStatus.State = PhaseState.WaitingApproval;
-                prPhaseStatus.StartedAt = DateTime.UtcNow;
-
-                var prInfo = new
-                {
-                    BranchName = $"feature/ai-{story?.Name?.ToLowerInvariant().Replace(" ", "-") ?? storyId}",
-                    FileCount = lastDeploymentResult?.TotalFilesCopied ?? 0,
-                    NewFiles = lastDeploymentResult?.NewFilesCreated ?? 0,
-                    ModifiedFiles = lastDeploymentResult?.FilesModified ?? 0,
-                    IsOptional = true,
-                    Message = "GitHub PR creation is optional. You can complete now or create a PR."
-                };
-
-                prPhaseStatus.Result = prInfo;
-                prPhaseStatus.LlmCallsSummary = execution.LLMCallsSinceLastApproval.Count > 0
-                    ? new List<LLMCallResult>(execution.LLMCallsSinceLastApproval)
-                    : null;
-                execution.AllLLMCalls.AddRange(execution.LLMCallsSinceLastApproval);
-                execution.LLMCallsSinceLastApproval.Clear();
-
-                await _notificationService.NotifyPhasePendingApprovalAsync(
-                    storyId,
-                    PipelinePhase.PullRequest,
-                    $"Deployment successful! {prInfo.FileCount} files deployed. Create GitHub PR or complete?",
-                    prInfo);
-
-                // Wait for user decision (approve = create PR, reject = complete without PR)
-                bool createPr;
-                if (execution.AutoApproveAll)
-                {
-                    createPr = false; // Skip PR in auto mode
-                }
-                else
-                {
-                    execution.PhaseApprovalTcs = new TaskCompletionSource<bool>();
-                    createPr = await execution.PhaseApprovalTcs.Task;
-                }
-
-                if (createPr)
-                {
-                    // TODO: Implement actual GitHub PR creation
-                    await _notificationService.NotifyProgressAsync(storyId,
-                        "GitHub PR integration coming soon. For now, changes are deployed to codebase.");
-                    prPhaseStatus.State = PhaseState.Completed;
-                    prPhaseStatus.Message = "PR creation skipped (not yet implemented)";
-                }
-                else
-                {
-                    // User chose to complete without PR
-                    prPhaseStatus.State = PhaseState.Skipped;
-                    prPhaseStatus.Message = "Completed without PR";
-                    await _notificationService.NotifyProgressAsync(storyId,
-                        "Completing without GitHub PR. Changes are deployed to codebase.");
-                }
-
-                prPhaseStatus.CompletedAt = DateTime.UtcNow;
-                await _notificationService.NotifyPhaseCompletedAsync(storyId, PipelinePhase.PullRequest,
-                    createPr ? "PR phase completed" : "Completed without PR");
+                // Phase 8: Pull Request (OPTIONAL)
+                // User can open a GitHub PR, commit to a local branch, write a patch or complete without any
+                await ExecutePullRequestPhaseAsync(execution, story, lastDeploymentResult,
+                    $"Deployment successful! {lastDeploymentResult?.TotalFilesCopied ?? 0} files deployed. Create a pull request or complete?", ct);
             }
 
             // Mark as completed (this also clears InProgress)
@@ -1170,88 +1535,710 @@ public class PipelineService : IPipelineService
                 _logger.LogWarning(kbEx, "[{StoryId}] Knowledge capture failed (non-fatal)", storyId);
             }
         }
-        catch (OperationCanceledException)
+        catch (OperationCanceledException)
+        {
+            _logger.LogInformation("[{StoryId}] Pipeline cancelled", storyId);
+            await _approvalRepository.ResetInProgressAsync(storyId, CancellationToken.None);
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "[{StoryId}] Pipeline failed", storyId);
+            await _notificationService.NotifyErrorAsync(storyId, execution.CurrentPhase, ex);
+            await _notificationService.NotifyPhaseFailedAsync(storyId, execution.CurrentPhase, ex.Message);
+            await _approvalRepository.ResetInProgressAsync(storyId, CancellationToken.None);
+        }
+        finally
+        {
+            ClearPipelineLLMCallback();
+            execution.Status.IsRunning = false;
+
+            // Keep where a stopped run ended, so its phases can be rerun
+            if (execution.Status.CurrentPhase == PipelinePhase.Completed)
+            {
+                _stoppedPipelines.TryRemove(storyId, out _);
+            }
+            else
+            {
+                _stoppedPipelines[storyId] = CloneStatus(execution.Status);
+            }
+
+            _runningPipelines.TryRemove(storyId, out _);
+            await _notificationService.NotifyStoryListChangedAsync();
+        }
+    }
+
+    /// <summary>
+    /// Load the codebase context the later phases work from: the analysis, the target files' content
+    /// (stored as execution.TargetInfo) and, without an explicit target, the class to change and its references.
+    /// </summary>
+    private async Task<AnalysisContext> LoadAnalysisContextAsync(
+        PipelineExecution execution,
+        StoryDto story,
+        string codebaseId,
+        string content,
+        CancellationToken ct)
+    {
+        var storyId = execution.StoryId;
+        ClassSearchResult? classResult = null;
+        ReferenceSearchResult? referenceResult = null;
+
+        await _notificationService.NotifyProgressAsync(storyId, $"Loading codebase: {codebaseId}");
+        var codebaseAnalysis = await _codebaseRepository.GetAnalysisAsync(codebaseId, ct);
+
+        if (codebaseAnalysis == null)
+        {
+            throw new InvalidOperationException($"Codebase analysis not found: {codebaseId}");
+        }
+
+        var summary = codebaseAnalysis.Summary;
+        var languages = summary.Languages ?? new List<string>();
+        var languagesStr = languages.Count > 0 ? string.Join(", ", languages) : "unknown";
+        await _notificationService.NotifyProgressAsync(storyId,
+            $"Codebase loaded: {summary.TotalProjects} projects, {summary.TotalClasses} classes, languages: {languagesStr}");
+        _logger.LogInformation("[Analysis] Codebase {CodebaseId} languages: {Languages} – planning will use matching file extensions",
+            codebaseId, languagesStr);
+
+        // Use target class from story if provided, otherwise try to extract from content
+        var targetClassName = !string.IsNullOrEmpty(story.TargetClass)
+            ? story.TargetClass
+            : ExtractTargetClassName(content);
+
+        // Read target file content from disk if specified
+        string? targetFileContent = null;
+        string? targetMethodContent = null;
+        if (!string.IsNullOrEmpty(story.TargetFile) && !string.IsNullOrEmpty(codebaseAnalysis.CodebasePath))
+        {
+            var fullPath = Path.Combine(codebaseAnalysis.CodebasePath, story.TargetFile);
+            if (File.Exists(fullPath))
+            {
+                targetFileContent = await File.ReadAllTextAsync(fullPath, ct);
+                await _notificationService.NotifyProgressAsync(storyId,
+                    $"Read target file: {story.TargetFile} ({targetFileContent.Length} chars)");
+
+                // Extract specific method if specified
+                if (!string.IsNullOrEmpty(story.TargetMethod))
+                {
+                    targetMethodContent = ExtractMethodContent(targetFileContent, story.TargetMethod);
+                    if (!string.IsNullOrEmpty(targetMethodContent))
+                    {
+                        await _notificationService.NotifyProgressAsync(storyId,
+                            $"Extracted target method: {story.TargetMethod}");
+                    }
+                }
+            }
+            else
+            {
+                _logger.LogWarning("[Analysis] Target file not found: {Path}", fullPath);
+            }
+        }
+
+        // Read test file content if specified
+        string? targetTestFileContent = null;
+        if (!string.IsNullOrEmpty(story.TargetTestFile) && !string.IsNullOrEmpty(codebaseAnalysis.CodebasePath))
+        {
+            var fullTestPath = Path.Combine(codebaseAnalysis.CodebasePath, story.TargetTestFile);
+            if (File.Exists(fullTestPath))
+            {
+                targetTestFileContent = await File.ReadAllTextAsync(fullTestPath, ct);
+                await _notificationService.NotifyProgressAsync(storyId,
+                    $"Read target test file: {story.TargetTestFile} ({targetTestFileContent.Length} chars)");
+            }
+        }
+
+        // Only search for class if NOT using targeted modification (file/class already specified)
+        var hasExplicitTarget = !string.IsNullOrEmpty(story.TargetFile) && !string.IsNullOrEmpty(story.TargetClass);
+
+        if (!string.IsNullOrEmpty(targetClassName) && !hasExplicitTarget)
+        {
+            // No explicit target - try to find class in codebase
+            await _notificationService.NotifyProgressAsync(storyId,
+                $"Searching for class: {targetClassName}...");
+
+            classResult = await _codeAnalysisAgent.FindClassAsync(codebaseAnalysis, targetClassName, includeContent: true);
+
+            if (classResult.Found)
+            {
+                await _notificationService.NotifyProgressAsync(storyId,
+                    $"Found class at: {classResult.FilePath}");
+
+                referenceResult = await _codeAnalysisAgent.FindReferencesAsync(codebaseAnalysis, targetClassName, ct);
+
+                await _notificationService.NotifyProgressAsync(storyId,
+                    $"Found {referenceResult.References.Count} references in {referenceResult.AffectedFiles.Count} files");
+            }
+            else
+            {
+                await _notificationService.NotifyProgressAsync(storyId,
+                    $"Class '{targetClassName}' not found, will create new code");
+            }
+        }
+        else if (hasExplicitTarget)
+        {
+            // Explicit target specified - use it directly, no need to search
+            await _notificationService.NotifyProgressAsync(storyId,
+                $"Using explicit target: {story.TargetClass} in {story.TargetFile}");
+
+            _logger.LogInformation("[Analysis] Explicit target: {Project}/{File}/{Class}.{Method}",
+                story.TargetProject, story.TargetFile, story.TargetClass, story.TargetMethod);
+        }
+
+        // Store target info in execution for later use
+        execution.TargetInfo = new TargetInfo
+        {
+            Project = story.TargetProject,
+            File = story.TargetFile,
+            Class = story.TargetClass,
+            Method = story.TargetMethod,
+            ChangeType = story.ChangeType,
+            FileContent = targetFileContent,
+            MethodContent = targetMethodContent,
+            TestProject = story.TargetTestProject,
+            TestFile = story.TargetTestFile,
+            TestClass = story.TargetTestClass,
+            TestFileContent = targetTestFileContent
+        };
+
+        return new AnalysisContext
+        {
+            Analysis = codebaseAnalysis,
+            TargetClassName = targetClassName,
+            ClassResult = classResult,
+            ReferenceResult = referenceResult
+        };
+    }
+
+    private async Task<PhaseResult> ExecutePhaseAsync(
+        PipelineExecution execution,
+        PipelinePhase phase,
+        Func<Task<object>> action,
+        CancellationToken ct)
+    {
+        // A rerun keeps the phases before the one it starts from; their output is read back from
+        // the repositories, so no result is returned. Once it gets there, later phases (and retries) run as usual.
+        if (execution.RerunFrom is { } rerunFrom)
+        {
+            if (phase < rerunFrom) return new PhaseResult { Approved = true };
+            execution.RerunFrom = null;
+        }
+
+        await WaitWhileOverBudgetAsync(execution, phase, ct);
+
+        execution.CurrentPhase = phase;
+        execution.Status.CurrentPhase = phase;
+
+        var phaseStatus = execution.Status.Phases.First(p => p.Phase == phase);
+        phaseStatus.State = PhaseState.Running;
+        phaseStatus.StartedAt = DateTime.UtcNow;
+        BeginPhaseRun(execution, phaseStatus);
+
+        try
+        {
+            var result = await action();
+
+            phaseStatus.Result = result;
+            phaseStatus.LlmCallsSummary = execution.LLMCallsSinceLastApproval.Count > 0
+                ? new List<LLMCallResult>(execution.LLMCallsSinceLastApproval)
+                : null;
+            MarkPhaseRunWaiting(execution, phaseStatus);
+            execution.AllLLMCalls.AddRange(execution.LLMCallsSinceLastApproval);
+            execution.LLMCallsSinceLastApproval.Clear();
+            phaseStatus.State = PhaseState.WaitingApproval;
+
+            await _notificationService.NotifyPhasePendingApprovalAsync(
+                execution.StoryId, phase,
+                $"{phase} completed. Waiting for approval...",
+                result);
+
+            // Wait for approval (or auto-approve)
+            bool approved;
+            if (execution.AutoApproves(phase))
+            {
+                approved = true;
+                await RecordAutoApprovalAsync(execution, phaseStatus);
+            }
+            else
+            {
+                execution.PhaseApprovalTcs = new TaskCompletionSource<bool>();
+                approved = await execution.PhaseApprovalTcs.Task;
+            }
+
+            if (approved)
+            {
+                phaseStatus.State = PhaseState.Completed;
+                phaseStatus.CompletedAt = DateTime.UtcNow;
+                await _notificationService.NotifyPhaseCompletedAsync(execution.StoryId, phase, $"{phase} approved");
+            }
+            else
+            {
+                phaseStatus.State = PhaseState.Skipped;
+                phaseStatus.Message = execution.RejectionReason;
+            }
+
+            return new PhaseResult { Approved = approved, Result = result };
+        }
+        catch (Exception ex)
+        {
+            phaseStatus.State = PhaseState.Failed;
+            phaseStatus.Message = ex.Message;
+            throw;
+        }
+        finally
+        {
+            EndPhaseRun(execution, phaseStatus);
+        }
+    }
+
+    // ═══════════════════════════════════════════════════════════════════════════
+    // Approval policies
+    // ═══════════════════════════════════════════════════════════════════════════
+
+    /// <summary>
+    /// Pick the approval policy for a run: the requested one, else the story's, else the codebase's.
+    /// autoApproveAll (the older flag) approves every gate. Null means every gate waits for the user.
+    /// </summary>
+    private async Task<ApprovalPolicyDto?> ResolveApprovalPolicyAsync(
+        StoryDto story,
+        string? approvalPolicyId,
+        bool autoApproveAll,
+        CancellationToken cancellationToken)
+    {
+        if (autoApproveAll)
+        {
+            return new ApprovalPolicyDto
+            {
+                Name = "Auto-approve all",
+                AutoApprovePhases = Enum.GetValues<PipelinePhase>()
+                    .Where(p => p >= PipelinePhase.Analysis && p <= PipelinePhase.PullRequest)
+                    .ToList()
+            };
+        }
+
+        if (approvalPolicyId == ApprovalPolicyDto.ManualId)
+        {
+            return null;
+        }
+
+        if (!string.IsNullOrEmpty(approvalPolicyId))
+        {
+            return await _approvalPolicyRepository.GetByIdAsync(approvalPolicyId, cancellationToken)
+                ?? throw new InvalidOperationException($"Approval policy not found: {approvalPolicyId}");
+        }
+
+        var codebase = string.IsNullOrEmpty(story.CodebaseId)
+            ? null
+            : await _codebaseRepository.GetByIdAsync(story.CodebaseId, cancellationToken);
+
+        foreach (var assignedId in new[] { story.ApprovalPolicyId, codebase?.ApprovalPolicyId })
+        {
+            if (string.IsNullOrEmpty(assignedId)) continue;
+
+            var policy = await _approvalPolicyRepository.GetByIdAsync(assignedId, cancellationToken);
+            if (policy != null) return policy;
+
+            _logger.LogWarning("Approval policy {PolicyId} assigned to story {StoryId} no longer exists", assignedId, story.Id);
+        }
+
+        return null;
+    }
+
+    /// <summary>
+    /// A gate was passed by the run's approval policy instead of the user: note the policy on the
+    /// phase's open run and in the pipeline log so the decision can be audited.
+    /// </summary>
+    private async Task RecordAutoApprovalAsync(PipelineExecution execution, PhaseStatusDto phaseStatus, string? decision = null)
+    {
+        var policyName = execution.ApprovalPolicy?.Name ?? "approval policy";
+        var run = phaseStatus.Runs.LastOrDefault();
+        if (run != null && run.CompletedAt == null)
+        {
+            run.AutoApprovedBy = policyName;
+        }
+
+        _logger.LogInformation("[Approval] {Phase} auto-approved by policy {Policy} for {StoryId}",
+            phaseStatus.Phase, policyName, execution.StoryId);
+        await _notificationService.NotifyProgressAsync(execution.StoryId,
+            decision == null
+                ? $"{phaseStatus.Phase} auto-approved by policy '{policyName}'"
+                : $"{phaseStatus.Phase} auto-approved by policy '{policyName}' - {decision}");
+    }
+
+    // ═══════════════════════════════════════════════════════════════════════════
+    // Cost budgets
+    // ═══════════════════════════════════════════════════════════════════════════
+
+    /// <summary>
+    /// Before a phase starts, pause the run while the story's or the requirement's budget is exceeded
+    /// and wait for the user to approve going on. Approval policies never pass this gate. An approved
+    /// overrun holds for the rest of the run; budgets are read again before every phase, so a budget
+    /// raised in the meantime is respected. Calls are not checked one by one: a long phase such as
+    /// Coding or Debugging finishes before the pause, overshooting the budget by its own spend.
+    /// </summary>
+    private async Task WaitWhileOverBudgetAsync(PipelineExecution execution, PipelinePhase phase, CancellationToken ct)
+    {
+        while (await FindExceededBudgetAsync(execution, phase, ct) is { } pause)
+        {
+            var continueTcs = new TaskCompletionSource<bool>();
+            execution.BudgetContinueTcs = continueTcs;
+            execution.Status.BudgetPause = pause;
+
+            _logger.LogWarning("[{StoryId}] {Scope} budget exceeded before {Phase}: {Tokens} tokens, {Cost} USD",
+                execution.StoryId, pause.Scope, phase, pause.SpentTokens, pause.SpentCostUSD);
+            await _notificationService.NotifyPhasePendingApprovalAsync(execution.StoryId, phase,
+                $"💰 {pause.Scope} budget exceeded ({DescribeSpend(pause)}) - approve to continue with {phase}", pause);
+
+            using (ct.Register(() => continueTcs.TrySetCanceled()))
+            {
+                await continueTcs.Task;
+            }
+
+            execution.BudgetContinueTcs = null;
+            execution.Status.BudgetPause = null;
+            execution.BudgetOverrides.Add(pause.Scope);
+
+            await _notificationService.NotifyProgressAsync(execution.StoryId,
+                $"▶️ {pause.Scope} budget overrun approved - continuing with {phase}...");
+        }
+    }
+
+    /// <summary>
+    /// The story budget covers this run (retries included); the requirement budget covers every
+    /// stored call of every story created from the requirement.
+    /// </summary>
+    private async Task<BudgetPauseDto?> FindExceededBudgetAsync(PipelineExecution execution, PipelinePhase phase, CancellationToken ct)
+    {
+        var story = await _storyRepository.GetByIdAsync(execution.StoryId, ct);
+        if (story == null)
+            return null;
+
+        if (story.Budget?.HasLimits == true && !execution.BudgetOverrides.Contains(BudgetScope.Story))
+        {
+            var calls = execution.AllLLMCalls.Concat(execution.LLMCallsSinceLastApproval).ToList();
+            var pause = CheckBudget(BudgetScope.Story, story.Id, story.Budget, phase,
+                calls.Sum(c => c.TotalTokens), calls.Sum(c => c.ActualCostUSD));
+            if (pause != null)
+                return pause;
+        }
+
+        if (!string.IsNullOrEmpty(story.RequirementId) && !execution.BudgetOverrides.Contains(BudgetScope.Requirement))
+        {
+            var requirement = await _requirementRepository.GetByIdAsync(story.RequirementId, ct);
+            if (requirement?.Budget?.HasLimits == true)
+            {
+                var tokens = 0;
+                var cost = 0m;
+                foreach (var storyId in requirement.CreatedStoryIds)
+                {
+                    var usage = await _llmCallRepository.GetUsageAsync(storyId, ct);
+                    tokens += usage.TotalTokens;
+                    cost += usage.CostUSD;
+                }
+
+                return CheckBudget(BudgetScope.Requirement, requirement.Id, requirement.Budget, phase, tokens, cost);
+            }
+        }
+
+        return null;
+    }
+
+    private static BudgetPauseDto? CheckBudget(
+        BudgetScope scope,
+        string scopeId,
+        CostBudgetDto budget,
+        PipelinePhase phase,
+        int spentTokens,
+        decimal spentCost)
+    {
+        var exceeded = (budget.MaxTokens.HasValue && spentTokens > budget.MaxTokens.Value)
+            || (budget.MaxCostUSD.HasValue && spentCost > budget.MaxCostUSD.Value);
+        if (!exceeded)
+            return null;
+
+        return new BudgetPauseDto
         {
-            _logger.LogInformation("[{StoryId}] Pipeline cancelled", storyId);
-            await _approvalRepository.ResetInProgressAsync(storyId, CancellationToken.None);
-        }
-        catch (Exception ex)
+            Scope = scope,
+            ScopeId = scopeId,
+            Phase = phase,
+            Budget = budget,
+            SpentTokens = spentTokens,
+            SpentCostUSD = spentCost,
+            PausedAt = DateTime.UtcNow
+        };
+    }
+
+    private static string DescribeSpend(BudgetPauseDto pause)
+    {
+        var parts = new List<string>();
+        if (pause.Budget.MaxTokens.HasValue)
+            parts.Add($"{pause.SpentTokens:N0} of {pause.Budget.MaxTokens.Value:N0} tokens");
+        if (pause.Budget.MaxCostUSD.HasValue)
+            parts.Add($"${pause.SpentCostUSD:F4} of ${pause.Budget.MaxCostUSD.Value:F2}");
+        return string.Join(", ", parts);
+    }
+
+    // ═══════════════════════════════════════════════════════════════════════════
+    // Phase run timeline
+    // ═══════════════════════════════════════════════════════════════════════════
+
+    /// <summary>
+    /// Open a timeline run for a phase that just started (phaseStatus.StartedAt is set).
+    /// A result left over from before a rerun is about to be replaced, so it stops being stale.
+    /// </summary>
+    private static void BeginPhaseRun(PipelineExecution execution, PhaseStatusDto phaseStatus)
+    {
+        phaseStatus.IsStale = false;
+        phaseStatus.Runs.Add(new PhaseRunDto
         {
-            _logger.LogError(ex, "[{StoryId}] Pipeline failed", storyId);
-            await _notificationService.NotifyPhaseFailedAsync(storyId, execution.CurrentPhase, ex.Message);
-            await _approvalRepository.ResetInProgressAsync(storyId, CancellationToken.None);
-        }
-        finally
+            RetryAttempt = execution.RetryAttempt,
+            State = PhaseState.Running,
+            StartedAt = phaseStatus.StartedAt ?? DateTime.UtcNow
+        });
+    }
+
+    /// <summary>
+    /// The agent is done and the phase waits for a user decision - compute time ends here.
+    /// Call before the execution's pending LLM calls are cleared.
+    /// </summary>
+    private static void MarkPhaseRunWaiting(PipelineExecution execution, PhaseStatusDto phaseStatus)
+    {
+        var run = phaseStatus.Runs.LastOrDefault();
+        if (run == null || run.CompletedAt != null) return;
+
+        run.WaitingSince = DateTime.UtcNow;
+        run.LlmCalls = new List<LLMCallResult>(execution.LLMCallsSinceLastApproval);
+    }
+
+    /// <summary>
+    /// Close the open run with the phase's final state. A run that never waited
+    /// (skipped or failed) takes the LLM calls still pending in the execution.
+    /// </summary>
+    private static void EndPhaseRun(PipelineExecution execution, PhaseStatusDto phaseStatus)
+    {
+        var run = phaseStatus.Runs.LastOrDefault();
+        if (run == null || run.CompletedAt != null) return;
+
+        run.CompletedAt = DateTime.UtcNow;
+        run.State = phaseStatus.State;
+        if (run.WaitingSince == null)
         {
-            ClearPipelineLLMCallback();
-            execution.Status.IsRunning = false;
-            _runningPipelines.TryRemove(storyId, out _);
-            await _notificationService.NotifyStoryListChangedAsync();
+            run.LlmCalls = new List<LLMCallResult>(execution.LLMCallsSinceLastApproval);
         }
     }
 
-    private async Task<PhaseResult> ExecutePhaseAsync(
+    /// <summary>
+    /// Apply the per-file decisions made at Coding approval. Excluded files are dropped from the output;
+    /// rejected files go back to CoderAgent with the reviewer's note, after which Coding waits for
+    /// approval again - until a round comes back without rejections.
+    /// Returns false when a revision round is rejected.
+    /// </summary>
+    private async Task<bool> ApplyCodingFileDecisionsAsync(
         PipelineExecution execution,
-        PipelinePhase phase,
-        Func<Task<object>> action,
+        StoryDto? story,
+        string content,
+        Core.Models.CodebaseAnalysis? codebaseAnalysis,
         CancellationToken ct)
     {
-        execution.CurrentPhase = phase;
-        execution.Status.CurrentPhase = phase;
-
-        var phaseStatus = execution.Status.Phases.First(p => p.Phase == phase);
-        phaseStatus.State = PhaseState.Running;
-        phaseStatus.StartedAt = DateTime.UtcNow;
+        var storyId = execution.StoryId;
+        var outputName = story?.Name ?? storyId;
 
-        try
+        while (execution.PendingFileDecisions is { Count: > 0 } decisions)
         {
-            var result = await action();
+            execution.PendingFileDecisions = null;
 
-            phaseStatus.Result = result;
-            phaseStatus.LlmCallsSummary = execution.LLMCallsSinceLastApproval.Count > 0
-                ? new List<LLMCallResult>(execution.LLMCallsSinceLastApproval)
-                : null;
-            execution.AllLLMCalls.AddRange(execution.LLMCallsSinceLastApproval);
-            execution.LLMCallsSinceLastApproval.Clear();
-            phaseStatus.State = PhaseState.WaitingApproval;
-
-            await _notificationService.NotifyPhasePendingApprovalAsync(
-                execution.StoryId, phase,
-                $"{phase} completed. Waiting for approval...",
-                result);
+            var files = new Dictionary<string, string>(execution.GeneratedFiles ?? new Dictionary<string, string>());
+            var droppedKeys = new List<string>();
 
-            // Wait for approval (or auto-approve)
-            bool approved;
-            if (execution.AutoApproveAll)
+            var excluded = decisions.Where(d => d.Decision == FileReviewDecision.Exclude).Select(d => d.Path).ToList();
+            foreach (var path in excluded)
             {
-                approved = true;
+                files.Remove(path);
+                execution.OriginalFiles.TryRemove(path, out _);
+                droppedKeys.Add(path);
             }
-            else
+
+            if (excluded.Count > 0)
             {
-                execution.PhaseApprovalTcs = new TaskCompletionSource<bool>();
-                approved = await execution.PhaseApprovalTcs.Task;
+                await _notificationService.NotifyProgressAsync(storyId,
+                    $"🚫 Excluded from deployment: {string.Join(", ", excluded)}");
             }
 
-            if (approved)
+            var rejected = decisions.Where(d => d.Decision == FileReviewDecision.Reject).ToList();
+            if (rejected.Count == 0)
             {
-                phaseStatus.State = PhaseState.Completed;
-                phaseStatus.CompletedAt = DateTime.UtcNow;
-                await _notificationService.NotifyPhaseCompletedAsync(execution.StoryId, phase, $"{phase} approved");
+                execution.GeneratedFiles = files;
+                await _outputRepository.RemoveOutputFilesAsync(storyId, outputName, droppedKeys, ct);
+                await _outputRepository.SaveOriginalFilesAsync(
+                    storyId, outputName, execution.OriginalFiles.ToDictionary(k => k.Key, v => v.Value), ct);
+                break;
             }
-            else
+
+            var revisionResult = await ExecutePhaseAsync(execution, PipelinePhase.Coding, async () =>
             {
-                phaseStatus.State = PhaseState.Skipped;
-                phaseStatus.Message = execution.RejectionReason;
-            }
+                await _notificationService.NotifyPhaseStartedAsync(storyId, PipelinePhase.Coding,
+                    $"Revising {rejected.Count} rejected file(s)...");
 
-            return new PhaseResult { Approved = approved, Result = result };
+                var tasks = (await _taskRepository.GetByStoryAsync(storyId, ct)).ToList();
+                var projectState = new ProjectState { Story = content };
+                foreach (var kvp in files)
+                {
+                    projectState.Codebase[kvp.Key] = kvp.Value;
+                }
+
+                var revisedFiles = new List<string>();
+                foreach (var decision in rejected)
+                {
+                    ct.ThrowIfCancellationRequested();
+
+                    if (!files.TryGetValue(decision.Path, out var previousCode))
+                        continue;
+
+                    await _notificationService.NotifyProgressAsync(storyId, $"Revising: {decision.Path}");
+
+                    var task = CreateRevisionTask(decision, previousCode, tasks, execution.OriginalFiles.ContainsKey(decision.Path));
+                    var targetClassName = execution.TargetInfo?.Class ?? story?.TargetClass;
+                    if (task.IsModification && string.IsNullOrEmpty(targetClassName))
+                        targetClassName = InferClassNameFromFilePath(task.TargetFiles.FirstOrDefault() ?? task.FullPath);
+
+                    AgentResponse response;
+                    if (codebaseAnalysis != null && !string.IsNullOrEmpty(story?.CodebaseId))
+                    {
+                        response = await ExecuteModificationCodingAsync(task, projectState, story.CodebaseId, codebaseAnalysis, targetClassName, ct);
+                    }
+                    else
+                    {
+                        response = await ExecuteGenerationCodingAsync(task, projectState, codebaseAnalysis, ct);
+                    }
+
+                    if (!response.Success || !response.Data.TryGetValue("filename", out var filename) ||
+                        !response.Data.TryGetValue("code", out var code))
+                    {
+                        _logger.LogWarning("[{StoryId}] Revision of {File} failed: {Error}", storyId, decision.Path, response.Error);
+                        await _notificationService.NotifyProgressAsync(storyId,
+                            $"⚠️ Could not revise {decision.Path} - keeping the previous version");
+                        continue;
+                    }
+
+                    var fileKey = ToFileKey(task.ProjectName, filename.ToString()!);
+                    if (!fileKey.Equals(decision.Path, StringComparison.OrdinalIgnoreCase))
+                    {
+                        // CoderAgent renamed the file - the rejected version must not be deployed alongside it
+                        files.Remove(decision.Path);
+                        droppedKeys.Add(decision.Path);
+                        if (execution.OriginalFiles.TryRemove(decision.Path, out var movedOriginal))
+                            execution.OriginalFiles.TryAdd(fileKey, movedOriginal);
+                    }
+
+                    files[fileKey] = code.ToString()!;
+                    projectState.Codebase[fileKey] = files[fileKey];
+                    revisedFiles.Add(fileKey);
+
+                    if (response.Data.TryGetValue("original_code", out var originalCode) && originalCode is string original)
+                    {
+                        execution.OriginalFiles.TryAdd(fileKey, original);
+                    }
+                }
+
+                execution.GeneratedFiles = files;
+
+                var outputPath = await _outputRepository.SaveOutputAsync(storyId, outputName, files, ct);
+                // A save within the same second reuses the previous directory
+                await _outputRepository.RemoveOutputFilesAsync(storyId, outputName, droppedKeys, ct);
+                await _outputRepository.SaveOriginalFilesAsync(
+                    storyId, outputName, execution.OriginalFiles.ToDictionary(k => k.Key, v => v.Value), ct);
+
+                return new
+                {
+                    Files = new Dictionary<string, string>(files),
+                    ModifiedFiles = files
+                        .Where(f => execution.OriginalFiles.ContainsKey(f.Key))
+                        .ToDictionary(f => f.Key, f => f.Value),
+                    OutputPath = outputPath,
+                    RevisedFiles = revisedFiles,
+                    ExcludedFiles = excluded
+                };
+            }, ct);
+
+            if (!revisionResult.Approved) return false;
         }
-        catch (Exception ex)
+
+        return true;
+    }
+
+    /// <summary>
+    /// Build the CoderAgent task for a rejected file from the task that produced it,
+    /// with the reviewer's note and the rejected attempt appended to the description.
+    /// </summary>
+    private static TaskDto CreateRevisionTask(
+        CodingFileDecisionDto decision,
+        string previousCode,
+        List<TaskDto> tasks,
+        bool isModification)
+    {
+        var fileName = Path.GetFileName(decision.Path);
+        var source = tasks.FirstOrDefault(t =>
+            t.TargetFiles.Any(tf => decision.Path.EndsWith(tf, StringComparison.OrdinalIgnoreCase) ||
+                                    tf.EndsWith(fileName, StringComparison.OrdinalIgnoreCase)));
+
+        var separator = decision.Path.IndexOf('/');
+        var projectName = source?.ProjectName ?? (separator > 0 ? decision.Path[..separator] : "default");
+        var targetFile = separator > 0 ? decision.Path[(separator + 1)..] : decision.Path;
+
+        var description = new System.Text.StringBuilder();
+        description.AppendLine(source?.Description ?? $"Write {targetFile}.");
+        description.AppendLine();
+        description.AppendLine("## REVIEWER FEEDBACK");
+        description.AppendLine($"The previous attempt at {decision.Path} was rejected:");
+        description.AppendLine(decision.Note);
+        description.AppendLine();
+        description.AppendLine("## PREVIOUS ATTEMPT");
+        description.AppendLine("```");
+        description.AppendLine(previousCode);
+        description.AppendLine("```");
+        description.AppendLine();
+        description.AppendLine("Address the feedback and output the complete file.");
+
+        return new TaskDto
         {
-            phaseStatus.State = PhaseState.Failed;
-            phaseStatus.Message = ex.Message;
-            throw;
+            Index = source?.Index ?? 0,
+            Title = $"Revise {fileName}",
+            Description = description.ToString(),
+            ProjectName = projectName,
+            TargetFiles = source?.TargetFiles ?? new List<string> { targetFile },
+            DependsOnProjects = source?.DependsOnProjects ?? new List<string>(),
+            ProjectOrder = source?.ProjectOrder ?? 0,
+            Status = Models.TaskStatus.Pending,
+            Type = source?.Type ?? TaskType.Original,
+            RetryAttempt = source?.RetryAttempt ?? 0,
+            UsesExisting = source?.UsesExisting ?? new List<string>(),
+            IsModification = source?.IsModification ?? isModification,
+            FullPath = source?.FullPath,
+            Namespace = source?.Namespace,
+            ExistingCode = source?.ExistingCode,
+            TargetMethod = source?.TargetMethod,
+            CurrentContent = source?.CurrentContent
+        };
+    }
+
+    /// <summary>
+    /// Output key for a CoderAgent file: "{project}/{filename}", unless the filename already starts with the project.
+    /// </summary>
+    private static string ToFileKey(string projectName, string filename)
+    {
+        if (filename.StartsWith(projectName + "/", StringComparison.OrdinalIgnoreCase) ||
+            filename.StartsWith(projectName + "\\", StringComparison.OrdinalIgnoreCase))
+        {
+            return filename.Replace("\\", "/");
         }
+
+        return $"{projectName}/{filename}";
+    }
+
+    /// <summary>
+    /// Files of a Coding phase result (the anonymous result object's "Files" property).
+    /// </summary>
+    private static Dictionary<string, string> GetResultFiles(object? result)
+    {
+        return result?.GetType().GetProperty("Files")?.GetValue(result) as Dictionary<string, string>
+            ?? new Dictionary<string, string>();
     }
 
     private PipelineStatusDto CreateInitialStatus(string storyId)
@@ -1339,9 +2326,11 @@ public class PipelineService : IPipelineService
     private class PipelineExecution
     {
         public string StoryId { get; set; } = string.Empty;
-        public bool AutoApproveAll { get; set; }
+        public ApprovalPolicyDto? ApprovalPolicy { get; set; }
         public PipelineStatusDto Status { get; set; } = new();
         public PipelinePhase CurrentPhase { get; set; }
+
+        public bool AutoApproves(PipelinePhase phase) => ApprovalPolicy?.AutoApprovePhases.Contains(phase) == true;
         public TaskCompletionSource<bool>? PhaseApprovalTcs { get; set; }
         public string? RejectionReason { get; set; }
         public CancellationTokenSource CancellationTokenSource { get; set; } = new();
@@ -1353,13 +2342,36 @@ public class PipelineService : IPipelineService
         public TaskCompletionSource<RetryAction>? RetryApprovalTcs { get; set; }
         public List<FixTaskDto> PendingFixTasks { get; set; } = new();
 
+        // Fix tasks created from review findings, picked up when the Reviewing gate closes
+        public List<FixTaskDto>? ReviewFixTasks { get; set; }
+
+        // Manual fix workspace: deployed files keyed by codebase-relative path
+        public TaskCompletionSource<bool>? ManualFixTcs { get; set; }
+        public Dictionary<string, ManualFixFile> ManualFixFiles { get; set; } = new();
+
         // Deployment state for retry
         public DeploymentResult? LastDeploymentResult { get; set; }
         public Dictionary<string, string>? GeneratedFiles { get; set; }
 
+        // Codebase content of modified files before the first change (keyed like GeneratedFiles)
+        public ConcurrentDictionary<string, string> OriginalFiles { get; set; } = new();
+
+        // Non-accept file decisions from the last Coding approval, applied before Debugging
+        public List<CodingFileDecisionDto>? PendingFileDecisions { get; set; }
+
+        // Composed pull request submitted with the PullRequest approval
+        public PullRequestOptionsDto? PendingPullRequest { get; set; }
+
+        // Set while the run is paused for an exceeded budget; budgets approved to overrun are not checked again
+        public TaskCompletionSource<bool>? BudgetContinueTcs { get; set; }
+        public HashSet<BudgetScope> BudgetOverrides { get; set; } = new();
+
         // Target info from story (for limiting scope)
         public TargetInfo? TargetInfo { get; set; }
 
+        // Phase a rerun starts from; earlier phases keep their results until it is reached
+        public PipelinePhase? RerunFrom { get; set; }
+
         // LLM calls since last approval (cleared when phase goes to WaitingApproval)
         public List<LLMCallResult> LLMCallsSinceLastApproval { get; set; } = new();
 
@@ -1391,6 +2403,31 @@ public class PipelineService : IPipelineService
         public bool HasTestTarget => !string.IsNullOrEmpty(TestFile) || !string.IsNullOrEmpty(TestClass);
     }
 
+    /// <summary>
+    /// Codebase context loaded by the Analysis phase
+    /// </summary>
+    private class AnalysisContext
+    {
+        public Core.Models.CodebaseAnalysis Analysis { get; set; } = null!;
+        public string? TargetClassName { get; set; }
+        public ClassSearchResult? ClassResult { get; set; }
+        public ReferenceSearchResult? ReferenceResult { get; set; }
+    }
+
+    /// <summary>
+    /// A deployed file opened in the manual fix workspace
+    /// </summary>
+    private class ManualFixFile
+    {
+        public string Path { get; set; } = string.Empty;
+        public string FullPath { get; set; } = string.Empty;
+        // Key in GeneratedFiles, kept in sync when the file is saved
+        public string? GeneratedPath { get; set; }
+        public bool Saved { get; set; }
+        public string? Before { get; set; }
+        public string? After { get; set; }
+    }
+
     private class PhaseResult
     {
         public bool Approved { get; set; }
@@ -2199,12 +3236,15 @@ namespace {namespaceName}
         CancellationToken ct)
     {
         var storyId = execution.StoryId;
+        await WaitWhileOverBudgetAsync(execution, PipelinePhase.UnitTesting, ct);
+
         execution.CurrentPhase = PipelinePhase.UnitTesting;
         execution.Status.CurrentPhase = PipelinePhase.UnitTesting;
 
         var phaseStatus = execution.Status.Phases.First(p => p.Phase == PipelinePhase.UnitTesting);
         phaseStatus.State = PhaseState.Running;
         phaseStatus.StartedAt = DateTime.UtcNow;
+        BeginPhaseRun(execution, phaseStatus);
 
         try
         {
@@ -2246,6 +3286,8 @@ namespace {namespaceName}
 
             // Convert to API DTO
             var testResults = ConvertToTestSummaryDto(testExecutionSummary);
+            testResults.RetryAttempt = execution.RetryAttempt;
+            execution.Status.TestRuns.Add(testResults);
 
             // Notify test results via SignalR
             await _notificationService.NotifyTestResultsAsync(storyId, testResults);
@@ -2284,6 +3326,17 @@ namespace {namespaceName}
                 execution.Status.RetryInfo = retryInfo;
                 execution.Status.RetryTargetPhase = PipelinePhase.Coding;
 
+                var attemptRecord = new RetryAttemptDto
+                {
+                    Attempt = retryInfo.CurrentAttempt,
+                    Reason = retryInfo.Reason,
+                    Error = retryInfo.LastError,
+                    TestSummary = testResults,
+                    FixTasks = fixTasks,
+                    RequestedAt = DateTime.UtcNow
+                };
+                execution.Status.RetryHistory.Add(attemptRecord);
+
                 // Notify about retry story
                 await _notificationService.NotifyRetryRequiredAsync(storyId, PipelinePhase.UnitTesting, retryInfo);
                 await _notificationService.NotifyFixTasksGeneratedAsync(storyId, fixTasks);
@@ -2298,12 +3351,14 @@ namespace {namespaceName}
                     testResults.IsBreakingChange,
                     FixTaskCount = fixTasks.Count
                 };
+                MarkPhaseRunWaiting(execution, phaseStatus);
 
                 // Wait for retry approval
-                if (!execution.AutoApproveAll)
+                if (!execution.AutoApproves(PipelinePhase.UnitTesting))
                 {
                     execution.RetryApprovalTcs = new TaskCompletionSource<RetryAction>();
                     var action = await execution.RetryApprovalTcs.Task;
+                    attemptRecord.Action = action;
 
                     switch (action)
                     {
@@ -2326,15 +3381,20 @@ namespace {namespaceName}
                             phaseStatus.Message = "Aborted by user";
                             return new PhaseResult { Approved = false, Result = phaseStatus.Result };
 
-                        default: // ManualFix - user will fix manually
+                        default: // ManualFix - the user edits the deployed files in the workspace, then tests run again
+                            await WaitForManualFixAsync(execution, fixTasks, deploymentResult, ct);
+
                             phaseStatus.State = PhaseState.Failed;
-                            phaseStatus.Message = "Manual fix required";
-                            return new PhaseResult { Approved = false, Result = phaseStatus.Result };
+                            phaseStatus.Message = "Tests failed - fixed manually";
+                            EndPhaseRun(execution, phaseStatus);
+                            return await ExecuteUnitTestingPhaseAsync(execution, codebaseAnalysis, deploymentResult, ct);
                     }
                 }
                 else
                 {
                     // Auto-approve retry
+                    attemptRecord.Action = RetryAction.AutoFix;
+                    await RecordAutoApprovalAsync(execution, phaseStatus, "auto-fixing the failed tests");
                     return new PhaseResult
                     {
                         Approved = false,
@@ -2358,6 +3418,7 @@ namespace {namespaceName}
             phaseStatus.LlmCallsSummary = execution.LLMCallsSinceLastApproval.Count > 0
                 ? new List<LLMCallResult>(execution.LLMCallsSinceLastApproval)
                 : null;
+            MarkPhaseRunWaiting(execution, phaseStatus);
             execution.AllLLMCalls.AddRange(execution.LLMCallsSinceLastApproval);
             execution.LLMCallsSinceLastApproval.Clear();
 
@@ -2366,9 +3427,10 @@ namespace {namespaceName}
 
             // Wait for approval
             bool approved;
-            if (execution.AutoApproveAll)
+            if (execution.AutoApproves(PipelinePhase.UnitTesting))
             {
                 approved = true;
+                await RecordAutoApprovalAsync(execution, phaseStatus);
             }
             else
             {
@@ -2397,6 +3459,10 @@ namespace {namespaceName}
             phaseStatus.Message = ex.Message;
             throw;
         }
+        finally
+        {
+            EndPhaseRun(execution, phaseStatus);
+        }
     }
 
     /// <summary>
@@ -2414,21 +3480,26 @@ namespace {namespaceName}
             NewTestsFailed = executionSummary.NewTestsFailed,
             ExistingTestsFailed = executionSummary.ExistingTestsFailed,
             TotalDuration = executionSummary.Duration,
-            FailedTests = executionSummary.FailedTests.Select(ft => new TestResultDto
-            {
-                TestName = ft.MethodName,
-                ClassName = ft.ClassName,
-                Passed = ft.Passed,
-                IsNewTest = ft.IsNewTest,
-                ErrorMessage = ft.ErrorMessage,
-                StackTrace = ft.StackTrace,
-                Duration = ft.Duration
-            }).ToList()
+            FailedTests = executionSummary.FailedTests.Select(ToTestResultDto).ToList(),
+            Tests = executionSummary.TestResults.Select(ToTestResultDto).ToList(),
+            RunAt = executionSummary.CompletedAt ?? DateTime.UtcNow
         };
 
         return dto;
     }
 
+    private static TestResultDto ToTestResultDto(TestResult test) => new TestResultDto
+    {
+        TestName = test.MethodName,
+        ClassName = test.ClassName,
+        Passed = test.Passed,
+        Skipped = test.Skipped,
+        IsNewTest = test.IsNewTest,
+        ErrorMessage = test.ErrorMessage,
+        StackTrace = test.StackTrace,
+        Duration = test.Duration
+    };
+
     /// <summary>
     /// Analyze test failure using LLM to determine which file needs fixing
     /// Returns: "test" if test file needs fixing, "implementation" if impl needs fixing
@@ -2860,32 +3931,181 @@ Analyze the test failure and determine:
             });
         }
 
-        return fixTasks;
+        return fixTasks;
+    }
+
+    /// <summary>
+    /// Extract implementation class name from test method or class name
+    /// </summary>
+    private static string ExtractImplementationClassName(string testMethodName, string? testClassName)
+    {
+        // Try to extract from class name first (e.g., "DateTimeHelperTests" -> "DateTimeHelper")
+        if (!string.IsNullOrEmpty(testClassName))
+        {
+            var className = testClassName.Split('.').Last();
+            if (className.EndsWith("Tests"))
+                return className[..^5];
+            if (className.EndsWith("Test"))
+                return className[..^4];
+        }
+
+        // Try to extract from method name pattern (e.g., "GetEndOfDay_MaxValue_..." -> related to a class)
+        var methodParts = testMethodName.Split('_');
+        if (methodParts.Length > 0)
+        {
+            return methodParts[0];
+        }
+
+        return "Unknown";
+    }
+
+    /// <summary>
+    /// Open the manual fix workspace on the files named by the fix tasks and wait until the user resumes.
+    /// The manual fix counts as a retry attempt; the files saved in the workspace are its changes.
+    /// </summary>
+    private async Task WaitForManualFixAsync(
+        PipelineExecution execution,
+        List<FixTaskDto> fixTasks,
+        DeploymentResult deploymentResult,
+        CancellationToken ct)
+    {
+        var storyId = execution.StoryId;
+        var workspace = BuildManualFixWorkspace(execution, fixTasks, deploymentResult);
+
+        var resumeTcs = new TaskCompletionSource<bool>();
+        execution.ManualFixTcs = resumeTcs;
+        execution.Status.ManualFix = workspace;
+
+        await _notificationService.NotifyPhasePendingApprovalAsync(storyId, PipelinePhase.UnitTesting,
+            $"✏️ Manual fix: {workspace.Files.Count} file(s) to edit - save your changes, then resume the tests", workspace);
+
+        using (ct.Register(() => resumeTcs.TrySetCanceled()))
+        {
+            await resumeTcs.Task;
+        }
+
+        execution.RetryAttempt++;
+        var attemptRecord = execution.Status.RetryHistory.LastOrDefault(a => a.Attempt == execution.RetryAttempt);
+        if (attemptRecord != null)
+        {
+            attemptRecord.StartedAt = workspace.StartedAt;
+            attemptRecord.Changes = execution.ManualFixFiles.Values
+                .Where(f => f.Saved && f.After != f.Before)
+                .Select(f => new RetryFileChangeDto { Path = f.GeneratedPath ?? f.Path, Before = f.Before, After = f.After ?? "" })
+                .ToList();
+        }
+
+        var savedCount = workspace.Files.Count(f => f.Saved);
+        execution.ManualFixTcs = null;
+        execution.ManualFixFiles.Clear();
+        execution.Status.ManualFix = null;
+        execution.CurrentRetryInfo = null;
+        execution.Status.RetryInfo = null;
+        execution.Status.RetryTargetPhase = null;
+
+        await _notificationService.NotifyProgressAsync(storyId,
+            $"▶️ Manual fix done ({savedCount} file(s) saved) - running the tests again...");
+    }
+
+    /// <summary>
+    /// Resolve the deployed files behind the fix tasks' target files and error locations
+    /// </summary>
+    private static ManualFixDto BuildManualFixWorkspace(
+        PipelineExecution execution,
+        List<FixTaskDto> fixTasks,
+        DeploymentResult deploymentResult)
+    {
+        var workspace = new ManualFixDto { FixTasks = fixTasks, StartedAt = DateTime.UtcNow };
+        execution.ManualFixFiles.Clear();
+
+        foreach (var task in fixTasks)
+        {
+            var locations = new List<(string FullPath, int? Line, string? GeneratedPath)>();
+
+            var targetPath = ResolveDeployedFile(task.FullPath, task.TargetFile, deploymentResult);
+            if (targetPath != null)
+            {
+                var generatedPath = execution.GeneratedFiles?.ContainsKey(task.TargetFile) == true ? task.TargetFile : null;
+                locations.Add((targetPath, FindFailingLine(targetPath, task.ErrorLocation, task.StackTrace), generatedPath));
+            }
+
+            var errorLocation = System.Text.RegularExpressions.Regex.Match(task.ErrorLocation ?? "", @"^\s*(?:in\s+)?(.+?)(?::line\s+|:|\()(\d+)");
+            if (errorLocation.Success)
+            {
+                var errorPath = ResolveDeployedFile(null, errorLocation.Groups[1].Value, deploymentResult);
+                if (errorPath != null)
+                    locations.Add((errorPath, int.Parse(errorLocation.Groups[2].Value), null));
+            }
+
+            foreach (var (fullPath, line, generatedPath) in locations)
+            {
+                var relativePath = Path.GetRelativePath(Path.GetFullPath(deploymentResult.CodebasePath), fullPath).Replace('\\', '/');
+                var file = workspace.Files.FirstOrDefault(f => f.Path == relativePath);
+                if (file == null)
+                {
+                    file = new ManualFixFileDto { Path = relativePath };
+                    workspace.Files.Add(file);
+                    execution.ManualFixFiles[relativePath] = new ManualFixFile { Path = relativePath, FullPath = fullPath };
+                }
+
+                file.Line ??= line;
+                if (!file.FixTaskIndexes.Contains(task.Index))
+                    file.FixTaskIndexes.Add(task.Index);
+                execution.ManualFixFiles[relativePath].GeneratedPath ??= generatedPath;
+            }
+        }
+
+        return workspace;
     }
 
     /// <summary>
-    /// Extract implementation class name from test method or class name
+    /// Find a fix task's file in the codebase: its full path, the deployed copy of a generated file,
+    /// or a path relative to the codebase root. Files outside the codebase are not resolved.
     /// </summary>
-    private static string ExtractImplementationClassName(string testMethodName, string? testClassName)
+    private static string? ResolveDeployedFile(string? fullPath, string? path, DeploymentResult deploymentResult)
     {
-        // Try to extract from class name first (e.g., "DateTimeHelperTests" -> "DateTimeHelper")
-        if (!string.IsNullOrEmpty(testClassName))
+        string? resolved = null;
+        if (!string.IsNullOrEmpty(fullPath) && File.Exists(fullPath))
         {
-            var className = testClassName.Split('.').Last();
-            if (className.EndsWith("Tests"))
-                return className[..^5];
-            if (className.EndsWith("Test"))
-                return className[..^4];
+            resolved = fullPath;
+        }
+        else if (!string.IsNullOrWhiteSpace(path))
+        {
+            var normalized = path.Replace('\\', '/');
+            var copied = deploymentResult.CopiedFiles.FirstOrDefault(f => f.Success &&
+                (f.SourcePath.Replace('\\', '/').EndsWith(normalized, StringComparison.OrdinalIgnoreCase) ||
+                 f.TargetPath.Replace('\\', '/').EndsWith(normalized, StringComparison.OrdinalIgnoreCase)));
+
+            if (copied != null)
+                resolved = copied.TargetPath;
+            else if (Path.IsPathRooted(path) && File.Exists(path))
+                resolved = path;
+            else if (File.Exists(Path.Combine(deploymentResult.CodebasePath, path)))
+                resolved = Path.Combine(deploymentResult.CodebasePath, path);
         }
 
-        // Try to extract from method name pattern (e.g., "GetEndOfDay_MaxValue_..." -> related to a class)
-        var methodParts = testMethodName.Split('_');
-        if (methodParts.Length > 0)
+        if (resolved == null)
+            return null;
+
+        resolved = Path.GetFullPath(resolved);
+        var relativePath = Path.GetRelativePath(Path.GetFullPath(deploymentResult.CodebasePath), resolved);
+        return relativePath.StartsWith("..") || Path.IsPathRooted(relativePath) ? null : resolved;
+    }
+
+    /// <summary>
+    /// First line of the file named in the error location or stack trace ("in File.cs:line 42")
+    /// </summary>
+    private static int? FindFailingLine(string fullPath, string? errorLocation, string? stackTrace)
+    {
+        var fileName = Path.GetFileName(fullPath);
+        foreach (System.Text.RegularExpressions.Match match in System.Text.RegularExpressions.Regex.Matches(
+            $"{errorLocation}\n{stackTrace}", @"([^\s]+?\.\w+)(?::line\s+|:|\()(\d+)"))
         {
-            return methodParts[0];
+            if (Path.GetFileName(match.Groups[1].Value.Replace('\\', '/')).Equals(fileName, StringComparison.OrdinalIgnoreCase))
+                return int.Parse(match.Groups[2].Value);
         }
 
-        return "Unknown";
+        return null;
     }
 
     /// <summary>
@@ -2900,6 +4120,10 @@ Analyze the test failure and determine:
         execution.RetryAttempt++;
         execution.PendingFixTasks = fixTasks;
 
+        var attemptRecord = execution.Status.RetryHistory.LastOrDefault(a => a.Attempt == execution.RetryAttempt);
+        if (attemptRecord != null)
+            attemptRecord.StartedAt = DateTime.UtcNow;
+
         _logger.LogInformation("[{StoryId}] Starting retry attempt {Attempt}/{Max}",
             storyId, execution.RetryAttempt, PipelineExecution.MaxRetryAttempts);
 
@@ -2962,6 +4186,92 @@ Analyze the test failure and determine:
             $"Retry prepared with {fixTasks.Count} fix task(s). Returning to Coding phase...");
     }
 
+    /// <summary>
+    /// Retry from Coding with the fix tasks created from review findings, if any.
+    /// Returns false when the Reviewing phase was simply rejected.
+    /// </summary>
+    private async Task<bool> RetryFromReviewAsync(
+        PipelineExecution execution,
+        Core.Models.CodebaseAnalysis? codebaseAnalysis,
+        StoryDto? story,
+        CancellationToken ct)
+    {
+        var fixTasks = execution.ReviewFixTasks;
+        if (fixTasks == null) return false;
+
+        execution.ReviewFixTasks = null;
+        await HandleRetryAsync(execution, fixTasks, ct);
+        await ExecuteRetryFromCodingAsync(execution, codebaseAnalysis, story, ct);
+        return true;
+    }
+
+    /// <summary>
+    /// Turn review findings into fix tasks that modify the generated files they refer to
+    /// </summary>
+    private static List<FixTaskDto> BuildReviewFixTasks(PipelineExecution execution, List<ReviewFindingDto> findings)
+    {
+        var files = execution.GeneratedFiles ?? new Dictionary<string, string>();
+
+        return findings.Select((finding, i) =>
+        {
+            var fileKey = FindGeneratedFile(files, finding.File);
+            var location = finding.Line.HasValue ? $"{finding.File}:{finding.Line}" : finding.File;
+            var slash = fileKey?.IndexOf('/') ?? -1;
+
+            var description = new System.Text.StringBuilder();
+            description.AppendLine("## CODE REVIEW FINDING");
+            description.AppendLine($"- **Severity:** {finding.Severity}");
+            if (!string.IsNullOrEmpty(finding.Category))
+                description.AppendLine($"- **Category:** {finding.Category}");
+            description.AppendLine($"- **Location:** {location}");
+            description.AppendLine();
+            description.AppendLine(finding.Description);
+
+            if (!string.IsNullOrEmpty(finding.Suggestion))
+            {
+                description.AppendLine();
+                description.AppendLine("## SUGGESTED FIX");
+                description.AppendLine(finding.Suggestion);
+            }
+
+            description.AppendLine();
+            description.AppendLine("## YOUR TASK:");
+            description.AppendLine("1. Fix the finding above in the EXISTING file; keep its namespace, class names and structure");
+            description.AppendLine("2. Do not change code the finding is not about");
+            description.AppendLine("3. Return the COMPLETE fixed file content with ALL existing members intact");
+
+            var summary = finding.Description.Length > 80 ? finding.Description[..77] + "..." : finding.Description;
+
+            return new FixTaskDto
+            {
+                Index = i + 1,
+                Title = $"Review fix: {summary}",
+                Description = description.ToString(),
+                TargetFile = fileKey ?? finding.File,
+                Type = FixTaskType.ReviewFinding,
+                ErrorMessage = finding.Description,
+                ErrorLocation = location,
+                SuggestedFix = finding.Suggestion,
+                ProjectName = slash > 0 ? fileKey![..slash] : null,
+                // Review runs before deployment, so the generated content is the code to fix
+                ExistingCode = fileKey != null ? files[fileKey] : null
+            };
+        }).ToList();
+    }
+
+    /// <summary>
+    /// Find the generated file a report refers to: by full key, by trailing path, then by file name
+    /// </summary>
+    private static string? FindGeneratedFile(Dictionary<string, string> files, string reference)
+    {
+        var path = reference.Replace('\\', '/').Trim().TrimStart('/');
+        if (string.IsNullOrEmpty(path)) return null;
+
+        return files.Keys.FirstOrDefault(k => k.Replace('\\', '/').Equals(path, StringComparison.OrdinalIgnoreCase))
+            ?? files.Keys.FirstOrDefault(k => k.Replace('\\', '/').EndsWith("/" + path, StringComparison.OrdinalIgnoreCase))
+            ?? files.Keys.FirstOrDefault(k => Path.GetFileName(k).Equals(Path.GetFileName(path), StringComparison.OrdinalIgnoreCase));
+    }
+
     /// <summary>
     /// Execute retry from Coding phase - used after unit test failures
     /// </summary>
@@ -2998,6 +4308,7 @@ Analyze the test failure and determine:
 
             var projectState = new ProjectState { Story = content ?? "" };
             var generatedFiles = new ConcurrentDictionary<string, string>();
+            var changes = new Dictionary<string, RetryFileChangeDto>();
 
             // CRITICAL: Load previously generated files from original coding phase
             // These files were created before the failed test, we need them for deployment
@@ -3058,8 +4369,26 @@ Analyze the test failure and determine:
                         fileKey = $"{projectName}/{filenameStr}";
                     }
 
+                    // Several fix tasks may touch one file: keep the content from before the attempt
+                    if (!changes.TryGetValue(fileKey, out var change))
+                    {
+                        change = new RetryFileChangeDto
+                        {
+                            Path = fileKey,
+                            Before = generatedFiles.TryGetValue(fileKey, out var before) ? before : null
+                        };
+                        changes[fileKey] = change;
+                    }
+                    change.After = code.ToString()!;
+
                     generatedFiles[fileKey] = code.ToString()!;
                     _logger.LogInformation("[{StoryId}] Fix task added file: {FileKey}", storyId, fileKey);
+
+                    // First original wins: later attempts start from already-modified code
+                    if (response.Data.TryGetValue("original_code", out var originalCode) && originalCode is string original)
+                    {
+                        execution.OriginalFiles.TryAdd(fileKey, original);
+                    }
                 }
 
                 task.Status = Models.TaskStatus.Completed;
@@ -3072,6 +4401,10 @@ Analyze the test failure and determine:
                 projectState.Codebase[kvp.Key] = kvp.Value;
             }
 
+            var attemptRecord = execution.Status.RetryHistory.LastOrDefault(a => a.Attempt == execution.RetryAttempt);
+            if (attemptRecord != null)
+                attemptRecord.Changes = changes.Values.ToList();
+
             // CRITICAL: Update execution.GeneratedFiles with ALL files (original + fixed)
             // This ensures next phases (deployment, testing) have complete file set
             execution.GeneratedFiles = generatedFiles.ToDictionary(k => k.Key, v => v.Value);
@@ -3084,6 +4417,11 @@ Analyze the test failure and determine:
                 story?.Name ?? storyId,
                 generatedFiles.ToDictionary(k => k.Key, v => v.Value),
                 ct);
+            await _outputRepository.SaveOriginalFilesAsync(
+                storyId,
+                story?.Name ?? storyId,
+                execution.OriginalFiles.ToDictionary(k => k.Key, v => v.Value),
+                ct);
 
             return new
             {
@@ -3095,7 +4433,8 @@ Analyze the test failure and determine:
             };
         }, ct);
 
-        if (!codingResult.Approved)
+        if (!codingResult.Approved ||
+            !await ApplyCodingFileDecisionsAsync(execution, story, content ?? "", codebaseAnalysis, ct))
         {
             await _storyRepository.UpdateStatusAsync(storyId, StoryStatus.Failed, ct);
             return;
@@ -3162,6 +4501,7 @@ Analyze the test failure and determine:
 
             var outputFiles = await _outputRepository.GetGeneratedFilesAsync(storyId, ct);
             var reviewSummary = new Dictionary<string, object>();
+            var report = new System.Text.StringBuilder();
 
             foreach (var file in outputFiles)
             {
@@ -3175,14 +4515,26 @@ Analyze the test failure and determine:
                 if (response.Success && response.Data != null)
                 {
                     reviewSummary[file.Key] = response.Data;
+                    report.AppendLine($"## {file.Key}");
+                    report.AppendLine();
+                    report.AppendLine(response.Output);
+                    report.AppendLine();
                 }
             }
 
+            // One section per file, so the report viewer shows this attempt's findings
+            if (report.Length > 0)
+            {
+                await _outputRepository.SaveReviewReportAsync(storyId, report.ToString(), ct);
+            }
+
             return reviewSummary;
         }, ct);
 
         if (!reviewResult.Approved)
         {
+            if (await RetryFromReviewAsync(execution, codebaseAnalysis, story, ct)) return;
+
             await _storyRepository.UpdateStatusAsync(storyId, StoryStatus.Failed, ct);
             return;
         }
@@ -3265,68 +4617,334 @@ Analyze the test failure and determine:
         }
 
         // Phase: Pull Request (optional)
+        await ExecutePullRequestPhaseAsync(execution, story, lastDeploymentResult,
+            $"Retry #{execution.RetryAttempt} successful! {lastDeploymentResult?.TotalFilesCopied ?? 0} files deployed. Create a pull request or complete?", ct);
+
+        // Mark as completed
+        execution.CurrentPhase = PipelinePhase.Completed;
+        execution.Status.CurrentPhase = PipelinePhase.Completed;
+        execution.Status.IsRunning = false;
+        execution.Status.CompletedAt = DateTime.UtcNow;
+
+        // Store completed status for later retrieval (in-memory)
+        _completedPipelines[storyId] = CloneStatus(execution.Status);
+
+        // Save pipeline history to disk for permanent access
+        await _outputRepository.SavePipelineHistoryAsync(storyId, execution.Status, ct);
+
+        await _storyRepository.UpdateStatusAsync(storyId, StoryStatus.Completed, ct);
+
+        var outputPath = await _outputRepository.GetOutputPathAsync(storyId, ct);
+        await _notificationService.NotifyPipelineCompletedAsync(storyId, outputPath ?? "");
+        await _notificationService.NotifyStoryListChangedAsync();
+
+        _logger.LogInformation("[{StoryId}] Pipeline completed successfully after {RetryAttempts} retry(s)!",
+            storyId, execution.RetryAttempt);
+    }
+
+    // ═══════════════════════════════════════════════════════════════════════════════
+    // Pull Request
+    // ═══════════════════════════════════════════════════════════════════════════════
+
+    /// <summary>
+    /// PullRequest phase: offer a draft the user can edit, then open a GitHub PR, commit to a
+    /// local branch or write a patch - or complete without any. A failed attempt keeps the phase
+    /// waiting with the error and the submitted details, so they can be corrected and retried.
+    /// </summary>
+    private async Task ExecutePullRequestPhaseAsync(
+        PipelineExecution execution,
+        StoryDto? story,
+        DeploymentResult? deploymentResult,
+        string pendingMessage,
+        CancellationToken ct)
+    {
+        var storyId = execution.StoryId;
         var prPhaseStatus = execution.Status.Phases.First(p => p.Phase == PipelinePhase.PullRequest);
         execution.CurrentPhase = PipelinePhase.PullRequest;
         execution.Status.CurrentPhase = PipelinePhase.PullRequest;
         prPhaseStatus.State = PhaseState.WaitingApproval;
         prPhaseStatus.StartedAt = DateTime.UtcNow;
+        BeginPhaseRun(execution, prPhaseStatus);
 
-        var prInfo = new
-        {
-            BranchName = $"feature/ai-{story?.Name?.ToLowerInvariant().Replace(" ", "-") ?? storyId}",
-            FilesDeployed = lastDeploymentResult?.TotalFilesCopied ?? 0,
-            NewFiles = lastDeploymentResult?.NewFilesCreated ?? 0,
-            ModifiedFiles = lastDeploymentResult?.FilesModified ?? 0,
-            RetryAttempts = execution.RetryAttempt,
-            Message = "Tests passed after retry! Ready to create PR or complete."
-        };
+        var draft = await BuildPullRequestDraftAsync(execution, story, deploymentResult, ct);
 
-        prPhaseStatus.Result = prInfo;
-        prPhaseStatus.Message = $"Retry #{execution.RetryAttempt} successful! {prInfo.FilesDeployed} files deployed. Create PR?";
+        prPhaseStatus.Result = draft;
+        prPhaseStatus.LlmCallsSummary = execution.LLMCallsSinceLastApproval.Count > 0
+            ? new List<LLMCallResult>(execution.LLMCallsSinceLastApproval)
+            : null;
+        MarkPhaseRunWaiting(execution, prPhaseStatus);
+        execution.AllLLMCalls.AddRange(execution.LLMCallsSinceLastApproval);
+        execution.LLMCallsSinceLastApproval.Clear();
 
-        await _notificationService.NotifyPhaseCompletedAsync(storyId, PipelinePhase.PullRequest,
-            prPhaseStatus.Message, prInfo);
-
-        // Wait for user decision
-        if (!execution.AutoApproveAll)
+        PullRequestResultDto? created = null;
+        while (true)
         {
+            await _notificationService.NotifyPhasePendingApprovalAsync(
+                storyId,
+                PipelinePhase.PullRequest,
+                draft.Error ?? pendingMessage,
+                draft);
+
+            // Wait for user decision (approve = create, reject = complete without PR)
+            if (execution.AutoApproves(PipelinePhase.PullRequest))
+            {
+                await RecordAutoApprovalAsync(execution, prPhaseStatus, "completing without PR");
+                break;
+            }
+
+            execution.PendingPullRequest = null;
             execution.PhaseApprovalTcs = new TaskCompletionSource<bool>();
-            var createPr = await execution.PhaseApprovalTcs.Task;
+            if (!await execution.PhaseApprovalTcs.Task)
+                break;
+
+            // Approving without the composer opens the draft as it is
+            var options = execution.PendingPullRequest ?? new PullRequestOptionsDto
+            {
+                Target = draft.Target,
+                BranchName = draft.BranchName,
+                BaseBranch = draft.BaseBranch,
+                Title = draft.Title,
+                Body = draft.Body,
+                Labels = draft.Labels,
+                Reviewers = draft.Reviewers
+            };
 
-            if (createPr)
+            try
             {
-                // TODO: Create GitHub PR
-                prPhaseStatus.Message = "PR creation not yet implemented - deployment complete!";
+                if (deploymentResult == null)
+                    throw new InvalidOperationException("Nothing was deployed to the codebase");
+
+                created = await _pullRequestService.CreateAsync(
+                    storyId, deploymentResult.CodebasePath, GetDeployedFiles(deploymentResult), options, ct);
+                break;
             }
-            else
+            catch (InvalidOperationException ex)
             {
-                prPhaseStatus.Message = "Completed without PR";
+                _logger.LogWarning("[{StoryId}] {Target} failed: {Error}", storyId, options.Target, ex.Message);
+                await _notificationService.NotifyProgressAsync(storyId, $"❌ {ex.Message}");
+
+                // Offer the submitted details again so only the failing part needs changing
+                draft.Target = options.Target;
+                draft.BranchName = options.BranchName;
+                draft.BaseBranch = options.BaseBranch;
+                draft.Title = options.Title;
+                draft.Body = options.Body;
+                draft.Labels = options.Labels;
+                draft.Reviewers = options.Reviewers;
+                draft.Error = ex.Message;
+                prPhaseStatus.Message = ex.Message;
             }
         }
 
-        prPhaseStatus.State = PhaseState.Completed;
+        if (created != null)
+        {
+            prPhaseStatus.State = PhaseState.Completed;
+            prPhaseStatus.Result = created;
+            prPhaseStatus.Message = created.Message;
+            await _notificationService.NotifyProgressAsync(storyId, $"✅ {created.Message}");
+        }
+        else
+        {
+            // User chose to complete without PR
+            prPhaseStatus.State = PhaseState.Skipped;
+            prPhaseStatus.Message = "Completed without PR";
+            await _notificationService.NotifyProgressAsync(storyId,
+                "Completing without a pull request. Changes are deployed to codebase.");
+        }
+
         prPhaseStatus.CompletedAt = DateTime.UtcNow;
+        EndPhaseRun(execution, prPhaseStatus);
+        await _notificationService.NotifyPhaseCompletedAsync(storyId, PipelinePhase.PullRequest, prPhaseStatus.Message);
+    }
 
-        // Mark as completed
-        execution.CurrentPhase = PipelinePhase.Completed;
-        execution.Status.CurrentPhase = PipelinePhase.Completed;
-        execution.Status.IsRunning = false;
-        execution.Status.CompletedAt = DateTime.UtcNow;
+    /// <summary>
+    /// Prefill the pull request from the story, its tasks, the test summary and the review report
+    /// </summary>
+    private async Task<PullRequestDraftDto> BuildPullRequestDraftAsync(
+        PipelineExecution execution,
+        StoryDto? story,
+        DeploymentResult? deploymentResult,
+        CancellationToken ct)
+    {
+        var storyId = execution.StoryId;
+        var title = story != null && !string.IsNullOrWhiteSpace(story.Name) ? story.Name.Trim() : storyId;
+        var tasks = await _taskRepository.GetByStoryAsync(storyId, ct);
 
-        // Store completed status for later retrieval (in-memory)
-        _completedPipelines[storyId] = CloneStatus(execution.Status);
+        var files = new List<(string Path, bool IsNew)>();
+        if (deploymentResult != null)
+        {
+            var newFiles = deploymentResult.CopiedFiles
+                .Where(f => f.Success && f.IsNewFile)
+                .Select(f => f.TargetPath)
+                .ToHashSet(StringComparer.OrdinalIgnoreCase);
 
-        // Save pipeline history to disk for permanent access
-        await _outputRepository.SavePipelineHistoryAsync(storyId, execution.Status, ct);
+            files = GetDeployedFiles(deploymentResult)
+                .Select(f => (Path.GetRelativePath(deploymentResult.CodebasePath, f).Replace('\\', '/'), newFiles.Contains(f)))
+                .ToList();
+        }
 
-        await _storyRepository.UpdateStatusAsync(storyId, StoryStatus.Completed, ct);
+        var body = new System.Text.StringBuilder();
+        body.AppendLine("## Summary");
+        body.AppendLine();
+        body.AppendLine(story != null && !string.IsNullOrWhiteSpace(story.Content) ? story.Content.Trim() : title);
 
-        var outputPath = await _outputRepository.GetOutputPathAsync(storyId, ct);
-        await _notificationService.NotifyPipelineCompletedAsync(storyId, outputPath ?? "");
-        await _notificationService.NotifyStoryListChangedAsync();
+        if (tasks.Count > 0)
+        {
+            body.AppendLine();
+            body.AppendLine("## Changes");
+            body.AppendLine();
+            foreach (var task in tasks)
+                body.AppendLine($"- {task.Title}");
+        }
 
-        _logger.LogInformation("[{StoryId}] Pipeline completed successfully after {RetryAttempts} retry(s)!",
-            storyId, execution.RetryAttempt);
+        if (files.Count > 0)
+        {
+            body.AppendLine();
+            body.AppendLine("## Files");
+            body.AppendLine();
+            foreach (var (path, isNew) in files)
+                body.AppendLine(isNew ? $"- `{path}` (new)" : $"- `{path}`");
+        }
+
+        var tests = DescribeTestResult(execution);
+        if (tests != null)
+        {
+            body.AppendLine();
+            body.AppendLine("## Tests");
+            body.AppendLine();
+            body.AppendLine(tests);
+        }
+
+        var review = SummarizeReviewReport(await _outputRepository.GetReviewReportAsync(storyId, ct));
+        if (review != null)
+        {
+            body.AppendLine();
+            body.AppendLine("## Code Review");
+            body.AppendLine();
+            body.AppendLine(review);
+        }
+
+        var slug = System.Text.RegularExpressions.Regex.Replace(title.ToLowerInvariant(), "[^a-z0-9]+", "-").Trim('-');
+        if (slug.Length > 50) slug = slug[..50].TrimEnd('-');
+
+        return new PullRequestDraftDto
+        {
+            BranchName = $"feature/ai-{(slug.Length > 0 ? slug : storyId)}",
+            BaseBranch = deploymentResult != null
+                ? await _pullRequestService.GetCurrentBranchAsync(deploymentResult.CodebasePath, ct)
+                : null,
+            Title = title,
+            Body = body.ToString().TrimEnd(),
+            Files = files.Select(f => f.Path).ToList(),
+            NewFiles = deploymentResult?.NewFilesCreated ?? 0,
+            ModifiedFiles = deploymentResult?.FilesModified ?? 0,
+            RetryAttempts = execution.RetryAttempt
+        };
+    }
+
+    /// <summary>
+    /// Deployed files (absolute paths), including the project files new files were added to
+    /// </summary>
+    private static List<string> GetDeployedFiles(DeploymentResult deploymentResult)
+    {
+        return deploymentResult.CopiedFiles
+            .Where(f => f.Success)
+            .Select(f => f.TargetPath)
+            .Concat(deploymentResult.UpdatedProjects.Where(p => p.Success && p.AddedFiles.Count > 0).Select(p => p.ProjectPath))
+            .Distinct(StringComparer.OrdinalIgnoreCase)
+            .ToList();
+    }
+
+    /// <summary>
+    /// One line on the integration test run, or null when it did not run
+    /// </summary>
+    private static string? DescribeTestResult(PipelineExecution execution)
+    {
+        var phase = execution.Status.Phases.First(p => p.Phase == PipelinePhase.UnitTesting);
+        if (phase.State == PhaseState.Pending)
+            return null;
+
+        var result = phase.Result;
+        int? Count(string property) => result?.GetType().GetProperty(property)?.GetValue(result) as int?;
+
+        var total = Count("TotalTests");
+        var failed = Count("Failed") ?? 0;
+        var line = total == null
+            ? phase.Message ?? "Integration tests did not report results"
+            : failed > 0
+                ? $"⚠️ {Count("Passed")}/{total} integration tests passed, {failed} failed ({phase.Message ?? "accepted"})"
+                : $"✅ {Count("Passed")}/{total} integration tests passed";
+
+        if (Count("NewTestsPassed") is int newTests && newTests > 0)
+            line += $", including {newTests} new";
+        if (execution.RetryAttempt > 0)
+            line += $" after {execution.RetryAttempt} retry attempt(s)";
+
+        return line;
+    }
+
+    /// <summary>
+    /// Verdict, summary and issue counts from the JSON block(s) of the review report,
+    /// or null when it has none
+    /// </summary>
+    private static string? SummarizeReviewReport(string? report)
+    {
+        if (string.IsNullOrWhiteSpace(report))
+            return null;
+
+        var verdicts = new List<string>();
+        var summaries = new List<string>();
+        var issueCounts = new Dictionary<string, int>(StringComparer.OrdinalIgnoreCase);
+        var reviewed = false;
+
+        foreach (System.Text.RegularExpressions.Match match in
+            System.Text.RegularExpressions.Regex.Matches(report, @"```(?:json)?[^\S\n]*\n([\s\S]*?)```"))
+        {
+            try
+            {
+                using var document = System.Text.Json.JsonDocument.Parse(match.Groups[1].Value);
+                var root = document.RootElement;
+                if (root.ValueKind != System.Text.Json.JsonValueKind.Object || !root.TryGetProperty("approved", out _))
+                    continue;
+
+                reviewed = true;
+                if (root.TryGetProperty("final_verdict", out var verdict) && verdict.ValueKind == System.Text.Json.JsonValueKind.String
+                    && !string.IsNullOrWhiteSpace(verdict.GetString()) && !verdicts.Contains(verdict.GetString()!))
+                    verdicts.Add(verdict.GetString()!);
+                if (root.TryGetProperty("summary", out var summary) && summary.ValueKind == System.Text.Json.JsonValueKind.String
+                    && !string.IsNullOrWhiteSpace(summary.GetString()))
+                    summaries.Add(summary.GetString()!.Trim());
+
+                if (root.TryGetProperty("issues", out var issues) && issues.ValueKind == System.Text.Json.JsonValueKind.Array)
+                {
+                    foreach (var issue in issues.EnumerateArray())
+                    {
+                        var severity = issue.ValueKind == System.Text.Json.JsonValueKind.Object
+                            && issue.TryGetProperty("severity", out var sev) && sev.ValueKind == System.Text.Json.JsonValueKind.String
+                            ? sev.GetString()!.ToLowerInvariant()
+                            : "minor";
+                        issueCounts[severity] = issueCounts.GetValueOrDefault(severity) + 1;
+                    }
+                }
+            }
+            catch (System.Text.Json.JsonException)
+            {
+                // Not the reviewer's verdict
+            }
+        }
+
+        if (!reviewed)
+            return null;
+
+        var lines = new List<string>();
+        if (verdicts.Count > 0)
+            lines.Add($"**{string.Join(", ", verdicts)}**");
+        lines.AddRange(summaries);
+        lines.Add(issueCounts.Count == 0
+            ? "No issues reported."
+            : "Issues: " + string.Join(", ", issueCounts.Select(c => $"{c.Value} {c.Key}")));
+
+        return string.Join("\n\n", lines);
     }
 
     // ═══════════════════════════════════════════════════════════════════════════════
@@ -3394,6 +5012,31 @@ Analyze the test failure and determine:
         _logger.LogInformation("[{StoryId}] Knowledge capture completed", storyId);
     }
 
+    /// <summary>
+    /// One-line summary of rejection feedback, shown as the rejected phase's message
+    /// </summary>
+    private static string FormatRejectionReason(PhaseRejectionDto feedback)
+    {
+        var category = feedback.Category switch
+        {
+            RejectionCategory.WrongApproach => "Wrong approach",
+            RejectionCategory.MissingFiles => "Missing files",
+            RejectionCategory.Style => "Style",
+            RejectionCategory.IncorrectTarget => "Incorrect target",
+            _ => "Other"
+        };
+
+        var parts = new List<string> { category };
+        if (!string.IsNullOrWhiteSpace(feedback.Reason))
+            parts.Add(feedback.Reason);
+        if (feedback.TaskReferences.Count > 0)
+            parts.Add("tasks: " + string.Join(", ", feedback.TaskReferences.Select(i => $"#{i}")));
+        if (feedback.FileReferences.Count > 0)
+            parts.Add("files: " + string.Join(", ", feedback.FileReferences));
+
+        return string.Join(" - ", parts);
+    }
+
     /// <summary>
     /// Creates a deep clone of PipelineStatusDto to preserve state after pipeline completion
     /// </summary>
@@ -3406,6 +5049,8 @@ Analyze the test failure and determine:
             IsRunning = original.IsRunning,
             StartedAt = original.StartedAt,
             CompletedAt = original.CompletedAt,
+            RerunFrom = original.RerunFrom,
+            ApprovalPolicy = original.ApprovalPolicy,
             Phases = original.Phases.Select(p => new PhaseStatusDto
             {
                 Phase = p.Phase,
@@ -3414,8 +5059,13 @@ Analyze the test failure and determine:
                 StartedAt = p.StartedAt,
                 CompletedAt = p.CompletedAt,
                 Result = p.Result,
-                LlmCallsSummary = p.LlmCallsSummary
-            }).ToList()
+                LlmCallsSummary = p.LlmCallsSummary,
+                Runs = p.Runs.ToList(),
+                IsStale = p.IsStale
+            }).ToList(),
+            Rejections = new List<PhaseRejectionDto>(original.Rejections),
+            TestRuns = original.TestRuns.ToList(),
+            RetryHistory = original.RetryHistory.ToList()
         };
     }
 
@@ -3423,16 +5073,23 @@ Analyze the test failure and determine:
     // Pipeline LLM callback (called from Program.cs when BaseAgent completes an LLM call)
     // ═══════════════════════════════════════════════════════════════════════════
 
-    internal static void InvokePipelineLLMCallback(LLMCallResult result)
+    internal static void InvokePipelineLLMCallback(CoreLLMCallInfo info)
     {
+        // Calls made outside a pipeline run (e.g. from API requests) have no callback
+        var callback = _pipelineLLMCallback.Value;
+        if (callback == null)
+            return;
+
+        // A run's parallel tasks complete calls concurrently; the execution's lists are not thread-safe
         lock (_callbackLock)
         {
-            _currentPipelineLLMCallback?.Invoke(result);
+            callback(info);
         }
     }
 
     internal static LLMCallResult FromCoreInfo(CoreLLMCallInfo info) => new LLMCallResult
     {
+        CallId = info.CallId,
         AgentName = info.AgentName,
         PromptTokens = info.PromptTokens,
         CompletionTokens = info.CompletionTokens,
@@ -3445,22 +5102,60 @@ Analyze the test failure and determine:
 
     private void SetPipelineLLMCallback(PipelineExecution execution)
     {
-        var cb = (LLMCallResult result) =>
+        var cb = (CoreLLMCallInfo info) =>
         {
+            var result = FromCoreInfo(info);
             execution.LLMCallsSinceLastApproval.Add(result);
             _notificationService.NotifyLLMCallCompletedAsync(execution.StoryId, result);
+            // Story and phase are taken now, from the run that made the call; the transcript is written off the callback lock
+            var storyId = execution.StoryId;
+            var phase = execution.CurrentPhase;
+            _ = Task.Run(() => SaveLLMCallTranscriptAsync(storyId, phase, info));
         };
-        lock (_callbackLock)
-        {
-            _currentPipelineLLMCallback = cb;
-        }
+        _pipelineLLMCallback.Value = cb;
     }
 
-    private void ClearPipelineLLMCallback()
+    private static void ClearPipelineLLMCallback()
     {
-        lock (_callbackLock)
+        _pipelineLLMCallback.Value = null;
+    }
+
+    private async Task SaveLLMCallTranscriptAsync(string storyId, PipelinePhase phase, CoreLLMCallInfo info)
+    {
+        var sections = new List<LLMCallSectionDto>
+        {
+            new() { Role = "system", Content = info.SystemPrompt, Tokens = TokenEstimator.EstimateTokens(info.SystemPrompt) }
+        };
+        sections.AddRange(info.Messages.Select(m => new LLMCallSectionDto
+        {
+            Role = m.Role,
+            Content = m.Content,
+            Tokens = TokenEstimator.EstimateTokens(m.Content)
+        }));
+        sections.Add(new LLMCallSectionDto { Role = "completion", Content = info.Completion, Tokens = info.CompletionTokens });
+
+        try
+        {
+            await _llmCallRepository.SaveAsync(new LLMCallDetailDto
+            {
+                CallId = info.CallId,
+                StoryId = storyId,
+                AgentName = info.AgentName,
+                Phase = phase,
+                PromptFiles = info.PromptFiles,
+                Sections = sections,
+                PromptTokens = info.PromptTokens,
+                CompletionTokens = info.CompletionTokens,
+                TotalTokens = info.TotalTokens,
+                ActualCostUSD = info.ActualCostUSD,
+                Duration = info.Duration,
+                Timestamp = info.Timestamp
+            });
+        }
+        catch (Exception ex)
         {
-            _currentPipelineLLMCallback = null;
+            // Losing a transcript must not fail the pipeline
+            _logger.LogWarning(ex, "[{StoryId}] Failed to save LLM call transcript {CallId}", storyId, info.CallId);
         }
     }
 }
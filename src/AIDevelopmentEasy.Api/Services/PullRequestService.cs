@@ -0,0 +1,289 @@
+using System.ComponentModel;
+using System.Diagnostics;
+using AIDevelopmentEasy.Api.Models;
+using AIDevelopmentEasy.Api.Repositories.Interfaces;
+using AIDevelopmentEasy.Api.Services.Interfaces;
+
+namespace AIDevelopmentEasy.Api.Services;
+
+/// <summary>
+/// Creates pull requests from deployed changes with the git and GitHub (gh) command line tools.
+///
+/// Only the deployed files are staged and committed, so unrelated changes in the working tree
+/// are left alone. A GitHub PR is a local branch and commit that is pushed to origin and opened
+/// with "gh pr create", using the user's gh login. A patch is diffed through a temporary index
+/// and does not touch the repository at all.
+/// </summary>
+public class PullRequestService : IPullRequestService
+{
+    private static readonly TimeSpan CommandTimeout = TimeSpan.FromMinutes(2);
+
+    private readonly IOutputRepository _outputRepository;
+    private readonly ILogger<PullRequestService> _logger;
+
+    public PullRequestService(IOutputRepository outputRepository, ILogger<PullRequestService> logger)
+    {
+        _outputRepository = outputRepository;
+        _logger = logger;
+    }
+
+    public async Task<string?> GetCurrentBranchAsync(string path, CancellationToken cancellationToken = default)
+    {
+        if (!Directory.Exists(path))
+            return null;
+
+        try
+        {
+            var branch = (await GitAsync(path, cancellationToken, "rev-parse", "--abbrev-ref", "HEAD")).Trim();
+            return branch == "HEAD" ? null : branch; // Detached HEAD
+        }
+        catch (InvalidOperationException)
+        {
+            return null;
+        }
+    }
+
+    public async Task<PullRequestResultDto> CreateAsync(
+        string storyId,
+        string codebasePath,
+        IReadOnlyCollection<string> files,
+        PullRequestOptionsDto options,
+        CancellationToken cancellationToken = default)
+    {
+        if (files.Count == 0)
+            throw new InvalidOperationException("No deployed files to include");
+
+        string root;
+        try
+        {
+            root = (await GitAsync(codebasePath, cancellationToken, "rev-parse", "--show-toplevel")).Trim();
+        }
+        catch (InvalidOperationException)
+        {
+            throw new InvalidOperationException($"The codebase is not in a git repository: {codebasePath}");
+        }
+
+        var paths = files
+            .Select(f => Path.GetRelativePath(root, f).Replace('\\', '/'))
+            .Distinct()
+            .ToList();
+
+        _logger.LogInformation("[PullRequest] {Target} for {StoryId}: {Count} file(s) in {Root}",
+            options.Target, storyId, paths.Count, root);
+
+        return options.Target switch
+        {
+            PullRequestTarget.PatchFile => await CreatePatchAsync(storyId, root, paths, options, cancellationToken),
+            PullRequestTarget.LocalBranch => await CommitToBranchAsync(root, paths, options, cancellationToken),
+            _ => await CreateGitHubPullRequestAsync(root, paths, options, cancellationToken)
+        };
+    }
+
+    /// <summary>
+    /// Check out the branch and commit the files to it. A branch left by an earlier failed
+    /// attempt (e.g. a push that was refused) is reused, so the attempt can simply be repeated.
+    /// </summary>
+    private async Task<PullRequestResultDto> CommitToBranchAsync(
+        string root,
+        List<string> paths,
+        PullRequestOptionsDto options,
+        CancellationToken ct)
+    {
+        var current = (await GitAsync(root, ct, "rev-parse", "--abbrev-ref", "HEAD")).Trim();
+        if (current != options.BranchName)
+        {
+            // The deployed changes are uncommitted, so they move along to the new branch
+            await GitAsync(root, ct, "checkout", "-b", options.BranchName);
+        }
+
+        await GitAsync(root, ct, new[] { "add", "--" }.Concat(paths).ToArray());
+
+        var pending = await GitAsync(root, ct, new[] { "status", "--porcelain", "--" }.Concat(paths).ToArray());
+        if (!string.IsNullOrWhiteSpace(pending))
+        {
+            var messageFile = Path.GetTempFileName();
+            try
+            {
+                await File.WriteAllTextAsync(messageFile, $"{options.Title}\n\n{options.Body}\n", ct);
+                await GitAsync(root, ct, new[] { "commit", "-F", messageFile, "--" }.Concat(paths).ToArray());
+            }
+            finally
+            {
+                File.Delete(messageFile);
+            }
+        }
+        else if (current != options.BranchName)
+        {
+            throw new InvalidOperationException("The deployed files have no changes to commit");
+        }
+
+        var sha = (await GitAsync(root, ct, "rev-parse", "HEAD")).Trim();
+
+        return new PullRequestResultDto
+        {
+            Target = PullRequestTarget.LocalBranch,
+            BranchName = options.BranchName,
+            CommitSha = sha,
+            Message = $"Committed {paths.Count} file(s) to {options.BranchName} ({sha[..Math.Min(7, sha.Length)]})"
+        };
+    }
+
+    private async Task<PullRequestResultDto> CreateGitHubPullRequestAsync(
+        string root,
+        List<string> paths,
+        PullRequestOptionsDto options,
+        CancellationToken ct)
+    {
+        var commit = await CommitToBranchAsync(root, paths, options, ct);
+        await GitAsync(root, ct, "push", "--set-upstream", "origin", options.BranchName);
+
+        var bodyFile = Path.GetTempFileName();
+        try
+        {
+            await File.WriteAllTextAsync(bodyFile, options.Body, ct);
+
+            var arguments = new List<string>
+            {
+                "pr", "create",
+                "--head", options.BranchName,
+                "--title", options.Title,
+                "--body-file", bodyFile
+            };
+            if (!string.IsNullOrWhiteSpace(options.BaseBranch))
+                arguments.AddRange(new[] { "--base", options.BaseBranch });
+            foreach (var label in options.Labels)
+                arguments.AddRange(new[] { "--label", label });
+            foreach (var reviewer in options.Reviewers)
+                arguments.AddRange(new[] { "--reviewer", reviewer });
+
+            // gh prints the new PR's address last
+            var output = await RunAsync("gh", root, arguments, null, ct);
+            var url = output.Split('\n', StringSplitOptions.RemoveEmptyEntries | StringSplitOptions.TrimEntries).LastOrDefault();
+
+            return new PullRequestResultDto
+            {
+                Target = PullRequestTarget.GitHub,
+                BranchName = options.BranchName,
+                CommitSha = commit.CommitSha,
+                Url = url,
+                Message = $"Pull request opened: {url}"
+            };
+        }
+        finally
+        {
+            File.Delete(bodyFile);
+        }
+    }
+
+    /// <summary>
+    /// Diff the files against HEAD through a throwaway index. The title and body go before the
+    /// diff, where "git apply" ignores them.
+    /// </summary>
+    private async Task<PullRequestResultDto> CreatePatchAsync(
+        string storyId,
+        string root,
+        List<string> paths,
+        PullRequestOptionsDto options,
+        CancellationToken ct)
+    {
+        var indexFile = Path.Combine(Path.GetTempPath(), $"aide-pr-{Guid.NewGuid():N}.index");
+        var environment = new Dictionary<string, string> { ["GIT_INDEX_FILE"] = indexFile };
+
+        string diff;
+        try
+        {
+            await RunAsync("git", root, new[] { "read-tree", "HEAD" }, environment, ct);
+            await RunAsync("git", root, new[] { "add", "--" }.Concat(paths), environment, ct);
+            diff = await RunAsync("git", root, new[] { "diff", "--cached", "--binary", "HEAD" }, environment, ct);
+        }
+        finally
+        {
+            File.Delete(indexFile);
+        }
+
+        if (string.IsNullOrWhiteSpace(diff))
+            throw new InvalidOperationException("The deployed files have no changes against HEAD");
+
+        var patch = $"Subject: {options.Title}\n\n{options.Body}\n---\n\n{diff}";
+        await _outputRepository.SavePullRequestPatchAsync(storyId, patch, ct);
+
+        return new PullRequestResultDto
+        {
+            Target = PullRequestTarget.PatchFile,
+            BranchName = options.BranchName,
+            HasPatch = true,
+            Message = $"Patch written for {paths.Count} file(s) - apply it with git apply"
+        };
+    }
+
+    private Task<string> GitAsync(string workingDirectory, CancellationToken ct, params string[] arguments)
+    {
+        return RunAsync("git", workingDirectory, arguments, null, ct);
+    }
+
+    /// <summary>
+    /// Run a command and return its standard output.
+    /// Throws InvalidOperationException when it cannot start, fails or times out.
+    /// </summary>
+    private async Task<string> RunAsync(
+        string fileName,
+        string workingDirectory,
+        IEnumerable<string> arguments,
+        Dictionary<string, string>? environment,
+        CancellationToken ct)
+    {
+        var psi = new ProcessStartInfo
+        {
+            FileName = fileName,
+            WorkingDirectory = workingDirectory,
+            RedirectStandardOutput = true,
+            RedirectStandardError = true,
+            UseShellExecute = false,
+            CreateNoWindow = true
+        };
+        foreach (var argument in arguments)
+            psi.ArgumentList.Add(argument);
+        foreach (var (name, value) in environment ?? new Dictionary<string, string>())
+            psi.Environment[name] = value;
+
+        var command = $"{fileName} {string.Join(' ', psi.ArgumentList.Take(2))}";
+        using var process = new Process { StartInfo = psi };
+
+        try
+        {
+            process.Start();
+        }
+        catch (Win32Exception ex)
+        {
+            throw new InvalidOperationException($"Could not run {fileName} - is it installed and on the PATH?", ex);
+        }
+
+        var stdout = process.StandardOutput.ReadToEndAsync();
+        var stderr = process.StandardError.ReadToEndAsync();
+
+        using var timeout = CancellationTokenSource.CreateLinkedTokenSource(ct);
+        timeout.CancelAfter(CommandTimeout);
+        try
+        {
+            await process.WaitForExitAsync(timeout.Token);
+        }
+        catch (OperationCanceledException)
+        {
+            try { process.Kill(entireProcessTree: true); } catch { }
+            ct.ThrowIfCancellationRequested();
+            throw new InvalidOperationException($"{command} timed out ({CommandTimeout.TotalMinutes:0} minutes)");
+        }
+
+        var output = await stdout;
+        var error = await stderr;
+
+        if (process.ExitCode != 0)
+        {
+            var detail = string.IsNullOrWhiteSpace(error) ? output : error;
+            _logger.LogWarning("[PullRequest] {Command} failed ({ExitCode}): {Error}", command, process.ExitCode, detail.Trim());
+            throw new InvalidOperationException($"{command} failed: {detail.Trim()}");
+        }
+
+        return output;
+    }
+}
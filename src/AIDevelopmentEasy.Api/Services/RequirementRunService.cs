@@ -0,0 +1,173 @@
+using AIDevelopmentEasy.Api.Models;
+using AIDevelopmentEasy.Api.Repositories.Interfaces;
+using AIDevelopmentEasy.Api.Services.Interfaces;
+
+namespace AIDevelopmentEasy.Api.Services;
+
+/// <summary>
+/// Runs the stories created from a requirement in dependency order.
+///
+/// The graph comes from the requirement's story definitions: each definition knows the
+/// story it became, and its Dependencies name other definitions by Id (or, from older
+/// wizard output, by title). Levels are computed with Kahn's algorithm; the stories are
+/// then handed to the pipeline queue, which starts a story once its dependencies have
+/// completed and blocks it when one of them does not.
+/// </summary>
+public class RequirementRunService : IRequirementRunService
+{
+    private readonly IRequirementRepository _requirementRepository;
+    private readonly IStoryRepository _storyRepository;
+    private readonly IPipelineQueueService _queueService;
+    private readonly ILogger<RequirementRunService> _logger;
+
+    public RequirementRunService(
+        IRequirementRepository requirementRepository,
+        IStoryRepository storyRepository,
+        IPipelineQueueService queueService,
+        ILogger<RequirementRunService> logger)
+    {
+        _requirementRepository = requirementRepository;
+        _storyRepository = storyRepository;
+        _queueService = queueService;
+        _logger = logger;
+    }
+
+    public async Task<StoryGraphDto> GetStoryGraphAsync(string requirementId, CancellationToken cancellationToken = default)
+    {
+        var requirement = await _requirementRepository.GetByIdAsync(requirementId, cancellationToken)
+            ?? throw new ArgumentException($"Requirement not found: {requirementId}");
+
+        var stories = new List<StoryDto>();
+        foreach (var storyId in requirement.CreatedStoryIds.Distinct())
+        {
+            var story = await _storyRepository.GetByIdAsync(storyId, cancellationToken);
+            if (story != null)
+                stories.Add(story);
+        }
+
+        var nodes = stories.Select(story => new StoryGraphNodeDto
+        {
+            StoryId = story.Id,
+            DefinitionId = FindDefinition(requirement.GeneratedStories, story)?.Id,
+            Name = story.Name,
+            Status = story.Status
+        }).ToList();
+
+        // Resolve each definition's dependencies to the stories they became
+        foreach (var node in nodes)
+        {
+            var definition = requirement.GeneratedStories.FirstOrDefault(d => d.Id == node.DefinitionId);
+            if (definition == null)
+                continue;
+
+            foreach (var dependency in definition.Dependencies)
+            {
+                var upstream = nodes.FirstOrDefault(n => n.DefinitionId != null &&
+                    string.Equals(n.DefinitionId, dependency.Trim(), StringComparison.OrdinalIgnoreCase))
+                    ?? nodes.FirstOrDefault(n => string.Equals(n.Name, dependency.Trim(), StringComparison.OrdinalIgnoreCase));
+
+                if (upstream != null && upstream != node && !node.DependsOn.Contains(upstream.StoryId))
+                    node.DependsOn.Add(upstream.StoryId);
+            }
+        }
+
+        var hasCycle = AssignLevels(nodes);
+
+        var queue = await _queueService.GetQueueAsync(cancellationToken);
+        foreach (var node in nodes)
+        {
+            var item = queue.Items
+                .Where(i => i.StoryId == node.StoryId)
+                .OrderByDescending(i => i.EnqueuedAt)
+                .FirstOrDefault();
+
+            node.QueueState = item?.State;
+            node.QueueMessage = item?.Message;
+        }
+
+        return new StoryGraphDto
+        {
+            RequirementId = requirement.Id,
+            Nodes = nodes
+                .Select((node, index) => (node, index))
+                .OrderBy(x => x.node.Level)
+                .ThenBy(x => x.index)
+                .Select(x => x.node)
+                .ToList(),
+            HasCycle = hasCycle
+        };
+    }
+
+    public async Task<PipelineQueueDto> RunStoriesAsync(string requirementId, RunRequirementStoriesRequest request, CancellationToken cancellationToken = default)
+    {
+        var graph = await GetStoryGraphAsync(requirementId, cancellationToken);
+
+        if (graph.HasCycle)
+        {
+            var names = graph.Nodes.Where(n => n.InCycle).Select(n => n.Name);
+            throw new InvalidOperationException($"Story dependencies form a cycle: {string.Join(", ", names)}");
+        }
+
+        // Completed stories are skipped; their dependents do not need to wait for them
+        var toRun = graph.Nodes.Where(n => n.Status != StoryStatus.Completed).ToList();
+        if (toRun.Count == 0)
+            throw new InvalidOperationException("All stories of this requirement are already completed");
+
+        _logger.LogInformation("[Requirement] Running {Count} stories of {RequirementId} in dependency order",
+            toRun.Count, requirementId);
+
+        return await _queueService.EnqueueAsync(new EnqueueStoriesRequest
+        {
+            StoryIds = toRun.Select(n => n.StoryId).ToList(),
+            ApprovalPolicyId = request.ApprovalPolicyId,
+            MaxConcurrency = request.MaxConcurrency,
+            PauseOnFailure = request.PauseOnFailure,
+            DependsOn = toRun.ToDictionary(n => n.StoryId, n => n.DependsOn)
+        }, cancellationToken);
+    }
+
+    private static StoryDefinitionDto? FindDefinition(List<StoryDefinitionDto> definitions, StoryDto story)
+    {
+        // Stories created before definitions recorded their story are matched by title
+        return definitions.FirstOrDefault(d => d.CreatedStoryId == story.Id)
+            ?? definitions.FirstOrDefault(d => d.CreatedStoryId == null &&
+                string.Equals(d.Title, story.Name, StringComparison.OrdinalIgnoreCase));
+    }
+
+    /// <summary>
+    /// Set each node's level to the longest dependency chain leading to it.
+    /// Nodes that cannot be ordered are marked InCycle and placed after the others.
+    /// Returns true when there is a cycle.
+    /// </summary>
+    private static bool AssignLevels(List<StoryGraphNodeDto> nodes)
+    {
+        var remaining = nodes.ToDictionary(n => n.StoryId, n => n.DependsOn.Count);
+        var ready = new Queue<StoryGraphNodeDto>(nodes.Where(n => n.DependsOn.Count == 0));
+        var ordered = 0;
+
+        while (ready.Count > 0)
+        {
+            var node = ready.Dequeue();
+            ordered++;
+
+            foreach (var dependent in nodes.Where(n => n.DependsOn.Contains(node.StoryId)))
+            {
+                dependent.Level = Math.Max(dependent.Level, node.Level + 1);
+                if (--remaining[dependent.StoryId] == 0)
+                    ready.Enqueue(dependent);
+            }
+        }
+
+        if (ordered == nodes.Count)
+            return false;
+
+        var cycleLevel = nodes.Where(n => remaining[n.StoryId] == 0).Select(n => n.Level + 1).DefaultIfEmpty(0).Max();
+        foreach (var node in nodes.Where(n => remaining[n.StoryId] > 0))
+        {
+            node.InCycle = true;
+            node.Level = cycleLevel;
+        }
+
+        return true;
+    }
+}
@@ -23,6 +23,7 @@ public class RequirementWizardService : IRequirementWizardService
     private readonly IRequirementRepository _requirementRepository;
     private readonly IStoryRepository _storyRepository;
     private readonly ICodebaseRepository _codebaseRepository;
+    private readonly IApprovalPolicyRepository _approvalPolicyRepository;
     private readonly RequirementAnalystAgent _analystAgent;
     private readonly CodeAnalysisAgent _codeAnalysisAgent;
     private readonly ILogger<RequirementWizardService> _logger;
@@ -34,6 +35,7 @@ public class RequirementWizardService : IRequirementWizardService
         IRequirementRepository requirementRepository,
         IStoryRepository storyRepository,
         ICodebaseRepository codebaseRepository,
+        IApprovalPolicyRepository approvalPolicyRepository,
         RequirementAnalystAgent analystAgent,
         CodeAnalysisAgent codeAnalysisAgent,
         ILogger<RequirementWizardService> logger)
@@ -41,12 +43,13 @@ public class RequirementWizardService : IRequirementWizardService
         _requirementRepository = requirementRepository;
         _storyRepository = storyRepository;
         _codebaseRepository = codebaseRepository;
+        _approvalPolicyRepository = approvalPolicyRepository;
         _analystAgent = analystAgent;
         _codeAnalysisAgent = codeAnalysisAgent;
         _logger = logger;
     }
 
-    public async Task<WizardStatusDto> StartAsync(string requirementId, bool autoApproveAll = false, CancellationToken cancellationToken = default)
+    public async Task<WizardStatusDto> StartAsync(string requirementId, bool autoApproveAll = false, string? approvalPolicyId = null, CancellationToken cancellationToken = default)
     {
         // Check if already running
         if (_runningWizards.ContainsKey(requirementId))
@@ -67,14 +70,17 @@ public class RequirementWizardService : IRequirementWizardService
             throw new InvalidOperationException($"Requirement must be in Draft status to start wizard. Current: {requirement.Status}");
         }
 
+        var approvalPolicy = await ResolveApprovalPolicyAsync(requirement.CodebaseId, approvalPolicyId, autoApproveAll, cancellationToken);
+
         // Create execution context
         var execution = new WizardExecution
         {
             RequirementId = requirementId,
-            AutoApproveAll = autoApproveAll,
+            ApprovalPolicy = approvalPolicy,
             Status = CreateInitialStatus(requirementId),
             CancellationTokenSource = CancellationTokenSource.CreateLinkedTokenSource(cancellationToken)
         };
+        execution.Status.ApprovalPolicy = approvalPolicy;
 
         _runningWizards[requirementId] = execution;
 
@@ -224,10 +230,14 @@ public class RequirementWizardService : IRequirementWizardService
 
                 // Link to requirement
                 await _requirementRepository.AddCreatedStoryIdAsync(requirementId, story.Id, cancellationToken);
+                storyDef.CreatedStoryId = story.Id;
 
                 _logger.LogInformation("[Wizard] Created story: {Id} - {Title}", story.Id, story.Name);
             }
 
+            // Keep which story each definition became, so their dependencies can order the runs
+            await _requirementRepository.SaveGeneratedStoriesAsync(requirementId, requirement.GeneratedStories, cancellationToken);
+
             // Mark Review complete
             UpdatePhaseState(execution, WizardPhaseDto.Review, WizardPhaseStateDto.Completed);
 
@@ -335,9 +345,10 @@ public class RequirementWizardService : IRequirementWizardService
                 $"Generated {result.Questions!.Questions.Count} questions",
                 result.Questions);
 
-            // If auto-approve, proceed immediately
-            if (execution.AutoApproveAll)
+            // If the policy approves this phase, proceed immediately
+            if (execution.AutoApproves(WizardPhaseDto.Analysis))
             {
+                RecordAutoApproval(execution, WizardPhaseDto.Analysis);
                 await ApprovePhaseAsync(requirementId, true, "Auto-approved", execution.CancellationTokenSource.Token);
             }
 
@@ -394,9 +405,10 @@ public class RequirementWizardService : IRequirementWizardService
                 "Final requirement created",
                 result.FinalRequirement);
 
-            // If auto-approve, proceed immediately
-            if (execution.AutoApproveAll)
+            // If the policy approves this phase, proceed immediately
+            if (execution.AutoApproves(WizardPhaseDto.Refinement))
             {
+                RecordAutoApproval(execution, WizardPhaseDto.Refinement);
                 await ApprovePhaseAsync(requirementId, true, "Auto-approved", execution.CancellationTokenSource.Token);
             }
 
@@ -451,9 +463,10 @@ public class RequirementWizardService : IRequirementWizardService
                 $"Generated {result.Stories.Count} stories",
                 storiesDto);
 
-            // If auto-approve, proceed immediately
-            if (execution.AutoApproveAll)
+            // If the policy approves this phase, proceed immediately
+            if (execution.AutoApproves(WizardPhaseDto.Decomposition))
             {
+                RecordAutoApproval(execution, WizardPhaseDto.Decomposition);
                 await ApprovePhaseAsync(requirementId, true, "Auto-approved", execution.CancellationTokenSource.Token);
             }
 
@@ -513,6 +526,66 @@ public class RequirementWizardService : IRequirementWizardService
         }
     }
 
+    /// <summary>
+    /// Pick the approval policy for the wizard: the requested one, else the codebase's.
+    /// autoApproveAll (the older flag) approves every gate the wizard can pass on its own.
+    /// </summary>
+    private async Task<ApprovalPolicyDto?> ResolveApprovalPolicyAsync(
+        string? codebaseId,
+        string? approvalPolicyId,
+        bool autoApproveAll,
+        CancellationToken cancellationToken)
+    {
+        if (autoApproveAll)
+        {
+            return new ApprovalPolicyDto
+            {
+                Name = "Auto-approve all",
+                AutoApproveWizardPhases = new() { WizardPhaseDto.Analysis, WizardPhaseDto.Refinement, WizardPhaseDto.Decomposition }
+            };
+        }
+
+        if (approvalPolicyId == ApprovalPolicyDto.ManualId)
+            return null;
+
+        if (!string.IsNullOrEmpty(approvalPolicyId))
+        {
+            return await _approvalPolicyRepository.GetByIdAsync(approvalPolicyId, cancellationToken)
+                ?? throw new InvalidOperationException($"Approval policy not found: {approvalPolicyId}");
+        }
+
+        if (string.IsNullOrEmpty(codebaseId))
+            return null;
+
+        var codebase = await _codebaseRepository.GetByIdAsync(codebaseId, cancellationToken);
+        if (string.IsNullOrEmpty(codebase?.ApprovalPolicyId))
+            return null;
+
+        var policy = await _approvalPolicyRepository.GetByIdAsync(codebase.ApprovalPolicyId, cancellationToken);
+        if (policy == null)
+        {
+            _logger.LogWarning("[Wizard] Approval policy {PolicyId} assigned to codebase {CodebaseId} no longer exists",
+                codebase.ApprovalPolicyId, codebaseId);
+        }
+        return policy;
+    }
+
+    /// <summary>
+    /// Note on the phase which policy approved it, so the decision can be audited
+    /// </summary>
+    private void RecordAutoApproval(WizardExecution execution, WizardPhaseDto phase)
+    {
+        var policyName = execution.ApprovalPolicy?.Name ?? "approval policy";
+        var phaseStatus = execution.Status.Phases.FirstOrDefault(p => p.Phase == phase);
+        if (phaseStatus != null)
+        {
+            phaseStatus.AutoApprovedBy = policyName;
+        }
+
+        _logger.LogInformation("[Wizard] {Phase} auto-approved by policy {Policy} for {Id}",
+            phase, policyName, execution.RequirementId);
+    }
+
     private string BuildStoryContent(StoryDefinitionDto story, RequirementDetailDto requirement)
     {
         var content = $@"# {story.Title}
@@ -606,8 +679,10 @@ Path: {codebase.Path}
     private class WizardExecution
     {
         public string RequirementId { get; set; } = string.Empty;
-        public bool AutoApproveAll { get; set; }
+        public ApprovalPolicyDto? ApprovalPolicy { get; set; }
         public WizardStatusDto Status { get; set; } = new();
         public CancellationTokenSource CancellationTokenSource { get; set; } = new();
+
+        public bool AutoApproves(WizardPhaseDto phase) => ApprovalPolicy?.AutoApproveWizardPhases.Contains(phase) == true;
     }
 }
@@ -160,6 +160,10 @@ public abstract class BaseAgent : IAgent
         OnLLMCallCompleted?.Invoke(new LLMCallInfo
         {
             AgentName = Name,
+            PromptFiles = PromptLoader.Instance.TakeLoadedPrompts(),
+            SystemPrompt = systemPrompt,
+            Messages = { new LLMMessageInfo { Role = "user", Content = userPrompt } },
+            Completion = content,
             PromptTokens = promptTokens,
             CompletionTokens = completionTokens,
             TotalTokens = totalTokens,
@@ -225,6 +229,10 @@ public abstract class BaseAgent : IAgent
         OnLLMCallCompleted?.Invoke(new LLMCallInfo
         {
             AgentName = Name,
+            PromptFiles = PromptLoader.Instance.TakeLoadedPrompts(),
+            SystemPrompt = systemPrompt,
+            Messages = messages.Select(m => new LLMMessageInfo { Role = m.Role, Content = m.Content }).ToList(),
+            Completion = responseContent,
             PromptTokens = promptTokens,
             CompletionTokens = completionTokens,
             TotalTokens = totalTokens,
@@ -339,7 +347,31 @@ IMPORTANT: You MUST follow all coding standards above. Pay special attention to:
 /// </summary>
 public class LLMCallInfo
 {
+    /// <summary>
+    /// Unique id of the call, used to look up its transcript
+    /// </summary>
+    public string CallId { get; set; } = Guid.NewGuid().ToString("N");
     public string AgentName { get; set; } = "";
+
+    /// <summary>
+    /// Prompt files used to build the prompts, relative to prompts/ without extension
+    /// </summary>
+    public List<string> PromptFiles { get; set; } = new();
+
+    /// <summary>
+    /// Rendered system prompt as sent to the model
+    /// </summary>
+    public string SystemPrompt { get; set; } = "";
+
+    /// <summary>
+    /// Messages sent after the system prompt (a single user prompt for plain calls)
+    /// </summary>
+    public List<LLMMessageInfo> Messages { get; set; } = new();
+
+    /// <summary>
+    /// Raw completion returned by the model
+    /// </summary>
+    public string Completion { get; set; } = "";
     public int PromptTokens { get; set; }
     public int CompletionTokens { get; set; }
     public int TotalTokens { get; set; }
@@ -347,3 +379,12 @@ public class LLMCallInfo
     public TimeSpan Duration { get; set; }
     public DateTime Timestamp { get; set; } = DateTime.UtcNow;
 }
+
+/// <summary>
+/// A chat message sent to the LLM
+/// </summary>
+public class LLMMessageInfo
+{
+    public string Role { get; set; } = "";
+    public string Content { get; set; } = "";
+}
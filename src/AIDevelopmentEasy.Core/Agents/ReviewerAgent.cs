@@ -58,7 +58,9 @@ Output Format (JSON):
     ""issues"": [
         {
             ""severity"": ""critical/major/minor"",
+            ""category"": ""correctness/completeness/quality/error_handling/compatibility/security/performance"",
             ""file"": ""filename"",
+            ""line"": 42,
             ""description"": ""What the issue is"",
             ""suggestion"": ""How to fix it""
         }
@@ -67,6 +69,8 @@ Output Format (JSON):
     ""final_verdict"": ""Ready for use / Needs fixes / Major rework needed""
 }
 
+Give the line number in the file the issue starts at, or null when it concerns the whole file.
+
 Be thorough but fair. Minor style issues shouldn't block approval if the code works correctly.";
     }
 
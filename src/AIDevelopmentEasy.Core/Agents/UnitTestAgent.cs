@@ -130,6 +130,7 @@ public class UnitTestAgent
                 }
 
                 summary.FailedTests.AddRange(result.FailedTests);
+                summary.TestResults.AddRange(result.TestResults);
             }
 
             summary.Success = summary.Failed == 0;
@@ -452,26 +453,19 @@ public class UnitTestAgent
             _logger?.LogInformation("[UnitTestAgent] XML Results - Total: {Total}, Passed: {Passed}, Failed: {Failed}, Skipped: {Skipped}",
                 result.TotalTests, result.Passed, result.Failed, result.Skipped);
 
-            // Parse failed test cases
-            var failedTestCases = testRun.Descendants("test-case")
-                .Where(tc => tc.Attribute("result")?.Value == "Failed");
-
-            foreach (var testCase in failedTestCases)
+            // Parse every test case; failures also go to FailedTests
+            foreach (var testCase in testRun.Descendants("test-case"))
             {
                 var fullName = testCase.Attribute("fullname")?.Value ?? "";
                 var className = testCase.Attribute("classname")?.Value ?? "";
                 var methodName = testCase.Attribute("name")?.Value ?? "";
+                var outcome = testCase.Attribute("result")?.Value;
 
                 // Check if this is a new test
                 var isNewTest = newTestClasses.Any(c =>
                     className.Contains(c.ClassName, StringComparison.OrdinalIgnoreCase) ||
                     fullName.Contains(c.FullName, StringComparison.OrdinalIgnoreCase));
 
-                // Get failure message
-                var failure = testCase.Element("failure");
-                var message = failure?.Element("message")?.Value ?? "Test failed";
-                var stackTrace = failure?.Element("stack-trace")?.Value;
-
                 // Get duration
                 var durationStr = testCase.Attribute("duration")?.Value;
                 var duration = double.TryParse(durationStr, out var d) ? TimeSpan.FromSeconds(d) : TimeSpan.Zero;
@@ -481,13 +475,22 @@ public class UnitTestAgent
                     ClassName = className,
                     MethodName = methodName,
                     FullName = fullName,
-                    Passed = false,
+                    Passed = outcome == "Passed",
+                    Skipped = outcome is "Skipped" or "Inconclusive",
                     IsNewTest = isNewTest,
-                    ErrorMessage = message,
-                    StackTrace = stackTrace,
                     Duration = duration
                 };
 
+                result.TestResults.Add(testResult);
+
+                if (outcome != "Failed")
+                    continue;
+
+                // Get failure message
+                var failure = testCase.Element("failure");
+                testResult.ErrorMessage = failure?.Element("message")?.Value ?? "Test failed";
+                testResult.StackTrace = failure?.Element("stack-trace")?.Value;
+
                 result.FailedTests.Add(testResult);
 
                 if (isNewTest)
@@ -495,7 +498,7 @@ public class UnitTestAgent
                 else
                     result.ExistingTestsFailed++;
 
-                _logger?.LogWarning("[UnitTestAgent] FAILED: {FullName} - {Message}", fullName, message);
+                _logger?.LogWarning("[UnitTestAgent] FAILED: {FullName} - {Message}", fullName, testResult.ErrorMessage);
             }
 
             // Calculate new tests passed
@@ -689,6 +692,11 @@ public class TestExecutionSummary
     public List<TestProjectResult> ProjectResults { get; set; } = new();
     public List<TestResult> FailedTests { get; set; } = new();
 
+    /// <summary>
+    /// Every executed test case (empty when results came from console output only)
+    /// </summary>
+    public List<TestResult> TestResults { get; set; } = new();
+
     public DateTime StartedAt { get; set; }
     public DateTime? CompletedAt { get; set; }
 
@@ -717,6 +725,7 @@ public class TestProjectResult
     public int ExistingTestsFailed { get; set; }
 
     public List<TestResult> FailedTests { get; set; } = new();
+    public List<TestResult> TestResults { get; set; } = new();
 
     public DateTime StartedAt { get; set; }
     public DateTime? CompletedAt { get; set; }
@@ -731,6 +740,7 @@ public class TestResult
     public string MethodName { get; set; } = "";
     public string FullName { get; set; } = "";
     public bool Passed { get; set; }
+    public bool Skipped { get; set; }
     public bool IsNewTest { get; set; }
     public string? ErrorMessage { get; set; }
     public string? StackTrace { get; set; }
@@ -70,6 +70,16 @@ public class Requirement
     /// </summary>
     public string? CodebaseId { get; set; }
 
+    /// <summary>
+    /// Token budget for LLM calls across the stories created from this requirement (optional)
+    /// </summary>
+    public int? BudgetMaxTokens { get; set; }
+
+    /// <summary>
+    /// USD budget for LLM calls across the stories created from this requirement (optional)
+    /// </summary>
+    public decimal? BudgetMaxCostUSD { get; set; }
+
     /// <summary>
     /// Creation timestamp
     /// </summary>
@@ -331,6 +341,11 @@ public class StoryDefinition
     /// Whether user selected this story for creation
     /// </summary>
     public bool Selected { get; set; } = true;
+
+    /// <summary>
+    /// ID of the story created from this definition (null until created)
+    /// </summary>
+    public string? CreatedStoryId { get; set; }
 }
 
 /// <summary>
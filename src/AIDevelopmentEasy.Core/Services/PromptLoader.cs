@@ -10,6 +10,9 @@ public class PromptLoader
     private static PromptLoader? _instance;
     private static readonly object _lock = new();
 
+    // Prompt files loaded on the current async flow since the last TakeLoadedPrompts (for LLM call transcripts)
+    private static readonly AsyncLocal<List<string>?> _loadedPrompts = new();
+
     /// <summary>
     /// Gets the singleton instance of PromptLoader
     /// </summary>
@@ -62,6 +65,8 @@ public class PromptLoader
     /// <exception cref="FileNotFoundException">When the prompt file is missing</exception>
     public string LoadPromptRequired(string promptName)
     {
+        RecordLoadedPrompt(promptName);
+
         if (_promptCache.TryGetValue(promptName, out var cached))
             return cached;
 
@@ -120,6 +125,31 @@ public class PromptLoader
     /// </summary>
     public string LoadPrompt(string promptName) => LoadPromptRequired(promptName);
 
+    /// <summary>
+    /// Get and reset the prompt files loaded on the current async flow since the last call,
+    /// as paths relative to the prompts directory without extension (e.g. "coder/coder-csharp")
+    /// </summary>
+    public List<string> TakeLoadedPrompts()
+    {
+        var loaded = _loadedPrompts.Value;
+        if (loaded == null)
+            return new List<string>();
+
+        var names = loaded.ToList();
+        loaded.Clear();
+        return names;
+    }
+
+    private void RecordLoadedPrompt(string promptName)
+    {
+        var relativePath = Path.GetRelativePath(_promptsDirectory, GetPromptFilePath(promptName));
+        var name = Path.ChangeExtension(relativePath, null).Replace('\\', '/');
+
+        var loaded = _loadedPrompts.Value ??= new List<string>();
+        if (!loaded.Contains(name))
+            loaded.Add(name);
+    }
+
     /// <summary>
     /// Clear the prompt cache (useful for hot-reloading)
     /// </summary>
@@ -1,5 +1,6 @@
 import { BrowserRouter, Routes, Route } from 'react-router-dom';
 import { Layout } from './components/Layout';
+import { SignalRProvider } from './components/SignalRProvider';
 import { Stories } from './pages/Stories';
 import { StoryDetail } from './pages/StoryDetail';
 import { PipelineView } from './pages/PipelineView';
@@ -16,25 +17,27 @@ import PromptDetail from './pages/PromptDetail';
 
 function App() {
   return (
-    <BrowserRouter>
-      <Routes>
-        <Route path="/" element={<Layout />}>
-          <Route index element={<Stories />} />
-          <Route path="stories/:id" element={<StoryDetail />} />
-          <Route path="pipeline/:id" element={<PipelineView />} />
-          <Route path="requirements" element={<Requirements />} />
-          <Route path="requirements/:id" element={<RequirementDetail />} />
-          <Route path="codebases" element={<Codebases />} />
-          <Route path="codebases/:id" element={<CodebaseDetail />} />
-          <Route path="knowledge" element={<Knowledge />} />
-          <Route path="knowledge/new/:type" element={<KnowledgeCreate />} />
-          <Route path="knowledge/:id" element={<KnowledgeDetail />} />
-          <Route path="prompts" element={<Prompts />} />
-          <Route path="prompts/:category/:name" element={<PromptDetail />} />
-          <Route path="settings" element={<Settings />} />
-        </Route>
-      </Routes>
-    </BrowserRouter>
+    <SignalRProvider>
+      <BrowserRouter>
+        <Routes>
+          <Route path="/" element={<Layout />}>
+            <Route index element={<Stories />} />
+            <Route path="stories/:id" element={<StoryDetail />} />
+            <Route path="pipeline/:id" element={<PipelineView />} />
+            <Route path="requirements" element={<Requirements />} />
+            <Route path="requirements/:id" element={<RequirementDetail />} />
+            <Route path="codebases" element={<Codebases />} />
+            <Route path="codebases/:id" element={<CodebaseDetail />} />
+            <Route path="knowledge" element={<Knowledge />} />
+            <Route path="knowledge/new/:type" element={<KnowledgeCreate />} />
+            <Route path="knowledge/:id" element={<KnowledgeDetail />} />
+            <Route path="prompts" element={<Prompts />} />
+            <Route path="prompts/:category/:name" element={<PromptDetail />} />
+            <Route path="settings" element={<Settings />} />
+          </Route>
+        </Routes>
+      </BrowserRouter>
+    </SignalRProvider>
   );
 }
 
@@ -0,0 +1,87 @@
+import { useEffect, useRef } from 'react';
+
+interface CodeEditorProps {
+  value: string;
+  onChange: (value: string) => void;
+  /** 1-based line to highlight and scroll to. */
+  line?: number | null;
+  /** Changes whenever the editor should jump to `line` again. */
+  jumpKey?: string | number;
+  /** Ctrl/Cmd+S */
+  onSave?: () => void;
+  readOnly?: boolean;
+}
+
+const LINE_HEIGHT = 20;
+const PADDING = 8;
+const INDENT = '    ';
+
+/**
+ * Plain-text code editor: a textarea with a line number gutter, a highlighted line,
+ * Tab indentation and Ctrl+S. The container scrolls; the textarea grows with its content.
+ */
+export function CodeEditor({ value, onChange, line, jumpKey, onSave, readOnly = false }: CodeEditorProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  const lines = value.split('\n');
+  const longestLine = lines.reduce((max, l) => Math.max(max, l.length), 0);
+
+  // Jump to the line: scroll it to the middle and put the caret at its start
+  useEffect(() => {
+    const container = containerRef.current;
+    const textarea = textareaRef.current;
+    if (!line || !container || !textarea) return;
+    container.scrollTop = Math.max((line - 1) * LINE_HEIGHT - container.clientHeight / 2, 0);
+    const offset = textarea.value.split('\n').slice(0, line - 1).reduce((sum, l) => sum + l.length + 1, 0);
+    textarea.focus({ preventScroll: true });
+    textarea.setSelectionRange(offset, offset);
+  }, [line, jumpKey]);
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 's') {
+      e.preventDefault();
+      onSave?.();
+      return;
+    }
+    if (e.key === 'Tab' && !readOnly) {
+      e.preventDefault();
+      const textarea = e.currentTarget;
+      const { selectionStart, selectionEnd } = textarea;
+      onChange(value.slice(0, selectionStart) + INDENT + value.slice(selectionEnd));
+      requestAnimationFrame(() => textarea.setSelectionRange(selectionStart + INDENT.length, selectionStart + INDENT.length));
+    }
+  };
+
+  return (
+    <div ref={containerRef} className="relative h-full overflow-auto bg-slate-900 font-mono text-xs">
+      <div className="relative flex min-w-full w-max" style={{ paddingTop: PADDING, paddingBottom: PADDING }}>
+        {line && line <= lines.length && (
+          <div
+            className="absolute left-0 right-0 bg-red-500/15 border-y border-red-500/30 pointer-events-none"
+            style={{ top: PADDING + (line - 1) * LINE_HEIGHT, height: LINE_HEIGHT }}
+          />
+        )}
+        <div className="sticky left-0 z-10 flex-shrink-0 w-12 pr-3 text-right select-none bg-slate-900 text-slate-600">
+          {lines.map((_, i) => (
+            <div key={i} className={i + 1 === line ? 'text-red-300' : ''} style={{ height: LINE_HEIGHT, lineHeight: `${LINE_HEIGHT}px` }}>
+              {i + 1}
+            </div>
+          ))}
+        </div>
+        <textarea
+          ref={textareaRef}
+          value={value}
+          onChange={e => onChange(e.target.value)}
+          onKeyDown={handleKeyDown}
+          readOnly={readOnly}
+          spellCheck={false}
+          wrap="off"
+          rows={lines.length}
+          className="relative block flex-1 p-0 bg-transparent text-slate-200 resize-none overflow-hidden outline-none caret-white"
+          style={{ lineHeight: `${LINE_HEIGHT}px`, minWidth: `${longestLine + 4}ch` }}
+        />
+      </div>
+    </div>
+  );
+}
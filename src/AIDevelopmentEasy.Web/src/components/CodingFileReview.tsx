@@ -0,0 +1,201 @@
+import { useMemo, useState } from 'react';
+import { Ban, Check, ChevronDown, ChevronRight, FileCode, FilePlus, Loader2, Undo2 } from 'lucide-react';
+import { CodingFileDecisionDto, FileReviewDecision } from '../types';
+
+interface CodingFileReviewProps {
+  /** Generated files keyed by path, as listed in the Coding result. */
+  files: Record<string, string>;
+  /** Paths of files that modify existing codebase files. */
+  modifiedPaths: string[];
+  /** Paths CoderAgent just revised after an earlier rejection. */
+  revisedPaths?: string[];
+  submitting?: boolean;
+  onApprove: (decisions: CodingFileDecisionDto[] | undefined) => void;
+  onReject: () => void;
+}
+
+interface FileState {
+  decision: FileReviewDecision;
+  note: string;
+}
+
+const DECISIONS: { value: FileReviewDecision; label: string; icon: typeof Check; active: string }[] = [
+  { value: FileReviewDecision.Accept, label: 'Accept', icon: Check, active: 'bg-emerald-600 text-white' },
+  { value: FileReviewDecision.Reject, label: 'Revise', icon: Undo2, active: 'bg-amber-600 text-white' },
+  { value: FileReviewDecision.Exclude, label: 'Exclude', icon: Ban, active: 'bg-slate-500 text-white' }
+];
+
+function FilePreview({ code }: { code: string }) {
+  const lines = code.replace(/\r\n?/g, '\n').split('\n');
+  return (
+    <div className="max-h-96 overflow-auto bg-slate-900 border-t border-slate-700">
+      <table className="w-full font-mono text-xs leading-5 border-collapse">
+        <tbody>
+          {lines.map((line, i) => (
+            <tr key={i}>
+              <td className="w-12 px-2 text-right text-slate-600 select-none align-top">{i + 1}</td>
+              <td className="px-2 whitespace-pre text-slate-300">{line}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+/**
+ * Per-file review of the Coding output. Each file can be accepted, sent back to
+ * CoderAgent with a note, or excluded; only accepted (and later revised) files
+ * continue to Debugging, Reviewing and Deployment.
+ */
+export function CodingFileReview({
+  files,
+  modifiedPaths,
+  revisedPaths = [],
+  submitting = false,
+  onApprove,
+  onReject
+}: CodingFileReviewProps) {
+  const paths = useMemo(() => Object.keys(files).sort(), [files]);
+  const [states, setStates] = useState<Record<string, FileState>>({});
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+
+  const stateOf = (path: string): FileState => states[path] ?? { decision: FileReviewDecision.Accept, note: '' };
+  const setState = (path: string, changes: Partial<FileState>) =>
+    setStates(prev => ({ ...prev, [path]: { ...stateOf(path), ...changes } }));
+
+  const toggleExpanded = (path: string) =>
+    setExpanded(prev => {
+      const next = new Set(prev);
+      if (next.has(path)) next.delete(path);
+      else next.add(path);
+      return next;
+    });
+
+  const count = (decision: FileReviewDecision) => paths.filter(p => stateOf(p).decision === decision).length;
+  const rejectedCount = count(FileReviewDecision.Reject);
+  const excludedCount = count(FileReviewDecision.Exclude);
+  const acceptedCount = paths.length - rejectedCount - excludedCount;
+  const missingNote = paths.some(p => stateOf(p).decision === FileReviewDecision.Reject && !stateOf(p).note.trim());
+  const allExcluded = paths.length > 0 && excludedCount === paths.length;
+
+  const handleApprove = () => {
+    const decisions = paths
+      .filter(p => stateOf(p).decision !== FileReviewDecision.Accept)
+      .map(p => ({ path: p, decision: stateOf(p).decision, note: stateOf(p).note.trim() || undefined }));
+    onApprove(decisions.length > 0 ? decisions : undefined);
+  };
+
+  const approveLabel = rejectedCount > 0
+    ? `Send ${rejectedCount} file(s) back to Coder`
+    : excludedCount > 0
+      ? `✓ Approve ${acceptedCount} file(s)`
+      : '✓ Approve & Continue';
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h4 className="text-sm font-medium text-slate-300">
+          Generated files <span className="text-slate-500">({paths.length})</span>
+        </h4>
+        <p className="text-xs text-slate-400">
+          <span className="text-emerald-400">{acceptedCount} accepted</span>
+          {' · '}
+          <span className="text-amber-400">{rejectedCount} to revise</span>
+          {' · '}
+          <span className="text-slate-400">{excludedCount} excluded</span>
+        </p>
+      </div>
+
+      <ul className="space-y-2">
+        {paths.map(path => {
+          const { decision, note } = stateOf(path);
+          const isModified = modifiedPaths.includes(path);
+          const isOpen = expanded.has(path);
+          return (
+            <li key={path} className="border border-slate-700 rounded-lg overflow-hidden">
+              <div className={`flex items-center gap-2 px-3 py-2 bg-slate-800 ${decision === FileReviewDecision.Exclude ? 'opacity-60' : ''}`}>
+                <button
+                  type="button"
+                  onClick={() => toggleExpanded(path)}
+                  className="flex-1 min-w-0 flex items-center gap-2 text-left"
+                >
+                  {isOpen ? <ChevronDown className="w-4 h-4 text-slate-400" /> : <ChevronRight className="w-4 h-4 text-slate-400" />}
+                  {isModified
+                    ? <FileCode className="w-4 h-4 text-amber-400 flex-shrink-0" />
+                    : <FilePlus className="w-4 h-4 text-emerald-400 flex-shrink-0" />}
+                  <span className={`truncate font-mono text-sm text-white ${decision === FileReviewDecision.Exclude ? 'line-through' : ''}`}>
+                    {path}
+                  </span>
+                  <span className={`px-1.5 py-0.5 rounded text-xs ${isModified ? 'bg-amber-500/20 text-amber-400' : 'bg-emerald-500/20 text-emerald-400'}`}>
+                    {isModified ? 'Modified' : 'New'}
+                  </span>
+                  {revisedPaths.includes(path) && (
+                    <span className="px-1.5 py-0.5 rounded text-xs bg-blue-500/20 text-blue-300">Revised</span>
+                  )}
+                </button>
+                <div className="flex rounded-lg border border-slate-700 overflow-hidden text-xs">
+                  {DECISIONS.map(({ value, label, icon: Icon, active }) => (
+                    <button
+                      key={value}
+                      type="button"
+                      onClick={() => setState(path, { decision: value })}
+                      disabled={submitting}
+                      className={`flex items-center gap-1 px-2 py-1 transition-colors ${decision === value
+                        ? active
+                        : 'bg-slate-900 text-slate-400 hover:text-white'
+                        }`}
+                    >
+                      <Icon className="w-3.5 h-3.5" />
+                      {label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              {decision === FileReviewDecision.Reject && (
+                <div className="px-3 py-2 bg-amber-500/5 border-t border-slate-700">
+                  <textarea
+                    value={note}
+                    onChange={e => setState(path, { note: e.target.value })}
+                    rows={2}
+                    autoFocus
+                    placeholder="What should CoderAgent change in this file?"
+                    className={`w-full px-3 py-1.5 bg-slate-900 border rounded-lg text-sm text-white placeholder-slate-500 focus:outline-none focus:border-amber-500/60 ${note.trim() ? 'border-slate-700' : 'border-red-500/60'}`}
+                  />
+                  {!note.trim() && (
+                    <p className="mt-1 text-xs text-red-400">A note is required to send the file back</p>
+                  )}
+                </div>
+              )}
+
+              {isOpen && <FilePreview code={files[path]} />}
+            </li>
+          );
+        })}
+      </ul>
+
+      {allExcluded && (
+        <p className="text-xs text-amber-400">⚠️ Every file is excluded - reject the phase instead.</p>
+      )}
+
+      <div className="flex gap-3">
+        <button
+          onClick={handleApprove}
+          disabled={submitting || missingNote || allExcluded}
+          className="flex items-center gap-2 px-6 py-2 bg-emerald-600 hover:bg-emerald-700 disabled:opacity-50 disabled:cursor-not-allowed text-white font-medium rounded-lg transition-colors"
+        >
+          {submitting && <Loader2 className="w-4 h-4 animate-spin" />}
+          {approveLabel}
+        </button>
+        <button
+          onClick={onReject}
+          disabled={submitting}
+          className="px-6 py-2 bg-slate-600 hover:bg-slate-700 text-white font-medium rounded-lg transition-colors"
+        >
+          ✗ Reject
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,68 @@
+import { useState } from 'react';
+import { Loader2, Save } from 'lucide-react';
+import { CostBudgetDto } from '../types';
+
+interface CostBudgetEditorProps {
+  budget?: CostBudgetDto | null;
+  saving?: boolean;
+  /** Empty fields are sent as null; a budget without limits clears it */
+  onSave: (budget: CostBudgetDto) => void;
+}
+
+function parseLimit(value: string): number | null {
+  const parsed = Number(value);
+  return value.trim() && Number.isFinite(parsed) ? parsed : null;
+}
+
+/** Token and USD limits for LLM spend, used on stories and requirements. */
+export function CostBudgetEditor({ budget, saving = false, onSave }: CostBudgetEditorProps) {
+  const [maxTokens, setMaxTokens] = useState(budget?.maxTokens?.toString() ?? '');
+  const [maxCost, setMaxCost] = useState(budget?.maxCostUSD?.toString() ?? '');
+
+  const tokens = parseLimit(maxTokens);
+  const cost = parseLimit(maxCost);
+  const invalid = (maxTokens.trim() !== '' && (tokens === null || tokens <= 0 || !Number.isInteger(tokens)))
+    || (maxCost.trim() !== '' && (cost === null || cost <= 0));
+  const changed = tokens !== (budget?.maxTokens ?? null) || cost !== (budget?.maxCostUSD ?? null);
+
+  const inputClass = 'w-32 px-3 py-1.5 bg-slate-900 border border-slate-700 rounded-lg text-sm text-white placeholder-slate-500 focus:outline-none focus:border-blue-500';
+
+  return (
+    <div className="space-y-1">
+      <div className="flex flex-wrap items-center gap-2">
+        <input
+          type="number"
+          min={1}
+          step={1000}
+          value={maxTokens}
+          onChange={e => setMaxTokens(e.target.value)}
+          disabled={saving}
+          placeholder="No limit"
+          className={inputClass}
+        />
+        <span className="text-xs text-slate-500">tokens</span>
+        <span className="text-slate-500">$</span>
+        <input
+          type="number"
+          min={0.01}
+          step={0.5}
+          value={maxCost}
+          onChange={e => setMaxCost(e.target.value)}
+          disabled={saving}
+          placeholder="No limit"
+          className={inputClass}
+        />
+        <button
+          type="button"
+          onClick={() => onSave({ maxTokens: tokens, maxCostUSD: cost })}
+          disabled={saving || invalid || !changed}
+          className="flex items-center gap-1 px-3 py-1.5 bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white text-sm rounded-lg transition-colors"
+        >
+          {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+          Save
+        </button>
+      </div>
+      {invalid && <p className="text-xs text-red-400">Limits must be greater than zero (whole tokens)</p>}
+    </div>
+  );
+}
@@ -0,0 +1,62 @@
+import { Coins } from 'lucide-react';
+import { CostBudgetDto, LLMCallResultDto } from '../types';
+
+interface CostMeterProps {
+  /** LLM calls of the run so far */
+  calls: LLMCallResultDto[];
+  /** Story budget for the run; without one the meter only counts */
+  budget?: CostBudgetDto | null;
+}
+
+interface UsageBarProps {
+  label: string;
+  spent: number;
+  limit?: number | null;
+  format: (value: number) => string;
+}
+
+const formatTokens = (value: number) => value.toLocaleString();
+const formatCost = (value: number) => `$${value.toFixed(4)}`;
+
+function UsageBar({ label, spent, limit, format }: UsageBarProps) {
+  const ratio = limit ? spent / limit : 0;
+  const color = ratio > 1 ? 'bg-red-500' : ratio >= 0.8 ? 'bg-amber-500' : 'bg-emerald-500';
+
+  return (
+    <div className="flex-1 min-w-[12rem]">
+      <div className="flex items-baseline justify-between text-xs mb-1">
+        <span className="text-slate-400">{label}</span>
+        <span className={ratio > 1 ? 'text-red-400' : 'text-slate-200'}>
+          {format(spent)}
+          {limit ? <span className="text-slate-500"> / {format(limit)}</span> : null}
+        </span>
+      </div>
+      {limit ? (
+        <div className="h-1.5 bg-slate-700 rounded-full overflow-hidden">
+          <div className={`h-full ${color} transition-all duration-500`} style={{ width: `${Math.min(ratio, 1) * 100}%` }} />
+        </div>
+      ) : null}
+    </div>
+  );
+}
+
+/** Tokens and cost of the LLM calls in a run, against the story's budget when it has one. */
+export function CostMeter({ calls, budget }: CostMeterProps) {
+  const tokens = calls.reduce((sum, c) => sum + c.totalTokens, 0);
+  const cost = calls.reduce((sum, c) => sum + c.actualCostUSD, 0);
+
+  return (
+    <div className="flex flex-wrap items-center gap-6 p-4 bg-slate-800/50 border border-slate-700 rounded-xl">
+      <div className="flex items-center gap-2 text-sm text-slate-300">
+        <Coins className="w-4 h-4 text-amber-400" />
+        <span>LLM spend</span>
+        <span className="text-xs text-slate-500">{calls.length} call(s)</span>
+      </div>
+      <UsageBar label="Tokens" spent={tokens} limit={budget?.maxTokens} format={formatTokens} />
+      <UsageBar label="Cost" spent={cost} limit={budget?.maxCostUSD} format={formatCost} />
+      {!budget?.maxTokens && !budget?.maxCostUSD && (
+        <span className="text-xs text-slate-500">No budget - set one on the story to pause runs that overspend</span>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,220 @@
+import { useMemo, useState } from 'react';
+import { ChevronDown, ChevronRight, Columns2, FileCode, FilePlus, Rows3, UnfoldVertical } from 'lucide-react';
+import { OutputFileDiffDto } from '../types';
+import {
+  collapseUnchanged,
+  diffLines,
+  getDiffStats,
+  toSplitRows,
+  type DiffChunk,
+  type DiffLine,
+  type DiffStats
+} from '../services/diff';
+
+type DiffMode = 'unified' | 'split';
+
+interface DiffViewerProps {
+  files: OutputFileDiffDto[];
+}
+
+interface FileDiffModel {
+  file: OutputFileDiffDto;
+  chunks: DiffChunk[];
+  stats: DiffStats;
+}
+
+const LINE_STYLES: Record<DiffLine['type'], { row: string; marker: string; highlight: string }> = {
+  equal: { row: '', marker: ' ', highlight: '' },
+  insert: { row: 'bg-emerald-500/10', marker: '+', highlight: 'bg-emerald-500/30 rounded-sm' },
+  delete: { row: 'bg-red-500/10', marker: '-', highlight: 'bg-red-500/30 rounded-sm' }
+};
+
+function LineText({ line }: { line: DiffLine }) {
+  if (!line.segments) return <>{line.text}</>;
+  const { highlight } = LINE_STYLES[line.type];
+  return (
+    <>
+      {line.segments.map((segment, i) => (
+        <span key={i} className={segment.changed ? highlight : undefined}>{segment.text}</span>
+      ))}
+    </>
+  );
+}
+
+const numberCell = 'w-12 px-2 text-right text-slate-600 select-none align-top';
+const codeCell = 'px-2 whitespace-pre align-top';
+
+function UnifiedLines({ lines }: { lines: DiffLine[] }) {
+  return (
+    <>
+      {lines.map((line, i) => {
+        const style = LINE_STYLES[line.type];
+        return (
+          <tr key={i} className={style.row}>
+            <td className={numberCell}>{line.oldNumber ?? ''}</td>
+            <td className={numberCell}>{line.newNumber ?? ''}</td>
+            <td className={`${codeCell} text-slate-300`}>
+              <span className="select-none text-slate-500 mr-2">{style.marker}</span>
+              <LineText line={line} />
+            </td>
+          </tr>
+        );
+      })}
+    </>
+  );
+}
+
+function SplitLines({ lines }: { lines: DiffLine[] }) {
+  const rows = useMemo(() => toSplitRows(lines), [lines]);
+  return (
+    <>
+      {rows.map((row, i) => (
+        <tr key={i}>
+          <td className={`${numberCell} ${row.left ? LINE_STYLES[row.left.type].row : 'bg-slate-800/40'}`}>
+            {row.left?.oldNumber ?? ''}
+          </td>
+          <td className={`${codeCell} w-1/2 text-slate-300 ${row.left ? LINE_STYLES[row.left.type].row : 'bg-slate-800/40'}`}>
+            {row.left && <LineText line={row.left} />}
+          </td>
+          <td className={`${numberCell} border-l border-slate-700 ${row.right ? LINE_STYLES[row.right.type].row : 'bg-slate-800/40'}`}>
+            {row.right?.newNumber ?? ''}
+          </td>
+          <td className={`${codeCell} w-1/2 text-slate-300 ${row.right ? LINE_STYLES[row.right.type].row : 'bg-slate-800/40'}`}>
+            {row.right && <LineText line={row.right} />}
+          </td>
+        </tr>
+      ))}
+    </>
+  );
+}
+
+function ChangeBar({ stats }: { stats: DiffStats }) {
+  const total = stats.additions + stats.deletions;
+  const blocks = 5;
+  const added = total === 0 ? 0 : Math.round((stats.additions / total) * blocks);
+  const deleted = total === 0 ? 0 : blocks - added;
+  return (
+    <span className="flex gap-0.5">
+      {Array.from({ length: blocks }, (_, i) => (
+        <span
+          key={i}
+          className={`w-2 h-2 rounded-sm ${i < added ? 'bg-emerald-500' : i < added + deleted ? 'bg-red-500' : 'bg-slate-600'}`}
+        />
+      ))}
+    </span>
+  );
+}
+
+function FileDiff({ model, mode }: { model: FileDiffModel; mode: DiffMode }) {
+  const { file, chunks, stats } = model;
+  const [collapsed, setCollapsed] = useState(false);
+  const [expandedChunks, setExpandedChunks] = useState<Set<number>>(new Set());
+  const unchanged = stats.additions === 0 && stats.deletions === 0;
+  const Lines = mode === 'split' ? SplitLines : UnifiedLines;
+  const colSpan = mode === 'split' ? 4 : 3;
+
+  return (
+    <div className="border border-slate-700 rounded-lg overflow-hidden">
+      <button
+        onClick={() => setCollapsed(v => !v)}
+        className="w-full flex items-center gap-3 px-4 py-2 bg-slate-700 text-left hover:bg-slate-600/80 transition-colors"
+      >
+        {collapsed ? <ChevronRight className="w-4 h-4 text-slate-400" /> : <ChevronDown className="w-4 h-4 text-slate-400" />}
+        {file.isNewFile
+          ? <FilePlus className="w-4 h-4 text-emerald-400 flex-shrink-0" />
+          : <FileCode className="w-4 h-4 text-amber-400 flex-shrink-0" />}
+        <span className="flex-1 min-w-0 truncate font-mono text-sm text-white">{file.path}</span>
+        <span className={`px-2 py-0.5 rounded text-xs ${file.isNewFile
+          ? 'bg-emerald-500/20 text-emerald-400'
+          : unchanged ? 'bg-slate-600/50 text-slate-400' : 'bg-amber-500/20 text-amber-400'
+          }`}>
+          {file.isNewFile ? 'New' : unchanged ? 'Unchanged' : 'Modified'}
+        </span>
+        <span className="text-xs font-mono text-emerald-400">+{stats.additions}</span>
+        <span className="text-xs font-mono text-red-400">-{stats.deletions}</span>
+        <ChangeBar stats={stats} />
+      </button>
+
+      {!collapsed && (
+        <div className="overflow-x-auto bg-slate-900">
+          {unchanged ? (
+            <p className="px-4 py-3 text-sm text-slate-500">Identical to the codebase file.</p>
+          ) : (
+            <table className="w-full font-mono text-xs leading-5 border-collapse">
+              <tbody>
+                {chunks.map((chunk, i) => {
+                  if (chunk.kind === 'lines' || expandedChunks.has(chunk.id)) {
+                    return <Lines key={i} lines={chunk.lines} />;
+                  }
+                  return (
+                    <tr key={i} className="bg-blue-500/5">
+                      <td colSpan={colSpan} className="px-2 py-1">
+                        <button
+                          onClick={() => setExpandedChunks(prev => new Set(prev).add(chunk.id))}
+                          className="flex items-center gap-2 text-blue-400 hover:text-blue-300"
+                        >
+                          <UnfoldVertical className="w-3.5 h-3.5" />
+                          Show {chunk.lines.length} unchanged lines
+                        </button>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Generated files compared with the codebase files they replace, in unified or
+ * split view. New files show as all additions.
+ */
+export function DiffViewer({ files }: DiffViewerProps) {
+  const [mode, setMode] = useState<DiffMode>('unified');
+
+  const models = useMemo<FileDiffModel[]>(() => files.map(file => {
+    const lines = diffLines(file.original ?? '', file.modified);
+    return { file, chunks: collapseUnchanged(lines), stats: getDiffStats(lines) };
+  }), [files]);
+
+  const totals = models.reduce(
+    (sum, m) => ({ additions: sum.additions + m.stats.additions, deletions: sum.deletions + m.stats.deletions }),
+    { additions: 0, deletions: 0 }
+  );
+  const newCount = files.filter(f => f.isNewFile).length;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <p className="text-sm text-slate-400">
+          {files.length} file(s): {newCount} new, {files.length - newCount} modified
+          <span className="ml-3 font-mono text-emerald-400">+{totals.additions}</span>
+          <span className="ml-2 font-mono text-red-400">-{totals.deletions}</span>
+        </p>
+        <div className="flex rounded-lg border border-slate-700 overflow-hidden text-sm">
+          {([['unified', Rows3, 'Unified'], ['split', Columns2, 'Split']] as const).map(([value, Icon, label]) => (
+            <button
+              key={value}
+              onClick={() => setMode(value)}
+              className={`flex items-center gap-1.5 px-3 py-1.5 transition-colors ${mode === value
+                ? 'bg-blue-600 text-white'
+                : 'bg-slate-800 text-slate-400 hover:text-white'
+                }`}
+            >
+              <Icon className="w-4 h-4" />
+              {label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {models.map(model => (
+        <FileDiff key={model.file.path} model={model} mode={mode} />
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,203 @@
+import { useEffect, useState } from 'react';
+import { ArrowDown, ArrowUp, ListOrdered, Loader2, X } from 'lucide-react';
+import {
+  ApprovalPolicyDto,
+  EnqueueStoriesRequest,
+  StoryDto,
+  MANUAL_APPROVAL_POLICY_ID,
+  MAX_QUEUE_CONCURRENCY
+} from '../types';
+
+interface EnqueueStoriesDialogProps {
+  /** Selected stories, in selection order */
+  stories: StoryDto[];
+  policies: ApprovalPolicyDto[];
+  /** Current queue settings, used as the defaults */
+  maxConcurrency: number;
+  pauseOnFailure: boolean;
+  submitting?: boolean;
+  onSubmit: (request: EnqueueStoriesRequest) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Queue several stories at once: set their start order, how many run at a time,
+ * the approval policy and whether a failed run pauses the queue.
+ */
+export function EnqueueStoriesDialog({
+  stories,
+  policies,
+  maxConcurrency: initialConcurrency,
+  pauseOnFailure: initialPauseOnFailure,
+  submitting = false,
+  onSubmit,
+  onCancel
+}: EnqueueStoriesDialogProps) {
+  const [order, setOrder] = useState<StoryDto[]>(stories);
+  const [maxConcurrency, setMaxConcurrency] = useState(initialConcurrency);
+  const [pauseOnFailure, setPauseOnFailure] = useState(initialPauseOnFailure);
+  // Empty: each story runs with its own (or its codebase's) policy
+  const [policyId, setPolicyId] = useState('');
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape' && !submitting) onCancel();
+    };
+    document.addEventListener('keydown', onKeyDown);
+    return () => document.removeEventListener('keydown', onKeyDown);
+  }, [onCancel, submitting]);
+
+  const move = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= order.length) return;
+    const next = [...order];
+    [next[index], next[target]] = [next[target], next[index]];
+    setOrder(next);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (submitting) return;
+    onSubmit({
+      storyIds: order.map(s => s.id),
+      approvalPolicyId: policyId || null,
+      maxConcurrency,
+      pauseOnFailure
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/70 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+      <form
+        onSubmit={handleSubmit}
+        className="bg-slate-800 border border-slate-700 rounded-2xl w-full max-w-lg max-h-[90vh] overflow-hidden flex flex-col"
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-slate-700">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 bg-blue-500/20 rounded-lg flex items-center justify-center">
+              <ListOrdered className="w-5 h-5 text-blue-400" />
+            </div>
+            <div>
+              <h2 className="text-xl font-bold text-white">Queue {order.length} {order.length === 1 ? 'Story' : 'Stories'}</h2>
+              <p className="text-sm text-slate-400">Stories start in this order as slots free up</p>
+            </div>
+          </div>
+          <button
+            type="button"
+            onClick={onCancel}
+            disabled={submitting}
+            className="p-2 hover:bg-slate-700 rounded-lg transition-colors text-slate-400 hover:text-white"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="flex-1 overflow-y-auto p-6 space-y-5">
+          <div className="space-y-1 p-2 bg-slate-900/40 border border-slate-700 rounded-lg">
+            {order.map((story, index) => (
+              <div key={story.id} className="flex items-center gap-2 px-2 py-1 text-sm">
+                <span className="w-6 text-xs font-mono text-slate-500">{index + 1}.</span>
+                <span className="flex-1 truncate text-slate-200">{story.name}</span>
+                <button
+                  type="button"
+                  onClick={() => move(index, -1)}
+                  disabled={index === 0}
+                  className="p-1 text-slate-400 hover:text-white hover:bg-slate-700 disabled:opacity-30 disabled:hover:bg-transparent rounded transition-colors"
+                  title="Start earlier"
+                >
+                  <ArrowUp className="w-3.5 h-3.5" />
+                </button>
+                <button
+                  type="button"
+                  onClick={() => move(index, 1)}
+                  disabled={index === order.length - 1}
+                  className="p-1 text-slate-400 hover:text-white hover:bg-slate-700 disabled:opacity-30 disabled:hover:bg-transparent rounded transition-colors"
+                  title="Start later"
+                >
+                  <ArrowDown className="w-3.5 h-3.5" />
+                </button>
+              </div>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="queue-concurrency" className="block text-sm font-medium text-slate-300 mb-2">
+                Run at once
+              </label>
+              <select
+                id="queue-concurrency"
+                value={maxConcurrency}
+                onChange={e => setMaxConcurrency(Number(e.target.value))}
+                className="w-full px-3 py-2 bg-slate-900 border border-slate-700 rounded-lg text-sm text-white focus:outline-none focus:border-blue-500"
+              >
+                {Array.from({ length: MAX_QUEUE_CONCURRENCY }, (_, i) => i + 1).map(n => (
+                  <option key={n} value={n}>{n} {n === 1 ? 'pipeline' : 'pipelines'}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="queue-on-failure" className="block text-sm font-medium text-slate-300 mb-2">
+                When a run fails
+              </label>
+              <select
+                id="queue-on-failure"
+                value={pauseOnFailure ? 'pause' : 'continue'}
+                onChange={e => setPauseOnFailure(e.target.value === 'pause')}
+                className="w-full px-3 py-2 bg-slate-900 border border-slate-700 rounded-lg text-sm text-white focus:outline-none focus:border-blue-500"
+              >
+                <option value="pause">Pause the queue</option>
+                <option value="continue">Continue with the next story</option>
+              </select>
+            </div>
+          </div>
+
+          <div>
+            <label htmlFor="queue-approval-policy" className="block text-sm font-medium text-slate-300 mb-2">
+              Approval policy
+            </label>
+            <select
+              id="queue-approval-policy"
+              value={policyId}
+              onChange={e => setPolicyId(e.target.value)}
+              className="w-full px-3 py-2 bg-slate-900 border border-slate-700 rounded-lg text-sm text-white focus:outline-none focus:border-blue-500"
+            >
+              <option value="">Each story's own policy (story, then codebase)</option>
+              <option value={MANUAL_APPROVAL_POLICY_ID}>Manual - every gate waits for approval</option>
+              {policies.map(p => (
+                <option key={p.id} value={p.id}>{p.name}</option>
+              ))}
+            </select>
+          </div>
+
+          <p className="text-xs text-slate-500">
+            Queue settings apply to the whole queue. Pipelines started by hand count towards the limit,
+            and a run waiting for approval keeps its slot until it finishes.
+          </p>
+        </div>
+
+        {/* Footer */}
+        <div className="p-4 border-t border-slate-700 flex justify-end gap-3">
+          <button
+            type="button"
+            onClick={onCancel}
+            disabled={submitting}
+            className="px-4 py-2 bg-slate-700 hover:bg-slate-600 text-white rounded-lg transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={submitting || order.length === 0}
+            className="flex items-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed text-white font-medium rounded-lg transition-colors"
+          >
+            {submitting ? <Loader2 className="w-4 h-4 animate-spin" /> : <ListOrdered className="w-4 h-4" />}
+            Add to Queue
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
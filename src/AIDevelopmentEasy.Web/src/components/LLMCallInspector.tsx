@@ -0,0 +1,245 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { AlertCircle, Bot, Check, ChevronDown, ChevronRight, Copy, FileText, Loader2, Search, X } from 'lucide-react';
+import {
+  LLMCallDetailDto,
+  LLMCallResultDto,
+  LLMCallSectionDto,
+  LLMCallSectionRole,
+  getPhaseLabel
+} from '../types';
+import { formatDuration, parseTimeSpan } from '../services/timeline';
+
+interface LLMCallInspectorProps {
+  /** Summary of the inspected call, shown while the transcript loads. */
+  call: LLMCallResultDto;
+  detail?: LLMCallDetailDto;
+  isLoading: boolean;
+  error: string | null;
+  onClose: () => void;
+}
+
+const SECTION_STYLES: Record<LLMCallSectionRole, { label: string; text: string; bar: string }> = {
+  system: { label: 'System prompt', text: 'text-blue-300', bar: 'bg-blue-500/70' },
+  user: { label: 'User prompt', text: 'text-emerald-300', bar: 'bg-emerald-500/70' },
+  assistant: { label: 'Assistant (history)', text: 'text-purple-300', bar: 'bg-purple-500/70' },
+  completion: { label: 'Completion', text: 'text-amber-300', bar: 'bg-amber-500/70' }
+};
+
+const sectionStyle = (role: string) => SECTION_STYLES[role as LLMCallSectionRole] ?? SECTION_STYLES.user;
+
+function countMatches(text: string, query: string): number {
+  if (!query) return 0;
+  const haystack = text.toLowerCase();
+  const needle = query.toLowerCase();
+  let count = 0;
+  for (let i = haystack.indexOf(needle); i !== -1; i = haystack.indexOf(needle, i + needle.length)) count++;
+  return count;
+}
+
+function Highlighted({ text, query }: { text: string; query: string }) {
+  if (!query) return <>{text}</>;
+  const haystack = text.toLowerCase();
+  const needle = query.toLowerCase();
+  const parts: React.ReactNode[] = [];
+  let from = 0;
+  for (let i = haystack.indexOf(needle); i !== -1; i = haystack.indexOf(needle, from)) {
+    if (i > from) parts.push(text.slice(from, i));
+    parts.push(<mark key={i} className="bg-yellow-400/40 text-white rounded-sm">{text.slice(i, i + needle.length)}</mark>);
+    from = i + needle.length;
+  }
+  parts.push(text.slice(from));
+  return <>{parts}</>;
+}
+
+function CopyButton({ text, label = 'Copy' }: { text: string; label?: string }) {
+  const [copied, setCopied] = useState(false);
+
+  const handleCopy = async () => {
+    await navigator.clipboard.writeText(text);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <button
+      type="button"
+      onClick={handleCopy}
+      className="flex items-center gap-1 px-2 py-1 text-xs rounded bg-slate-700 hover:bg-slate-600 text-slate-300 transition-colors"
+    >
+      {copied ? <Check className="w-3.5 h-3.5 text-emerald-400" /> : <Copy className="w-3.5 h-3.5" />}
+      {copied ? 'Copied' : label}
+    </button>
+  );
+}
+
+function Section({ section, query, matches }: { section: LLMCallSectionDto; query: string; matches: number }) {
+  const [open, setOpen] = useState(section.role !== 'system');
+  const style = sectionStyle(section.role);
+  const estimated = section.role !== 'completion';
+  // While searching, sections follow the matches
+  const isOpen = query ? matches > 0 : open;
+
+  return (
+    <div className={`border border-slate-700 rounded-lg overflow-hidden ${query && matches === 0 ? 'opacity-50' : ''}`}>
+      <div className="flex items-center gap-3 px-3 py-2 bg-slate-900/60">
+        <button
+          type="button"
+          onClick={() => setOpen(v => !v)}
+          disabled={!!query}
+          className="flex-1 min-w-0 flex items-center gap-2 text-left"
+        >
+          {isOpen ? <ChevronDown className="w-4 h-4 text-slate-400" /> : <ChevronRight className="w-4 h-4 text-slate-400" />}
+          <span className={`text-sm font-medium ${style.text}`}>{style.label}</span>
+          <span className="text-xs text-slate-500">
+            {estimated ? '~' : ''}{section.tokens.toLocaleString()} tokens · {section.content.length.toLocaleString()} chars
+          </span>
+          {query && (
+            <span className={`text-xs ${matches > 0 ? 'text-yellow-300' : 'text-slate-500'}`}>{matches} match(es)</span>
+          )}
+        </button>
+        <CopyButton text={section.content} />
+      </div>
+      {isOpen && (
+        <pre className="max-h-[28rem] overflow-auto px-3 py-2 bg-slate-900 border-t border-slate-700 text-xs leading-5 text-slate-300 whitespace-pre-wrap break-words font-mono">
+          {section.content ? <Highlighted text={section.content} query={query} /> : <span className="text-slate-600">(empty)</span>}
+        </pre>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Drill-down for a single LLM call: the rendered prompts exactly as sent, the raw
+ * completion, the prompt files they were built from and where the tokens went.
+ */
+export function LLMCallInspector({ call, detail, isLoading, error, onClose }: LLMCallInspectorProps) {
+  const [query, setQuery] = useState('');
+  const trimmedQuery = query.trim();
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    document.addEventListener('keydown', onKeyDown);
+    return () => document.removeEventListener('keydown', onKeyDown);
+  }, [onClose]);
+
+  const sections = useMemo(() => detail?.sections ?? [], [detail]);
+  const matches = useMemo(() => sections.map(s => countMatches(s.content, trimmedQuery)), [sections, trimmedQuery]);
+  const totalMatches = matches.reduce((sum, m) => sum + m, 0);
+  const sectionTokens = sections.reduce((sum, s) => sum + s.tokens, 0);
+
+  const transcript = sections
+    .map(s => `===== ${sectionStyle(s.role).label} =====\n${s.content}`)
+    .join('\n\n');
+
+  const summary = detail ?? call;
+
+  return (
+    <div className="fixed inset-0 bg-black/70 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+      <div className="bg-slate-800 border border-slate-700 rounded-2xl w-full max-w-5xl max-h-[90vh] overflow-hidden flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-slate-700">
+          <div className="flex items-center gap-3 min-w-0">
+            <div className="w-10 h-10 bg-amber-500/20 rounded-lg flex items-center justify-center flex-shrink-0">
+              <Bot className="w-5 h-5 text-amber-400" />
+            </div>
+            <div className="min-w-0">
+              <h2 className="text-xl font-bold text-white truncate">
+                {summary.agentName}
+                {detail && <span className="ml-2 text-sm font-normal text-slate-400">{getPhaseLabel(detail.phase)}</span>}
+              </h2>
+              <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-xs text-slate-400">
+                {detail?.promptFiles.map(file => file.includes('/') ? (
+                  <Link
+                    key={file}
+                    to={`/prompts/${file}`}
+                    className="flex items-center gap-1 font-mono text-blue-300 hover:text-blue-200"
+                  >
+                    <FileText className="w-3.5 h-3.5" />
+                    {file}.md
+                  </Link>
+                ) : (
+                  <span key={file} className="flex items-center gap-1 font-mono text-slate-300">
+                    <FileText className="w-3.5 h-3.5" />
+                    {file}.md
+                  </span>
+                ))}
+                {summary.timestamp && <span>{new Date(summary.timestamp).toLocaleString()}</span>}
+                <span>{formatDuration(parseTimeSpan(summary.duration))}</span>
+                <span>
+                  {summary.totalTokens.toLocaleString()} tokens (in: {summary.promptTokens.toLocaleString()}, out: {summary.completionTokens.toLocaleString()})
+                </span>
+                <span>${(summary.actualCostUSD ?? 0).toFixed(4)}</span>
+              </div>
+            </div>
+          </div>
+          <button
+            type="button"
+            onClick={onClose}
+            className="p-2 hover:bg-slate-700 rounded-lg transition-colors text-slate-400 hover:text-white"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="flex-1 overflow-y-auto p-6 space-y-4">
+          {isLoading ? (
+            <div className="flex items-center justify-center gap-2 py-12 text-slate-400">
+              <Loader2 className="w-5 h-5 animate-spin" />
+              Loading transcript...
+            </div>
+          ) : error || !detail ? (
+            <div className="flex items-center gap-2 p-4 bg-red-500/10 border border-red-500/30 rounded-lg text-sm text-red-400">
+              <AlertCircle className="w-4 h-4 flex-shrink-0" />
+              {error ?? 'No transcript recorded for this LLM call'}
+            </div>
+          ) : (
+            <>
+              {/* Token breakdown */}
+              {sectionTokens > 0 && (
+                <div className="space-y-2">
+                  <div className="flex h-2 rounded-full overflow-hidden bg-slate-900">
+                    {sections.map((s, i) => (
+                      <div
+                        key={i}
+                        className={sectionStyle(s.role).bar}
+                        style={{ width: `${(s.tokens / sectionTokens) * 100}%` }}
+                        title={`${sectionStyle(s.role).label}: ${s.tokens.toLocaleString()} tokens`}
+                      />
+                    ))}
+                  </div>
+                  <p className="text-xs text-slate-500">
+                    Prompt section counts are estimated (~3.5 chars per token); the model reported {detail.promptTokens.toLocaleString()} prompt tokens.
+                  </p>
+                </div>
+              )}
+
+              {/* Search and copy */}
+              <div className="flex items-center gap-3">
+                <div className="relative flex-1">
+                  <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-500" />
+                  <input
+                    type="text"
+                    value={query}
+                    onChange={e => setQuery(e.target.value)}
+                    placeholder="Search prompts and completion..."
+                    className="w-full pl-9 pr-3 py-2 bg-slate-900 border border-slate-700 rounded-lg text-sm text-white placeholder-slate-500 focus:outline-none focus:border-blue-500"
+                  />
+                </div>
+                {trimmedQuery && <span className="text-xs text-slate-400">{totalMatches} match(es)</span>}
+                <CopyButton text={transcript} label="Copy all" />
+              </div>
+
+              {sections.map((section, i) => (
+                <Section key={i} section={section} query={trimmedQuery} matches={matches[i]} />
+              ))}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
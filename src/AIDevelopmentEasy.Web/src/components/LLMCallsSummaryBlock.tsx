@@ -0,0 +1,52 @@
+import { Search } from 'lucide-react';
+import { LLMCallResultDto } from '../types';
+
+interface LLMCallsSummaryBlockProps {
+  calls: LLMCallResultDto[];
+  /** Opens the call inspector; calls without a stored transcript stay plain rows. */
+  onInspect?: (call: LLMCallResultDto) => void;
+}
+
+// Component to display LLM calls summary for a phase
+export function LLMCallsSummaryBlock({ calls, onInspect }: LLMCallsSummaryBlockProps) {
+  const totalTokens = calls.reduce((s, c) => s + c.totalTokens, 0);
+  const totalCost = calls.reduce((s, c) => s + (c.actualCostUSD ?? 0), 0);
+  return (
+    <div className="p-3 bg-slate-900/50 rounded-lg border border-slate-700">
+      <div className="space-y-1.5 text-xs">
+        {calls.map((c, i) => {
+          const cells = (
+            <>
+              <span className="font-medium text-amber-300/90">{c.agentName}</span>
+              <span>{c.totalTokens.toLocaleString()} token</span>
+              <span>${(c.actualCostUSD ?? 0).toFixed(4)}</span>
+              <span>{typeof c.duration === 'string' ? c.duration : '-'}</span>
+            </>
+          );
+          return onInspect && c.callId ? (
+            <button
+              key={i}
+              type="button"
+              onClick={() => onInspect(c)}
+              title="Inspect prompt and completion"
+              className="w-full flex justify-between items-center gap-4 text-slate-300 rounded hover:bg-slate-800 hover:text-white transition-colors group"
+            >
+              {cells}
+              <Search className="w-3.5 h-3.5 text-slate-500 group-hover:text-blue-400" />
+            </button>
+          ) : (
+            <div key={i} className="flex justify-between gap-4 text-slate-300">
+              {cells}
+            </div>
+          );
+        })}
+        <div className="border-t border-slate-600 pt-1.5 mt-1.5 flex justify-between gap-4 text-slate-400 font-medium">
+          <span>Toplam ({calls.length} istek)</span>
+          <span>{totalTokens.toLocaleString()} token</span>
+          <span>${totalCost.toFixed(4)}</span>
+          <span>-</span>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,10 +1,14 @@
 import { Link, Outlet, useLocation } from 'react-router-dom';
-import { FileCode, Settings, Wifi, WifiOff, Database, ClipboardList, BookOpen, ScrollText } from 'lucide-react';
-import { useSignalR } from '../hooks/useSignalR';
+import { FileCode, Settings, Wifi, WifiOff, Database, ClipboardList, BookOpen, ScrollText, Server } from 'lucide-react';
+import { useHubConnection } from '../hooks/useSignalR';
+import { useBackendProfile } from '../hooks/useBackendProfile';
+import { NotificationCenter } from './NotificationCenter';
 
 export function Layout() {
   const location = useLocation();
-  const { isConnected } = useSignalR();
+  const { isConnected } = useHubConnection();
+  const { activeProfile } = useBackendProfile();
+  const backendLabel = activeProfile.baseUrl || window.location.origin;
 
   const mainNavItems = [
     { path: '/requirements', label: 'Requirements', icon: ClipboardList },
@@ -22,7 +26,7 @@ export function Layout() {
     <div className="h-screen flex overflow-hidden">
       {/* Sidebar */}
       <aside className="w-64 h-full bg-slate-900/80 backdrop-blur-xl border-r border-slate-700 flex flex-col flex-shrink-0">
-        <div className="p-6 border-b border-slate-700">
+        <div className="p-6 border-b border-slate-700 flex items-start justify-between gap-2">
           <h1 className="text-xl font-bold text-white flex items-center gap-2">
             <span className="text-3xl">🤖</span>
             <div>
@@ -34,6 +38,7 @@ export function Layout() {
               </span>
             </div>
           </h1>
+          <NotificationCenter />
         </div>
 
         <nav className="flex-1 p-4">
@@ -101,6 +106,15 @@ export function Layout() {
               </>
             )}
           </div>
+          <Link
+            to="/settings"
+            title={`Backend profile: ${activeProfile.name} (${backendLabel})`}
+            className="mt-2 flex items-center gap-2 px-4 py-1 text-xs text-slate-500 hover:text-slate-300 transition-colors"
+          >
+            <Server className="w-3.5 h-3.5 flex-shrink-0" />
+            <span className="font-medium text-slate-400 truncate">{activeProfile.name}</span>
+            <span className="font-mono truncate">{backendLabel.replace(/^https?:\/\//, '')}</span>
+          </Link>
         </div>
       </aside>
 
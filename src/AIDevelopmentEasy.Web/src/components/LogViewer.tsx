@@ -1,36 +1,271 @@
-import { useEffect, useRef } from 'react';
-import { PipelineUpdateMessage } from '../types';
+import { useEffect, useLayoutEffect, useMemo, useRef, useState, type ReactNode } from 'react';
+import {
+  RefreshCw,
+  Search,
+  ChevronUp,
+  ChevronDown,
+  ChevronRight,
+  Filter,
+  Pause,
+  Play
+} from 'lucide-react';
+import { LLMCallResultDto, PipelineUpdateMessage, PipelinePhase, PipelineUpdateType, getPhaseLabel } from '../types';
+
+// Every row is a single line so the list can be windowed without measuring
+const ROW_HEIGHT = 24;
+// Rows rendered above/below the viewport to avoid flicker while scrolling
+const OVERSCAN = 20;
+// Distance from the top (px) at which older entries start loading
+const LOAD_OLDER_THRESHOLD = 40;
 
 interface LogViewerProps {
   logs: PipelineUpdateMessage[];
   className?: string;
+  /** More entries exist before the first one; scrolling to the top calls onLoadOlder */
+  hasMore?: boolean;
+  isLoadingOlder?: boolean;
+  onLoadOlder?: () => void;
+  /** Adds an inspect action to completed LLM calls that have a stored transcript */
+  onInspectCall?: (call: LLMCallResultDto) => void;
+}
+
+interface LogGroup {
+  key: string;
+  phase: PipelinePhase;
+  entries: PipelineUpdateMessage[];
+}
+
+type LogRow =
+  | { kind: 'group'; group: LogGroup; count: number; collapsed: boolean }
+  | { kind: 'entry'; entry: PipelineUpdateMessage };
+
+// Consecutive entries of the same phase form a group. Updates without a phase
+// (LLM calls, progress, markers) belong to the phase they happened in.
+function groupByPhase(logs: PipelineUpdateMessage[]): LogGroup[] {
+  const groups: LogGroup[] = [];
+  let currentPhase = PipelinePhase.None;
+  for (const log of logs) {
+    if (log.phase !== PipelinePhase.None) currentPhase = log.phase;
+    let group = groups[groups.length - 1];
+    if (!group || group.phase !== currentPhase) {
+      group = { key: log.id, phase: currentPhase, entries: [] };
+      groups.push(group);
+    }
+    group.entries.push(log);
+  }
+  return groups;
 }
 
-export function LogViewer({ logs, className = '' }: LogViewerProps) {
+function highlight(text: string, query: string): ReactNode {
+  if (!query) return text;
+  const lower = text.toLowerCase();
+  const parts: ReactNode[] = [];
+  let from = 0;
+  let index = lower.indexOf(query);
+  while (index !== -1) {
+    if (index > from) parts.push(text.slice(from, index));
+    parts.push(
+      <mark key={index} className="bg-amber-400/40 text-white rounded-sm">
+        {text.slice(index, index + query.length)}
+      </mark>
+    );
+    from = index + query.length;
+    index = lower.indexOf(query, from);
+  }
+  if (from < text.length) parts.push(text.slice(from));
+  return parts;
+}
+
+const isConnectionMarker = (log: PipelineUpdateMessage) =>
+  log.updateType === 'ConnectionLost' || log.updateType === 'ConnectionRestored';
+
+const groupLabel = (phase: PipelinePhase) => (phase === PipelinePhase.None ? 'Pipeline' : getPhaseLabel(phase));
+
+export function LogViewer({
+  logs,
+  className = '',
+  hasMore = false,
+  isLoadingOlder = false,
+  onLoadOlder,
+  onInspectCall
+}: LogViewerProps) {
   const containerRef = useRef<HTMLDivElement>(null);
+  const previousRef = useRef<{ firstId?: string; scrollHeight: number }>({ scrollHeight: 0 });
+  const handledNavigationRef = useRef(0);
+
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(0);
+  const [followTail, setFollowTail] = useState(true);
+  const [collapsed, setCollapsed] = useState<Set<string>>(() => new Set());
+  const [phaseFilter, setPhaseFilter] = useState<PipelinePhase | 'all'>('all');
+  const [hiddenTypes, setHiddenTypes] = useState<Set<PipelineUpdateType>>(() => new Set());
+  const [showTypeFilter, setShowTypeFilter] = useState(false);
+  const [query, setQuery] = useState('');
+  const [activeMatch, setActiveMatch] = useState(0);
+  const [navigation, setNavigation] = useState({ seq: 0, entryId: '' });
+
+  const normalizedQuery = query.trim().toLowerCase();
+
+  const groups = useMemo(() => groupByPhase(logs), [logs]);
+
+  const phases = useMemo(
+    () => Array.from(new Set(groups.map(g => g.phase))).sort((a, b) => a - b),
+    [groups]
+  );
+  const types = useMemo(() => Array.from(new Set(logs.map(l => l.updateType))).sort(), [logs]);
+
+  // Groups and entries that pass the phase/type filters
+  const filteredGroups = useMemo(() => groups
+    .filter(group => phaseFilter === 'all' || group.phase === phaseFilter)
+    .map(group => ({
+      ...group,
+      entries: hiddenTypes.size === 0
+        ? group.entries
+        : group.entries.filter(entry => !hiddenTypes.has(entry.updateType))
+    }))
+    .filter(group => group.entries.length > 0), [groups, phaseFilter, hiddenTypes]);
+
+  const rows = useMemo(() => {
+    const result: LogRow[] = [];
+    for (const group of filteredGroups) {
+      const isCollapsed = collapsed.has(group.key);
+      result.push({ kind: 'group', group, count: group.entries.length, collapsed: isCollapsed });
+      if (!isCollapsed) {
+        group.entries.forEach(entry => result.push({ kind: 'entry', entry }));
+      }
+    }
+    return result;
+  }, [filteredGroups, collapsed]);
+
+  // Search covers collapsed groups too; navigating to a match expands its group
+  const matches = useMemo(() => {
+    if (!normalizedQuery) return [];
+    const result: { entryId: string; groupKey: string }[] = [];
+    for (const group of filteredGroups) {
+      for (const entry of group.entries) {
+        if (entry.message.toLowerCase().includes(normalizedQuery)) {
+          result.push({ entryId: entry.id, groupKey: group.key });
+        }
+      }
+    }
+    return result;
+  }, [filteredGroups, normalizedQuery]);
+
+  const currentMatch = matches.length > 0 ? Math.min(activeMatch, matches.length - 1) : -1;
+  const activeEntryId = currentMatch >= 0 ? matches[currentMatch].entryId : null;
 
   useEffect(() => {
-    if (containerRef.current) {
-      containerRef.current.scrollTop = containerRef.current.scrollHeight;
+    const container = containerRef.current;
+    if (!container) return;
+    const observer = new ResizeObserver(() => setViewportHeight(container.clientHeight));
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  useLayoutEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const previous = previousRef.current;
+    const firstId = logs[0]?.id;
+
+    if (navigation.seq !== handledNavigationRef.current) {
+      // Center the entry picked by search navigation
+      handledNavigationRef.current = navigation.seq;
+      const rowIndex = rows.findIndex(row => row.kind === 'entry' && row.entry.id === navigation.entryId);
+      if (rowIndex >= 0) {
+        container.scrollTop = Math.max(0, rowIndex * ROW_HEIGHT - container.clientHeight / 2);
+      }
+    } else if (previous.firstId && firstId !== previous.firstId && logs.some(log => log.id === previous.firstId)) {
+      // Older entries were prepended: keep the entries in view where they were
+      container.scrollTop += container.scrollHeight - previous.scrollHeight;
+    } else if (followTail) {
+      container.scrollTop = container.scrollHeight;
     }
-  }, [logs]);
+    previousRef.current = { firstId, scrollHeight: container.scrollHeight };
+  }, [logs, rows, followTail, navigation]);
+
+  const handleScroll = () => {
+    const container = containerRef.current;
+    if (!container) return;
+    setScrollTop(container.scrollTop);
 
-  const getLogColor = (updateType: string) => {
-    switch (updateType.toLowerCase()) {
-      case 'error':
+    // Scrolling away from the bottom pauses auto-scroll; scrolling back resumes it
+    const atBottom = container.scrollHeight - container.scrollTop - container.clientHeight < ROW_HEIGHT;
+    if (atBottom !== followTail) setFollowTail(atBottom);
+
+    if (onLoadOlder && hasMore && !isLoadingOlder && container.scrollTop < LOAD_OLDER_THRESHOLD) {
+      onLoadOlder();
+    }
+  };
+
+  const goToMatch = (index: number) => {
+    if (matches.length === 0) return;
+    const next = (index + matches.length) % matches.length;
+    const match = matches[next];
+    setActiveMatch(next);
+    setFollowTail(false);
+    setCollapsed(prev => {
+      if (!prev.has(match.groupKey)) return prev;
+      const updated = new Set(prev);
+      updated.delete(match.groupKey);
+      return updated;
+    });
+    setNavigation(prev => ({ seq: prev.seq + 1, entryId: match.entryId }));
+  };
+
+  const toggleGroup = (key: string) => {
+    setCollapsed(prev => {
+      const updated = new Set(prev);
+      if (updated.has(key)) updated.delete(key);
+      else updated.add(key);
+      return updated;
+    });
+  };
+
+  const toggleType = (type: PipelineUpdateType) => {
+    setHiddenTypes(prev => {
+      const updated = new Set(prev);
+      if (updated.has(type)) updated.delete(type);
+      else updated.add(type);
+      return updated;
+    });
+  };
+
+  const resumeAutoScroll = () => {
+    setFollowTail(true);
+    const container = containerRef.current;
+    if (container) container.scrollTop = container.scrollHeight;
+  };
+
+  const getLogColor = (log: PipelineUpdateMessage): string => {
+    switch (log.updateType) {
+      case 'PhaseFailed':
+      case 'Error':
         return 'text-red-400';
-      case 'warning':
+      case 'RetryRequired':
+      case 'RetryStarting':
+      case 'FixTasksGenerated':
+      case 'PhasePendingApproval':
+        return 'text-amber-400';
+      case 'PhaseCompleted':
+      case 'PipelineCompleted':
+        return 'text-emerald-400';
+      case 'ConnectionLost':
         return 'text-amber-400';
-      case 'success':
-      case 'completed':
+      case 'ConnectionRestored':
         return 'text-emerald-400';
-      case 'info':
+      case 'PhaseStarted':
+      case 'RetryApproved':
         return 'text-blue-400';
-      case 'llmcallstarting':
+      case 'LLMCallStarting':
         return 'text-cyan-400';
-      case 'llmcallcompleted':
-        return 'text-emerald-400';
-      default:
+      case 'LLMCallCompleted':
+        return log.data?.success === false ? 'text-red-400' : 'text-emerald-400';
+      case 'TestResults':
+        return log.data && log.data.failed > 0 ? 'text-red-400' : 'text-emerald-400';
+      case 'DeploymentFileWritten':
+        return log.data?.success === false ? 'text-red-400' : 'text-emerald-400';
+      case 'Progress':
         return 'text-slate-300';
     }
   };
@@ -43,30 +278,173 @@ export function LogViewer({ logs, className = '' }: LogViewerProps) {
     });
   };
 
-  return (
-    <div
-      ref={containerRef}
-      className={`bg-slate-900 rounded-xl border border-slate-700 p-4 font-mono text-sm overflow-y-auto ${className}`}
-    >
-      {logs.length === 0 ? (
-        <div className="text-slate-500 italic">Waiting for logs...</div>
-      ) : (
-        logs.map((log, index) => (
-          <div
-            key={index}
-            className="py-1 animate-slide-in"
-            style={{ animationDelay: `${index * 50}ms` }}
+  // Connection markers show the client-side drop/recover time, not their sort anchor
+  const displayTime = (log: PipelineUpdateMessage) => {
+    if (log.updateType === 'ConnectionLost') return log.data?.droppedAt ?? log.timestamp;
+    if (log.updateType === 'ConnectionRestored') return log.data?.recoveredAt ?? log.timestamp;
+    return log.timestamp;
+  };
+
+  const start = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN);
+  const end = Math.min(rows.length, Math.ceil((scrollTop + viewportHeight) / ROW_HEIGHT) + OVERSCAN);
+
+  const renderRow = (row: LogRow) => {
+    if (row.kind === 'group') {
+      return (
+        <button
+          key={`group-${row.group.key}`}
+          onClick={() => toggleGroup(row.group.key)}
+          style={{ height: ROW_HEIGHT }}
+          className="w-full flex items-center gap-1 text-xs text-slate-400 hover:text-white border-b border-slate-800"
+        >
+          {row.collapsed ? <ChevronRight className="w-3 h-3" /> : <ChevronDown className="w-3 h-3" />}
+          <span className="font-semibold uppercase tracking-wide">{groupLabel(row.group.phase)}</span>
+          <span className="text-slate-600">({row.count})</span>
+        </button>
+      );
+    }
+
+    const log = row.entry;
+    const marker = isConnectionMarker(log);
+    const inspectCall = log.updateType === 'LLMCallCompleted' && log.data?.callId ? log.data : null;
+    const markerBorder = log.updateType === 'ConnectionLost' ? 'border-amber-500/40' : 'border-emerald-500/40';
+    return (
+      <div
+        key={log.id}
+        title={log.message}
+        style={{ height: ROW_HEIGHT }}
+        className={`flex items-center gap-2 whitespace-nowrap pl-4 ${log.id === activeEntryId ? 'bg-amber-500/10' : ''} ${marker ? `border-y border-dashed text-xs ${markerBorder}` : ''}`}
+      >
+        <span className="text-slate-500 flex-shrink-0">[{formatTime(displayTime(log))}]</span>
+        {!marker && (
+          <span className={`flex-shrink-0 ${getLogColor(log)}`}>[{log.updateType}]</span>
+        )}
+        <span className={`truncate ${marker ? getLogColor(log) : 'text-slate-300'}`}>
+          {highlight(log.message, normalizedQuery)}
+        </span>
+        {onInspectCall && inspectCall && (
+          <button
+            onClick={() => onInspectCall(inspectCall)}
+            title="Inspect prompt and completion"
+            className="ml-auto mr-2 flex-shrink-0 flex items-center gap-1 font-sans text-xs text-blue-400 hover:text-blue-300"
           >
-            <span className="text-slate-500">[{formatTime(log.timestamp)}]</span>
-            {' '}
-            <span className={getLogColor(log.updateType)}>
-              [{log.updateType}]
+            <Search className="w-3 h-3" />
+            Inspect
+          </button>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className={`bg-slate-900 rounded-xl border border-slate-700 font-mono text-sm flex flex-col overflow-hidden ${className}`}>
+      {/* Toolbar */}
+      <div className="flex items-center gap-2 px-3 py-2 border-b border-slate-700 font-sans text-xs">
+        <div className="flex items-center gap-1 flex-1 min-w-0 bg-slate-800 rounded-md px-2 py-1">
+          <Search className="w-3 h-3 text-slate-500 flex-shrink-0" />
+          <input
+            value={query}
+            onChange={e => {
+              setQuery(e.target.value);
+              setActiveMatch(0);
+            }}
+            onKeyDown={e => {
+              if (e.key === 'Enter') goToMatch(e.shiftKey ? currentMatch - 1 : currentMatch + 1);
+            }}
+            placeholder="Search log..."
+            className="flex-1 min-w-0 bg-transparent text-slate-200 placeholder-slate-500 focus:outline-none"
+          />
+          {normalizedQuery && (
+            <span className="text-slate-500 flex-shrink-0">
+              {matches.length > 0 ? `${currentMatch + 1}/${matches.length}` : '0/0'}
             </span>
-            {' '}
-            <span className="text-slate-300">{log.message}</span>
-          </div>
-        ))
+          )}
+          <button
+            onClick={() => goToMatch(currentMatch - 1)}
+            disabled={matches.length === 0}
+            title="Previous match (Shift+Enter)"
+            className="p-0.5 text-slate-400 hover:text-white disabled:opacity-40"
+          >
+            <ChevronUp className="w-3 h-3" />
+          </button>
+          <button
+            onClick={() => goToMatch(currentMatch + 1)}
+            disabled={matches.length === 0}
+            title="Next match (Enter)"
+            className="p-0.5 text-slate-400 hover:text-white disabled:opacity-40"
+          >
+            <ChevronDown className="w-3 h-3" />
+          </button>
+        </div>
+        <select
+          value={phaseFilter}
+          onChange={e => setPhaseFilter(e.target.value === 'all' ? 'all' : Number(e.target.value) as PipelinePhase)}
+          className="bg-slate-800 text-slate-200 rounded-md px-2 py-1 focus:outline-none"
+        >
+          <option value="all">All phases</option>
+          {phases.map(phase => (
+            <option key={phase} value={phase}>{groupLabel(phase)}</option>
+          ))}
+        </select>
+        <button
+          onClick={() => setShowTypeFilter(v => !v)}
+          title="Filter by update type"
+          className={`flex items-center gap-1 px-2 py-1 rounded-md hover:text-white ${hiddenTypes.size > 0 ? 'bg-blue-600/30 text-blue-300' : 'bg-slate-800 text-slate-300'}`}
+        >
+          <Filter className="w-3 h-3" />
+          {hiddenTypes.size > 0 ? `${types.length - hiddenTypes.size}/${types.length}` : 'Types'}
+        </button>
+        <button
+          onClick={() => (followTail ? setFollowTail(false) : resumeAutoScroll())}
+          title={followTail ? 'Pause auto-scroll' : 'Resume auto-scroll'}
+          className={`flex items-center gap-1 px-2 py-1 rounded-md hover:text-white ${followTail ? 'bg-slate-800 text-slate-300' : 'bg-amber-600/30 text-amber-300'}`}
+        >
+          {followTail ? <Pause className="w-3 h-3" /> : <Play className="w-3 h-3" />}
+          {followTail ? 'Auto-scroll' : 'Paused'}
+        </button>
+      </div>
+
+      {showTypeFilter && (
+        <div className="flex flex-wrap gap-1 px-3 py-2 border-b border-slate-700 font-sans text-xs">
+          {types.map(type => (
+            <button
+              key={type}
+              onClick={() => toggleType(type)}
+              className={`px-2 py-0.5 rounded-full border ${hiddenTypes.has(type)
+                ? 'border-slate-700 text-slate-500 line-through'
+                : 'border-slate-500 text-slate-200'}`}
+            >
+              {type}
+            </button>
+          ))}
+          {hiddenTypes.size > 0 && (
+            <button onClick={() => setHiddenTypes(new Set())} className="px-2 py-0.5 text-blue-400 hover:text-blue-300">
+              Show all
+            </button>
+          )}
+        </div>
       )}
+
+      {/* Windowed rows: only the slice around the viewport is in the DOM */}
+      <div ref={containerRef} onScroll={handleScroll} className="flex-1 min-h-0 overflow-y-auto px-4 py-2">
+        {isLoadingOlder && (
+          <div className="flex items-center gap-2 pb-2 text-slate-500 text-xs">
+            <RefreshCw className="w-3 h-3 animate-spin" />
+            Loading older entries...
+          </div>
+        )}
+        {logs.length === 0 ? (
+          <div className="text-slate-500 italic">Waiting for logs...</div>
+        ) : rows.length === 0 ? (
+          <div className="text-slate-500 italic">No entries match the current filters.</div>
+        ) : (
+          <div style={{ height: rows.length * ROW_HEIGHT }}>
+            <div style={{ transform: `translateY(${start * ROW_HEIGHT}px)` }}>
+              {rows.slice(start, end).map(renderRow)}
+            </div>
+          </div>
+        )}
+      </div>
     </div>
   );
 }
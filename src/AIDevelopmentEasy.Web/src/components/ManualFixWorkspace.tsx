@@ -0,0 +1,219 @@
+import { useState } from 'react';
+import { AlertCircle, Check, Crosshair, FileCode, Lightbulb, Loader2, Play, Save, Wrench } from 'lucide-react';
+import { ManualFixDto, SourceFileDto, getFixTaskTypeLabel } from '../types';
+import { CodeEditor } from './CodeEditor';
+
+interface ManualFixWorkspaceProps {
+  workspace: ManualFixDto;
+  selectedPath: string;
+  onSelectFile: (path: string) => void;
+  /** Content of the selected file. */
+  file?: SourceFileDto;
+  isLoading: boolean;
+  error: string | null;
+  /** Resolves to false when the save failed (the page reports the error). */
+  onSave: (path: string, content: string) => Promise<boolean>;
+  onResume: () => void;
+  resuming?: boolean;
+}
+
+interface Draft {
+  /** Content last loaded or saved. */
+  base: string;
+  content: string;
+}
+
+/**
+ * In-app workspace for RetryAction.ManualFix: the deployed files named by the fix tasks
+ * open at the failing line next to the error and suggested fix, and the tests run again
+ * once the edits are saved.
+ */
+export function ManualFixWorkspace({
+  workspace,
+  selectedPath,
+  onSelectFile,
+  file,
+  isLoading,
+  error,
+  onSave,
+  onResume,
+  resuming = false
+}: ManualFixWorkspaceProps) {
+  const [drafts, setDrafts] = useState<Record<string, Draft>>({});
+  const [saving, setSaving] = useState(false);
+  const [jumps, setJumps] = useState(0);
+
+  const selected = workspace.files.find(f => f.path === selectedPath);
+  const loaded = !isLoading && !error && file?.path === selectedPath;
+  const draft = drafts[selectedPath];
+  const value = draft?.content ?? (loaded ? file.content : '');
+  const dirtyPaths = Object.keys(drafts).filter(path => drafts[path].content !== drafts[path].base);
+  const tasks = workspace.fixTasks.filter(t => selected?.fixTaskIndexes.includes(t.index));
+
+  const handleChange = (content: string) => {
+    if (!loaded) return;
+    setDrafts(prev => ({ ...prev, [selectedPath]: { base: prev[selectedPath]?.base ?? file.content, content } }));
+  };
+
+  const save = async (paths: string[]): Promise<boolean> => {
+    setSaving(true);
+    try {
+      for (const path of paths) {
+        const content = drafts[path].content;
+        if (!await onSave(path, content)) return false;
+        setDrafts(prev => ({ ...prev, [path]: { ...prev[path], base: content } }));
+      }
+      return true;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleResume = async () => {
+    if (await save(dirtyPaths)) onResume();
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <p className="text-sm text-slate-400">
+          Edit the deployed files, save, then run the tests again. Saved changes stay in the codebase and in the generated output.
+        </p>
+        <button
+          type="button"
+          onClick={handleResume}
+          disabled={saving || resuming}
+          className="flex items-center gap-2 px-4 py-2 bg-emerald-600 hover:bg-emerald-700 disabled:opacity-50 text-white font-medium rounded-lg transition-colors"
+        >
+          {resuming ? <Loader2 className="w-4 h-4 animate-spin" /> : <Play className="w-4 h-4" />}
+          {dirtyPaths.length > 0 ? `Save ${dirtyPaths.length} file(s) & run tests` : 'Run tests again'}
+        </button>
+      </div>
+
+      {workspace.files.length === 0 ? (
+        <div className="flex items-center gap-2 p-3 bg-amber-500/10 border border-amber-500/30 rounded-lg text-sm text-amber-300">
+          <AlertCircle className="w-4 h-4 flex-shrink-0" />
+          None of the fix tasks point at a file in the codebase. Fix the code outside the app, then run the tests again.
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-[14rem_1fr_18rem] gap-3 h-[32rem]">
+          {/* Files */}
+          <div className="border border-slate-700 rounded-lg overflow-y-auto">
+            {workspace.files.map(f => {
+              const isDirty = dirtyPaths.includes(f.path);
+              return (
+                <button
+                  key={f.path}
+                  type="button"
+                  onClick={() => onSelectFile(f.path)}
+                  className={`w-full flex items-start gap-2 px-3 py-2 text-left text-xs border-b border-slate-700/50 transition-colors ${f.path === selectedPath ? 'bg-blue-500/15 text-white' : 'text-slate-300 hover:bg-slate-800'}`}
+                  title={f.path}
+                >
+                  <FileCode className="w-3.5 h-3.5 mt-0.5 flex-shrink-0 text-slate-400" />
+                  <span className="flex-1 min-w-0">
+                    <span className="block truncate font-mono">{f.path.split('/').pop()}</span>
+                    <span className="block truncate text-slate-500">{f.path}</span>
+                  </span>
+                  {isDirty ? (
+                    <span className="w-2 h-2 mt-1 rounded-full bg-amber-400 flex-shrink-0" title="Unsaved changes" />
+                  ) : f.saved ? (
+                    <Check className="w-3.5 h-3.5 text-emerald-400 flex-shrink-0" />
+                  ) : null}
+                </button>
+              );
+            })}
+          </div>
+
+          {/* Editor */}
+          <div className="flex flex-col min-w-0 border border-slate-700 rounded-lg overflow-hidden">
+            <div className="flex items-center gap-2 px-3 py-2 bg-slate-900/60 border-b border-slate-700 text-xs">
+              <span className="flex-1 min-w-0 truncate font-mono text-slate-300">{selectedPath}</span>
+              {selected?.line && (
+                <button
+                  type="button"
+                  onClick={() => setJumps(n => n + 1)}
+                  className="flex items-center gap-1 px-2 py-1 rounded bg-slate-700 hover:bg-slate-600 text-slate-300"
+                >
+                  <Crosshair className="w-3.5 h-3.5" />
+                  Line {selected.line}
+                </button>
+              )}
+              <button
+                type="button"
+                onClick={() => save([selectedPath])}
+                disabled={saving || !dirtyPaths.includes(selectedPath)}
+                className="flex items-center gap-1 px-2 py-1 rounded bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white"
+              >
+                {saving ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Save className="w-3.5 h-3.5" />}
+                Save
+              </button>
+            </div>
+            <div className="flex-1 min-h-0">
+              {isLoading ? (
+                <div className="flex items-center justify-center gap-2 h-full text-slate-400 text-sm">
+                  <Loader2 className="w-5 h-5 animate-spin" />
+                  Loading file...
+                </div>
+              ) : error ? (
+                <div className="m-3 flex items-center gap-2 p-3 bg-red-500/10 border border-red-500/30 rounded-lg text-sm text-red-400">
+                  <AlertCircle className="w-4 h-4 flex-shrink-0" />
+                  {error}
+                </div>
+              ) : (
+                <CodeEditor
+                  key={selectedPath}
+                  value={value}
+                  onChange={handleChange}
+                  line={loaded ? selected?.line : null}
+                  jumpKey={jumps}
+                  onSave={() => {
+                    if (dirtyPaths.includes(selectedPath)) save([selectedPath]);
+                  }}
+                  readOnly={!loaded || saving}
+                />
+              )}
+            </div>
+          </div>
+
+          {/* Errors and suggested fixes */}
+          <div className="border border-slate-700 rounded-lg overflow-y-auto p-3 space-y-3">
+            {tasks.map(task => (
+              <div key={task.index} className="space-y-2">
+                <div className="flex items-start gap-2">
+                  <Wrench className="w-4 h-4 mt-0.5 text-orange-400 flex-shrink-0" />
+                  <div className="min-w-0">
+                    <div className="text-sm text-slate-200">{task.title}</div>
+                    <span className="text-[10px] px-1.5 py-0.5 rounded bg-slate-700 text-slate-400">{getFixTaskTypeLabel(task.type)}</span>
+                  </div>
+                </div>
+                {task.errorMessage && (
+                  <pre className="p-2 bg-red-500/10 border border-red-500/30 rounded text-xs text-red-300 whitespace-pre-wrap break-words font-mono">
+                    {task.errorMessage}
+                  </pre>
+                )}
+                {task.errorLocation && (
+                  <div className="text-xs text-slate-400 font-mono break-all">{task.errorLocation}</div>
+                )}
+                {task.suggestedFix && (
+                  <div className="flex items-start gap-2 p-2 bg-emerald-500/10 border border-emerald-500/30 rounded text-xs text-emerald-300">
+                    <Lightbulb className="w-3.5 h-3.5 mt-0.5 flex-shrink-0" />
+                    <span className="whitespace-pre-wrap break-words">{task.suggestedFix}</span>
+                  </div>
+                )}
+                {task.stackTrace && (
+                  <details className="text-xs">
+                    <summary className="cursor-pointer text-slate-500 hover:text-slate-300">Stack trace</summary>
+                    <pre className="mt-1 p-2 bg-slate-900 border border-slate-700 rounded text-slate-400 whitespace-pre-wrap break-words font-mono">
+                      {task.stackTrace}
+                    </pre>
+                  </details>
+                )}
+              </div>
+            ))}
+            {tasks.length === 0 && <p className="text-xs text-slate-500">No fix task points at this file.</p>}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,75 @@
+import type { ReactNode } from 'react';
+
+// **bold** and `code` inside a line of text
+function renderInline(text: string): ReactNode[] {
+  return text.split(/(\*\*[^*]+\*\*|`[^`]+`)/g).filter(Boolean).map((part, i) => {
+    if (part.startsWith('**') && part.endsWith('**')) {
+      return <strong key={i} className="text-slate-200">{part.slice(2, -2)}</strong>;
+    }
+    if (part.startsWith('`') && part.endsWith('`')) {
+      return <code key={i} className="px-1 bg-slate-900 rounded text-xs text-blue-300">{part.slice(1, -1)}</code>;
+    }
+    return part;
+  });
+}
+
+/** Headings, lists, code blocks and paragraphs - enough for agent reports and PR descriptions. */
+export function MarkdownText({ text }: { text: string }) {
+  const blocks: ReactNode[] = [];
+  const lines = text.split(/\r?\n/);
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (line.startsWith('```')) {
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !lines[i].startsWith('```')) code.push(lines[i++]);
+      i++;
+      blocks.push(
+        <pre key={blocks.length} className="p-3 bg-slate-900/60 border border-slate-700 rounded-lg text-xs font-mono text-slate-300 overflow-x-auto">
+          {code.join('\n')}
+        </pre>
+      );
+      continue;
+    }
+
+    const heading = /^(#{1,4})\s+(.*)$/.exec(line);
+    if (heading) {
+      blocks.push(
+        <div key={blocks.length} className={`font-semibold text-white ${heading[1].length <= 2 ? 'text-base' : 'text-sm'}`}>
+          {renderInline(heading[2])}
+        </div>
+      );
+      i++;
+      continue;
+    }
+
+    if (/^\s*([-*]|\d+\.)\s+/.test(line)) {
+      const items: string[] = [];
+      while (i < lines.length && /^\s*([-*]|\d+\.)\s+/.test(lines[i])) {
+        items.push(lines[i++].replace(/^\s*([-*]|\d+\.)\s+/, ''));
+      }
+      blocks.push(
+        <ul key={blocks.length} className="list-disc pl-5 space-y-1">
+          {items.map((item, j) => <li key={j}>{renderInline(item)}</li>)}
+        </ul>
+      );
+      continue;
+    }
+
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    const paragraph: string[] = [];
+    while (i < lines.length && lines[i].trim() && !/^(#{1,4}\s|```|\s*([-*]|\d+\.)\s)/.test(lines[i])) {
+      paragraph.push(lines[i++]);
+    }
+    blocks.push(<p key={blocks.length}>{renderInline(paragraph.join(' '))}</p>);
+  }
+
+  return <div className="space-y-3 text-sm text-slate-300">{blocks}</div>;
+}
@@ -0,0 +1,169 @@
+import { useEffect, useRef, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Bell, BellRing, CheckCheck, CheckCircle, Clock, RotateCcw, Trash2, XCircle } from 'lucide-react';
+import {
+  clearReadNotifications,
+  markAllNotificationsRead,
+  markNotificationRead,
+  setDesktopNotificationsEnabled,
+  isPendingApproval,
+  type AppNotification,
+  type NotificationKind
+} from '../services/notifications';
+import { useNotificationFeed, useNotifications } from '../hooks/useNotifications';
+
+const KIND_STYLES: Record<NotificationKind, { icon: typeof Bell; color: string }> = {
+  approval: { icon: Clock, color: 'text-amber-400' },
+  retryApproval: { icon: RotateCcw, color: 'text-orange-400' },
+  completed: { icon: CheckCircle, color: 'text-emerald-400' },
+  failed: { icon: XCircle, color: 'text-red-400' }
+};
+
+function formatRelative(iso: string): string {
+  const seconds = Math.max(0, (Date.now() - Date.parse(iso)) / 1000);
+  if (seconds < 60) return 'just now';
+  if (seconds < 3600) return `${Math.floor(seconds / 60)}m ago`;
+  if (seconds < 86400) return `${Math.floor(seconds / 3600)}h ago`;
+  return new Date(iso).toLocaleDateString();
+}
+
+/**
+ * Bell with a pending-approval badge and a dropdown of recent pipeline notifications
+ * for all stories. Also hosts the hub feed that creates them, so it must stay mounted.
+ */
+export function NotificationCenter() {
+  const navigate = useNavigate();
+  const { notifications, pendingApprovals, unreadCount, desktopEnabled } = useNotifications();
+  const [open, setOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  const openPipeline = (storyId: string) => {
+    setOpen(false);
+    navigate(`/pipeline/${storyId}`);
+  };
+
+  useNotificationFeed(openPipeline);
+
+  useEffect(() => {
+    if (!open) return;
+    const onPointerDown = (e: PointerEvent) => {
+      if (!containerRef.current?.contains(e.target as Node)) setOpen(false);
+    };
+    document.addEventListener('pointerdown', onPointerDown);
+    return () => document.removeEventListener('pointerdown', onPointerDown);
+  }, [open]);
+
+  const desktopSupported = typeof Notification !== 'undefined';
+
+  const toggleDesktop = async () => {
+    if (desktopEnabled) {
+      setDesktopNotificationsEnabled(false);
+      return;
+    }
+    const permission = Notification.permission === 'default'
+      ? await Notification.requestPermission()
+      : Notification.permission;
+    setDesktopNotificationsEnabled(permission === 'granted');
+  };
+
+  const handleClick = (notification: AppNotification) => {
+    markNotificationRead(notification.id);
+    openPipeline(notification.storyId);
+  };
+
+  const BellIcon = pendingApprovals.length > 0 ? BellRing : Bell;
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        onClick={() => setOpen(v => !v)}
+        title={pendingApprovals.length > 0 ? `${pendingApprovals.length} pending approval(s)` : 'Notifications'}
+        className="relative p-2 rounded-lg text-slate-400 hover:text-white hover:bg-slate-800 transition-colors"
+      >
+        <BellIcon className={`w-5 h-5 ${pendingApprovals.length > 0 ? 'text-amber-400' : ''}`} />
+        {pendingApprovals.length > 0 ? (
+          <span className="absolute -top-0.5 -right-0.5 min-w-[18px] h-[18px] px-1 rounded-full bg-amber-500 text-[10px] font-bold text-slate-900 flex items-center justify-center">
+            {pendingApprovals.length}
+          </span>
+        ) : unreadCount > 0 && (
+          <span className="absolute top-1 right-1 w-2 h-2 rounded-full bg-blue-400" />
+        )}
+      </button>
+
+      {open && (
+        <div className="absolute left-full top-0 ml-2 w-96 max-h-[70vh] flex flex-col bg-slate-800 border border-slate-700 rounded-xl shadow-2xl z-50">
+          <div className="flex items-center justify-between px-4 py-3 border-b border-slate-700">
+            <div>
+              <h3 className="text-sm font-semibold text-white">Notifications</h3>
+              <p className="text-xs text-slate-400">
+                {pendingApprovals.length} pending approval(s), {unreadCount} unread
+              </p>
+            </div>
+            <div className="flex items-center gap-1">
+              <button
+                onClick={markAllNotificationsRead}
+                title="Mark all as read"
+                className="p-1.5 rounded-md text-slate-400 hover:text-white hover:bg-slate-700"
+              >
+                <CheckCheck className="w-4 h-4" />
+              </button>
+              <button
+                onClick={clearReadNotifications}
+                title="Clear read notifications"
+                className="p-1.5 rounded-md text-slate-400 hover:text-white hover:bg-slate-700"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          </div>
+
+          <ul className="flex-1 overflow-y-auto divide-y divide-slate-700/60">
+            {notifications.length === 0 ? (
+              <li className="px-4 py-8 text-center text-sm text-slate-500">No notifications yet</li>
+            ) : notifications.map(notification => {
+              const { icon: Icon, color } = KIND_STYLES[notification.kind];
+              const pending = isPendingApproval(notification);
+              return (
+                <li key={notification.id}>
+                  <button
+                    onClick={() => handleClick(notification)}
+                    className={`w-full text-left px-4 py-3 flex gap-3 hover:bg-slate-700/50 transition-colors ${notification.read ? 'opacity-60' : ''}`}
+                  >
+                    <Icon className={`w-4 h-4 mt-0.5 flex-shrink-0 ${color}`} />
+                    <div className="min-w-0 flex-1">
+                      <div className="flex items-center gap-2">
+                        <span className="text-sm font-medium text-white truncate">
+                          {notification.storyName ?? notification.storyId}
+                        </span>
+                        {pending && (
+                          <span className="px-1.5 py-0.5 rounded text-[10px] font-semibold bg-amber-500/20 text-amber-300">
+                            ACTION NEEDED
+                          </span>
+                        )}
+                        {!notification.read && <span className="w-1.5 h-1.5 rounded-full bg-blue-400 flex-shrink-0" />}
+                      </div>
+                      <p className="text-xs text-slate-300 truncate">{notification.message}</p>
+                      <p className="text-[11px] text-slate-500">{formatRelative(notification.createdAt)}</p>
+                    </div>
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+
+          {desktopSupported && (
+            <label className="flex items-center justify-between gap-2 px-4 py-3 border-t border-slate-700 text-xs text-slate-300 cursor-pointer">
+              <span>Desktop notifications</span>
+              <input
+                type="checkbox"
+                checked={desktopEnabled}
+                onChange={toggleDesktop}
+                className="accent-blue-500"
+              />
+            </label>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -126,6 +126,16 @@ export function ErrorAlert({ message }: ErrorAlertProps) {
   );
 }
 
+// Field Error (validation message under a form input)
+interface FieldErrorProps {
+  message?: string;
+}
+
+export function FieldError({ message }: FieldErrorProps) {
+  if (!message) return null;
+  return <p className="text-xs text-red-400 mt-1">{message}</p>;
+}
+
 // Loading Spinner
 export function LoadingSpinner() {
   return (
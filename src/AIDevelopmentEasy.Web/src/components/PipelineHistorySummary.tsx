@@ -15,16 +15,35 @@ import {
   Rocket,
   TestTube,
   GitPullRequest,
-  Circle
+  Circle,
+  List,
+  ChartGantt,
+  FlaskConical,
+  RefreshCw,
+  RotateCcw,
+  Zap,
+  ShieldCheck,
+  ExternalLink,
+  Download
 } from 'lucide-react';
 import { 
   PipelineStatusDto, 
   PhaseStatusDto,
+  PhaseRejectionDto,
+  LLMCallResultDto,
   PhaseState, 
   PipelinePhase,
+  PullRequestResultDto,
   getPhaseLabel,
-  getPhaseAgent
+  getPhaseAgent,
+  getAutoApprovedBy,
+  canRerunFromPhase
 } from '../types';
+import { RejectionList } from './RejectionList';
+import { PipelineTimeline } from './PipelineTimeline';
+import { LLMCallsSummaryBlock } from './LLMCallsSummaryBlock';
+import { TestResultsExplorer } from './TestResultsExplorer';
+import { RetryAttemptHistory } from './RetryAttemptHistory';
 
 // ============================================
 // Shared Pipeline History Summary Component
@@ -35,6 +54,14 @@ interface PipelineHistorySummaryProps {
   status: PipelineStatusDto;
   showSuccessBanner?: boolean;
   compact?: boolean;
+  /** Opens the LLM call inspector for a call. */
+  onInspectCall?: (call: LLMCallResultDto) => void;
+  /** Opens a test stack frame's source file. */
+  onOpenFrame?: (file: string, line: number) => void;
+  /** Reruns the pipeline from a phase, keeping the earlier phases' results. */
+  onRerun?: (phase: PipelinePhase) => void;
+  /** Download address of the patch the PullRequest phase wrote, if any. */
+  pullRequestPatchUrl?: string;
 }
 
 // Phase Result Preview - displays JSON result
@@ -81,13 +108,28 @@ export function getPhaseTypeIcon(phase: PipelinePhase, size: string = "w-5 h-5")
 // Phase Card Component - displays a single phase with expandable details
 interface PhaseCardProps {
   phase: PhaseStatusDto;
+  rejections: PhaseRejectionDto[];
   index: number;
   isExpanded: boolean;
   onToggle: () => void;
+  onInspectCall?: (call: LLMCallResultDto) => void;
+  onRerun?: (phase: PipelinePhase) => void;
+  pullRequestPatchUrl?: string;
 }
 
-function PhaseCard({ phase, index, isExpanded, onToggle }: PhaseCardProps) {
+// The completed PullRequest phase links to the opened PR or the written patch
+function getPullRequestResult(phase: PhaseStatusDto): PullRequestResultDto | null {
+  if (phase.phase !== PipelinePhase.PullRequest || phase.state !== PhaseState.Completed) return null;
+  const result = phase.result as PullRequestResultDto | undefined;
+  return result && (result.url || result.hasPatch) ? result : null;
+}
+
+function PhaseCard({ phase, rejections, index, isExpanded, onToggle, onInspectCall, onRerun, pullRequestPatchUrl }: PhaseCardProps) {
   const hasResult = phase.result != null;
+  const llmCalls = phase.llmCallsSummary ?? [];
+  const autoApprovedBy = getAutoApprovedBy(phase);
+  const pullRequest = getPullRequestResult(phase);
+  const hasDetails = hasResult || rejections.length > 0 || llmCalls.length > 0;
   
   const getStateColor = (state: PhaseState) => {
     switch (state) {
@@ -125,8 +167,8 @@ function PhaseCard({ phase, index, isExpanded, onToggle }: PhaseCardProps) {
   return (
     <div className={`rounded-lg border ${getStateColor(phase.state)} overflow-hidden transition-all`}>
       <div 
-        className={`p-3 flex items-center gap-3 ${hasResult ? 'cursor-pointer hover:bg-slate-800/30' : ''}`}
-        onClick={hasResult ? onToggle : undefined}
+        className={`p-3 flex items-center gap-3 ${hasDetails ? 'cursor-pointer hover:bg-slate-800/30' : ''}`}
+        onClick={hasDetails ? onToggle : undefined}
       >
         {/* Phase Icon with Type */}
         <div className={`w-10 h-10 rounded-lg flex items-center justify-center ${
@@ -147,6 +189,28 @@ function PhaseCard({ phase, index, isExpanded, onToggle }: PhaseCardProps) {
             <span className={`text-xs px-2 py-0.5 rounded ${badge.class}`}>
               {badge.text}
             </span>
+            {rejections.length > 0 && (
+              <span className="text-xs px-2 py-0.5 rounded bg-red-500/20 text-red-400">
+                Rejected {rejections.length}×
+              </span>
+            )}
+            {phase.isStale && (
+              <span
+                className="text-xs px-2 py-0.5 rounded bg-amber-500/20 text-amber-400"
+                title="Output from before the rerun; it is replaced when this phase runs again"
+              >
+                Stale
+              </span>
+            )}
+            {autoApprovedBy && (
+              <span
+                className="flex items-center gap-1 text-xs px-2 py-0.5 rounded bg-emerald-500/20 text-emerald-400"
+                title={`Auto-approved by the "${autoApprovedBy}" approval policy`}
+              >
+                <Zap className="w-3 h-3" />
+                Auto-approved
+              </span>
+            )}
           </div>
           <div className="text-xs text-slate-500 flex items-center gap-2">
             <span>{getPhaseAgent(phase.phase) || 'System'}</span>
@@ -160,12 +224,53 @@ function PhaseCard({ phase, index, isExpanded, onToggle }: PhaseCardProps) {
           {phase.message && (
             <div className="text-xs text-slate-400 mt-1 truncate">{phase.message}</div>
           )}
+          {pullRequest && (
+            <div className="flex items-center gap-3 mt-1 text-xs">
+              {pullRequest.url && (
+                <a
+                  href={pullRequest.url}
+                  target="_blank"
+                  rel="noreferrer"
+                  onClick={e => e.stopPropagation()}
+                  className="flex items-center gap-1 text-blue-400 hover:text-blue-300"
+                >
+                  <ExternalLink className="w-3 h-3" />
+                  Open pull request
+                </a>
+              )}
+              {pullRequest.hasPatch && pullRequestPatchUrl && (
+                <a
+                  href={pullRequestPatchUrl}
+                  download
+                  onClick={e => e.stopPropagation()}
+                  className="flex items-center gap-1 text-blue-400 hover:text-blue-300"
+                >
+                  <Download className="w-3 h-3" />
+                  Download patch
+                </a>
+              )}
+            </div>
+          )}
         </div>
 
         {/* State Icon */}
         <div className="flex items-center gap-2">
+          {onRerun && canRerunFromPhase(phase) && (
+            <button
+              type="button"
+              onClick={e => {
+                e.stopPropagation();
+                onRerun(phase.phase);
+              }}
+              className="flex items-center gap-1 px-2 py-1 rounded text-xs bg-slate-700 hover:bg-slate-600 text-slate-300 hover:text-white transition-colors"
+              title="Run this phase and the ones after it again, keeping the earlier results"
+            >
+              <RotateCcw className="w-3.5 h-3.5" />
+              Rerun from here
+            </button>
+          )}
           {getStateIcon(phase.state)}
-          {hasResult && (
+          {hasDetails && (
             <div className="text-slate-500">
               {isExpanded ? (
                 <ChevronDown className="w-5 h-5" />
@@ -178,24 +283,39 @@ function PhaseCard({ phase, index, isExpanded, onToggle }: PhaseCardProps) {
       </div>
 
       {/* Expanded Details */}
-      {isExpanded && hasResult && (
+      {isExpanded && hasDetails && (
         <div className="px-3 pb-3 border-t border-slate-700/50">
-          <div className="pt-3">
-            {/* Timestamps */}
-            <div className="flex gap-4 text-xs text-slate-500 mb-2">
-              {phase.startedAt && (
-                <span>Started: {new Date(phase.startedAt).toLocaleString()}</span>
-              )}
-              {phase.completedAt && (
-                <span>Completed: {new Date(phase.completedAt).toLocaleString()}</span>
-              )}
+          {rejections.length > 0 && (
+            <div className="pt-3">
+              <div className="text-xs text-slate-500 mb-2">Rejection history</div>
+              <RejectionList rejections={rejections} />
             </div>
-            <div className="text-xs text-slate-500 mb-2 flex items-center gap-1">
-              <Code className="w-3 h-3" />
-              Phase Result JSON
+          )}
+          {llmCalls.length > 0 && (
+            <div className="pt-3">
+              <div className="text-xs text-slate-500 mb-2">LLM calls</div>
+              <LLMCallsSummaryBlock calls={llmCalls} onInspect={onInspectCall} />
             </div>
-            <PhaseResultPreview result={phase.result} />
-          </div>
+          )}
+          {hasResult && (
+            <div className="pt-3">
+              {/* Timestamps */}
+              <div className="flex gap-4 text-xs text-slate-500 mb-2">
+                {phase.startedAt && (
+                  <span>Started: {new Date(phase.startedAt).toLocaleString()}</span>
+                )}
+                {phase.completedAt && (
+                  <span>Completed: {new Date(phase.completedAt).toLocaleString()}</span>
+                )}
+              </div>
+              <div className="text-xs text-slate-500 mb-2 flex items-center gap-1">
+                <Code className="w-3 h-3" />
+                Phase Result JSON
+                {phase.isStale && <span className="text-amber-400">(from before the rerun)</span>}
+              </div>
+              <PhaseResultPreview result={phase.result} />
+            </div>
+          )}
         </div>
       )}
     </div>
@@ -206,9 +326,28 @@ function PhaseCard({ phase, index, isExpanded, onToggle }: PhaseCardProps) {
 export function PipelineHistorySummary({ 
   status, 
   showSuccessBanner = true,
-  compact = false 
+  compact = false,
+  onInspectCall,
+  onOpenFrame,
+  onRerun,
+  pullRequestPatchUrl
 }: PipelineHistorySummaryProps) {
   const [expandedPhases, setExpandedPhases] = useState<Set<PipelinePhase>>(new Set());
+  const [view, setView] = useState<'list' | 'timeline' | 'tests' | 'retries'>('list');
+  const testRuns = status.testRuns ?? [];
+  const retryHistory = status.retryHistory ?? [];
+  const views = [
+    ['list', List, 'List'],
+    ['timeline', ChartGantt, 'Timeline'],
+    ...(testRuns.length > 0 ? [['tests', FlaskConical, 'Tests'] as const] : []),
+    ...(retryHistory.length > 0 ? [['retries', RefreshCw, 'Retries'] as const] : [])
+  ] as const;
+  const viewTitles = {
+    list: 'Phase Details (click to expand)',
+    timeline: 'Timeline',
+    tests: 'Test Results',
+    retries: 'Retry Attempts'
+  };
 
   const togglePhaseDetails = (phase: PipelinePhase) => {
     setExpandedPhases(prev => {
@@ -245,16 +384,69 @@ export function PipelineHistorySummary({
         </div>
       )}
 
-      {/* Phase Summary Cards */}
+      {/* Rerun note */}
+      {status.rerunFrom != null && (
+        <div className="flex items-center gap-2 text-xs text-slate-400">
+          <RotateCcw className="w-3.5 h-3.5 text-blue-400" />
+          Rerun from {getPhaseLabel(status.rerunFrom)} - the phases before it kept their results from the earlier run.
+        </div>
+      )}
+
+      {/* Approval policy note */}
+      {status.approvalPolicy && (
+        <div className="flex items-center gap-2 text-xs text-slate-400">
+          <ShieldCheck className="w-3.5 h-3.5 text-emerald-400" />
+          Approval policy: {status.approvalPolicy.name}
+          {status.approvalPolicy.autoApprovePhases.length > 0 &&
+            ` - auto-approved ${status.approvalPolicy.autoApprovePhases.map(getPhaseLabel).join(', ')}`}
+        </div>
+      )}
+
+      {/* Phase Summary Cards / Timeline */}
       <div className="space-y-2">
-        <h4 className="text-sm font-semibold text-slate-400 mb-3">Phase Details (click to expand)</h4>
-        {status.phases.map((phase, index) => (
+        <div className="flex items-center justify-between mb-3">
+          <h4 className="text-sm font-semibold text-slate-400">
+            {viewTitles[view]}
+          </h4>
+          <div className="flex rounded-lg border border-slate-700 overflow-hidden text-xs">
+            {views.map(([value, Icon, label]) => (
+              <button
+                key={value}
+                onClick={() => setView(value)}
+                className={`flex items-center gap-1.5 px-2.5 py-1 transition-colors ${view === value
+                  ? 'bg-blue-600 text-white'
+                  : 'bg-slate-800 text-slate-400 hover:text-white'
+                  }`}
+              >
+                <Icon className="w-3.5 h-3.5" />
+                {label}
+              </button>
+            ))}
+          </div>
+        </div>
+        {view === 'retries' && retryHistory.length > 0 ? (
+          <div className="p-4 bg-slate-800/50 border border-slate-700 rounded-lg">
+            <RetryAttemptHistory history={retryHistory} testRuns={testRuns} />
+          </div>
+        ) : view === 'tests' && testRuns.length > 0 ? (
+          <div className="p-4 bg-slate-800/50 border border-slate-700 rounded-lg">
+            <TestResultsExplorer runs={testRuns} onOpenFrame={onOpenFrame} />
+          </div>
+        ) : view === 'timeline' ? (
+          <div className="p-4 bg-slate-800/50 border border-slate-700 rounded-lg">
+            <PipelineTimeline status={status} onInspectCall={onInspectCall} />
+          </div>
+        ) : status.phases.map((phase, index) => (
           <PhaseCard
             key={phase.phase}
             phase={phase}
+            rejections={status.rejections?.filter(r => r.phase === phase.phase) ?? []}
             index={index}
             isExpanded={expandedPhases.has(phase.phase)}
             onToggle={() => togglePhaseDetails(phase.phase)}
+            onInspectCall={onInspectCall}
+            onRerun={onRerun}
+            pullRequestPatchUrl={pullRequestPatchUrl}
           />
         ))}
       </div>
@@ -0,0 +1,189 @@
+import { Link } from 'react-router-dom';
+import { ArrowDown, ArrowUp, ListOrdered, Pause, Play, Trash2, X } from 'lucide-react';
+import {
+  PipelineQueueDto,
+  PipelineQueueItemDto,
+  PipelineQueueSettings,
+  QueueItemState,
+  MAX_QUEUE_CONCURRENCY,
+  getQueueItemStateLabel,
+  getQueueItemStateColor
+} from '../types';
+
+interface PipelineQueuePanelProps {
+  queue: PipelineQueueDto;
+  /** Pipelines running outside the queue (started by hand), with their story names */
+  otherRunning: { storyId: string; name: string }[];
+  onMove: (itemId: string, offset: number) => void;
+  onCancel: (item: PipelineQueueItemDto) => void;
+  onResume: () => void;
+  onClearFinished: () => void;
+  onSettingsChange: (settings: PipelineQueueSettings) => void;
+}
+
+/**
+ * Batch queue: queued stories in start order, running pipelines and finished runs.
+ */
+export function PipelineQueuePanel({
+  queue,
+  otherRunning,
+  onMove,
+  onCancel,
+  onResume,
+  onClearFinished,
+  onSettingsChange
+}: PipelineQueuePanelProps) {
+  const queued = queue.items.filter(i => i.state === QueueItemState.Queued);
+  const running = queue.items.filter(i => i.state === QueueItemState.Running);
+  const finished = queue.items.filter(i => i.state !== QueueItemState.Queued && i.state !== QueueItemState.Running);
+  const runningCount = running.length + otherRunning.length;
+  const storyNameOf = (storyId: string) =>
+    queue.items.find(i => i.storyId === storyId)?.storyName ?? storyId;
+
+  const renderItem = (item: PipelineQueueItemDto, queuedIndex?: number) => (
+    <div key={item.id} className="flex items-center gap-2 px-3 py-2 text-sm">
+      {queuedIndex !== undefined && <span className="w-6 text-xs font-mono text-slate-500">{queuedIndex + 1}.</span>}
+      <div className="flex-1 min-w-0">
+        <Link
+          to={item.state === QueueItemState.Queued ? `/stories/${item.storyId}` : `/pipeline/${item.storyId}`}
+          className="text-slate-200 hover:text-blue-400 transition-colors truncate block"
+        >
+          {item.storyName}
+        </Link>
+        {item.message && <div className="text-xs text-slate-500 truncate" title={item.message}>{item.message}</div>}
+        {item.state === QueueItemState.Queued && item.dependsOn.length > 0 && (
+          <div className="text-xs text-slate-500 truncate">
+            Waits for {item.dependsOn.map(storyNameOf).join(', ')}
+          </div>
+        )}
+      </div>
+      <span className={`text-xs px-2 py-0.5 rounded ${getQueueItemStateColor(item.state)}`}>
+        {getQueueItemStateLabel(item.state)}
+      </span>
+      {queuedIndex !== undefined && (
+        <>
+          <button
+            onClick={() => onMove(item.id, -1)}
+            disabled={queuedIndex === 0}
+            className="p-1 text-slate-400 hover:text-white hover:bg-slate-700 disabled:opacity-30 disabled:hover:bg-transparent rounded transition-colors"
+            title="Start earlier"
+          >
+            <ArrowUp className="w-3.5 h-3.5" />
+          </button>
+          <button
+            onClick={() => onMove(item.id, 1)}
+            disabled={queuedIndex === queued.length - 1}
+            className="p-1 text-slate-400 hover:text-white hover:bg-slate-700 disabled:opacity-30 disabled:hover:bg-transparent rounded transition-colors"
+            title="Start later"
+          >
+            <ArrowDown className="w-3.5 h-3.5" />
+          </button>
+        </>
+      )}
+      {(item.state === QueueItemState.Queued || item.state === QueueItemState.Running) && (
+        <button
+          onClick={() => onCancel(item)}
+          className="p-1 text-slate-400 hover:text-red-400 hover:bg-slate-700 rounded transition-colors"
+          title={item.state === QueueItemState.Queued ? 'Remove from the queue' : 'Cancel the pipeline'}
+        >
+          <X className="w-3.5 h-3.5" />
+        </button>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="mb-8 bg-slate-800/50 backdrop-blur border border-slate-700 rounded-xl p-5">
+      <div className="flex items-center justify-between gap-4 mb-4">
+        <div className="flex items-center gap-3">
+          <ListOrdered className="w-5 h-5 text-blue-400" />
+          <h2 className="text-lg font-semibold text-white">Pipeline Queue</h2>
+          <span className="text-sm text-slate-400">
+            {runningCount}/{queue.maxConcurrency} running · {queued.length} queued
+          </span>
+        </div>
+        <div className="flex items-center gap-2">
+          <select
+            value={queue.maxConcurrency}
+            onChange={e => onSettingsChange({ maxConcurrency: Number(e.target.value), pauseOnFailure: queue.pauseOnFailure })}
+            className="px-2 py-1 bg-slate-900 border border-slate-700 rounded-lg text-xs text-white focus:outline-none focus:border-blue-500"
+            title="Pipelines allowed to run at once"
+          >
+            {Array.from({ length: MAX_QUEUE_CONCURRENCY }, (_, i) => i + 1).map(n => (
+              <option key={n} value={n}>{n} at once</option>
+            ))}
+          </select>
+          <select
+            value={queue.pauseOnFailure ? 'pause' : 'continue'}
+            onChange={e => onSettingsChange({ maxConcurrency: queue.maxConcurrency, pauseOnFailure: e.target.value === 'pause' })}
+            className="px-2 py-1 bg-slate-900 border border-slate-700 rounded-lg text-xs text-white focus:outline-none focus:border-blue-500"
+            title="What happens when a run fails"
+          >
+            <option value="pause">Pause on failure</option>
+            <option value="continue">Continue on failure</option>
+          </select>
+          {finished.length > 0 && (
+            <button
+              onClick={onClearFinished}
+              className="flex items-center gap-1 px-2 py-1 text-xs text-slate-400 hover:text-white hover:bg-slate-700 rounded-lg transition-colors"
+              title="Remove finished runs from the list"
+            >
+              <Trash2 className="w-3.5 h-3.5" />
+              Clear finished
+            </button>
+          )}
+        </div>
+      </div>
+
+      {queue.pausedReason && (
+        <div className="mb-4 flex items-center gap-3 p-3 bg-amber-500/10 border border-amber-500/30 rounded-lg text-sm text-amber-300">
+          <Pause className="w-4 h-4 flex-shrink-0" />
+          <span className="flex-1">Queue paused after a failed run - {queue.pausedReason}</span>
+          <button
+            onClick={onResume}
+            className="flex items-center gap-1 px-3 py-1 bg-amber-600 hover:bg-amber-700 text-white text-xs font-medium rounded-lg transition-colors"
+          >
+            <Play className="w-3.5 h-3.5" />
+            Resume
+          </button>
+        </div>
+      )}
+
+      <div className="grid grid-cols-3 gap-4">
+        <div>
+          <div className="text-xs font-medium uppercase tracking-wide text-slate-500 mb-2">Queued</div>
+          <div className="bg-slate-900/40 border border-slate-700 rounded-lg divide-y divide-slate-700/50">
+            {queued.length === 0
+              ? <div className="px-3 py-2 text-sm text-slate-500">Nothing waiting</div>
+              : queued.map((item, index) => renderItem(item, index))}
+          </div>
+        </div>
+        <div>
+          <div className="text-xs font-medium uppercase tracking-wide text-slate-500 mb-2">Running</div>
+          <div className="bg-slate-900/40 border border-slate-700 rounded-lg divide-y divide-slate-700/50">
+            {runningCount === 0 && <div className="px-3 py-2 text-sm text-slate-500">No pipelines running</div>}
+            {running.map(item => renderItem(item))}
+            {otherRunning.map(run => (
+              <div key={run.storyId} className="flex items-center gap-2 px-3 py-2 text-sm">
+                <Link to={`/pipeline/${run.storyId}`} className="flex-1 min-w-0 text-slate-200 hover:text-blue-400 transition-colors truncate">
+                  {run.name}
+                </Link>
+                <span className="text-xs text-slate-500" title="Started outside the queue; counts towards the limit">
+                  Started by hand
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+        <div>
+          <div className="text-xs font-medium uppercase tracking-wide text-slate-500 mb-2">Finished</div>
+          <div className="bg-slate-900/40 border border-slate-700 rounded-lg divide-y divide-slate-700/50 max-h-64 overflow-y-auto">
+            {finished.length === 0
+              ? <div className="px-3 py-2 text-sm text-slate-500">No finished runs yet</div>
+              : finished.map(item => renderItem(item))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
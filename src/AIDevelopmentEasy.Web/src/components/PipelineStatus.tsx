@@ -1,4 +1,4 @@
-import { Check, Clock, Loader2, AlertCircle, SkipForward, TestTube, GitPullRequest, RefreshCw, AlertTriangle, Wrench, Code } from 'lucide-react';
+import { Check, Clock, Loader2, AlertCircle, SkipForward, TestTube, RefreshCw, AlertTriangle, Wrench, Code, RotateCcw, Zap, ShieldCheck, Coins } from 'lucide-react';
 import {
   PipelineStatusDto,
   PhaseState,
@@ -7,44 +7,78 @@ import {
   FixTaskDto,
   TestSummaryDto,
   LLMCallResultDto,
+  TaskDto,
+  ApprovePhaseRequest,
+  PullRequestDraftDto,
+  BudgetPauseDto,
+  BudgetScope,
   getPhaseLabel,
   getPhaseAgent,
   getRetryReasonLabel,
-  getFixTaskTypeLabel
+  getFixTaskTypeLabel,
+  getAutoApprovedBy,
+  canRerunFromPhase,
+  getBudgetScopeLabel
 } from '../types';
 import { PipelineHistorySummary, getPhaseTypeIcon } from './PipelineHistorySummary';
+import { RejectionList } from './RejectionList';
+import { TaskPlanEditor, PlanProject } from './TaskPlanEditor';
+import { CodingFileReview } from './CodingFileReview';
+import { LLMCallsSummaryBlock } from './LLMCallsSummaryBlock';
+import { TestResultsExplorer } from './TestResultsExplorer';
+import { RetryAttemptHistory } from './RetryAttemptHistory';
+import { PullRequestComposer } from './PullRequestComposer';
+
+/** Data for editing the task plan at Planning approval. */
+export interface PlanEditorState {
+  tasks: TaskDto[];
+  projects: PlanProject[];
+  errors: Record<string, string>;
+}
 
 interface PipelineStatusProps {
   status: PipelineStatusDto;
-  onApprove: (phase: PipelinePhase) => void;
+  /** `request` carries the edited plan (Planning), file decisions (Coding) or composed pull request (PullRequest), if any. */
+  onApprove: (phase: PipelinePhase, request?: ApprovePhaseRequest) => void;
   onReject: (phase: PipelinePhase) => void;
   onApproveRetry?: (action: RetryAction) => void;
+  /** Enables the plan editor at Planning approval. */
+  plan?: PlanEditorState;
+  /** Server validation errors of the composed pull request, keyed like "pullRequest.title". */
+  pullRequestErrors?: Record<string, string>;
+  /** Download address of the patch the PullRequest phase wrote, if any. */
+  pullRequestPatchUrl?: string;
+  /** An approval request is in flight. */
+  approving?: boolean;
+  /** Opens the LLM call inspector for a call. */
+  onInspectCall?: (call: LLMCallResultDto) => void;
+  /** Opens a test stack frame's source file. */
+  onOpenFrame?: (file: string, line: number) => void;
+  /** Reruns the pipeline from a phase once the run has finished or stopped. */
+  onRerun?: (phase: PipelinePhase) => void;
+  /** Approves going over the budget the run is paused for. */
+  onContinueOverBudget?: () => void;
+  continuingOverBudget?: boolean;
 }
 
-// Component to display LLM calls summary for the current phase
-function LLMCallsSummaryBlock({ calls }: { calls: LLMCallResultDto[] }) {
-  const totalTokens = calls.reduce((s, c) => s + c.totalTokens, 0);
-  const totalCost = calls.reduce((s, c) => s + (c.actualCostUSD ?? 0), 0);
-  return (
-    <div className="p-3 bg-slate-900/50 rounded-lg border border-slate-700">
-      <div className="space-y-1.5 text-xs">
-        {calls.map((c, i) => (
-          <div key={i} className="flex justify-between gap-4 text-slate-300">
-            <span className="font-medium text-amber-300/90">{c.agentName}</span>
-            <span>{c.totalTokens.toLocaleString()} token</span>
-            <span>${(c.actualCostUSD ?? 0).toFixed(4)}</span>
-            <span>{typeof c.duration === 'string' ? c.duration : '-'}</span>
-          </div>
-        ))}
-        <div className="border-t border-slate-600 pt-1.5 mt-1.5 flex justify-between gap-4 text-slate-400 font-medium">
-          <span>Toplam ({calls.length} istek)</span>
-          <span>{totalTokens.toLocaleString()} token</span>
-          <span>${totalCost.toFixed(4)}</span>
-          <span>-</span>
-        </div>
-      </div>
-    </div>
-  );
+interface CodingResult {
+  files?: Record<string, string>;
+  modifiedFiles?: Record<string, string>;
+  revisedFiles?: string[];
+}
+
+// Coding results carrying generated files get the per-file review instead of the raw JSON
+function getCodingFiles(phase: PipelinePhase, result: unknown): CodingResult | null {
+  if (phase !== PipelinePhase.Coding || !result || typeof result !== 'object') return null;
+  const coding = result as CodingResult;
+  return coding.files && Object.keys(coding.files).length > 0 ? coding : null;
+}
+
+// The waiting PullRequest phase carries the draft for the composer
+function getPullRequestDraft(phase: PipelinePhase, result: unknown): PullRequestDraftDto | null {
+  if (phase !== PipelinePhase.PullRequest || !result || typeof result !== 'object') return null;
+  const draft = result as PullRequestDraftDto;
+  return typeof draft.branchName === 'string' && Array.isArray(draft.files) ? draft : null;
 }
 
 // Component to safely display phase result data
@@ -63,7 +97,21 @@ function PhaseResultPreview({ result }: { result: unknown }) {
   }
 }
 
-export function PipelineStatus({ status, onApprove, onReject, onApproveRetry }: PipelineStatusProps) {
+export function PipelineStatus({
+  status,
+  onApprove,
+  onReject,
+  onApproveRetry,
+  plan,
+  pullRequestErrors,
+  pullRequestPatchUrl,
+  approving = false,
+  onInspectCall,
+  onOpenFrame,
+  onRerun,
+  onContinueOverBudget,
+  continuingOverBudget = false
+}: PipelineStatusProps) {
   // getPhaseTypeIcon is imported from PipelineHistorySummary (shared component)
 
   const getPhaseIcon = (state: PhaseState, phase: PipelinePhase) => {
@@ -105,6 +153,9 @@ export function PipelineStatus({ status, onApprove, onReject, onApproveRetry }:
   ).length;
   // For progress line: calculate based on completed phases, ensure 100% when all done
   const progressPercent = isCompleted ? 100 : Math.min(((completedCount) / (status.phases.length - 1)) * 100, 100);
+  const rejections = status.rejections ?? [];
+  const testRuns = status.testRuns ?? [];
+  const retryHistory = status.retryHistory ?? [];
 
   return (
     <div className="space-y-4">
@@ -149,119 +200,196 @@ export function PipelineStatus({ status, onApprove, onReject, onApproveRetry }:
                 }`}>
                 {getPhaseStateLabel(phase.state)}
               </span>
+              {phase.isStale && (
+                <span className="text-[10px] text-amber-400" title="Output from before the rerun">
+                  Stale
+                </span>
+              )}
+              {getAutoApprovedBy(phase) && (
+                <span
+                  className="flex items-center gap-0.5 text-[10px] text-emerald-400"
+                  title={`Auto-approved by the "${getAutoApprovedBy(phase)}" approval policy`}
+                >
+                  <Zap className="w-3 h-3" />
+                  Auto
+                </span>
+              )}
+              {/* Completed runs offer the rerun on the summary cards below */}
+              {!isCompleted && !status.isRunning && onRerun && canRerunFromPhase(phase) && (
+                <button
+                  type="button"
+                  onClick={() => onRerun(phase.phase)}
+                  className="mt-1 flex items-center gap-1 px-2 py-0.5 rounded text-[10px] bg-slate-700 hover:bg-slate-600 text-slate-300 hover:text-white transition-colors"
+                  title="Run this phase and the ones after it again, keeping the earlier results"
+                >
+                  <RotateCcw className="w-3 h-3" />
+                  Rerun from here
+                </button>
+              )}
             </div>
           ))}
         </div>
       </div>
 
+      {/* Rerun in progress - stale phases still show output from before it */}
+      {!isCompleted && status.rerunFrom != null && (
+        <div className="flex items-center gap-2 p-3 bg-slate-800/50 border border-slate-700 rounded-lg text-sm text-slate-400">
+          <RotateCcw className="w-4 h-4 text-blue-400 flex-shrink-0" />
+          <span>
+            Rerun from {getPhaseLabel(status.rerunFrom)}: the phases before it kept their results.
+            {status.phases.some(p => p.isStale) && ' Phases marked stale show output from before the rerun until they run again.'}
+          </span>
+        </div>
+      )}
+
+      {/* Approval policy of a running run - listed gates continue without waiting */}
+      {!isCompleted && status.approvalPolicy && (
+        <div className="flex items-center gap-2 p-3 bg-slate-800/50 border border-slate-700 rounded-lg text-sm text-slate-400">
+          <ShieldCheck className="w-4 h-4 text-emerald-400 flex-shrink-0" />
+          <span>
+            Approval policy <span className="text-slate-200">{status.approvalPolicy.name}</span>
+            {status.approvalPolicy.autoApprovePhases.length > 0
+              ? ` auto-approves ${status.approvalPolicy.autoApprovePhases.map(getPhaseLabel).join(', ')}; other gates wait for you.`
+              : ': every gate waits for you.'}
+          </span>
+        </div>
+      )}
+
+      {/* Budget exceeded - the next phase waits for an explicit go-ahead */}
+      {!isCompleted && status.budgetPause && (
+        <BudgetPausePanel
+          pause={status.budgetPause}
+          onContinue={onContinueOverBudget}
+          continuing={continuingOverBudget}
+        />
+      )}
+
       {/* Completed - Phase Summary with Details (using shared component) */}
       {isCompleted && (
         <div className="mt-6">
-          <PipelineHistorySummary status={status} showSuccessBanner={true} />
+          <PipelineHistorySummary
+            status={status}
+            showSuccessBanner={true}
+            onInspectCall={onInspectCall}
+            onOpenFrame={onOpenFrame}
+            onRerun={onRerun}
+            pullRequestPatchUrl={pullRequestPatchUrl}
+          />
         </div>
       )}
 
       {/* Current Phase Details - Waiting Approval */}
       {!isCompleted && status.phases
         .filter(phase => phase.state === PhaseState.WaitingApproval)
-        .map(phase => (
-          <div
-            key={`approval-${phase.phase}`}
-            className="mt-6 p-4 bg-amber-500/10 border border-amber-500/30 rounded-xl animate-slide-in"
-          >
-            <div className="flex items-center gap-2 mb-2">
-              <span className="text-amber-400">{getPhaseTypeIcon(phase.phase)}</span>
-              <h3 className="text-lg font-semibold text-amber-400">
-                {phase.phase === PipelinePhase.PullRequest
-                  ? 'Deployment Successful - Create PR?'
-                  : `${getPhaseLabel(phase.phase)} Complete - Waiting for Approval`}
-              </h3>
-            </div>
-            <div className="text-xs text-slate-400 mb-3">
-              Agent: <span className="text-amber-300">{getPhaseAgent(phase.phase) || 'N/A'}</span>
-            </div>
-            {phase.message && (
-              <p className="text-slate-300 mb-4">{phase.message}</p>
-            )}
-            {phase.llmCallsSummary && phase.llmCallsSummary.length > 0 && (
-              <div className="mb-4">
-                <h4 className="text-sm font-medium text-slate-400 mb-2">LLM özeti (bu aşamada yapılan istekler)</h4>
-                <LLMCallsSummaryBlock calls={phase.llmCallsSummary} />
+        .map(phase => {
+          const coding = getCodingFiles(phase.phase, phase.result);
+          const pullRequestDraft = getPullRequestDraft(phase.phase, phase.result);
+          return (
+            <div
+              key={`approval-${phase.phase}`}
+              className="mt-6 p-4 bg-amber-500/10 border border-amber-500/30 rounded-xl animate-slide-in"
+            >
+              <div className="flex items-center gap-2 mb-2">
+                <span className="text-amber-400">{getPhaseTypeIcon(phase.phase)}</span>
+                <h3 className="text-lg font-semibold text-amber-400">
+                  {phase.phase === PipelinePhase.PullRequest
+                    ? 'Deployment Successful - Create PR?'
+                    : `${getPhaseLabel(phase.phase)} Complete - Waiting for Approval`}
+                </h3>
               </div>
-            )}
-            {phase.result != null && (
-              <div className="mb-4">
-                <PhaseResultPreview result={phase.result} />
+              <div className="text-xs text-slate-400 mb-3">
+                Agent: <span className="text-amber-300">{getPhaseAgent(phase.phase) || 'N/A'}</span>
               </div>
-            )}
+              {phase.message && (
+                <p className="text-slate-300 mb-4">{phase.message}</p>
+              )}
+              {phase.llmCallsSummary && phase.llmCallsSummary.length > 0 && (
+                <div className="mb-4">
+                  <h4 className="text-sm font-medium text-slate-400 mb-2">LLM özeti (bu aşamada yapılan istekler)</h4>
+                  <LLMCallsSummaryBlock calls={phase.llmCallsSummary} onInspect={onInspectCall} />
+                </div>
+              )}
+              {phase.result != null && !(phase.phase === PipelinePhase.Planning && plan) && !coding && !pullRequestDraft && (
+                <div className="mb-4">
+                  <PhaseResultPreview result={phase.result} />
+                </div>
+              )}
+              {rejections.some(r => r.phase === phase.phase) && (
+                <div className="mb-4">
+                  <h4 className="text-sm font-medium text-slate-400 mb-2">Previous rejections</h4>
+                  <RejectionList rejections={rejections.filter(r => r.phase === phase.phase)} />
+                </div>
+              )}
 
-            {/* Special UI for PullRequest phase */}
-            {phase.phase === PipelinePhase.PullRequest ? (
-              <div className="space-y-3">
-                <p className="text-slate-400 text-sm">
-                  Your changes have been deployed to the codebase. You can create a GitHub PR or complete without one.
-                </p>
-                <div className="flex gap-3">
-                  <button
-                    onClick={() => onApprove(phase.phase)}
-                    className="flex items-center gap-2 px-6 py-2 bg-purple-600 hover:bg-purple-700 text-white font-medium rounded-lg transition-colors"
-                  >
-                    <GitPullRequest className="w-4 h-4" />
-                    Create GitHub PR
-                  </button>
-                  <button
-                    onClick={() => onReject(phase.phase)}
-                    className="flex items-center gap-2 px-6 py-2 bg-emerald-600 hover:bg-emerald-700 text-white font-medium rounded-lg transition-colors"
-                  >
-                    <Check className="w-4 h-4" />
-                    Complete without PR
-                  </button>
+              {/* Plan editor for Planning, file review for Coding, composer for PullRequest */}
+              {phase.phase === PipelinePhase.Planning && plan ? (
+                <TaskPlanEditor
+                  tasks={plan.tasks}
+                  projects={plan.projects}
+                  serverErrors={plan.errors}
+                  submitting={approving}
+                  onApprove={tasks => onApprove(phase.phase, tasks && { tasks })}
+                  onReject={() => onReject(phase.phase)}
+                />
+              ) : coding?.files ? (
+                <CodingFileReview
+                  files={coding.files}
+                  modifiedPaths={Object.keys(coding.modifiedFiles ?? {})}
+                  revisedPaths={coding.revisedFiles}
+                  submitting={approving}
+                  onApprove={files => onApprove(phase.phase, files && { files })}
+                  onReject={() => onReject(phase.phase)}
+                />
+              ) : pullRequestDraft ? (
+                <PullRequestComposer
+                  draft={pullRequestDraft}
+                  errors={pullRequestErrors}
+                  submitting={approving}
+                  onSubmit={pullRequest => onApprove(phase.phase, { pullRequest })}
+                  onSkip={() => onReject(phase.phase)}
+                />
+              ) : phase.phase === PipelinePhase.UnitTesting ? (
+                /* Special UI for UnitTesting phase - with Rollback option */
+                <div className="space-y-3">
+                  <div className="flex gap-3">
+                    <button
+                      onClick={() => onApprove(phase.phase)}
+                      className="flex items-center gap-2 px-6 py-2 bg-emerald-600 hover:bg-emerald-700 text-white font-medium rounded-lg transition-colors"
+                    >
+                      <Check className="w-4 h-4" />
+                      Tests Passed - Continue
+                    </button>
+                    <button
+                      onClick={() => onReject(phase.phase)}
+                      className="flex items-center gap-2 px-6 py-2 bg-red-600 hover:bg-red-700 text-white font-medium rounded-lg transition-colors"
+                    >
+                      <RefreshCw className="w-4 h-4" />
+                      Reject & Rollback
+                    </button>
+                  </div>
+                  <p className="text-xs text-slate-500">
+                    ⚠️ Reject will rollback all deployment changes (delete new files, revert modified files).
+                  </p>
                 </div>
-                <p className="text-xs text-slate-500">
-                  💡 GitHub PR integration is optional. You can always create a PR manually later.
-                </p>
-              </div>
-            ) : phase.phase === PipelinePhase.UnitTesting ? (
-              /* Special UI for UnitTesting phase - with Rollback option */
-              <div className="space-y-3">
+              ) : (
                 <div className="flex gap-3">
                   <button
                     onClick={() => onApprove(phase.phase)}
-                    className="flex items-center gap-2 px-6 py-2 bg-emerald-600 hover:bg-emerald-700 text-white font-medium rounded-lg transition-colors"
+                    className="px-6 py-2 bg-emerald-600 hover:bg-emerald-700 text-white font-medium rounded-lg transition-colors"
                   >
-                    <Check className="w-4 h-4" />
-                    Tests Passed - Continue
+                    ✓ Approve & Continue
                   </button>
                   <button
                     onClick={() => onReject(phase.phase)}
-                    className="flex items-center gap-2 px-6 py-2 bg-red-600 hover:bg-red-700 text-white font-medium rounded-lg transition-colors"
+                    className="px-6 py-2 bg-slate-600 hover:bg-slate-700 text-white font-medium rounded-lg transition-colors"
                   >
-                    <RefreshCw className="w-4 h-4" />
-                    Reject & Rollback
+                    ✗ Reject
                   </button>
                 </div>
-                <p className="text-xs text-slate-500">
-                  ⚠️ Reject will rollback all deployment changes (delete new files, revert modified files).
-                </p>
-              </div>
-            ) : (
-              <div className="flex gap-3">
-                <button
-                  onClick={() => onApprove(phase.phase)}
-                  className="px-6 py-2 bg-emerald-600 hover:bg-emerald-700 text-white font-medium rounded-lg transition-colors"
-                >
-                  ✓ Approve & Continue
-                </button>
-                <button
-                  onClick={() => onReject(phase.phase)}
-                  className="px-6 py-2 bg-slate-600 hover:bg-slate-700 text-white font-medium rounded-lg transition-colors"
-                >
-                  ✗ Reject
-                </button>
-              </div>
-            )}
-          </div>
-        ))}
+              )}
+            </div>
+          );
+        })}
 
       {/* Running Phase */}
       {!isCompleted && status.phases.some(p => p.state === PhaseState.Running) && (
@@ -280,8 +408,38 @@ export function PipelineStatus({ status, onApprove, onReject, onApproveRetry }:
         </div>
       )}
 
+      {/* Rejection History - the run stopped after a rejection */}
+      {!isCompleted && !status.isRunning && rejections.length > 0 && (
+        <div className="mt-6">
+          <h4 className="text-sm font-semibold text-slate-400 mb-3">Rejection History</h4>
+          <RejectionList rejections={rejections} showPhase />
+        </div>
+      )}
+
+      {/* Test Results - every UnitTesting attempt of the current run */}
+      {!isCompleted && testRuns.length > 0 && (
+        <div className="mt-6 p-4 bg-slate-800/50 border border-slate-700 rounded-xl">
+          <h4 className="text-sm font-semibold text-slate-400 mb-3 flex items-center gap-2">
+            <TestTube className="w-4 h-4" />
+            Test Results
+          </h4>
+          <TestResultsExplorer runs={testRuns} onOpenFrame={onOpenFrame} />
+        </div>
+      )}
+
+      {/* Retry History - earlier attempts, to judge whether auto-fix is converging */}
+      {!isCompleted && retryHistory.length > 0 && (
+        <div className="mt-6 p-4 bg-slate-800/50 border border-slate-700 rounded-xl">
+          <h4 className="text-sm font-semibold text-slate-400 mb-3 flex items-center gap-2">
+            <RefreshCw className="w-4 h-4" />
+            Retry History
+          </h4>
+          <RetryAttemptHistory history={retryHistory} testRuns={testRuns} />
+        </div>
+      )}
+
       {/* Retry Panel */}
-      {status.retryInfo && onApproveRetry && (
+      {status.retryInfo && !status.manualFix && onApproveRetry && (
         <RetryPanel
           retryInfo={status.retryInfo}
           onApproveRetry={onApproveRetry}
@@ -291,6 +449,49 @@ export function PipelineStatus({ status, onApprove, onReject, onApproveRetry }:
   );
 }
 
+// Budget Pause Panel Component
+interface BudgetPausePanelProps {
+  pause: BudgetPauseDto;
+  onContinue?: () => void;
+  continuing: boolean;
+}
+
+function BudgetPausePanel({ pause, onContinue, continuing }: BudgetPausePanelProps) {
+  const scope = getBudgetScopeLabel(pause.scope).toLowerCase();
+  const limits = [
+    pause.budget.maxTokens != null && `${pause.spentTokens.toLocaleString()} of ${pause.budget.maxTokens.toLocaleString()} tokens`,
+    pause.budget.maxCostUSD != null && `$${pause.spentCostUSD.toFixed(4)} of $${pause.budget.maxCostUSD.toFixed(2)}`
+  ].filter(Boolean);
+
+  return (
+    <div className="mt-6 p-4 bg-red-500/10 border border-red-500/30 rounded-xl animate-slide-in">
+      <div className="flex items-center gap-2 mb-2">
+        <Coins className="w-6 h-6 text-red-400" />
+        <h3 className="text-lg font-semibold text-red-400">
+          {getBudgetScopeLabel(pause.scope)} Budget Exceeded - Paused Before {getPhaseLabel(pause.phase)}
+        </h3>
+      </div>
+      <p className="text-sm text-slate-300 mb-1">
+        Spent {limits.join(' and ')}
+        {pause.scope === BudgetScope.Story ? ' in this run.' : ` across the stories of requirement ${pause.scopeId}.`}
+      </p>
+      <p className="text-xs text-slate-500 mb-4">
+        Continuing lets this run go over the {scope} budget until it ends. To stop spending, cancel the run instead.
+      </p>
+      {onContinue && (
+        <button
+          onClick={onContinue}
+          disabled={continuing}
+          className="flex items-center gap-2 px-4 py-2 bg-amber-600 hover:bg-amber-700 disabled:opacity-50 text-white font-medium rounded-lg transition-colors"
+        >
+          {continuing ? <Loader2 className="w-4 h-4 animate-spin" /> : <Check className="w-4 h-4" />}
+          Continue Over Budget
+        </button>
+      )}
+    </div>
+  );
+}
+
 // Retry Panel Component
 interface RetryPanelProps {
   retryInfo: {
@@ -0,0 +1,172 @@
+import { useEffect, useMemo, useState } from 'react';
+import { LLMCallResultDto, PhaseState, PipelineStatusDto, getPhaseLabel } from '../types';
+import { buildTimeline, formatDuration, getAxisTicks, parseTimeSpan, type TimelineRun } from '../services/timeline';
+import { getPhaseTypeIcon } from './PipelineHistorySummary';
+
+interface PipelineTimelineProps {
+  status: PipelineStatusDto;
+  /** Makes LLM call segments open the call inspector. */
+  onInspectCall?: (call: LLMCallResultDto) => void;
+}
+
+function computeClass(run: TimelineRun): string {
+  if (run.state === PhaseState.Failed) return 'bg-red-500/70';
+  if (run.state === PhaseState.Skipped) return 'bg-slate-500/70';
+  if (run.ongoing && run.waitStart === null) return 'bg-blue-500/70 animate-pulse';
+  return 'bg-blue-500/70';
+}
+
+function Stat({ label, value, swatch }: { label: string; value: string; swatch?: string }) {
+  return (
+    <div className="flex items-center gap-2">
+      {swatch && <span className={`w-3 h-3 rounded-sm ${swatch}`} />}
+      <span className="text-slate-400">{label}</span>
+      <span className="font-mono text-white">{value}</span>
+    </div>
+  );
+}
+
+/**
+ * Gantt view of a run: one row per phase with a bar per execution, compute time
+ * split from approval wait, LLM calls nested inside and retry attempts as bands.
+ */
+export function PipelineTimeline({ status, onInspectCall }: PipelineTimelineProps) {
+  const [now, setNow] = useState(() => Date.now());
+
+  // Open runs grow until the pipeline stops
+  useEffect(() => {
+    if (!status.isRunning) return;
+    const timer = setInterval(() => setNow(Date.now()), 5000);
+    return () => clearInterval(timer);
+  }, [status.isRunning]);
+
+  const timeline = useMemo(() => buildTimeline(status, now), [status, now]);
+
+  if (!timeline) {
+    return <p className="text-sm text-slate-500">No timing data recorded for this run.</p>;
+  }
+
+  const span = Math.max(timeline.end - timeline.start, 1);
+  const pct = (t: number) => ((t - timeline.start) / span) * 100;
+  const width = (from: number, to: number) => `max(${((to - from) / span) * 100}%, 2px)`;
+  const ticks = getAxisTicks(span);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap gap-x-6 gap-y-2 text-xs">
+        <Stat label="Wall time" value={formatDuration(timeline.end - timeline.start)} />
+        <Stat label="Compute" value={formatDuration(timeline.computeMs)} swatch="bg-blue-500/70" />
+        <Stat
+          label="Waiting for approval"
+          value={formatDuration(timeline.waitingMs)}
+          swatch="bg-amber-500/30 border border-dashed border-amber-500/60"
+        />
+        <Stat
+          label={`LLM calls (${timeline.llmCallCount})`}
+          value={formatDuration(timeline.llmMs)}
+          swatch="bg-purple-400"
+        />
+        {timeline.retryBands.length > 0 && (
+          <Stat label="Retry attempts" value={String(timeline.retryBands.length)} swatch="bg-orange-500/20 border border-orange-500/40" />
+        )}
+      </div>
+
+      <div className="flex text-xs">
+        {/* Phase labels */}
+        <div className="w-40 flex-shrink-0">
+          <div className="h-6" />
+          {timeline.rows.map(row => (
+            <div key={row.phase} className="h-10 flex items-center gap-2 pr-3 text-slate-300">
+              <span className="text-slate-400">{getPhaseTypeIcon(row.phase, 'w-4 h-4')}</span>
+              <span className="truncate">{getPhaseLabel(row.phase)}</span>
+            </div>
+          ))}
+        </div>
+
+        {/* Chart */}
+        <div className="relative flex-1 min-w-0">
+          <div className="relative h-6 border-b border-slate-700">
+            {ticks.map(t => (
+              <span
+                key={t}
+                className="absolute top-0 -translate-x-1/2 text-slate-500 font-mono whitespace-nowrap first:translate-x-0"
+                style={{ left: `${(t / span) * 100}%` }}
+              >
+                {t === 0 ? '0' : formatDuration(t)}
+              </span>
+            ))}
+          </div>
+
+          <div className="relative">
+            {ticks.map(t => (
+              <div
+                key={t}
+                className="absolute top-0 bottom-0 border-l border-slate-700/50"
+                style={{ left: `${(t / span) * 100}%` }}
+              />
+            ))}
+
+            {timeline.retryBands.map(band => (
+              <div
+                key={band.attempt}
+                className="absolute top-0 bottom-0 bg-orange-500/10 border-x border-orange-500/40"
+                style={{ left: `${pct(band.start)}%`, width: width(band.start, band.end) }}
+              >
+                <span className="absolute top-0.5 left-1 text-[10px] text-orange-300 whitespace-nowrap">
+                  Retry #{band.attempt}
+                </span>
+              </div>
+            ))}
+
+            {timeline.rows.map(row => (
+              <div key={row.phase} className="relative h-10">
+                {row.runs.map(run => {
+                  const computeEnd = run.waitStart ?? run.end;
+                  return (
+                    <div key={run.start}>
+                      <div
+                        className={`absolute top-2 h-6 rounded-sm ${computeClass(run)}`}
+                        style={{ left: `${pct(run.start)}%`, width: width(run.start, computeEnd) }}
+                        title={`${getPhaseLabel(row.phase)}${run.retryAttempt > 0 ? ` (retry #${run.retryAttempt})` : ''} - compute ${formatDuration(computeEnd - run.start)}${run.autoApprovedBy ? `, auto-approved by ${run.autoApprovedBy}` : ''}`}
+                      />
+                      {run.waitStart !== null && (
+                        <div
+                          className={`absolute top-2 h-6 rounded-sm bg-amber-500/20 border border-dashed border-amber-500/60 ${run.ongoing ? 'animate-pulse' : ''}`}
+                          style={{ left: `${pct(run.waitStart)}%`, width: width(run.waitStart, run.end) }}
+                          title={`Waiting for approval ${formatDuration(run.end - run.waitStart)}`}
+                        />
+                      )}
+                      {run.calls.map((c, i) => {
+                        const inspectable = !!onInspectCall && !!c.call.callId;
+                        return (
+                          <div
+                            key={i}
+                            onClick={inspectable ? () => onInspectCall(c.call) : undefined}
+                            className={`absolute top-5 h-2 rounded-sm ${c.call.success === false ? 'bg-red-300' : 'bg-purple-400'} ${inspectable ? 'cursor-pointer hover:bg-purple-200' : ''}`}
+                            style={{ left: `${pct(c.start)}%`, width: width(c.start, c.end) }}
+                            title={`${c.call.agentName} - ${formatDuration(parseTimeSpan(c.call.duration))}, ${c.call.totalTokens.toLocaleString()} tokens, $${(c.call.actualCostUSD ?? 0).toFixed(4)}`}
+                          />
+                        );
+                      })}
+                    </div>
+                  );
+                })}
+              </div>
+            ))}
+          </div>
+        </div>
+
+        {/* Per-phase totals */}
+        <div className="w-32 flex-shrink-0 pl-3">
+          <div className="h-6" />
+          {timeline.rows.map(row => (
+            <div key={row.phase} className="h-10 flex flex-col justify-center font-mono">
+              <span className="text-blue-300">{formatDuration(row.computeMs)}</span>
+              {row.waitingMs > 0 && <span className="text-amber-400/80">+{formatDuration(row.waitingMs)} wait</span>}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,264 @@
+import { useState } from 'react';
+import { AlertCircle, Check, ChevronDown, ChevronRight, Eye, FileDiff, GitBranch, GitPullRequest, Loader2, Pencil } from 'lucide-react';
+import {
+  PullRequestDraftDto,
+  PullRequestOptionsDto,
+  PullRequestTarget,
+  getPullRequestTargetLabel
+} from '../types';
+import { FieldError } from './PageLayout';
+import { MarkdownText } from './MarkdownText';
+
+interface PullRequestComposerProps {
+  /** Prefilled by the server; after a failed attempt it holds the values that were tried */
+  draft: PullRequestDraftDto;
+  /** Server validation errors keyed like "pullRequest.title" */
+  errors?: Record<string, string>;
+  submitting?: boolean;
+  onSubmit: (options: PullRequestOptionsDto) => void;
+  onSkip: () => void;
+}
+
+const TARGETS = [PullRequestTarget.GitHub, PullRequestTarget.LocalBranch, PullRequestTarget.PatchFile];
+
+const TARGET_HINTS: Record<PullRequestTarget, string> = {
+  [PullRequestTarget.GitHub]: 'Commits to the branch, pushes it to origin and opens the PR with the gh CLI.',
+  [PullRequestTarget.LocalBranch]: 'Commits the deployed files to a local branch. Nothing is pushed.',
+  [PullRequestTarget.PatchFile]: 'Writes the changes to a .patch file to download. The repository is not touched.'
+};
+
+const SUBMIT_LABELS: Record<PullRequestTarget, string> = {
+  [PullRequestTarget.GitHub]: 'Create GitHub PR',
+  [PullRequestTarget.LocalBranch]: 'Commit to Branch',
+  [PullRequestTarget.PatchFile]: 'Create Patch'
+};
+
+function splitList(value: string): string[] {
+  return value.split(',').map(v => v.trim()).filter(v => v.length > 0);
+}
+
+/**
+ * PullRequest approval: the branch, title and body prefilled from the story, tasks,
+ * tests and review, all editable, with a preview of the final markdown. The same
+ * composition can go to GitHub, to a local branch and commit, or to a patch file.
+ */
+export function PullRequestComposer({ draft, errors = {}, submitting = false, onSubmit, onSkip }: PullRequestComposerProps) {
+  const [target, setTarget] = useState(draft.target);
+  const [branchName, setBranchName] = useState(draft.branchName);
+  const [baseBranch, setBaseBranch] = useState(draft.baseBranch ?? '');
+  const [title, setTitle] = useState(draft.title);
+  const [body, setBody] = useState(draft.body);
+  const [labels, setLabels] = useState(draft.labels.join(', '));
+  const [reviewers, setReviewers] = useState(draft.reviewers.join(', '));
+  const [preview, setPreview] = useState(false);
+  const [showFiles, setShowFiles] = useState(false);
+
+  const isGitHub = target === PullRequestTarget.GitHub;
+  const labelList = splitList(labels);
+  const reviewerList = splitList(reviewers);
+  const canSubmit = branchName.trim().length > 0 && title.trim().length > 0 && !submitting;
+
+  const handleSubmit = () => {
+    onSubmit({
+      target,
+      branchName: branchName.trim(),
+      baseBranch: baseBranch.trim() || null,
+      title: title.trim(),
+      body,
+      labels: isGitHub ? labelList : [],
+      reviewers: isGitHub ? reviewerList : []
+    });
+  };
+
+  const inputClass = 'w-full px-3 py-2 bg-slate-900 border border-slate-700 rounded-lg text-sm text-white placeholder-slate-500 focus:outline-none focus:border-blue-500';
+
+  return (
+    <div className="space-y-4">
+      {draft.error && (
+        <div className="flex items-start gap-2 p-3 bg-red-500/10 border border-red-500/30 rounded-lg text-sm text-red-400">
+          <AlertCircle className="w-4 h-4 flex-shrink-0 mt-0.5" />
+          <div className="min-w-0">
+            <div className="font-medium">The last attempt failed - fix it and try again</div>
+            <pre className="mt-1 text-xs whitespace-pre-wrap break-words font-mono">{draft.error}</pre>
+          </div>
+        </div>
+      )}
+
+      {/* Target */}
+      <div>
+        <div className="flex flex-wrap gap-2">
+          {TARGETS.map(t => (
+            <button
+              key={t}
+              type="button"
+              onClick={() => setTarget(t)}
+              disabled={submitting}
+              className={`flex items-center gap-2 px-3 py-1.5 rounded-lg text-sm transition-colors ${target === t
+                ? 'bg-purple-600 text-white'
+                : 'bg-slate-700 text-slate-300 hover:bg-slate-600'
+                }`}
+            >
+              {t === PullRequestTarget.GitHub ? <GitPullRequest className="w-4 h-4" />
+                : t === PullRequestTarget.LocalBranch ? <GitBranch className="w-4 h-4" />
+                  : <FileDiff className="w-4 h-4" />}
+              {getPullRequestTargetLabel(t)}
+            </button>
+          ))}
+        </div>
+        <p className="mt-2 text-xs text-slate-500">{TARGET_HINTS[target]}</p>
+      </div>
+
+      {/* Branches */}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        <div>
+          <label className="block text-xs font-medium text-slate-400 mb-1">Branch</label>
+          <input
+            value={branchName}
+            onChange={e => setBranchName(e.target.value)}
+            disabled={submitting}
+            className={`${inputClass} font-mono`}
+          />
+          <FieldError message={errors['pullRequest.branchName']} />
+        </div>
+        {isGitHub && (
+          <div>
+            <label className="block text-xs font-medium text-slate-400 mb-1">Base branch</label>
+            <input
+              value={baseBranch}
+              onChange={e => setBaseBranch(e.target.value)}
+              disabled={submitting}
+              placeholder="Repository default"
+              className={`${inputClass} font-mono`}
+            />
+            <FieldError message={errors['pullRequest.baseBranch']} />
+          </div>
+        )}
+      </div>
+
+      {/* Title */}
+      <div>
+        <label className="block text-xs font-medium text-slate-400 mb-1">
+          {target === PullRequestTarget.GitHub ? 'Title' : 'Commit message'}
+        </label>
+        <input
+          value={title}
+          onChange={e => setTitle(e.target.value)}
+          disabled={submitting}
+          className={inputClass}
+        />
+        <FieldError message={errors['pullRequest.title']} />
+      </div>
+
+      {/* Body */}
+      <div>
+        <div className="flex items-center justify-between mb-1">
+          <label className="text-xs font-medium text-slate-400">Description (markdown)</label>
+          <div className="flex gap-1">
+            <button
+              type="button"
+              onClick={() => setPreview(false)}
+              className={`flex items-center gap-1 px-2 py-0.5 rounded text-xs transition-colors ${!preview ? 'bg-slate-600 text-white' : 'text-slate-400 hover:text-white'}`}
+            >
+              <Pencil className="w-3 h-3" />
+              Write
+            </button>
+            <button
+              type="button"
+              onClick={() => setPreview(true)}
+              className={`flex items-center gap-1 px-2 py-0.5 rounded text-xs transition-colors ${preview ? 'bg-slate-600 text-white' : 'text-slate-400 hover:text-white'}`}
+            >
+              <Eye className="w-3 h-3" />
+              Preview
+            </button>
+          </div>
+        </div>
+        {preview ? (
+          <div className="p-4 bg-slate-900/60 border border-slate-700 rounded-lg space-y-3 max-h-[32rem] overflow-auto">
+            <h4 className="text-lg font-semibold text-white">{title || 'Untitled'}</h4>
+            {isGitHub && (labelList.length > 0 || reviewerList.length > 0) && (
+              <div className="flex flex-wrap items-center gap-2">
+                {labelList.map(l => (
+                  <span key={l} className="text-xs px-2 py-0.5 rounded-full bg-purple-500/20 text-purple-300">{l}</span>
+                ))}
+                {reviewerList.map(r => (
+                  <span key={r} className="text-xs text-slate-400">@{r}</span>
+                ))}
+              </div>
+            )}
+            {body.trim() ? <MarkdownText text={body} /> : <p className="text-sm text-slate-500">No description</p>}
+          </div>
+        ) : (
+          <textarea
+            value={body}
+            onChange={e => setBody(e.target.value)}
+            disabled={submitting}
+            rows={14}
+            className={`${inputClass} font-mono text-xs leading-5 resize-y`}
+          />
+        )}
+      </div>
+
+      {/* Labels and reviewers - GitHub only */}
+      {isGitHub && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          <div>
+            <label className="block text-xs font-medium text-slate-400 mb-1">Labels</label>
+            <input
+              value={labels}
+              onChange={e => setLabels(e.target.value)}
+              disabled={submitting}
+              placeholder="enhancement, ai-generated"
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-slate-400 mb-1">Reviewers</label>
+            <input
+              value={reviewers}
+              onChange={e => setReviewers(e.target.value)}
+              disabled={submitting}
+              placeholder="GitHub usernames, comma separated"
+              className={inputClass}
+            />
+          </div>
+        </div>
+      )}
+
+      {/* Files */}
+      <div>
+        <button
+          type="button"
+          onClick={() => setShowFiles(!showFiles)}
+          className="flex items-center gap-1 text-sm text-slate-400 hover:text-white transition-colors"
+        >
+          {showFiles ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+          {draft.files.length} file(s) - {draft.newFiles} new, {draft.modifiedFiles} modified
+        </button>
+        {showFiles && (
+          <ul className="mt-2 pl-5 space-y-0.5 text-xs font-mono text-slate-400">
+            {draft.files.map(f => <li key={f}>{f}</li>)}
+          </ul>
+        )}
+      </div>
+
+      <div className="flex flex-wrap gap-3">
+        <button
+          onClick={handleSubmit}
+          disabled={!canSubmit}
+          className="flex items-center gap-2 px-6 py-2 bg-purple-600 hover:bg-purple-700 disabled:opacity-50 text-white font-medium rounded-lg transition-colors"
+        >
+          {submitting ? <Loader2 className="w-4 h-4 animate-spin" /> : <GitPullRequest className="w-4 h-4" />}
+          {SUBMIT_LABELS[target]}
+        </button>
+        <button
+          onClick={onSkip}
+          disabled={submitting}
+          className="flex items-center gap-2 px-6 py-2 bg-emerald-600 hover:bg-emerald-700 disabled:opacity-50 text-white font-medium rounded-lg transition-colors"
+        >
+          <Check className="w-4 h-4" />
+          Complete without PR
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,223 @@
+import { useEffect, useState } from 'react';
+import { FileCode, ListTodo, Loader2, X, XCircle } from 'lucide-react';
+import {
+  PipelinePhase,
+  RejectionCategory,
+  RejectPhaseRequest,
+  getPhaseLabel,
+  getRejectionCategoryLabel
+} from '../types';
+
+export interface RejectableTask {
+  index: number;
+  title: string;
+}
+
+interface RejectPhaseDialogProps {
+  phase: PipelinePhase;
+  /** Planned tasks the reviewer can point at. */
+  tasks: RejectableTask[];
+  /** Files touched by the phase the reviewer can point at. */
+  files: string[];
+  /** Extra warning shown above the actions (e.g. rollback on rejection). */
+  warning?: string;
+  submitting?: boolean;
+  onSubmit: (feedback: RejectPhaseRequest) => void;
+  onCancel: () => void;
+}
+
+const CATEGORY_HINTS: Record<RejectionCategory, string> = {
+  [RejectionCategory.WrongApproach]: 'The solution design does not fit the requirement',
+  [RejectionCategory.MissingFiles]: 'Expected files or changes are missing',
+  [RejectionCategory.Style]: 'Naming, formatting or conventions need work',
+  [RejectionCategory.IncorrectTarget]: 'Changes went to the wrong project, file or method',
+  [RejectionCategory.Other]: 'Anything else - describe it below'
+};
+
+const CATEGORIES = Object.keys(CATEGORY_HINTS).map(Number) as RejectionCategory[];
+
+function toggle<T>(list: T[], value: T): T[] {
+  return list.includes(value) ? list.filter(v => v !== value) : [...list, value];
+}
+
+export function RejectPhaseDialog({
+  phase,
+  tasks,
+  files,
+  warning,
+  submitting = false,
+  onSubmit,
+  onCancel
+}: RejectPhaseDialogProps) {
+  const [category, setCategory] = useState<RejectionCategory>(RejectionCategory.WrongApproach);
+  const [reason, setReason] = useState('');
+  const [taskReferences, setTaskReferences] = useState<number[]>([]);
+  const [fileReferences, setFileReferences] = useState<string[]>([]);
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape' && !submitting) onCancel();
+    };
+    document.addEventListener('keydown', onKeyDown);
+    return () => document.removeEventListener('keydown', onKeyDown);
+  }, [onCancel, submitting]);
+
+  // "Other" says nothing on its own
+  const needsReason = category === RejectionCategory.Other && !reason.trim();
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (needsReason || submitting) return;
+    onSubmit({
+      category,
+      reason: reason.trim() || undefined,
+      taskReferences: [...taskReferences].sort((a, b) => a - b),
+      fileReferences
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/70 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+      <form
+        onSubmit={handleSubmit}
+        className="bg-slate-800 border border-slate-700 rounded-2xl w-full max-w-2xl max-h-[90vh] overflow-hidden flex flex-col"
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-slate-700">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 bg-red-500/20 rounded-lg flex items-center justify-center">
+              <XCircle className="w-5 h-5 text-red-400" />
+            </div>
+            <div>
+              <h2 className="text-xl font-bold text-white">Reject {getPhaseLabel(phase)}</h2>
+              <p className="text-sm text-slate-400">Tell the next run what to do differently</p>
+            </div>
+          </div>
+          <button
+            type="button"
+            onClick={onCancel}
+            disabled={submitting}
+            className="p-2 hover:bg-slate-700 rounded-lg transition-colors text-slate-400 hover:text-white"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="flex-1 overflow-y-auto p-6 space-y-5">
+          <fieldset>
+            <legend className="text-sm font-medium text-slate-300 mb-2">Category</legend>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+              {CATEGORIES.map(value => (
+                <label
+                  key={value}
+                  className={`p-3 rounded-lg border cursor-pointer transition-colors ${category === value
+                    ? 'border-red-500/60 bg-red-500/10'
+                    : 'border-slate-700 bg-slate-900/40 hover:border-slate-600'
+                    }`}
+                >
+                  <div className="flex items-center gap-2">
+                    <input
+                      type="radio"
+                      name="rejection-category"
+                      checked={category === value}
+                      onChange={() => setCategory(value)}
+                      className="accent-red-500"
+                    />
+                    <span className="text-sm font-medium text-white">{getRejectionCategoryLabel(value)}</span>
+                  </div>
+                  <p className="mt-1 text-xs text-slate-400">{CATEGORY_HINTS[value]}</p>
+                </label>
+              ))}
+            </div>
+          </fieldset>
+
+          <div>
+            <label htmlFor="rejection-reason" className="block text-sm font-medium text-slate-300 mb-2">
+              Details {category !== RejectionCategory.Other && <span className="text-slate-500">(optional)</span>}
+            </label>
+            <textarea
+              id="rejection-reason"
+              value={reason}
+              onChange={e => setReason(e.target.value)}
+              rows={4}
+              autoFocus
+              placeholder="What is wrong and what should change?"
+              className="w-full px-3 py-2 bg-slate-900 border border-slate-700 rounded-lg text-sm text-white placeholder-slate-500 focus:outline-none focus:border-red-500/60"
+            />
+          </div>
+
+          {tasks.length > 0 && (
+            <fieldset>
+              <legend className="text-sm font-medium text-slate-300 mb-2 flex items-center gap-2">
+                <ListTodo className="w-4 h-4" />
+                Related tasks <span className="text-slate-500">(optional)</span>
+              </legend>
+              <div className="max-h-40 overflow-y-auto space-y-1 p-2 bg-slate-900/40 border border-slate-700 rounded-lg">
+                {tasks.map(task => (
+                  <label key={task.index} className="flex items-center gap-2 px-2 py-1 rounded hover:bg-slate-700/40 cursor-pointer text-sm text-slate-300">
+                    <input
+                      type="checkbox"
+                      checked={taskReferences.includes(task.index)}
+                      onChange={() => setTaskReferences(prev => toggle(prev, task.index))}
+                      className="accent-red-500"
+                    />
+                    <span className="text-slate-500">#{task.index}</span>
+                    <span className="truncate">{task.title}</span>
+                  </label>
+                ))}
+              </div>
+            </fieldset>
+          )}
+
+          {files.length > 0 && (
+            <fieldset>
+              <legend className="text-sm font-medium text-slate-300 mb-2 flex items-center gap-2">
+                <FileCode className="w-4 h-4" />
+                Related files <span className="text-slate-500">(optional)</span>
+              </legend>
+              <div className="max-h-40 overflow-y-auto space-y-1 p-2 bg-slate-900/40 border border-slate-700 rounded-lg">
+                {files.map(file => (
+                  <label key={file} className="flex items-center gap-2 px-2 py-1 rounded hover:bg-slate-700/40 cursor-pointer text-sm text-slate-300">
+                    <input
+                      type="checkbox"
+                      checked={fileReferences.includes(file)}
+                      onChange={() => setFileReferences(prev => toggle(prev, file))}
+                      className="accent-red-500"
+                    />
+                    <span className="truncate font-mono text-xs">{file}</span>
+                  </label>
+                ))}
+              </div>
+            </fieldset>
+          )}
+
+          {warning && (
+            <p className="text-xs text-amber-400">⚠️ {warning}</p>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="p-4 border-t border-slate-700 flex justify-end gap-3">
+          <button
+            type="button"
+            onClick={onCancel}
+            disabled={submitting}
+            className="px-4 py-2 bg-slate-700 hover:bg-slate-600 text-white rounded-lg transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={needsReason || submitting}
+            title={needsReason ? 'Describe the problem when choosing "Other"' : undefined}
+            className="flex items-center gap-2 px-4 py-2 bg-red-600 hover:bg-red-700 disabled:opacity-50 disabled:cursor-not-allowed text-white font-medium rounded-lg transition-colors"
+          >
+            {submitting && <Loader2 className="w-4 h-4 animate-spin" />}
+            Reject Phase
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
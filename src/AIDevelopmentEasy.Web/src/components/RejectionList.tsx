@@ -0,0 +1,55 @@
+import { FileCode, ListTodo, XCircle } from 'lucide-react';
+import { PhaseRejectionDto, getPhaseLabel, getRejectionCategoryLabel } from '../types';
+
+interface RejectionListProps {
+  rejections: PhaseRejectionDto[];
+  /** Prefix each entry with its phase (for lists spanning several phases). */
+  showPhase?: boolean;
+}
+
+/**
+ * Past rejection feedback, newest first, so reviewers can see why a phase was redone.
+ */
+export function RejectionList({ rejections, showPhase = false }: RejectionListProps) {
+  if (rejections.length === 0) return null;
+
+  const newestFirst = [...rejections].sort((a, b) => Date.parse(b.rejectedAt) - Date.parse(a.rejectedAt));
+
+  return (
+    <ul className="space-y-2">
+      {newestFirst.map((rejection, i) => (
+        <li key={`${rejection.phase}-${rejection.rejectedAt}-${i}`} className="p-3 bg-red-500/5 border border-red-500/20 rounded-lg">
+          <div className="flex items-center gap-2 text-xs">
+            <XCircle className="w-3.5 h-3.5 text-red-400 flex-shrink-0" />
+            {showPhase && (
+              <span className="font-medium text-slate-200">{getPhaseLabel(rejection.phase)}</span>
+            )}
+            <span className="px-1.5 py-0.5 rounded bg-red-500/20 text-red-300">
+              {getRejectionCategoryLabel(rejection.category)}
+            </span>
+            <span className="ml-auto text-slate-500">{new Date(rejection.rejectedAt).toLocaleString()}</span>
+          </div>
+          {rejection.reason && (
+            <p className="mt-1.5 text-sm text-slate-300 whitespace-pre-wrap">{rejection.reason}</p>
+          )}
+          {(rejection.taskReferences.length > 0 || rejection.fileReferences.length > 0) && (
+            <div className="mt-1.5 flex flex-wrap gap-1.5 text-[11px]">
+              {rejection.taskReferences.map(index => (
+                <span key={`task-${index}`} className="inline-flex items-center gap-1 px-1.5 py-0.5 rounded bg-slate-700 text-slate-300">
+                  <ListTodo className="w-3 h-3" />
+                  Task #{index}
+                </span>
+              ))}
+              {rejection.fileReferences.map(file => (
+                <span key={`file-${file}`} className="inline-flex items-center gap-1 px-1.5 py-0.5 rounded bg-slate-700 text-slate-300 font-mono">
+                  <FileCode className="w-3 h-3" />
+                  {file}
+                </span>
+              ))}
+            </div>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,320 @@
+import { useMemo, useState } from 'react';
+import { AlertTriangle, ArrowRight, ChevronDown, ChevronRight, GitCompare, Repeat, Wrench } from 'lucide-react';
+import {
+  RetryAttemptDto,
+  TestSummaryDto,
+  getFixTaskTypeLabel,
+  getRetryActionLabel,
+  getRetryReasonLabel
+} from '../types';
+import {
+  ConvergenceKind,
+  compareFailures,
+  findRepeatedAttempts,
+  getAttemptComparisonDiffs,
+  getAttemptDiffs,
+  getAttemptResult,
+  getConvergence
+} from '../services/retryHistory';
+import { DiffViewer } from './DiffViewer';
+
+interface RetryAttemptHistoryProps {
+  /** Retry attempts of the run, oldest first. */
+  history: RetryAttemptDto[];
+  /** UnitTesting runs of the run; each attempt's result is the run tagged with its number. */
+  testRuns: TestSummaryDto[];
+}
+
+const CONVERGENCE_BADGES: Record<ConvergenceKind, { label: string; className: string; hint: string }> = {
+  converging: {
+    label: 'Converging',
+    className: 'bg-emerald-500/20 text-emerald-300',
+    hint: 'The last attempt fixed tests without breaking others.'
+  },
+  stalled: {
+    label: 'Stalled',
+    className: 'bg-amber-500/20 text-amber-300',
+    hint: 'The last attempt left exactly the same tests failing.'
+  },
+  diverging: {
+    label: 'Diverging',
+    className: 'bg-red-500/20 text-red-300',
+    hint: 'More tests fail than before the last attempt.'
+  },
+  unknown: {
+    label: 'Not enough data',
+    className: 'bg-slate-600/50 text-slate-400',
+    hint: 'No attempt has been tested yet.'
+  }
+};
+
+function TestKeyList({ title, keys, className }: { title: string; keys: string[]; className: string }) {
+  return (
+    <div className="p-2 bg-slate-900/50 rounded-lg border border-slate-700 min-w-0">
+      <div className={`text-xs font-medium mb-1 ${className}`}>{title} ({keys.length})</div>
+      {keys.length === 0 ? (
+        <div className="text-xs text-slate-600">None</div>
+      ) : (
+        <ul className="space-y-0.5 max-h-40 overflow-y-auto">
+          {keys.map(key => (
+            <li key={key} className="text-xs font-mono text-slate-300 truncate" title={key}>{key}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+function AttemptCard({
+  attempt,
+  result,
+  repeats,
+  isExpanded,
+  onToggle
+}: {
+  attempt: RetryAttemptDto;
+  result?: TestSummaryDto;
+  repeats: number[];
+  isExpanded: boolean;
+  onToggle: () => void;
+}) {
+  const diffs = useMemo(() => (isExpanded ? getAttemptDiffs(attempt) : []), [isExpanded, attempt]);
+  const failedBefore = attempt.testSummary?.failed;
+
+  return (
+    <div className="rounded-lg border border-slate-700 bg-slate-800/30 overflow-hidden">
+      <button
+        type="button"
+        onClick={onToggle}
+        className="w-full p-3 flex items-center gap-3 text-left hover:bg-slate-800/50"
+      >
+        {isExpanded ? <ChevronDown className="w-4 h-4 text-slate-500" /> : <ChevronRight className="w-4 h-4 text-slate-500" />}
+        <div className="flex-1 min-w-0">
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="font-medium text-slate-200">Attempt #{attempt.attempt}</span>
+            <span className="text-xs px-2 py-0.5 rounded bg-orange-500/20 text-orange-300">{getRetryReasonLabel(attempt.reason)}</span>
+            {attempt.action != null ? (
+              <span className="text-xs px-2 py-0.5 rounded bg-slate-600/50 text-slate-300">{getRetryActionLabel(attempt.action)}</span>
+            ) : (
+              <span className="text-xs px-2 py-0.5 rounded bg-amber-500/20 text-amber-300">Waiting for decision</span>
+            )}
+            {attempt.testSummary?.isBreakingChange && (
+              <span className="text-xs px-2 py-0.5 rounded bg-red-500/20 text-red-300">Breaking change</span>
+            )}
+            {repeats.length > 0 && (
+              <span
+                className="flex items-center gap-1 text-xs px-2 py-0.5 rounded bg-amber-500/20 text-amber-300"
+                title="Some files were changed back to code produced by an earlier attempt"
+              >
+                <Repeat className="w-3 h-3" />
+                Repeats #{repeats.join(', #')}
+              </span>
+            )}
+          </div>
+          <div className="mt-0.5 flex flex-wrap items-center gap-2 text-xs text-slate-500">
+            <span>{new Date(attempt.requestedAt).toLocaleString()}</span>
+            <span>•</span>
+            <span>{attempt.fixTasks.length} fix task(s)</span>
+            <span>•</span>
+            <span>{attempt.changes.length} file(s) changed</span>
+          </div>
+        </div>
+        <div className="flex items-center gap-2 text-sm font-mono">
+          <span className="text-red-400" title="Failing tests that triggered the attempt">{failedBefore ?? '?'}</span>
+          <ArrowRight className="w-3.5 h-3.5 text-slate-500" />
+          <span
+            className={result ? (result.failed === 0 ? 'text-emerald-400' : 'text-red-400') : 'text-slate-500'}
+            title="Failing tests after the attempt"
+          >
+            {result ? result.failed : '…'}
+          </span>
+        </div>
+      </button>
+
+      {isExpanded && (
+        <div className="px-3 pb-3 border-t border-slate-700/50 space-y-3">
+          {attempt.error && (
+            <p className="pt-3 text-sm text-red-400">{attempt.error}</p>
+          )}
+
+          {attempt.fixTasks.length > 0 && (
+            <div className="pt-3">
+              <div className="text-xs text-slate-500 mb-2 flex items-center gap-1">
+                <Wrench className="w-3 h-3" />
+                Fix tasks
+              </div>
+              <div className="space-y-2">
+                {attempt.fixTasks.map((task, i) => (
+                  <div key={i} className="p-2 bg-slate-900/50 rounded-lg border border-slate-700">
+                    <div className="flex flex-wrap items-center gap-2 text-sm">
+                      <span className="text-slate-200">{task.title}</span>
+                      <span className="text-xs px-2 py-0.5 bg-slate-700 rounded text-slate-400">{getFixTaskTypeLabel(task.type)}</span>
+                      {task.targetFile && <span className="text-xs text-slate-500 font-mono">{task.targetFile}</span>}
+                    </div>
+                    {task.errorMessage && (
+                      <div className="mt-1 text-xs text-red-400 font-mono whitespace-pre-wrap break-words">{task.errorMessage}</div>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {diffs.length > 0 ? (
+            <div className="pt-1">
+              <div className="text-xs text-slate-500 mb-2">Code changes</div>
+              <DiffViewer files={diffs} />
+            </div>
+          ) : (
+            <p className="text-xs text-slate-500">
+              {attempt.startedAt ? 'The fix tasks did not change any file.' : 'The attempt has not run yet.'}
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Every retry attempt of a run with its trigger, fix tasks and code changes, the failing-test
+ * trend across attempts and a side-by-side comparison of any two attempts.
+ */
+export function RetryAttemptHistory({ history, testRuns }: RetryAttemptHistoryProps) {
+  const [expanded, setExpanded] = useState<Set<number>>(new Set());
+  const [comparing, setComparing] = useState(false);
+  const [left, setLeft] = useState<number | null>(null);
+  const [right, setRight] = useState<number | null>(null);
+
+  const convergence = useMemo(() => getConvergence(history, testRuns), [history, testRuns]);
+
+  // Defaults compare the two latest attempts
+  const leftAttempt = left ?? history[Math.max(history.length - 2, 0)]?.attempt;
+  const rightAttempt = right ?? history[history.length - 1]?.attempt;
+
+  const comparison = useMemo(() => {
+    if (!comparing || leftAttempt === undefined || rightAttempt === undefined) return null;
+    const a = history.find(r => r.attempt === leftAttempt);
+    const b = history.find(r => r.attempt === rightAttempt);
+    return {
+      failures: compareFailures(a && getAttemptResult(a, testRuns), b && getAttemptResult(b, testRuns)),
+      tested: !!(a && getAttemptResult(a, testRuns) && b && getAttemptResult(b, testRuns)),
+      diffs: getAttemptComparisonDiffs(history, leftAttempt, rightAttempt)
+    };
+  }, [comparing, history, testRuns, leftAttempt, rightAttempt]);
+
+  if (history.length === 0) {
+    return <p className="text-sm text-slate-500">No retry attempts in this run.</p>;
+  }
+
+  const badge = CONVERGENCE_BADGES[convergence.kind];
+
+  const toggle = (attempt: number) => {
+    setExpanded(prev => {
+      const next = new Set(prev);
+      if (next.has(attempt)) {
+        next.delete(attempt);
+      } else {
+        next.add(attempt);
+      }
+      return next;
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      {/* Failing tests across attempts */}
+      <div className="p-3 bg-slate-900/50 rounded-lg border border-slate-700">
+        <div className="flex flex-wrap items-center gap-2">
+          {convergence.points.map((point, i) => (
+            <div key={point.label} className="flex items-center gap-2">
+              {i > 0 && <ArrowRight className="w-3.5 h-3.5 text-slate-600" />}
+              <div className="text-center">
+                <div className="text-[10px] text-slate-500">{point.label}</div>
+                <div className={`text-sm font-mono ${point.failed === null ? 'text-slate-500' : point.failed === 0 ? 'text-emerald-400' : 'text-red-400'}`}>
+                  {point.failed ?? '…'}
+                </div>
+              </div>
+            </div>
+          ))}
+          <span className={`ml-auto text-xs px-2 py-0.5 rounded ${badge.className}`} title={badge.hint}>{badge.label}</span>
+        </div>
+        <p className="mt-2 text-xs text-slate-500">Failing tests before the first retry and after each attempt. {badge.hint}</p>
+      </div>
+
+      {/* Attempts / comparison */}
+      <div className="flex items-center justify-between">
+        <h4 className="text-sm font-semibold text-slate-400">
+          {comparing ? 'Compare attempts' : `Attempts (${history.length})`}
+        </h4>
+        {history.length > 1 && (
+          <button
+            type="button"
+            onClick={() => setComparing(v => !v)}
+            className={`flex items-center gap-1.5 px-2.5 py-1 text-xs rounded-lg border transition-colors ${comparing
+              ? 'border-blue-500 bg-blue-600 text-white'
+              : 'border-slate-700 bg-slate-800 text-slate-400 hover:text-white'
+              }`}
+          >
+            <GitCompare className="w-3.5 h-3.5" />
+            Compare
+          </button>
+        )}
+      </div>
+
+      {comparing && comparison ? (
+        <div className="space-y-4">
+          <div className="flex items-center gap-3 text-sm">
+            <select
+              value={leftAttempt}
+              onChange={e => setLeft(Number(e.target.value))}
+              className="px-3 py-1.5 bg-slate-900 border border-slate-700 rounded-lg text-white focus:outline-none focus:border-blue-500"
+            >
+              {history.map(r => <option key={r.attempt} value={r.attempt}>After attempt #{r.attempt}</option>)}
+            </select>
+            <ArrowRight className="w-4 h-4 text-slate-500" />
+            <select
+              value={rightAttempt}
+              onChange={e => setRight(Number(e.target.value))}
+              className="px-3 py-1.5 bg-slate-900 border border-slate-700 rounded-lg text-white focus:outline-none focus:border-blue-500"
+            >
+              {history.map(r => <option key={r.attempt} value={r.attempt}>After attempt #{r.attempt}</option>)}
+            </select>
+          </div>
+
+          {comparison.tested ? (
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+              <TestKeyList title="Fixed" keys={comparison.failures.fixed} className="text-emerald-400" />
+              <TestKeyList title="Still failing" keys={comparison.failures.stillFailing} className="text-amber-400" />
+              <TestKeyList title="Newly failing" keys={comparison.failures.newlyFailing} className="text-red-400" />
+            </div>
+          ) : (
+            <div className="flex items-center gap-2 text-xs text-slate-500">
+              <AlertTriangle className="w-3.5 h-3.5" />
+              Test results are only compared once both attempts have been tested.
+            </div>
+          )}
+
+          {comparison.diffs.length > 0 ? (
+            <DiffViewer files={comparison.diffs} />
+          ) : (
+            <p className="text-xs text-slate-500">The code is the same after both attempts.</p>
+          )}
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {history.map(attempt => (
+            <AttemptCard
+              key={attempt.attempt}
+              attempt={attempt}
+              result={getAttemptResult(attempt, testRuns)}
+              repeats={findRepeatedAttempts(history, attempt)}
+              isExpanded={expanded.has(attempt.attempt)}
+              onToggle={() => toggle(attempt.attempt)}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,216 @@
+import { useMemo, useState } from 'react';
+import { CheckCircle, ChevronDown, ChevronRight, FileCode, Loader2, Wrench, XCircle } from 'lucide-react';
+import { REVIEW_SEVERITIES, ReviewSeverity, getReviewSeverityColor } from '../types';
+import { parseReviewReport, type ReviewFinding } from '../services/reviewReport';
+import { MarkdownText } from './MarkdownText';
+
+interface ReviewReportViewerProps {
+  /** Raw reviewer output */
+  report: string;
+  /** Open the finding's file at its line in the generated output */
+  onOpenFinding: (finding: ReviewFinding) => void;
+  /** Only while the Reviewing phase waits for approval */
+  onCreateFixTasks?: (findings: ReviewFinding[]) => void;
+  creatingFixTasks?: boolean;
+}
+
+/**
+ * Code review report: verdict, findings by severity and category with links to the
+ * generated files, and the reviewer's notes. While the review waits for approval,
+ * selected findings can be sent back to Coding as fix tasks.
+ */
+export function ReviewReportViewer({
+  report,
+  onOpenFinding,
+  onCreateFixTasks,
+  creatingFixTasks = false
+}: ReviewReportViewerProps) {
+  const parsed = useMemo(() => parseReviewReport(report), [report]);
+  const [severity, setSeverity] = useState<ReviewSeverity | ''>('');
+  const [category, setCategory] = useState('');
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [showNotes, setShowNotes] = useState(false);
+
+  const categories = [...new Set(parsed.findings.map(f => f.category).filter((c): c is string => !!c))].sort();
+  const visible = parsed.findings.filter(f =>
+    (!severity || f.severity === severity) && (!category || f.category === category));
+  const selected = parsed.findings.filter(f => selectedIds.has(f.id));
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const hasNotes = parsed.markdown.length > 0 || parsed.requirementsMet.length > 0 || parsed.improvements.length > 0;
+
+  return (
+    <div className="space-y-4">
+      {/* Verdict */}
+      <div className="flex items-start gap-3">
+        {parsed.approved === null ? null : parsed.approved ? (
+          <CheckCircle className="w-5 h-5 text-emerald-400 flex-shrink-0 mt-0.5" />
+        ) : (
+          <XCircle className="w-5 h-5 text-red-400 flex-shrink-0 mt-0.5" />
+        )}
+        <div className="min-w-0 space-y-1">
+          <div className="flex flex-wrap items-center gap-2">
+            <span className={`text-sm font-medium ${parsed.approved === false ? 'text-red-400' : 'text-emerald-400'}`}>
+              {parsed.approved === null ? 'No verdict' : parsed.approved ? 'Approved by reviewer' : 'Not approved by reviewer'}
+            </span>
+            {parsed.verdicts.map(v => (
+              <span key={v} className="text-xs px-2 py-0.5 rounded bg-slate-700 text-slate-300">{v}</span>
+            ))}
+          </div>
+          {parsed.summaries.map((s, i) => (
+            <p key={i} className="text-sm text-slate-400">{s}</p>
+          ))}
+        </div>
+      </div>
+
+      {/* Filters */}
+      <div className="flex flex-wrap items-center gap-2">
+        <button
+          onClick={() => setSeverity('')}
+          className={`text-xs px-2 py-1 rounded transition-colors ${!severity ? 'bg-blue-600 text-white' : 'bg-slate-700 text-slate-300 hover:bg-slate-600'}`}
+        >
+          All ({parsed.findings.length})
+        </button>
+        {REVIEW_SEVERITIES.map(s => {
+          const count = parsed.findings.filter(f => f.severity === s).length;
+          return (
+            <button
+              key={s}
+              onClick={() => setSeverity(severity === s ? '' : s)}
+              className={`text-xs px-2 py-1 rounded capitalize transition-colors ${severity === s ? 'ring-1 ring-blue-500 ' : ''}${getReviewSeverityColor(s)}`}
+            >
+              {s} ({count})
+            </button>
+          );
+        })}
+        {categories.length > 0 && (
+          <select
+            value={category}
+            onChange={e => setCategory(e.target.value)}
+            className="ml-auto px-2 py-1 bg-slate-900 border border-slate-700 rounded-lg text-xs text-white capitalize focus:outline-none focus:border-blue-500"
+          >
+            <option value="">All categories</option>
+            {categories.map(c => <option key={c} value={c}>{c}</option>)}
+          </select>
+        )}
+      </div>
+
+      {/* Findings */}
+      {visible.length === 0 ? (
+        <p className="text-sm text-slate-500">
+          {parsed.findings.length === 0 ? 'The reviewer reported no issues.' : 'No findings match the filters.'}
+        </p>
+      ) : (
+        <div className="bg-slate-900/40 border border-slate-700 rounded-lg divide-y divide-slate-700/50">
+          {visible.map(finding => (
+            <div key={finding.id} className="flex items-start gap-3 p-3">
+              {onCreateFixTasks && (
+                <input
+                  type="checkbox"
+                  checked={selectedIds.has(finding.id)}
+                  onChange={() => toggleSelected(finding.id)}
+                  disabled={creatingFixTasks}
+                  className="mt-1 accent-blue-500"
+                  title="Send to Coding as a fix task"
+                />
+              )}
+              <div className="flex-1 min-w-0 space-y-1">
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className={`text-xs px-2 py-0.5 rounded capitalize ${getReviewSeverityColor(finding.severity)}`}>
+                    {finding.severity}
+                  </span>
+                  {finding.category && (
+                    <span className="text-xs px-2 py-0.5 rounded bg-slate-700 text-slate-300 capitalize">{finding.category}</span>
+                  )}
+                  {finding.file && (
+                    <button
+                      onClick={() => onOpenFinding(finding)}
+                      className="flex items-center gap-1 text-xs font-mono text-blue-400 hover:text-blue-300 transition-colors"
+                      title="Open in the generated output"
+                    >
+                      <FileCode className="w-3 h-3" />
+                      {finding.file}{finding.line ? `:${finding.line}` : ''}
+                    </button>
+                  )}
+                </div>
+                <p className="text-sm text-slate-200">{finding.description}</p>
+                {finding.suggestion && (
+                  <p className="text-xs text-slate-400">
+                    <span className="text-slate-500">Suggestion:</span> {finding.suggestion}
+                  </p>
+                )}
+              </div>
+              {onCreateFixTasks && (
+                <button
+                  onClick={() => onCreateFixTasks([finding])}
+                  disabled={creatingFixTasks}
+                  className="flex items-center gap-1 px-2 py-1 text-xs text-slate-300 hover:text-white bg-slate-700 hover:bg-slate-600 disabled:opacity-50 rounded transition-colors flex-shrink-0"
+                  title="Send this finding back to Coding as a fix task"
+                >
+                  <Wrench className="w-3 h-3" />
+                  Create fix task
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {onCreateFixTasks && selected.length > 0 && (
+        <div className="flex items-center justify-end gap-3">
+          <span className="text-xs text-slate-500">The review is rejected and Coding runs again with the fix tasks</span>
+          <button
+            onClick={() => onCreateFixTasks(selected)}
+            disabled={creatingFixTasks}
+            className="flex items-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white text-sm font-medium rounded-lg transition-colors"
+          >
+            {creatingFixTasks ? <Loader2 className="w-4 h-4 animate-spin" /> : <Wrench className="w-4 h-4" />}
+            Fix {selected.length} Selected
+          </button>
+        </div>
+      )}
+
+      {/* Reviewer notes */}
+      {hasNotes && (
+        <div>
+          <button
+            onClick={() => setShowNotes(!showNotes)}
+            className="flex items-center gap-1 text-sm text-slate-400 hover:text-white transition-colors"
+          >
+            {showNotes ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+            Reviewer notes
+          </button>
+          {showNotes && (
+            <div className="mt-3 space-y-4 pl-5">
+              {parsed.markdown && <MarkdownText text={parsed.markdown} />}
+              {parsed.requirementsMet.length > 0 && (
+                <div>
+                  <div className="text-xs font-medium uppercase tracking-wide text-slate-500 mb-1">Requirements met</div>
+                  <ul className="list-disc pl-5 space-y-1 text-sm text-slate-300">
+                    {parsed.requirementsMet.map((r, i) => <li key={i}>{r}</li>)}
+                  </ul>
+                </div>
+              )}
+              {parsed.improvements.length > 0 && (
+                <div>
+                  <div className="text-xs font-medium uppercase tracking-wide text-slate-500 mb-1">Possible improvements</div>
+                  <ul className="list-disc pl-5 space-y-1 text-sm text-slate-300">
+                    {parsed.improvements.map((r, i) => <li key={i}>{r}</li>)}
+                  </ul>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,83 @@
+import { useEffect, useMemo, type ReactNode } from 'react';
+import { createPipelineHub } from '../services/pipelineHub';
+import { invalidateQueries, queryKeys } from '../services/queryCache';
+import { SignalRContext } from '../hooks/signalRContext';
+import { useBackendProfile } from '../hooks/useBackendProfile';
+import type { PipelineUpdateType } from '../types';
+
+// Update types that change a story's status/tasks (LLM and progress chatter does not)
+const STORY_STATE_UPDATES = new Set<PipelineUpdateType>([
+  'PhaseStarted',
+  'PhaseCompleted',
+  'PhasePendingApproval',
+  'PhaseFailed',
+  'PipelineCompleted',
+  'RetryRequired',
+  'RetryStarting',
+  'Error'
+]);
+
+// Prefix of every requirement's story graph, which shows story and queue state
+const REQUIREMENT_GRAPHS = 'requirement-graph';
+
+interface SignalRProviderProps {
+  children: ReactNode;
+}
+
+/**
+ * Owns the single hub connection for the app. Switching backend profile replaces the
+ * hub, which tears the old connection down and connects to the new base URL.
+ */
+export function SignalRProvider({ children }: SignalRProviderProps) {
+  const { activeProfile } = useBackendProfile();
+  const hub = useMemo(() => createPipelineHub(activeProfile.baseUrl), [activeProfile.baseUrl]);
+
+  useEffect(() => {
+    const unsubscribers = [
+      hub.on('PipelineUpdate', message => {
+        if (STORY_STATE_UPDATES.has(message.updateType)) {
+          invalidateQueries(queryKeys.story(message.storyId));
+          invalidateQueries(queryKeys.stories);
+          invalidateQueries(REQUIREMENT_GRAPHS);
+        }
+      }),
+      hub.on('StoryListChanged', () => {
+        invalidateQueries(queryKeys.stories);
+        invalidateQueries(queryKeys.runningPipelines);
+        invalidateQueries(REQUIREMENT_GRAPHS);
+      }),
+      hub.on('QueueChanged', () => {
+        invalidateQueries(queryKeys.pipelineQueue);
+        invalidateQueries(queryKeys.runningPipelines);
+        invalidateQueries(REQUIREMENT_GRAPHS);
+      }),
+      hub.on('StoryCompleted', storyId => {
+        invalidateQueries(queryKeys.story(storyId));
+        invalidateQueries(queryKeys.stories);
+        invalidateQueries(REQUIREMENT_GRAPHS);
+      })
+    ];
+
+    // Events may have been missed while disconnected
+    let wasConnected = hub.getSnapshot().isConnected;
+    unsubscribers.push(hub.subscribeConnection(() => {
+      const { isConnected } = hub.getSnapshot();
+      if (isConnected && !wasConnected) {
+        invalidateQueries(queryKeys.stories);
+        invalidateQueries('story');
+        invalidateQueries(queryKeys.pipelineQueue);
+        invalidateQueries(queryKeys.runningPipelines);
+        invalidateQueries(REQUIREMENT_GRAPHS);
+      }
+      wasConnected = isConnected;
+    }));
+
+    hub.start();
+    return () => {
+      unsubscribers.forEach(unsubscribe => unsubscribe());
+      hub.stop();
+    };
+  }, [hub]);
+
+  return <SignalRContext.Provider value={hub}>{children}</SignalRContext.Provider>;
+}
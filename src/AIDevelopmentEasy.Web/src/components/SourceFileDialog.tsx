@@ -0,0 +1,86 @@
+import { useEffect } from 'react';
+import { AlertCircle, FileCode, Loader2, X } from 'lucide-react';
+import { SourceFileDto } from '../types';
+
+interface SourceFileDialogProps {
+  /** Path as it appeared in the stack trace or review finding. */
+  path: string;
+  /** 1-based line to highlight; the file opens at the top without one. */
+  line?: number | null;
+  file?: SourceFileDto;
+  isLoading: boolean;
+  error: string | null;
+  onClose: () => void;
+}
+
+/** Read-only view of a file scrolled to a line, opened from stack trace frames and review findings. */
+export function SourceFileDialog({ path, line, file, isLoading, error, onClose }: SourceFileDialogProps) {
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    document.addEventListener('keydown', onKeyDown);
+    return () => document.removeEventListener('keydown', onKeyDown);
+  }, [onClose]);
+
+  const lines = file?.content.split(/\r?\n/) ?? [];
+
+  return (
+    <div className="fixed inset-0 bg-black/70 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+      <div className="bg-slate-800 border border-slate-700 rounded-2xl w-full max-w-5xl max-h-[90vh] overflow-hidden flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-slate-700">
+          <div className="flex items-center gap-3 min-w-0">
+            <div className="w-10 h-10 bg-blue-500/20 rounded-lg flex items-center justify-center flex-shrink-0">
+              <FileCode className="w-5 h-5 text-blue-400" />
+            </div>
+            <div className="min-w-0">
+              <h2 className="text-xl font-bold text-white truncate">{(file?.path ?? path).split(/[\\/]/).pop()}</h2>
+              <p className="text-xs text-slate-400 font-mono truncate">{file?.path ?? path}{line ? `:${line}` : ''}</p>
+            </div>
+          </div>
+          <button
+            type="button"
+            onClick={onClose}
+            className="p-2 hover:bg-slate-700 rounded-lg transition-colors text-slate-400 hover:text-white"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="flex-1 overflow-auto">
+          {isLoading ? (
+            <div className="flex items-center justify-center gap-2 py-12 text-slate-400">
+              <Loader2 className="w-5 h-5 animate-spin" />
+              Loading file...
+            </div>
+          ) : error || !file ? (
+            <div className="m-6 flex items-center gap-2 p-4 bg-red-500/10 border border-red-500/30 rounded-lg text-sm text-red-400">
+              <AlertCircle className="w-4 h-4 flex-shrink-0" />
+              {error ?? 'File not available'}
+            </div>
+          ) : (
+            <pre className="py-2 text-xs leading-5 font-mono">
+              {lines.map((text, i) => {
+                const isTarget = i + 1 === line;
+                return (
+                  <div
+                    key={i}
+                    ref={isTarget ? el => el?.scrollIntoView({ block: 'center' }) : undefined}
+                    className={`flex ${isTarget ? 'bg-red-500/20' : ''}`}
+                  >
+                    <span className={`w-14 flex-shrink-0 pr-3 text-right select-none ${isTarget ? 'text-red-300' : 'text-slate-600'}`}>
+                      {i + 1}
+                    </span>
+                    <span className="text-slate-300 whitespace-pre">{text}</span>
+                  </div>
+                );
+              })}
+            </pre>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
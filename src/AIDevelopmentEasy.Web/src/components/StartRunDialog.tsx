@@ -0,0 +1,180 @@
+import { useEffect, useState } from 'react';
+import { Loader2, Pause, Play, ShieldCheck, X, Zap } from 'lucide-react';
+import {
+  ApprovalPolicyDto,
+  APPROVAL_GATE_PHASES,
+  APPROVAL_GATE_WIZARD_PHASES,
+  MANUAL_APPROVAL_POLICY_ID,
+  getPhaseLabel,
+  getWizardPhaseLabel
+} from '../types';
+
+interface StartRunDialogProps {
+  /** Pipeline gates or requirement wizard gates. */
+  kind: 'pipeline' | 'wizard';
+  title: string;
+  policies: ApprovalPolicyDto[];
+  /** Policy assigned to the story or codebase; preselected. */
+  assignedPolicyId?: string | null;
+  /** Where the assigned policy comes from, e.g. "story" or "codebase". */
+  assignedFrom?: string;
+  starting?: boolean;
+  onStart: (approvalPolicyId: string) => void;
+  onCancel: () => void;
+}
+
+interface Gate {
+  key: number;
+  label: string;
+  auto: boolean;
+}
+
+/**
+ * Start a pipeline or wizard run with a chosen approval policy, previewing which
+ * gates will continue on their own and which will stop for a decision.
+ */
+export function StartRunDialog({
+  kind,
+  title,
+  policies,
+  assignedPolicyId,
+  assignedFrom,
+  starting = false,
+  onStart,
+  onCancel
+}: StartRunDialogProps) {
+  const assigned = policies.find(p => p.id === assignedPolicyId);
+  const [policyId, setPolicyId] = useState(assigned?.id ?? MANUAL_APPROVAL_POLICY_ID);
+  const policy = policies.find(p => p.id === policyId);
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape' && !starting) onCancel();
+    };
+    document.addEventListener('keydown', onKeyDown);
+    return () => document.removeEventListener('keydown', onKeyDown);
+  }, [onCancel, starting]);
+
+  const gates: Gate[] = kind === 'pipeline'
+    ? APPROVAL_GATE_PHASES.map(phase => ({
+      key: phase,
+      label: getPhaseLabel(phase),
+      auto: policy?.autoApprovePhases.includes(phase) ?? false
+    }))
+    : APPROVAL_GATE_WIZARD_PHASES.map(phase => ({
+      key: phase,
+      label: getWizardPhaseLabel(phase),
+      auto: policy?.autoApproveWizardPhases.includes(phase) ?? false
+    }));
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!starting) onStart(policyId);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/70 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+      <form
+        onSubmit={handleSubmit}
+        className="bg-slate-800 border border-slate-700 rounded-2xl w-full max-w-lg max-h-[90vh] overflow-hidden flex flex-col"
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-slate-700">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 bg-blue-500/20 rounded-lg flex items-center justify-center">
+              <ShieldCheck className="w-5 h-5 text-blue-400" />
+            </div>
+            <div>
+              <h2 className="text-xl font-bold text-white">{title}</h2>
+              <p className="text-sm text-slate-400">Choose which approval gates continue on their own</p>
+            </div>
+          </div>
+          <button
+            type="button"
+            onClick={onCancel}
+            disabled={starting}
+            className="p-2 hover:bg-slate-700 rounded-lg transition-colors text-slate-400 hover:text-white"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="flex-1 overflow-y-auto p-6 space-y-5">
+          <div>
+            <label htmlFor="approval-policy" className="block text-sm font-medium text-slate-300 mb-2">
+              Approval policy
+            </label>
+            <select
+              id="approval-policy"
+              value={policyId}
+              onChange={e => setPolicyId(e.target.value)}
+              className="w-full px-3 py-2 bg-slate-900 border border-slate-700 rounded-lg text-sm text-white focus:outline-none focus:border-blue-500"
+            >
+              <option value={MANUAL_APPROVAL_POLICY_ID}>Manual - every gate waits for approval</option>
+              {policies.map(p => (
+                <option key={p.id} value={p.id}>
+                  {p.name}{p.id === assigned?.id && assignedFrom ? ` (${assignedFrom} default)` : ''}
+                </option>
+              ))}
+            </select>
+            {policy?.description && <p className="mt-2 text-xs text-slate-400">{policy.description}</p>}
+            {assignedPolicyId && !assigned && (
+              <p className="mt-2 text-xs text-amber-400">
+                ⚠️ The policy assigned to this {assignedFrom ?? 'item'} no longer exists.
+              </p>
+            )}
+          </div>
+
+          <div>
+            <div className="text-sm font-medium text-slate-300 mb-2">Gates</div>
+            <div className="space-y-1 p-2 bg-slate-900/40 border border-slate-700 rounded-lg">
+              {gates.map(gate => (
+                <div key={gate.key} className="flex items-center justify-between px-2 py-1 text-sm">
+                  <span className="text-slate-300">{gate.label}</span>
+                  {gate.auto ? (
+                    <span className="flex items-center gap-1 text-xs px-2 py-0.5 rounded bg-emerald-500/20 text-emerald-400">
+                      <Zap className="w-3 h-3" />
+                      Auto-approve
+                    </span>
+                  ) : (
+                    <span className="flex items-center gap-1 text-xs px-2 py-0.5 rounded bg-amber-500/20 text-amber-400">
+                      <Pause className="w-3 h-3" />
+                      Stop for approval
+                    </span>
+                  )}
+                </div>
+              ))}
+            </div>
+            <p className="mt-2 text-xs text-slate-500">
+              {kind === 'pipeline'
+                ? 'An auto-approved Unit Testing gate also auto-fixes failed tests; an auto-approved Pull Request completes without a PR.'
+                : 'Questions and story selection always wait for your input.'}
+              {' '}Every auto-approval is recorded in the phase history.
+            </p>
+          </div>
+        </div>
+
+        {/* Footer */}
+        <div className="p-4 border-t border-slate-700 flex justify-end gap-3">
+          <button
+            type="button"
+            onClick={onCancel}
+            disabled={starting}
+            className="px-4 py-2 bg-slate-700 hover:bg-slate-600 text-white rounded-lg transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={starting}
+            className="flex items-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed text-white font-medium rounded-lg transition-colors"
+          >
+            {starting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Play className="w-4 h-4" />}
+            Start
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
@@ -10,17 +10,33 @@ interface StoryCardProps {
   onStart: (id: string) => void;
   onReset: (id: string) => void;
   onDelete: (id: string) => void;
+  /** Position in the batch selection (1-based); undefined when not selected */
+  selectionIndex?: number;
+  /** Shows a selection checkbox for stories that can be started */
+  onToggleSelect?: (id: string) => void;
 }
 
-export function StoryCard({ story, codebaseName, codebasePath, onStart, onReset, onDelete }: StoryCardProps) {
+export function StoryCard({ story, codebaseName, codebasePath, onStart, onReset, onDelete, selectionIndex, onToggleSelect }: StoryCardProps) {
   const isCompleted = story.status === StoryStatus.Completed;
   const isRunning = story.status === StoryStatus.InProgress;
   const canStart = !isRunning && story.status !== StoryStatus.Completed;
+  const isSelected = selectionIndex !== undefined;
 
   return (
-    <div className="bg-slate-800/50 backdrop-blur border border-slate-700 rounded-xl p-5 hover:border-blue-500/50 transition-all duration-300 animate-slide-in">
+    <div className={`bg-slate-800/50 backdrop-blur border rounded-xl p-5 hover:border-blue-500/50 transition-all duration-300 animate-slide-in ${isSelected ? 'border-blue-500' : 'border-slate-700'}`}>
       <div className="flex items-start justify-between mb-4">
         <div className="flex items-center gap-3">
+          {onToggleSelect && canStart && (
+            <label className="flex items-center gap-1 cursor-pointer" title="Select for the batch queue">
+              <input
+                type="checkbox"
+                checked={isSelected}
+                onChange={() => onToggleSelect(story.id)}
+                className="w-4 h-4 rounded border-slate-600 bg-slate-700 text-blue-500 focus:ring-blue-500"
+              />
+              {isSelected && <span className="text-xs font-mono text-blue-400">#{selectionIndex}</span>}
+            </label>
+          )}
           <div className="p-2 bg-blue-500/20 rounded-lg">
             <FileText className="w-5 h-5 text-blue-400" />
           </div>
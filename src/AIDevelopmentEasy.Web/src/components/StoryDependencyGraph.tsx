@@ -0,0 +1,194 @@
+import { Link } from 'react-router-dom';
+import { AlertTriangle, GitBranch, Loader2, Play } from 'lucide-react';
+import {
+  StoryGraphDto,
+  StoryGraphNodeDto,
+  StoryStatus,
+  QueueItemState,
+  getStatusLabel
+} from '../types';
+
+interface StoryDependencyGraphProps {
+  graph: StoryGraphDto;
+  running?: boolean;
+  onRun: () => void;
+}
+
+const NODE_WIDTH = 208;
+const NODE_HEIGHT = 56;
+const COLUMN_GAP = 72;
+const ROW_GAP = 16;
+
+type NodeState = 'completed' | 'running' | 'queued' | 'blocked' | 'failed' | 'cancelled' | 'idle';
+
+const NODE_STYLES: Record<NodeState, string> = {
+  completed: 'border-emerald-500/60 bg-emerald-500/10',
+  running: 'border-blue-500 bg-blue-500/15 animate-pulse',
+  queued: 'border-slate-400 border-dashed bg-slate-700/40',
+  blocked: 'border-orange-500/60 bg-orange-500/10',
+  failed: 'border-red-500/60 bg-red-500/10',
+  cancelled: 'border-slate-600 bg-slate-800/60',
+  idle: 'border-slate-600 bg-slate-800'
+};
+
+// Idle stories show their own status instead
+const STATE_LABELS: Record<Exclude<NodeState, 'idle'>, string> = {
+  completed: 'Completed',
+  running: 'Running',
+  queued: 'Queued',
+  blocked: 'Blocked',
+  failed: 'Failed',
+  cancelled: 'Cancelled'
+};
+
+const STATE_TEXT: Record<NodeState, string> = {
+  completed: 'text-emerald-400',
+  running: 'text-blue-400',
+  queued: 'text-slate-300',
+  blocked: 'text-orange-400',
+  failed: 'text-red-400',
+  cancelled: 'text-slate-500',
+  idle: 'text-slate-400'
+};
+
+// States in which the story has a pipeline to look at
+const PIPELINE_STATES = new Set<NodeState>(['completed', 'running', 'failed']);
+
+// The queue item says more than the story status while the story is waiting or running
+function getNodeState(node: StoryGraphNodeDto): NodeState {
+  if (node.status === StoryStatus.Completed) return 'completed';
+  switch (node.queueState) {
+    case QueueItemState.Running: return 'running';
+    case QueueItemState.Queued: return 'queued';
+    case QueueItemState.Blocked: return 'blocked';
+    case QueueItemState.Failed: return 'failed';
+  }
+  if (node.status === StoryStatus.InProgress) return 'running';
+  if (node.status === StoryStatus.Failed) return 'failed';
+  if (node.queueState === QueueItemState.Cancelled) return 'cancelled';
+  return 'idle';
+}
+
+/**
+ * Stories of a requirement laid out by dependency level (left to right), with their
+ * live run status. Runs all unfinished stories in dependency order through the queue.
+ */
+export function StoryDependencyGraph({ graph, running = false, onRun }: StoryDependencyGraphProps) {
+  const levels = new Map<number, StoryGraphNodeDto[]>();
+  graph.nodes.forEach(node => {
+    levels.set(node.level, [...(levels.get(node.level) ?? []), node]);
+  });
+
+  const positions = new Map<string, { x: number; y: number }>();
+  const columns = [...levels.keys()].sort((a, b) => a - b);
+  columns.forEach((level, column) => {
+    levels.get(level)!.forEach((node, row) => {
+      positions.set(node.storyId, {
+        x: column * (NODE_WIDTH + COLUMN_GAP),
+        y: row * (NODE_HEIGHT + ROW_GAP)
+      });
+    });
+  });
+
+  const maxRows = Math.max(1, ...[...levels.values()].map(nodes => nodes.length));
+  const width = Math.max(1, columns.length) * (NODE_WIDTH + COLUMN_GAP) - COLUMN_GAP;
+  const height = maxRows * (NODE_HEIGHT + ROW_GAP) - ROW_GAP;
+
+  const states = new Map(graph.nodes.map(node => [node.storyId, getNodeState(node)]));
+  const remaining = graph.nodes.filter(n => n.status !== StoryStatus.Completed);
+  const inProgress = graph.nodes.some(n => n.queueState === QueueItemState.Queued || n.queueState === QueueItemState.Running);
+  const runDisabledReason = graph.hasCycle
+    ? 'Resolve the dependency cycle first'
+    : remaining.length === 0
+      ? 'All stories are completed'
+      : inProgress
+        ? 'Stories of this requirement are already queued or running'
+        : undefined;
+
+  return (
+    <div className="mt-6 bg-slate-800/50 backdrop-blur border border-slate-700 rounded-xl p-6">
+      <div className="flex items-center justify-between gap-4 mb-4">
+        <div className="flex items-center gap-3">
+          <GitBranch className="w-5 h-5 text-blue-400" />
+          <h2 className="text-lg font-semibold text-white">Stories</h2>
+          <span className="text-sm text-slate-400">
+            {graph.nodes.length - remaining.length}/{graph.nodes.length} completed
+          </span>
+        </div>
+        <button
+          onClick={onRun}
+          disabled={running || runDisabledReason !== undefined}
+          title={runDisabledReason ?? 'Queue the unfinished stories; each starts once the stories it depends on complete'}
+          className="flex items-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-slate-600 disabled:cursor-not-allowed text-white rounded-lg transition-colors"
+        >
+          {running ? <Loader2 className="w-4 h-4 animate-spin" /> : <Play className="w-4 h-4" />}
+          Run All Stories
+        </button>
+      </div>
+
+      {graph.hasCycle && (
+        <div className="mb-4 flex items-center gap-3 p-3 bg-red-500/10 border border-red-500/30 rounded-lg text-sm text-red-400">
+          <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+          The dependencies of the stories outlined in red form a cycle, so they cannot be run in order.
+        </div>
+      )}
+
+      <div className="overflow-x-auto pb-2">
+        <div className="relative" style={{ width, height }}>
+          <svg className="absolute inset-0 pointer-events-none" width={width} height={height}>
+            {graph.nodes.flatMap(node => node.dependsOn.map(upstreamId => {
+              const from = positions.get(upstreamId);
+              const to = positions.get(node.storyId);
+              if (!from || !to) return null;
+              const x1 = from.x + NODE_WIDTH;
+              const y1 = from.y + NODE_HEIGHT / 2;
+              const x2 = to.x;
+              const y2 = to.y + NODE_HEIGHT / 2;
+              const bend = Math.max(24, Math.abs(x2 - x1) / 2);
+              const upstreamState = states.get(upstreamId);
+              const stroke = upstreamState === 'completed'
+                ? 'rgb(16 185 129 / 0.7)'
+                : upstreamState === 'failed' || upstreamState === 'blocked'
+                  ? 'rgb(239 68 68 / 0.7)'
+                  : 'rgb(100 116 139 / 0.8)';
+              return (
+                <path
+                  key={`${upstreamId}-${node.storyId}`}
+                  d={`M ${x1} ${y1} C ${x1 + bend} ${y1}, ${x2 - bend} ${y2}, ${x2} ${y2}`}
+                  fill="none"
+                  stroke={stroke}
+                  strokeWidth={1.5}
+                />
+              );
+            }))}
+          </svg>
+
+          {graph.nodes.map(node => {
+            const position = positions.get(node.storyId)!;
+            const state = states.get(node.storyId)!;
+            return (
+              <Link
+                key={node.storyId}
+                to={PIPELINE_STATES.has(state) ? `/pipeline/${node.storyId}` : `/stories/${node.storyId}`}
+                title={node.queueMessage ?? node.name}
+                className={`absolute flex flex-col justify-center px-3 rounded-lg border hover:border-blue-400 transition-colors ${NODE_STYLES[state]} ${node.inCycle ? 'ring-2 ring-red-500/60' : ''}`}
+                style={{ left: position.x, top: position.y, width: NODE_WIDTH, height: NODE_HEIGHT }}
+              >
+                <span className="text-sm text-slate-200 truncate">
+                  {node.definitionId && <span className="font-mono text-xs text-slate-500 mr-1.5">{node.definitionId}</span>}
+                  {node.name}
+                </span>
+                <span className={`text-xs ${STATE_TEXT[state]}`}>{state === 'idle' ? getStatusLabel(node.status) : STATE_LABELS[state]}</span>
+              </Link>
+            );
+          })}
+        </div>
+      </div>
+
+      <p className="mt-3 text-xs text-slate-500">
+        Stories run left to right; a story starts once every story pointing to it has completed,
+        and is blocked when one of them does not.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,395 @@
+import { useMemo, useState } from 'react';
+import {
+  ArrowDown,
+  ArrowUp,
+  FileCode,
+  FilePlus,
+  Loader2,
+  Plus,
+  RotateCcw,
+  Trash2,
+  X
+} from 'lucide-react';
+import { TaskDto, TaskStatus, TaskType } from '../types';
+
+/** A codebase project and the files it contains (paths relative to the codebase root). */
+export interface PlanProject {
+  name: string;
+  files: string[];
+}
+
+interface TaskPlanEditorProps {
+  /** The plan produced by the planner. */
+  tasks: TaskDto[];
+  /** Codebase projects to validate against; empty when the story has no analyzed codebase. */
+  projects: PlanProject[];
+  /** Validation errors from the server, keyed like "tasks[0].targetFiles". */
+  serverErrors?: Record<string, string>;
+  submitting?: boolean;
+  onApprove: (tasks: TaskDto[] | undefined) => void;
+  onReject: () => void;
+}
+
+interface DraftTask extends TaskDto {
+  /** Stable React key - indexes change while reordering. */
+  key: number;
+}
+
+let nextDraftKey = 1;
+
+function toDraft(task: TaskDto): DraftTask {
+  return { ...task, targetFiles: [...task.targetFiles], key: nextDraftKey++ };
+}
+
+function fromDraft(draft: DraftTask, index: number): TaskDto {
+  const task: Partial<DraftTask> = { ...draft, index };
+  delete task.key;
+  return task as TaskDto;
+}
+
+const normalizePath = (path: string) => path.trim().replace(/\\/g, '/');
+
+function findFile(files: string[], target: string): string | undefined {
+  const wanted = normalizePath(target).toLowerCase();
+  const normalized = files.map(normalizePath);
+  return normalized.find(f => f.toLowerCase() === wanted)
+    ?? normalized.find(f => f.toLowerCase().endsWith('/' + wanted));
+}
+
+// Mirrors the server-side checks so most mistakes show up before submitting
+function validatePlan(tasks: DraftTask[], projects: PlanProject[]): Record<string, string> {
+  const errors: Record<string, string> = {};
+  if (tasks.length === 0) errors.tasks = 'The plan must contain at least one task';
+
+  tasks.forEach((task, i) => {
+    const key = `tasks[${i}]`;
+    if (!task.title.trim()) errors[`${key}.title`] = 'Title is required';
+    if (task.projectOrder < 0) errors[`${key}.projectOrder`] = 'Project order cannot be negative';
+    if (task.targetFiles.length === 0) errors[`${key}.targetFiles`] = 'At least one target file is required';
+    if (projects.length === 0) return;
+
+    const project = projects.find(p => p.name.toLowerCase() === task.projectName.trim().toLowerCase());
+    if (!project) {
+      errors[`${key}.projectName`] = `Project '${task.projectName}' is not part of the codebase`;
+      return;
+    }
+    for (const file of task.targetFiles) {
+      const exists = findFile(project.files, file) !== undefined;
+      if (task.isModification && !exists) {
+        errors[`${key}.targetFiles`] = `'${file}' does not exist in ${project.name} - only existing files can be modified`;
+      } else if (!task.isModification && exists) {
+        errors[`${key}.targetFiles`] = `'${file}' already exists in ${project.name} - mark the task as a modification`;
+      }
+    }
+  });
+  return errors;
+}
+
+const inputClass = 'w-full px-3 py-1.5 bg-slate-900 border rounded-lg text-sm text-white placeholder-slate-500 focus:outline-none focus:border-blue-500';
+const borderFor = (error?: string) => (error ? 'border-red-500/60' : 'border-slate-700');
+
+function FieldError({ message }: { message?: string }) {
+  if (!message) return null;
+  return <p className="mt-1 text-xs text-red-400">{message}</p>;
+}
+
+/**
+ * Editable task plan shown at Planning approval. Small fixes (a wrong file, a missing
+ * task, the order of work) are made here and submitted with the approval instead of
+ * rejecting the phase and waiting for a full re-plan.
+ */
+export function TaskPlanEditor({
+  tasks,
+  projects,
+  serverErrors = {},
+  submitting = false,
+  onApprove,
+  onReject
+}: TaskPlanEditorProps) {
+  const [drafts, setDrafts] = useState<DraftTask[]>(() => tasks.map(toDraft));
+  const [dirty, setDirty] = useState(false);
+  const [newFiles, setNewFiles] = useState<Record<number, string>>({});
+  // Server errors refer to task positions at submit time - drop them once the plan changes
+  const [submitted, setSubmitted] = useState<DraftTask[] | null>(null);
+
+  const errors = useMemo(
+    () => ({ ...validatePlan(drafts, projects), ...(submitted === drafts ? serverErrors : {}) }),
+    [drafts, projects, serverErrors, submitted]
+  );
+  const hasErrors = Object.keys(errors).length > 0;
+
+  const update = (next: DraftTask[]) => {
+    setDrafts(next);
+    setDirty(true);
+  };
+
+  const updateTask = (key: number, changes: Partial<TaskDto>) =>
+    update(drafts.map(t => (t.key === key ? { ...t, ...changes } : t)));
+
+  const move = (index: number, offset: number) => {
+    const next = [...drafts];
+    const [task] = next.splice(index, 1);
+    next.splice(index + offset, 0, task);
+    update(next);
+  };
+
+  const addTask = () => {
+    const last = drafts[drafts.length - 1];
+    update([...drafts, toDraft({
+      index: drafts.length + 1,
+      title: '',
+      description: '',
+      projectName: last?.projectName ?? projects[0]?.name ?? '',
+      targetFiles: [],
+      dependsOnProjects: last?.dependsOnProjects ?? [],
+      projectOrder: last?.projectOrder ?? 0,
+      status: TaskStatus.Pending,
+      type: TaskType.Original,
+      isModification: false
+    })]);
+  };
+
+  const addFile = (task: DraftTask) => {
+    const file = normalizePath(newFiles[task.key] ?? '');
+    if (!file) return;
+    if (!task.targetFiles.some(f => f.toLowerCase() === file.toLowerCase())) {
+      updateTask(task.key, { targetFiles: [...task.targetFiles, file] });
+    }
+    setNewFiles(prev => ({ ...prev, [task.key]: '' }));
+  };
+
+  const reset = () => {
+    setDrafts(tasks.map(toDraft));
+    setNewFiles({});
+    setDirty(false);
+  };
+
+  const handleApprove = () => {
+    if (!dirty) {
+      onApprove(undefined);
+      return;
+    }
+    setSubmitted(drafts);
+    onApprove(drafts.map((draft, i) => fromDraft(draft, i + 1)));
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h4 className="text-sm font-medium text-slate-300">
+          Task plan <span className="text-slate-500">({drafts.length} task(s))</span>
+          {dirty && <span className="ml-2 px-1.5 py-0.5 rounded bg-blue-500/20 text-blue-300 text-xs">Edited</span>}
+        </h4>
+        {dirty && (
+          <button
+            type="button"
+            onClick={reset}
+            disabled={submitting}
+            className="flex items-center gap-1 text-xs text-slate-400 hover:text-white"
+          >
+            <RotateCcw className="w-3.5 h-3.5" />
+            Discard edits
+          </button>
+        )}
+      </div>
+      <FieldError message={errors.tasks} />
+
+      <ol className="space-y-3">
+        {drafts.map((task, i) => {
+          const key = `tasks[${i}]`;
+          const project = projects.find(p => p.name.toLowerCase() === task.projectName.toLowerCase());
+          const listId = `plan-files-${task.key}`;
+          return (
+            <li key={task.key} className="p-3 bg-slate-900/50 border border-slate-700 rounded-lg space-y-3">
+              <div className="flex items-start gap-2">
+                <span className="mt-1.5 text-xs font-mono text-slate-500 w-6">#{i + 1}</span>
+                <div className="flex-1 min-w-0">
+                  <input
+                    value={task.title}
+                    onChange={e => updateTask(task.key, { title: e.target.value })}
+                    placeholder="Task title"
+                    className={`${inputClass} ${borderFor(errors[`${key}.title`])}`}
+                  />
+                  <FieldError message={errors[`${key}.title`]} />
+                </div>
+                <div className="flex items-center gap-1">
+                  <button
+                    type="button"
+                    onClick={() => move(i, -1)}
+                    disabled={i === 0}
+                    title="Move up"
+                    className="p-1.5 rounded text-slate-400 hover:text-white hover:bg-slate-700 disabled:opacity-30 disabled:hover:bg-transparent"
+                  >
+                    <ArrowUp className="w-4 h-4" />
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => move(i, 1)}
+                    disabled={i === drafts.length - 1}
+                    title="Move down"
+                    className="p-1.5 rounded text-slate-400 hover:text-white hover:bg-slate-700 disabled:opacity-30 disabled:hover:bg-transparent"
+                  >
+                    <ArrowDown className="w-4 h-4" />
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => update(drafts.filter(t => t.key !== task.key))}
+                    title="Delete task"
+                    className="p-1.5 rounded text-slate-400 hover:text-red-400 hover:bg-red-500/10"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+
+              <textarea
+                value={task.description}
+                onChange={e => updateTask(task.key, { description: e.target.value })}
+                rows={2}
+                placeholder="What should be done"
+                className={`${inputClass} ${borderFor()}`}
+              />
+
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                <label className="block">
+                  <span className="block text-xs text-slate-400 mb-1">Project</span>
+                  {projects.length > 0 ? (
+                    <select
+                      value={project?.name ?? task.projectName}
+                      onChange={e => updateTask(task.key, { projectName: e.target.value })}
+                      className={`${inputClass} ${borderFor(errors[`${key}.projectName`])}`}
+                    >
+                      {!project && <option value={task.projectName}>{task.projectName || '(none)'}</option>}
+                      {projects.map(p => (
+                        <option key={p.name} value={p.name}>{p.name}</option>
+                      ))}
+                    </select>
+                  ) : (
+                    <input
+                      value={task.projectName}
+                      onChange={e => updateTask(task.key, { projectName: e.target.value })}
+                      className={`${inputClass} ${borderFor(errors[`${key}.projectName`])}`}
+                    />
+                  )}
+                  <FieldError message={errors[`${key}.projectName`]} />
+                </label>
+                <label className="block">
+                  <span className="block text-xs text-slate-400 mb-1">Project order</span>
+                  <input
+                    type="number"
+                    min={0}
+                    value={task.projectOrder}
+                    onChange={e => updateTask(task.key, { projectOrder: Number(e.target.value) || 0 })}
+                    className={`${inputClass} ${borderFor(errors[`${key}.projectOrder`])}`}
+                  />
+                  <FieldError message={errors[`${key}.projectOrder`]} />
+                </label>
+                <div>
+                  <span className="block text-xs text-slate-400 mb-1">Change type</span>
+                  <div className="flex rounded-lg border border-slate-700 overflow-hidden text-xs">
+                    {([[true, FileCode, 'Modify'], [false, FilePlus, 'Create']] as const).map(([value, Icon, label]) => (
+                      <button
+                        key={label}
+                        type="button"
+                        onClick={() => updateTask(task.key, { isModification: value })}
+                        className={`flex-1 flex items-center justify-center gap-1 px-2 py-1.5 transition-colors ${!!task.isModification === value
+                          ? 'bg-blue-600 text-white'
+                          : 'bg-slate-900 text-slate-400 hover:text-white'
+                          }`}
+                      >
+                        <Icon className="w-3.5 h-3.5" />
+                        {label}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              </div>
+
+              {task.dependsOnProjects.length > 0 && (
+                <p className="text-xs text-slate-500">
+                  Depends on: {task.dependsOnProjects.join(', ')}
+                </p>
+              )}
+              <FieldError message={errors[`${key}.dependsOnProjects`]} />
+
+              <div>
+                <span className="block text-xs text-slate-400 mb-1">Target files</span>
+                <div className="flex flex-wrap gap-1.5">
+                  {task.targetFiles.map(file => (
+                    <span key={file} className="inline-flex items-center gap-1 pl-2 pr-1 py-0.5 rounded bg-slate-700 text-slate-200 font-mono text-xs">
+                      {file}
+                      <button
+                        type="button"
+                        onClick={() => updateTask(task.key, { targetFiles: task.targetFiles.filter(f => f !== file) })}
+                        className="p-0.5 rounded text-slate-400 hover:text-white hover:bg-slate-600"
+                      >
+                        <X className="w-3 h-3" />
+                      </button>
+                    </span>
+                  ))}
+                </div>
+                <div className="mt-2 flex gap-2">
+                  <input
+                    value={newFiles[task.key] ?? ''}
+                    onChange={e => setNewFiles(prev => ({ ...prev, [task.key]: e.target.value }))}
+                    onKeyDown={e => {
+                      if (e.key === 'Enter') {
+                        e.preventDefault();
+                        addFile(task);
+                      }
+                    }}
+                    list={task.isModification && project ? listId : undefined}
+                    placeholder={task.isModification ? 'Existing file path' : 'New file path'}
+                    className={`${inputClass} ${borderFor(errors[`${key}.targetFiles`])} font-mono`}
+                  />
+                  {task.isModification && project && (
+                    <datalist id={listId}>
+                      {project.files.map(f => <option key={f} value={f} />)}
+                    </datalist>
+                  )}
+                  <button
+                    type="button"
+                    onClick={() => addFile(task)}
+                    className="px-3 py-1.5 bg-slate-700 hover:bg-slate-600 text-white text-sm rounded-lg transition-colors"
+                  >
+                    Add
+                  </button>
+                </div>
+                <FieldError message={errors[`${key}.targetFiles`]} />
+              </div>
+            </li>
+          );
+        })}
+      </ol>
+
+      <button
+        type="button"
+        onClick={addTask}
+        disabled={submitting}
+        className="w-full flex items-center justify-center gap-2 py-2 border border-dashed border-slate-600 hover:border-slate-500 text-sm text-slate-400 hover:text-white rounded-lg transition-colors"
+      >
+        <Plus className="w-4 h-4" />
+        Add task
+      </button>
+
+      <div className="flex items-center gap-3 pt-1">
+        <button
+          onClick={handleApprove}
+          disabled={submitting || (dirty && hasErrors)}
+          title={dirty && hasErrors ? 'Fix the highlighted problems first' : undefined}
+          className="flex items-center gap-2 px-6 py-2 bg-emerald-600 hover:bg-emerald-700 disabled:opacity-50 disabled:cursor-not-allowed text-white font-medium rounded-lg transition-colors"
+        >
+          {submitting && <Loader2 className="w-4 h-4 animate-spin" />}
+          {dirty ? '✓ Approve Edited Plan' : '✓ Approve & Continue'}
+        </button>
+        <button
+          onClick={onReject}
+          disabled={submitting}
+          className="px-6 py-2 bg-slate-600 hover:bg-slate-700 text-white font-medium rounded-lg transition-colors"
+        >
+          ✗ Reject
+        </button>
+      </div>
+    </div>
+  );
+}
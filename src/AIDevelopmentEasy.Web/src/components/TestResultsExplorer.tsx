@@ -0,0 +1,327 @@
+import { useMemo, useState } from 'react';
+import { AlertTriangle, Check, ChevronDown, ChevronRight, CircleSlash, FileCode, Search, X } from 'lucide-react';
+import { TestResultDto, TestSummaryDto } from '../types';
+import {
+  TestOutcome,
+  TestTrend,
+  TestTrendKind,
+  buildTestTrends,
+  getRunTests,
+  getTestKey,
+  getTestOutcome,
+  groupTestsByClass,
+  hasFullResults,
+  parseStackTrace
+} from '../services/testResults';
+import { formatDuration, parseTimeSpan } from '../services/timeline';
+
+interface TestResultsExplorerProps {
+  /** UnitTesting runs of the pipeline, oldest first. */
+  runs: TestSummaryDto[];
+  /** Opens a stack frame's source file at the given line. */
+  onOpenFrame?: (file: string, line: number) => void;
+}
+
+type OutcomeFilter = 'all' | TestOutcome;
+type OriginFilter = 'all' | 'new' | 'existing';
+
+const OUTCOME_STYLES: Record<TestOutcome, { dot: string; text: string }> = {
+  passed: { dot: 'bg-emerald-400', text: 'text-emerald-400' },
+  failed: { dot: 'bg-red-400', text: 'text-red-400' },
+  skipped: { dot: 'bg-slate-500', text: 'text-slate-400' }
+};
+
+const TREND_BADGES: Partial<Record<TestTrendKind, { label: string; className: string; title: string }>> = {
+  fixed: { label: 'Fixed', className: 'bg-emerald-500/20 text-emerald-300', title: 'Failed earlier, passes now' },
+  regressed: { label: 'Regression', className: 'bg-red-500/20 text-red-300', title: 'Passed earlier, fails now' },
+  flaky: { label: 'Flaky', className: 'bg-amber-500/20 text-amber-300', title: 'Flipped between passing and failing more than once' }
+};
+
+function OutcomeIcon({ outcome }: { outcome: TestOutcome }) {
+  if (outcome === 'passed') return <Check className="w-4 h-4 text-emerald-400 flex-shrink-0" />;
+  if (outcome === 'failed') return <X className="w-4 h-4 text-red-400 flex-shrink-0" />;
+  return <CircleSlash className="w-4 h-4 text-slate-500 flex-shrink-0" />;
+}
+
+function TrendDots({ trend }: { trend: TestTrend }) {
+  return (
+    <span className="flex items-center gap-0.5" title="Outcome per attempt (oldest first)">
+      {trend.history.map((outcome, i) => (
+        <span
+          key={i}
+          className={`w-2 h-2 rounded-full ${outcome ? OUTCOME_STYLES[outcome].dot : 'border border-slate-600'}`}
+        />
+      ))}
+    </span>
+  );
+}
+
+function TestRow({
+  test,
+  trend,
+  showTrend,
+  onOpenFrame
+}: {
+  test: TestResultDto;
+  trend?: TestTrend;
+  showTrend: boolean;
+  onOpenFrame?: (file: string, line: number) => void;
+}) {
+  const [open, setOpen] = useState(false);
+  const outcome = getTestOutcome(test);
+  const hasError = !!(test.errorMessage || test.stackTrace);
+  const frames = useMemo(() => (open ? parseStackTrace(test.stackTrace) : []), [open, test.stackTrace]);
+  const badge = showTrend && trend ? TREND_BADGES[trend.kind] : undefined;
+
+  return (
+    <div className="border-t border-slate-700/50 first:border-t-0">
+      <button
+        type="button"
+        onClick={hasError ? () => setOpen(v => !v) : undefined}
+        className={`w-full flex items-center gap-2 px-3 py-1.5 text-left text-sm ${hasError ? 'hover:bg-slate-800/60' : 'cursor-default'}`}
+      >
+        {hasError
+          ? (open ? <ChevronDown className="w-3.5 h-3.5 text-slate-500" /> : <ChevronRight className="w-3.5 h-3.5 text-slate-500" />)
+          : <span className="w-3.5" />}
+        <OutcomeIcon outcome={outcome} />
+        <span className="flex-1 min-w-0 truncate font-mono text-slate-200">{test.testName}</span>
+        {test.isNewTest && <span className="text-[10px] px-1.5 py-0.5 rounded bg-blue-500/20 text-blue-300">New</span>}
+        {badge && (
+          <span className={`text-[10px] px-1.5 py-0.5 rounded ${badge.className}`} title={badge.title}>{badge.label}</span>
+        )}
+        {showTrend && trend && <TrendDots trend={trend} />}
+        <span className="w-16 text-right text-xs font-mono text-slate-500">{formatDuration(parseTimeSpan(test.duration))}</span>
+      </button>
+
+      {open && (
+        <div className="px-3 pb-3 pl-12 space-y-2">
+          {test.errorMessage && (
+            <pre className="p-2 bg-red-500/10 border border-red-500/30 rounded text-xs text-red-300 whitespace-pre-wrap break-words font-mono">
+              {test.errorMessage}
+            </pre>
+          )}
+          {frames.length > 0 && (
+            <div className="p-2 bg-slate-900 border border-slate-700 rounded text-xs font-mono space-y-0.5">
+              {frames.map((frame, i) => (
+                <div key={i} className="flex flex-wrap items-center gap-x-2">
+                  <span className="text-slate-500">at</span>
+                  <span className="text-slate-300 break-all">{frame.method}</span>
+                  {frame.file && frame.line !== undefined && (onOpenFrame ? (
+                    <button
+                      type="button"
+                      onClick={() => onOpenFrame(frame.file!, frame.line!)}
+                      className="flex items-center gap-1 text-blue-300 hover:text-blue-200 hover:underline"
+                    >
+                      <FileCode className="w-3 h-3" />
+                      {frame.file.split(/[\\/]/).pop()}:{frame.line}
+                    </button>
+                  ) : (
+                    <span className="text-slate-400">{frame.file}:{frame.line}</span>
+                  ))}
+                </div>
+              ))}
+            </div>
+          )}
+          {test.stackTrace && (
+            <details className="text-xs">
+              <summary className="cursor-pointer text-slate-500 hover:text-slate-300">Raw stack trace</summary>
+              <pre className="mt-1 p-2 bg-slate-900 border border-slate-700 rounded text-slate-400 whitespace-pre-wrap break-words font-mono">
+                {test.stackTrace}
+              </pre>
+            </details>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Explorer for UnitTesting results: filters by outcome and new/existing tests, failures
+ * grouped by class with parsed stack traces, and each test's trend across retry attempts.
+ */
+export function TestResultsExplorer({ runs, onOpenFrame }: TestResultsExplorerProps) {
+  // null follows the latest attempt while the pipeline keeps retrying
+  const [selected, setSelected] = useState<number | null>(null);
+  const [outcomeFilter, setOutcomeFilter] = useState<OutcomeFilter>('all');
+  const [originFilter, setOriginFilter] = useState<OriginFilter>('all');
+  const [query, setQuery] = useState('');
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+
+  const runIndex = selected !== null && selected < runs.length ? selected : runs.length - 1;
+  const run = runs[runIndex];
+  const trends = useMemo(() => buildTestTrends(runs), [runs]);
+  const tests = useMemo(() => (run ? getRunTests(run) : []), [run]);
+
+  const counts = useMemo(() => {
+    const result: Record<OutcomeFilter, number> = { all: tests.length, passed: 0, failed: 0, skipped: 0 };
+    for (const test of tests) result[getTestOutcome(test)]++;
+    return result;
+  }, [tests]);
+
+  const groups = useMemo(() => {
+    const needle = query.trim().toLowerCase();
+    return groupTestsByClass(tests.filter(test =>
+      (outcomeFilter === 'all' || getTestOutcome(test) === outcomeFilter) &&
+      (originFilter === 'all' || test.isNewTest === (originFilter === 'new')) &&
+      (!needle || getTestKey(test).toLowerCase().includes(needle))));
+  }, [tests, outcomeFilter, originFilter, query]);
+
+  if (!run) {
+    return <p className="text-sm text-slate-500">No test runs recorded for this pipeline.</p>;
+  }
+
+  const showTrend = runs.length > 1;
+  const fullResults = hasFullResults(run);
+
+  const toggleClass = (className: string) => {
+    setCollapsed(prev => {
+      const next = new Set(prev);
+      if (next.has(className)) {
+        next.delete(className);
+      } else {
+        next.add(className);
+      }
+      return next;
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      {/* Attempt selector */}
+      {runs.length > 1 && (
+        <div className="flex flex-wrap items-center gap-2 text-xs">
+          <span className="text-slate-400">Attempt</span>
+          {runs.map((r, i) => (
+            <button
+              key={i}
+              type="button"
+              onClick={() => setSelected(i === runs.length - 1 ? null : i)}
+              className={`flex items-center gap-1.5 px-2.5 py-1 rounded-lg border transition-colors ${i === runIndex
+                ? 'border-blue-500 bg-blue-600 text-white'
+                : 'border-slate-700 bg-slate-800 text-slate-400 hover:text-white'
+                }`}
+            >
+              <span className={`w-2 h-2 rounded-full ${r.failed > 0 ? 'bg-red-400' : 'bg-emerald-400'}`} />
+              {(r.retryAttempt ?? i) === 0 ? 'Initial' : `Retry #${r.retryAttempt ?? i}`}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {/* Summary */}
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-2 text-sm">
+        <div className="p-2 bg-slate-700/50 rounded">
+          <div className="text-slate-400">Total</div>
+          <div className="text-lg font-bold text-slate-200">{run.totalTests}</div>
+        </div>
+        <div className="p-2 bg-emerald-500/10 rounded">
+          <div className="text-emerald-400">Passed</div>
+          <div className="text-lg font-bold text-emerald-400">{run.passed}</div>
+        </div>
+        <div className="p-2 bg-red-500/10 rounded">
+          <div className="text-red-400">Failed</div>
+          <div className="text-lg font-bold text-red-400">{run.failed}</div>
+        </div>
+        <div className="p-2 bg-slate-600/50 rounded">
+          <div className="text-slate-400">Skipped</div>
+          <div className="text-lg font-bold text-slate-300">{run.skipped}</div>
+        </div>
+        <div className="p-2 bg-slate-700/50 rounded">
+          <div className="text-slate-400">Duration</div>
+          <div className="text-lg font-bold text-slate-200">{formatDuration(parseTimeSpan(run.totalDuration))}</div>
+        </div>
+      </div>
+
+      {run.isBreakingChange && (
+        <div className="flex items-center gap-2 p-3 bg-red-500/10 border border-red-500/30 rounded-lg text-sm text-red-300">
+          <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+          {run.existingTestsFailed} existing test(s) failing - the change may have broken existing behaviour.
+        </div>
+      )}
+
+      {/* Filters */}
+      <div className="flex flex-wrap items-center gap-3">
+        <div className="flex rounded-lg border border-slate-700 overflow-hidden text-xs">
+          {(['all', 'failed', 'passed', 'skipped'] as const).map(value => (
+            <button
+              key={value}
+              type="button"
+              onClick={() => setOutcomeFilter(value)}
+              className={`px-2.5 py-1 capitalize transition-colors ${outcomeFilter === value
+                ? 'bg-blue-600 text-white'
+                : 'bg-slate-800 text-slate-400 hover:text-white'
+                }`}
+            >
+              {value} ({counts[value]})
+            </button>
+          ))}
+        </div>
+        <div className="flex rounded-lg border border-slate-700 overflow-hidden text-xs">
+          {([['all', 'All tests'], ['new', 'New'], ['existing', 'Existing']] as const).map(([value, label]) => (
+            <button
+              key={value}
+              type="button"
+              onClick={() => setOriginFilter(value)}
+              className={`px-2.5 py-1 transition-colors ${originFilter === value
+                ? 'bg-blue-600 text-white'
+                : 'bg-slate-800 text-slate-400 hover:text-white'
+                }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+        <div className="relative flex-1 min-w-[12rem]">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-500" />
+          <input
+            type="text"
+            value={query}
+            onChange={e => setQuery(e.target.value)}
+            placeholder="Filter by class or test name..."
+            className="w-full pl-9 pr-3 py-1.5 bg-slate-900 border border-slate-700 rounded-lg text-sm text-white placeholder-slate-500 focus:outline-none focus:border-blue-500"
+          />
+        </div>
+      </div>
+
+      {!fullResults && (
+        <p className="text-xs text-slate-500">Only failed tests were recorded for this attempt.</p>
+      )}
+
+      {/* Classes */}
+      {groups.length === 0 ? (
+        <p className="text-sm text-slate-500">No tests match the current filters.</p>
+      ) : (
+        <div className="space-y-2">
+          {groups.map(group => {
+            const isOpen = !collapsed.has(group.className);
+            return (
+              <div key={group.className} className="border border-slate-700 rounded-lg overflow-hidden">
+                <button
+                  type="button"
+                  onClick={() => toggleClass(group.className)}
+                  className="w-full flex items-center gap-2 px-3 py-2 bg-slate-900/60 text-left text-sm hover:bg-slate-900"
+                >
+                  {isOpen ? <ChevronDown className="w-4 h-4 text-slate-400" /> : <ChevronRight className="w-4 h-4 text-slate-400" />}
+                  <span className="flex-1 min-w-0 truncate font-mono text-slate-200">{group.className}</span>
+                  {group.failed > 0 && <span className="text-xs text-red-400">{group.failed} failed</span>}
+                  {group.passed > 0 && <span className="text-xs text-emerald-400">{group.passed} passed</span>}
+                  {group.skipped > 0 && <span className="text-xs text-slate-400">{group.skipped} skipped</span>}
+                </button>
+                {isOpen && group.tests.map(test => (
+                  <TestRow
+                    key={getTestKey(test)}
+                    test={test}
+                    trend={trends.get(getTestKey(test))}
+                    showTrend={showTrend}
+                    onOpenFrame={onOpenFrame}
+                  />
+                ))}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,4 +1,4 @@
-import { Check, Clock, Loader2, AlertCircle, SkipForward, FileText, HelpCircle, Sparkles, GitBranch, CheckSquare } from 'lucide-react';
+import { Check, Clock, Loader2, AlertCircle, SkipForward, FileText, HelpCircle, Sparkles, GitBranch, CheckSquare, Zap, ShieldCheck } from 'lucide-react';
 import { 
   WizardStatusDto, 
   WizardPhaseState,
@@ -158,10 +158,25 @@ export function WizardStatus({
                 }`}>
                   {getPhaseStateLabel(phase.state)}
                 </span>
+                {phase.autoApprovedBy && (
+                  <span
+                    className="flex items-center gap-0.5 text-[10px] text-emerald-400"
+                    title={`Auto-approved by the "${phase.autoApprovedBy}" approval policy`}
+                  >
+                    <Zap className="w-3 h-3" />
+                    Auto
+                  </span>
+                )}
               </div>
             ))}
           </div>
         </div>
+        {status.approvalPolicy && (
+          <div className="mt-4 flex items-center gap-2 text-xs text-slate-400">
+            <ShieldCheck className="w-3.5 h-3.5 text-emerald-400" />
+            Approval policy: {status.approvalPolicy.name}
+          </div>
+        )}
       </div>
 
       {/* Running Phase */}
@@ -3,6 +3,8 @@ export { StoryCard } from './StoryCard';
 export { PipelineStatus } from './PipelineStatus';
 export { LogViewer } from './LogViewer';
 export { Layout } from './Layout';
+export { SignalRProvider } from './SignalRProvider';
+export { NotificationCenter } from './NotificationCenter';
 export { WizardStatus } from './WizardStatus';
-export { PageLayout, StatCard, StatsGrid, ErrorAlert, LoadingSpinner, EmptyState } from './PageLayout';
+export { PageLayout, StatCard, StatsGrid, ErrorAlert, FieldError, LoadingSpinner, EmptyState } from './PageLayout';
 export { SearchableSelect } from './SearchableSelect';
@@ -0,0 +1,5 @@
+import { createContext } from 'react';
+import type { PipelineHub } from '../services/pipelineHub';
+
+/** The app-wide pipeline hub; provided by SignalRProvider. */
+export const SignalRContext = createContext<PipelineHub | null>(null);
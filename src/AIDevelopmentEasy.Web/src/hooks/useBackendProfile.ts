@@ -0,0 +1,19 @@
+import { useSyncExternalStore } from 'react';
+import {
+  getBackendProfilesState,
+  subscribeBackendProfiles,
+  DEFAULT_PROFILE,
+  type BackendProfile,
+  type BackendProfilesState
+} from '../services/backendProfiles';
+
+export interface UseBackendProfileResult extends BackendProfilesState {
+  activeProfile: BackendProfile;
+}
+
+/** Current backend profiles and the active one; re-renders when either changes. */
+export function useBackendProfile(): UseBackendProfileResult {
+  const state = useSyncExternalStore(subscribeBackendProfiles, getBackendProfilesState);
+  const activeProfile = state.profiles.find(p => p.id === state.activeId) ?? DEFAULT_PROFILE;
+  return { ...state, activeProfile };
+}
@@ -0,0 +1,155 @@
+import { useCallback, useEffect, useRef, useSyncExternalStore } from 'react';
+import {
+  addNotification,
+  getNotificationsState,
+  isPendingApproval,
+  resolveApprovals,
+  subscribeNotifications,
+  type AppNotification,
+  type NotificationsState
+} from '../services/notifications';
+import { pipelineApi } from '../services/api';
+import { getQueryState, queryKeys } from '../services/queryCache';
+import { useHubConnection, usePipelineEvent } from './useSignalR';
+import { PhaseState, getPhaseLabel, type PipelineUpdateMessage, type StoryDto } from '../types';
+
+// Auto-approved phases resolve almost immediately; don't pop a desktop alert for those
+const DESKTOP_ALERT_DELAY_MS = 1500;
+
+export interface UseNotificationsResult extends NotificationsState {
+  pendingApprovals: AppNotification[];
+  unreadCount: number;
+}
+
+/** Notification history and derived counts; re-renders when the store changes. */
+export function useNotifications(): UseNotificationsResult {
+  const state = useSyncExternalStore(subscribeNotifications, getNotificationsState);
+  return {
+    ...state,
+    pendingApprovals: state.notifications.filter(isPendingApproval),
+    unreadCount: state.notifications.filter(n => !n.read).length
+  };
+}
+
+function storyName(storyId: string): string | undefined {
+  return getQueryState<StoryDto[]>(queryKeys.stories).data?.find(s => s.id === storyId)?.name;
+}
+
+// Updates that mean a waiting pipeline moved past its approval gate
+const RESOLVING_UPDATES = new Set<PipelineUpdateMessage['updateType']>([
+  'PhaseStarted',
+  'PhaseCompleted',
+  'PhaseFailed',
+  'PipelineCompleted',
+  'RetryStarting',
+  'Error'
+]);
+
+/**
+ * Syncs pending approvals with the server (on mount, reconnect and story list changes)
+ * and turns hub updates for every story into notifications. Mount once, in Layout.
+ */
+export function useNotificationFeed(onOpen: (storyId: string) => void): void {
+  const { isConnected } = useHubConnection();
+  const onOpenRef = useRef(onOpen);
+  useEffect(() => {
+    onOpenRef.current = onOpen;
+  });
+
+  const notifyDesktop = useCallback((notification: AppNotification) => {
+    if (!getNotificationsState().desktopEnabled) return;
+    if (typeof Notification === 'undefined' || Notification.permission !== 'granted') return;
+
+    setTimeout(() => {
+      const current = getNotificationsState().notifications.find(n => n.id === notification.id);
+      if (!current || (current.kind !== 'completed' && current.kind !== 'failed' && !isPendingApproval(current))) return;
+      const desktop = new Notification(current.storyName ?? current.storyId, {
+        body: current.message,
+        tag: current.id
+      });
+      desktop.onclick = () => {
+        window.focus();
+        onOpenRef.current(current.storyId);
+        desktop.close();
+      };
+    }, DESKTOP_ALERT_DELAY_MS);
+  }, []);
+
+  const reconcile = useCallback(async () => {
+    const startedAt = Date.now();
+    try {
+      const running = await pipelineApi.getRunning();
+      const statuses = await Promise.all(running.map(id => pipelineApi.getStatus(id).catch(() => null)));
+      const waiting = new Set<string>();
+
+      statuses.forEach(status => {
+        if (!status) return;
+        status.phases.forEach(phase => {
+          if (phase.state !== PhaseState.WaitingApproval && phase.state !== PhaseState.WaitingRetryApproval) return;
+          waiting.add(status.storyId);
+          const isRetry = phase.state === PhaseState.WaitingRetryApproval;
+          const added = addNotification({
+            kind: isRetry ? 'retryApproval' : 'approval',
+            storyId: status.storyId,
+            storyName: storyName(status.storyId),
+            phase: phase.phase,
+            message: isRetry
+              ? `${getPhaseLabel(phase.phase)} failed - retry decision needed`
+              : `${getPhaseLabel(phase.phase)} is waiting for approval`
+          });
+          if (added) notifyDesktop(added);
+        });
+      });
+
+      // Anything we still show as pending but the server no longer waits on was handled
+      // elsewhere (approvals that arrived while we were fetching are left alone)
+      getNotificationsState().notifications
+        .filter(n => isPendingApproval(n) && !waiting.has(n.storyId) && Date.parse(n.createdAt) < startedAt)
+        .forEach(n => resolveApprovals(n.storyId));
+    } catch {
+      // Backend unreachable - keep the last known state
+    }
+  }, [notifyDesktop]);
+
+  useEffect(() => {
+    if (isConnected) reconcile();
+  }, [isConnected, reconcile]);
+
+  usePipelineEvent('StoryListChanged', () => {
+    reconcile();
+  });
+
+  usePipelineEvent('PipelineUpdate', message => {
+    const base = {
+      storyId: message.storyId,
+      storyName: storyName(message.storyId),
+      phase: message.phase,
+      sourceId: message.id
+    };
+
+    if (RESOLVING_UPDATES.has(message.updateType)) {
+      resolveApprovals(message.storyId);
+    }
+
+    let added: AppNotification | null = null;
+    switch (message.updateType) {
+      case 'PhasePendingApproval':
+        added = addNotification({
+          ...base,
+          kind: 'approval',
+          message: `${getPhaseLabel(message.phase)} is waiting for approval`
+        });
+        break;
+      case 'RetryRequired':
+        added = addNotification({ ...base, kind: 'retryApproval', message: message.message });
+        break;
+      case 'PipelineCompleted':
+        added = addNotification({ ...base, kind: 'completed', message: 'Pipeline completed' });
+        break;
+      case 'PhaseFailed':
+        added = addNotification({ ...base, kind: 'failed', message: message.message || `${getPhaseLabel(message.phase)} failed` });
+        break;
+    }
+    if (added) notifyDesktop(added);
+  });
+}
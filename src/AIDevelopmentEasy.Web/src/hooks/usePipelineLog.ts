@@ -0,0 +1,127 @@
+import { useCallback, useEffect, useState } from 'react';
+import { pipelineApi, isAbortError, getErrorMessage } from '../services/api';
+import { isLocalLogId, mergePipelineLogs } from '../services/pipelineLog';
+import { usePipelineEvent } from './useSignalR';
+import type { PipelineUpdateMessage } from '../types';
+
+const PAGE_SIZE = 200;
+
+interface PipelineLogState {
+  storyId?: string;
+  logs: PipelineUpdateMessage[];
+  hasMore: boolean;
+  isLoading: boolean;
+  isLoadingOlder: boolean;
+  error: string | null;
+}
+
+const EMPTY_STATE: PipelineLogState = {
+  logs: [],
+  hasMore: false,
+  isLoading: true,
+  isLoadingOlder: false,
+  error: null
+};
+
+// State left over from another story is treated as empty
+const forStory = (state: PipelineLogState, storyId: string): PipelineLogState =>
+  state.storyId === storyId ? state : { ...EMPTY_STATE, storyId };
+
+export interface UsePipelineLogResult {
+  logs: PipelineUpdateMessage[];
+  hasMore: boolean;
+  isLoading: boolean;
+  isLoadingOlder: boolean;
+  error: string | null;
+  /** Pages in the entries before the oldest loaded one. */
+  loadOlder: () => void;
+  /** Adds a client-side entry (e.g. a user action) to the log. */
+  append: (entry: PipelineUpdateMessage) => void;
+}
+
+/**
+ * Log of a story's latest pipeline run: the newest page from the server on mount,
+ * older pages on demand, and live hub updates merged in as they arrive.
+ */
+export function usePipelineLog(storyId: string | undefined): UsePipelineLogResult {
+  const [state, setState] = useState<PipelineLogState>(EMPTY_STATE);
+
+  useEffect(() => {
+    if (!storyId) return;
+    const controller = new AbortController();
+
+    pipelineApi.getLogs(storyId, { limit: PAGE_SIZE }, { signal: controller.signal })
+      .then(page => setState(prev => {
+        const current = forStory(prev, storyId);
+        return {
+          ...current,
+          logs: mergePipelineLogs(current.logs, page.entries),
+          hasMore: page.hasMore,
+          isLoading: false,
+          error: null
+        };
+      }))
+      .catch(err => {
+        if (isAbortError(err)) return;
+        setState(prev => ({
+          ...forStory(prev, storyId),
+          isLoading: false,
+          error: getErrorMessage(err, 'Failed to load pipeline log')
+        }));
+      });
+
+    return () => controller.abort();
+  }, [storyId]);
+
+  usePipelineEvent('PipelineUpdate', message => {
+    if (!storyId || message.storyId !== storyId) return;
+    setState(prev => {
+      const current = forStory(prev, storyId);
+      return { ...current, logs: mergePipelineLogs(current.logs, [message]) };
+    });
+  });
+
+  const current = storyId ? forStory(state, storyId) : { ...EMPTY_STATE, isLoading: false };
+
+  const loadOlder = useCallback(() => {
+    if (!storyId || !current.hasMore || current.isLoadingOlder) return;
+    // Client-side entries don't exist on the server, so page from the oldest server entry
+    const oldest = current.logs.find(entry => !isLocalLogId(entry.id));
+    if (!oldest) return;
+
+    setState(prev => ({ ...forStory(prev, storyId), isLoadingOlder: true }));
+    pipelineApi.getLogs(storyId, { beforeId: oldest.id, limit: PAGE_SIZE })
+      .then(page => setState(prev => {
+        const latest = forStory(prev, storyId);
+        return {
+          ...latest,
+          logs: mergePipelineLogs(latest.logs, page.entries),
+          hasMore: page.hasMore,
+          isLoadingOlder: false
+        };
+      }))
+      .catch(err => setState(prev => ({
+        ...forStory(prev, storyId),
+        isLoadingOlder: false,
+        error: getErrorMessage(err, 'Failed to load older log entries')
+      })));
+  }, [storyId, current.hasMore, current.isLoadingOlder, current.logs]);
+
+  const append = useCallback((entry: PipelineUpdateMessage) => {
+    if (!storyId) return;
+    setState(prev => {
+      const latest = forStory(prev, storyId);
+      return { ...latest, logs: mergePipelineLogs(latest.logs, [entry]) };
+    });
+  }, [storyId]);
+
+  return {
+    logs: current.logs,
+    hasMore: current.hasMore,
+    isLoading: current.isLoading,
+    isLoadingOlder: current.isLoadingOlder,
+    error: current.error,
+    loadOlder,
+    append
+  };
+}
@@ -0,0 +1,73 @@
+import { useCallback, useEffect, useRef, useSyncExternalStore } from 'react';
+import {
+  fetchQuery,
+  getQueryState,
+  subscribeQuery,
+  type QueryFetcher,
+  type QueryState
+} from '../services/queryCache';
+
+const IDLE_STATE: QueryState<never> = { data: undefined, error: null, updatedAt: 0, isFetching: false };
+
+export interface UseQueryOptions {
+  /** Data younger than this is served without revalidating on mount. */
+  staleTime?: number;
+}
+
+export interface UseQueryResult<T> {
+  data: T | undefined;
+  error: unknown;
+  /** True only while there is no data yet to show. */
+  isLoading: boolean;
+  /** True whenever a request is in flight, including background revalidation. */
+  isFetching: boolean;
+  refetch: () => Promise<T | undefined>;
+}
+
+/**
+ * Reads a key from the shared query cache and keeps it fresh. Cached data is returned
+ * immediately (stale-while-revalidate) and the component re-renders when the entry
+ * changes, including after invalidation by hub events. Pass a null key to skip.
+ */
+export function useQuery<T>(
+  key: string | null,
+  fetcher: QueryFetcher<T>,
+  options: UseQueryOptions = {}
+): UseQueryResult<T> {
+  const { staleTime } = options;
+
+  // Latest fetcher without making it an effect dependency (callers pass inline lambdas)
+  const fetcherRef = useRef(fetcher);
+  useEffect(() => {
+    fetcherRef.current = fetcher;
+  });
+
+  const subscribe = useCallback(
+    (listener: () => void) => (key ? subscribeQuery(key, listener) : () => {}),
+    [key]
+  );
+  const getSnapshot = useCallback(
+    () => (key ? getQueryState<T>(key) : IDLE_STATE as QueryState<T>),
+    [key]
+  );
+  const state = useSyncExternalStore(subscribe, getSnapshot);
+
+  useEffect(() => {
+    if (!key) return;
+    fetchQuery(key, signal => fetcherRef.current(signal), { staleTime })
+      .catch(() => { /* surfaced through state.error */ });
+  }, [key, staleTime]);
+
+  const refetch = useCallback(async () => {
+    if (!key) return undefined;
+    return fetchQuery(key, signal => fetcherRef.current(signal), { force: true });
+  }, [key]);
+
+  return {
+    data: state.data,
+    error: state.error,
+    isLoading: state.data === undefined && (state.isFetching || (key !== null && state.updatedAt === 0 && !state.error)),
+    isFetching: state.isFetching,
+    refetch
+  };
+}
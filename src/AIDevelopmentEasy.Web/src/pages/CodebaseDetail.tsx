@@ -1,7 +1,9 @@
 import { useEffect, useState } from 'react';
 import { useParams, Link } from 'react-router-dom';
 import { ArrowLeft, RefreshCw, FolderCode, FileCode, Layers, Copy, Check, Zap, Database, Server, AlertCircle } from 'lucide-react';
-import { codebasesApi } from '../services/api';
+import { codebasesApi, approvalPoliciesApi, isAbortError, getErrorMessage } from '../services/api';
+import { invalidateQueries, queryKeys } from '../services/queryCache';
+import { useQuery } from '../hooks/useQuery';
 import {
   CodebaseDto,
   ProjectSummaryDto,
@@ -25,62 +27,80 @@ export function CodebaseDetail() {
   const [activeTab, setActiveTab] = useState<TabType>('overview');
   const [copiedReq, setCopiedReq] = useState(false);
   const [copiedPipe, setCopiedPipe] = useState(false);
+  const { data: policies = [] } = useQuery(queryKeys.approvalPolicies, signal => approvalPoliciesApi.getAll({ signal }));
 
   useEffect(() => {
+    const controller = new AbortController();
+    const { signal } = controller;
+
     const load = async () => {
       if (!id) return;
 
       try {
         setLoading(true);
         const [cb, projs] = await Promise.all([
-          codebasesApi.getById(id),
-          codebasesApi.getProjects(id).catch(() => [])
+          codebasesApi.getById(id, { signal }),
+          codebasesApi.getProjects(id, { signal }).catch(() => [])
         ]);
+        if (signal.aborted) return;
 
         setCodebase(cb);
         setProjects(projs);
 
         if (cb.status === CodebaseStatus.Ready) {
           const [reqCtx, pipeCtx] = await Promise.all([
-            codebasesApi.getRequirementContext(id).catch(() => null),
-            codebasesApi.getPipelineContext(id).catch(() => null)
+            codebasesApi.getRequirementContext(id, { signal }).catch(() => null),
+            codebasesApi.getPipelineContext(id, { signal }).catch(() => null)
           ]);
+          if (signal.aborted) return;
           setRequirementContext(reqCtx);
           setPipelineContext(pipeCtx);
         }
 
         setError(null);
       } catch (err) {
-        setError(err instanceof Error ? err.message : 'Failed to load codebase');
+        if (isAbortError(err)) return;
+        setError(getErrorMessage(err, 'Failed to load codebase'));
       } finally {
-        setLoading(false);
+        if (!signal.aborted) setLoading(false);
       }
     };
 
     load();
+    return () => controller.abort();
   }, [id]);
 
   // Poll when status is Analyzing so we refresh to Ready and load contexts
   useEffect(() => {
     if (!id || !codebase || codebase.status !== CodebaseStatus.Analyzing) return;
 
+    const controller = new AbortController();
+    const { signal } = controller;
+
     const interval = setInterval(async () => {
       try {
-        const cb = await codebasesApi.getById(id);
+        const cb = await codebasesApi.getById(id, { signal, retry: false });
         setCodebase(cb);
         if (cb.status === CodebaseStatus.Ready) {
+          invalidateQueries(queryKeys.codebases);
           const [reqCtx, pipeCtx] = await Promise.all([
-            codebasesApi.getRequirementContext(id).catch(() => null),
-            codebasesApi.getPipelineContext(id).catch(() => null)
+            codebasesApi.getRequirementContext(id, { signal }).catch(() => null),
+            codebasesApi.getPipelineContext(id, { signal }).catch(() => null)
           ]);
+          if (signal.aborted) return;
           setRequirementContext(reqCtx);
           setPipelineContext(pipeCtx);
-          setProjects(await codebasesApi.getProjects(id).catch(() => []));
+          const projs = await codebasesApi.getProjects(id, { signal }).catch(() => []);
+          if (signal.aborted) return;
+          setProjects(projs);
         }
       } catch { /* ignore */ }
     }, 3000);
 
-    return () => clearInterval(interval);
+    return () => {
+      clearInterval(interval);
+      controller.abort();
+    };
   }, [id, codebase?.status]);
 
   const handleCopy = async (text: string, type: 'req' | 'pipe') => {
@@ -94,6 +114,18 @@ export function CodebaseDetail() {
     }
   };
 
+  const handleApprovalPolicyChange = async (approvalPolicyId: string) => {
+    if (!id) return;
+
+    try {
+      await codebasesApi.updateApprovalPolicy(id, approvalPolicyId || null);
+      setCodebase(prev => prev && { ...prev, approvalPolicyId: approvalPolicyId || null });
+      invalidateQueries(queryKeys.codebases);
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to assign the approval policy'));
+    }
+  };
+
   if (loading) {
     return (
       <div className="flex items-center justify-center h-full">
@@ -275,6 +307,23 @@ export function CodebaseDetail() {
               </div>
             )}
 
+            <div>
+              <h3 className="text-lg font-semibold text-white mb-2">Approval Policy</h3>
+              <p className="text-sm text-slate-400 mb-3">
+                Default for stories and requirements on this codebase; a story can override it.
+              </p>
+              <select
+                value={codebase.approvalPolicyId ?? ''}
+                onChange={e => handleApprovalPolicyChange(e.target.value)}
+                className="w-full max-w-sm px-3 py-2 bg-slate-900 border border-slate-700 rounded-lg text-sm text-white focus:outline-none focus:border-blue-500"
+              >
+                <option value="">Manual - every gate waits</option>
+                {policies.map(p => (
+                  <option key={p.id} value={p.id}>{p.name}</option>
+                ))}
+              </select>
+            </div>
+
             <div>
               <h3 className="text-lg font-semibold text-white mb-4">Timestamps</h3>
               <dl className="grid grid-cols-2 gap-4">
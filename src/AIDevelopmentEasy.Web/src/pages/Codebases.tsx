@@ -1,46 +1,36 @@
 import { useEffect, useRef, useState } from 'react';
 import { Link } from 'react-router-dom';
 import { Database, RefreshCw, Plus, Trash2, RotateCcw, FolderCode, Layers } from 'lucide-react';
-import { codebasesApi } from '../services/api';
+import { codebasesApi, getFieldErrors, getErrorMessage } from '../services/api';
+import { FieldError } from '../components';
+import { invalidateQueries, refetchQuery, queryKeys } from '../services/queryCache';
+import { useQuery } from '../hooks/useQuery';
 import { CodebaseDto, CodebaseStatus, getCodebaseStatusLabel, getCodebaseStatusColor } from '../types';
 
 export function Codebases() {
-  const [codebases, setCodebases] = useState<CodebaseDto[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+  const codebasesQuery = useQuery(queryKeys.codebases, signal => codebasesApi.getAll({ signal }));
+  const codebases = codebasesQuery.data ?? [];
+  const loading = codebasesQuery.isLoading;
+  const [actionError, setError] = useState<string | null>(null);
+  const error = actionError ?? (codebasesQuery.error ? getErrorMessage(codebasesQuery.error, 'Failed to load codebases') : null);
   const [successMessage, setSuccessMessage] = useState<string | null>(null);
   const [showAddForm, setShowAddForm] = useState(false);
   const [newName, setNewName] = useState('');
   const [newPath, setNewPath] = useState('');
   const [creating, setCreating] = useState(false);
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
   const pollingUntilRef = useRef(0);
 
-  const fetchCodebases = async (): Promise<CodebaseDto[]> => {
-    try {
-      setLoading(true);
-      const data = await codebasesApi.getAll();
-      setCodebases(data);
-      setError(null);
-      return data;
-    } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to load codebases');
-      return [];
-    } finally {
-      setLoading(false);
-    }
+  const fetchCodebases = async () => {
+    setError(null);
+    await codebasesQuery.refetch().catch(() => { });
   };
 
-  useEffect(() => {
-    fetchCodebases();
-  }, []);
-
   useEffect(() => {
     const interval = setInterval(async () => {
       if (pollingUntilRef.current <= Date.now()) return;
       try {
-        const data = await codebasesApi.getAll();
-        setCodebases(data);
-        setError(null);
+        const data = await refetchQuery<CodebaseDto[]>(queryKeys.codebases) ?? [];
         const anyAnalyzing = data.some(c => c.status === CodebaseStatus.Analyzing);
         if (!anyAnalyzing) {
           pollingUntilRef.current = 0;
@@ -58,13 +48,16 @@ export function Codebases() {
 
     try {
       setCreating(true);
+      setFieldErrors({});
       await codebasesApi.create({ name: newName, path: newPath });
       setNewName('');
       setNewPath('');
       setShowAddForm(false);
-      fetchCodebases();
+      invalidateQueries(queryKeys.codebases);
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to create codebase');
+      const errors = getFieldErrors(err);
+      setFieldErrors(errors);
+      if (Object.keys(errors).length === 0) setError(getErrorMessage(err, 'Failed to create codebase'));
     } finally {
       setCreating(false);
     }
@@ -87,7 +80,7 @@ export function Codebases() {
 
     try {
       await codebasesApi.delete(id);
-      fetchCodebases();
+      invalidateQueries(queryKeys.codebases);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to delete codebase');
     }
@@ -156,6 +149,7 @@ export function Codebases() {
                 className="w-full p-3 bg-slate-900 border border-slate-700 rounded-lg text-white focus:ring-blue-500 focus:border-blue-500"
                 required
               />
+              <FieldError message={fieldErrors.name} />
             </div>
             <div>
               <label htmlFor="path" className="block text-sm font-medium text-slate-300 mb-2">
@@ -170,6 +164,7 @@ export function Codebases() {
                 className="w-full p-3 bg-slate-900 border border-slate-700 rounded-lg text-white focus:ring-blue-500 focus:border-blue-500 font-mono"
                 required
               />
+              <FieldError message={fieldErrors.path} />
             </div>
             <div className="flex gap-3">
               <button
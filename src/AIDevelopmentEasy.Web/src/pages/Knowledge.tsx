@@ -1,7 +1,9 @@
-import { useState, useEffect } from 'react';
+import { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { Plus, Activity, CheckCircle, Bug, FileCode, Lightbulb, ChevronRight, Trash2, Search, BookOpen } from 'lucide-react';
-import { knowledgeApi } from '../services/api';
+import { knowledgeApi, getErrorMessage } from '../services/api';
+import { invalidateQueries, queryKeys } from '../services/queryCache';
+import { useQuery } from '../hooks/useQuery';
 import { PageLayout, StatCard, StatsGrid, ErrorAlert, LoadingSpinner, EmptyState } from '../components';
 import type {
   KnowledgeEntryDto,
@@ -16,39 +18,38 @@ import {
 
 export default function Knowledge() {
   const navigate = useNavigate();
-  const [entries, setEntries] = useState<KnowledgeEntryDto[]>([]);
-  const [stats, setStats] = useState<KnowledgeStatsDto | null>(null);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
   const [selectedCategory, setSelectedCategory] = useState<KnowledgeCategory | null>(null);
   const [searchQuery, setSearchQuery] = useState('');
-  const [tags, setTags] = useState<string[]>([]);
   const [selectedTags, setSelectedTags] = useState<string[]>([]);
   const [showSearch, setShowSearch] = useState(false);
+  const [searchResults, setSearchResults] = useState<KnowledgeEntryDto[] | null>(null);
+  const [searching, setSearching] = useState(false);
+  const [actionError, setError] = useState<string | null>(null);
 
-  useEffect(() => {
-    loadData();
-  }, [selectedCategory]);
+  const entriesQuery = useQuery(
+    queryKeys.knowledgeEntries(selectedCategory),
+    signal => knowledgeApi.getAll(selectedCategory ?? undefined, { signal })
+  );
+  const statsQuery = useQuery(queryKeys.knowledgeStats, signal => knowledgeApi.getStats({ signal }));
+  const tagsQuery = useQuery(queryKeys.knowledgeTags, signal => knowledgeApi.getTags({ signal }));
+
+  // Search results replace the category listing until the next reload
+  const entries = searchResults ?? entriesQuery.data ?? [];
+  const stats: KnowledgeStatsDto | null = statsQuery.data ?? null;
+  const tags = tagsQuery.data ?? [];
+  const loading = searching || entriesQuery.isLoading || statsQuery.isLoading || tagsQuery.isLoading;
+  const loadError = entriesQuery.error ?? statsQuery.error ?? tagsQuery.error;
+  const error = actionError ?? (loadError ? getErrorMessage(loadError, 'Failed to load knowledge base') : null);
+
+  const selectCategory = (category: KnowledgeCategory | null) => {
+    setSearchResults(null);
+    setSelectedCategory(category);
+  };
 
   const loadData = async () => {
-    setLoading(true);
     setError(null);
-    try {
-      const [entriesData, statsData, tagsData] = await Promise.all([
-        selectedCategory !== null
-          ? knowledgeApi.getAll(selectedCategory)
-          : knowledgeApi.getAll(),
-        knowledgeApi.getStats(),
-        knowledgeApi.getTags()
-      ]);
-      setEntries(entriesData);
-      setStats(statsData);
-      setTags(tagsData);
-    } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to load knowledge base');
-    } finally {
-      setLoading(false);
-    }
+    setSearchResults(null);
+    await Promise.all([entriesQuery.refetch(), statsQuery.refetch(), tagsQuery.refetch()]).catch(() => { });
   };
 
   const handleSearch = async () => {
@@ -57,7 +58,7 @@ export default function Knowledge() {
       return;
     }
 
-    setLoading(true);
+    setSearching(true);
     try {
       const results = await knowledgeApi.search({
         query: searchQuery || undefined,
@@ -65,11 +66,11 @@ export default function Knowledge() {
         tags: selectedTags.length > 0 ? selectedTags : undefined,
         limit: 50
       });
-      setEntries(results);
+      setSearchResults(results);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Search failed');
     } finally {
-      setLoading(false);
+      setSearching(false);
     }
   };
 
@@ -79,7 +80,8 @@ export default function Knowledge() {
 
     try {
       await knowledgeApi.delete(id);
-      await loadData();
+      invalidateQueries(queryKeys.knowledge);
+      setSearchResults(null);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Delete failed');
     }
@@ -89,7 +91,8 @@ export default function Knowledge() {
     e.stopPropagation();
     try {
       await knowledgeApi.verify(id);
-      await loadData();
+      invalidateQueries(queryKeys.knowledge);
+      setSearchResults(null);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Verification failed');
     }
@@ -194,7 +197,7 @@ export default function Knowledge() {
             {/* Category Filter */}
             <div className="flex gap-2">
               <button
-                onClick={() => setSelectedCategory(null)}
+                onClick={() => selectCategory(null)}
                 className={`px-3 py-1.5 rounded-lg text-sm transition-colors ${selectedCategory === null
                   ? 'bg-blue-600 text-white'
                   : 'bg-slate-700 text-slate-300 hover:bg-slate-600'
@@ -207,7 +210,7 @@ export default function Knowledge() {
                 .map(cat => (
                   <button
                     key={cat}
-                    onClick={() => setSelectedCategory(cat as KnowledgeCategory)}
+                    onClick={() => selectCategory(cat as KnowledgeCategory)}
                     className={`px-3 py-1.5 rounded-lg text-sm transition-colors flex items-center gap-1 ${selectedCategory === cat
                       ? 'bg-blue-600 text-white'
                       : 'bg-slate-700 text-slate-300 hover:bg-slate-600'
@@ -2,6 +2,7 @@ import { useState } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { BookOpen } from 'lucide-react';
 import { knowledgeApi } from '../services/api';
+import { invalidateQueries, queryKeys } from '../services/queryCache';
 import {
   PatternSubcategory,
   ErrorType,
@@ -133,6 +134,7 @@ export default function KnowledgeCreate() {
         });
       }
 
+      invalidateQueries(queryKeys.knowledge);
       navigate('/knowledge');
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to create entry');
@@ -2,6 +2,7 @@ import { useState, useEffect } from 'react';
 import { useParams, useNavigate, Link } from 'react-router-dom';
 import { ArrowLeft, RefreshCw, Trash2, CheckCircle, BookOpen } from 'lucide-react';
 import { knowledgeApi } from '../services/api';
+import { invalidateQueries, queryKeys } from '../services/queryCache';
 import type {
   KnowledgeEntryDto,
   SuccessfulPatternDto,
@@ -51,6 +52,7 @@ export default function KnowledgeDetail() {
     if (!id) return;
     try {
       await knowledgeApi.verify(id);
+      invalidateQueries(queryKeys.knowledge);
       loadEntry(id);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Verification failed');
@@ -61,6 +63,7 @@ export default function KnowledgeDetail() {
     if (!id || !confirm('Delete this knowledge entry? This cannot be undone.')) return;
     try {
       await knowledgeApi.delete(id);
+      invalidateQueries(queryKeys.knowledge);
       navigate('/knowledge');
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Delete failed');
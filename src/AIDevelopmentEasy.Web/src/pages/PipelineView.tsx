@@ -1,27 +1,115 @@
 import { useEffect, useState, useCallback } from 'react';
 import { useParams, useNavigate, Link } from 'react-router-dom';
-import { ArrowLeft, RefreshCw, XCircle, Activity } from 'lucide-react';
+import { ArrowLeft, RefreshCw, XCircle, Activity, Wrench, ClipboardCheck } from 'lucide-react';
 import {
   PipelineStatusDto,
   PipelinePhase,
-  PipelineUpdateMessage,
-  RetryAction
+  RetryAction,
+  RejectPhaseRequest,
+  ApprovePhaseRequest,
+  TaskDto,
+  PhaseState,
+  LLMCallResultDto,
+  CostBudgetDto,
+  getPhaseLabel,
+  getRunLLMCalls
 } from '../types';
-import { pipelineApi, storiesApi } from '../services/api';
+import { pipelineApi, storiesApi, codebasesApi, getFieldErrors, getErrorMessage } from '../services/api';
 import { PipelineStatus } from '../components/PipelineStatus';
+import { PlanProject } from '../components/TaskPlanEditor';
 import { LogViewer } from '../components/LogViewer';
-import { useSignalR } from '../hooks/useSignalR';
+import { RejectPhaseDialog } from '../components/RejectPhaseDialog';
+import { LLMCallInspector } from '../components/LLMCallInspector';
+import { SourceFileDialog } from '../components/SourceFileDialog';
+import { ManualFixWorkspace } from '../components/ManualFixWorkspace';
+import { ReviewReportViewer } from '../components/ReviewReportViewer';
+import { CostMeter } from '../components/CostMeter';
+import { createLocalLogId } from '../services/pipelineLog';
+import { findOutputFile, type ReviewFinding } from '../services/reviewReport';
+import { usePipelineEvent, useStorySubscription } from '../hooks/useSignalR';
+import { usePipelineLog } from '../hooks/usePipelineLog';
+import { useQuery } from '../hooks/useQuery';
+import { queryKeys, setQueryData, invalidateQueries } from '../services/queryCache';
+
+// Files a phase produced or planned to touch, offered as references when rejecting it
+function getPhaseFiles(result: unknown, tasks: TaskDto[]): string[] {
+  const files = new Set<string>(tasks.flatMap(t => t.targetFiles ?? []));
+  if (result && typeof result === 'object') {
+    const { files: generated, modifiedFiles, tasks: plannedTasks } = result as {
+      files?: Record<string, unknown>;
+      modifiedFiles?: Record<string, unknown>;
+      tasks?: { targetFiles?: string[] }[];
+    };
+    Object.keys(generated ?? {}).forEach(f => files.add(f));
+    Object.keys(modifiedFiles ?? {}).forEach(f => files.add(f));
+    plannedTasks?.forEach(t => t.targetFiles?.forEach(f => files.add(f)));
+  }
+  return [...files].sort();
+}
 
 export function PipelineView() {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
   const [status, setStatus] = useState<PipelineStatusDto | null>(null);
-  const [story, setStory] = useState<{ name: string } | null>(null);
+  const [story, setStory] = useState<{ name: string; tasks: TaskDto[]; codebaseId?: string; budget?: CostBudgetDto | null } | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [logs, setLogs] = useState<PipelineUpdateMessage[]>([]);
+  const [rejectingPhase, setRejectingPhase] = useState<PipelinePhase | null>(null);
+  const [rejecting, setRejecting] = useState(false);
+  const [planProjects, setPlanProjects] = useState<PlanProject[]>([]);
+  const [approvalErrors, setApprovalErrors] = useState<Record<string, string>>({});
+  const [approving, setApproving] = useState(false);
+  const [inspectedCall, setInspectedCall] = useState<LLMCallResultDto | null>(null);
+  const log = usePipelineLog(id);
+  // Transcripts never change once stored
+  const callQuery = useQuery(
+    id && inspectedCall?.callId ? queryKeys.llmCall(id, inspectedCall.callId) : null,
+    signal => pipelineApi.getLLMCall(id!, inspectedCall!.callId!, { signal }),
+    { staleTime: Infinity }
+  );
+  const [openedFrame, setOpenedFrame] = useState<{ file: string; line: number } | null>(null);
+  const sourceCodebaseId = story?.codebaseId;
+  const sourceQuery = useQuery(
+    sourceCodebaseId && openedFrame ? queryKeys.sourceFile(sourceCodebaseId, openedFrame.file) : null,
+    signal => codebasesApi.getSource(sourceCodebaseId!, openedFrame!.file, { signal })
+  );
+  const openFrame = sourceCodebaseId ? (file: string, line: number) => setOpenedFrame({ file, line }) : undefined;
+  const [manualFixPath, setManualFixPath] = useState<string | null>(null);
+  const [resumingFix, setResumingFix] = useState(false);
+  const [continuingOverBudget, setContinuingOverBudget] = useState(false);
+  // Calls reported live; the status only lists a phase's calls once it waits or ends
+  const [liveCalls, setLiveCalls] = useState<LLMCallResultDto[]>([]);
+  const manualFix = status?.manualFix ?? null;
+  const selectedFixPath = manualFix?.files.some(f => f.path === manualFixPath)
+    ? manualFixPath!
+    : manualFix?.files[0]?.path ?? '';
+  const fixFileQuery = useQuery(
+    id && manualFix && selectedFixPath ? queryKeys.manualFixFile(id, selectedFixPath) : null,
+    signal => pipelineApi.getManualFixFile(id!, selectedFixPath, { signal })
+  );
+  // A rejected review shows as Skipped but still has its report; a 404 reads as null
+  const reviewRan = status?.phases.some(
+    p => p.phase === PipelinePhase.Reviewing && p.state !== PhaseState.Pending
+  ) ?? false;
+  const reviewQuery = useQuery(
+    id && reviewRan ? queryKeys.reviewReport(id) : null,
+    signal => pipelineApi.getReviewReport(id!, { signal })
+  );
+  // Fix tasks only make sense while the review verdict can still be overruled
+  const reviewPending = (status?.isRunning ?? false) && (status?.phases.some(
+    p => p.phase === PipelinePhase.Reviewing && p.state === PhaseState.WaitingApproval
+  ) ?? false);
+  const [creatingFixTasks, setCreatingFixTasks] = useState(false);
+  const [openedFinding, setOpenedFinding] = useState<ReviewFinding | null>(null);
+  const outputQuery = useQuery(
+    id && openedFinding ? queryKeys.pipelineOutput(id) : null,
+    signal => pipelineApi.getOutput(id!, { signal })
+  );
+  const findingPath = openedFinding && outputQuery.data
+    ? findOutputFile(Object.keys(outputQuery.data), openedFinding.file)
+    : undefined;
 
-  const { lastUpdate, subscribeToStory, unsubscribeFromStory } = useSignalR();
+  useStorySubscription(id);
 
   const loadStatus = useCallback(async () => {
     if (!id) return;
@@ -32,7 +120,7 @@ export function PipelineView() {
         storiesApi.getById(id)
       ]);
       setStatus(pipelineStatus);
-      setStory({ name: req.name });
+      setStory({ name: req.name, tasks: req.tasks ?? [], codebaseId: req.codebaseId, budget: req.budget });
       setError(null);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to load pipeline status');
@@ -43,43 +131,112 @@ export function PipelineView() {
 
   useEffect(() => {
     loadStatus();
+  }, [loadStatus]);
 
-    if (id) {
-      subscribeToStory(id);
-      return () => {
-        unsubscribeFromStory(id);
-      };
-    }
-  }, [id, loadStatus, subscribeToStory, unsubscribeFromStory]);
+  const planningPending = status?.phases.some(
+    p => p.phase === PipelinePhase.Planning && p.state === PhaseState.WaitingApproval
+  ) ?? false;
+  const codebaseId = story?.codebaseId;
 
+  // Projects and files the plan editor validates against
   useEffect(() => {
-    if (lastUpdate && lastUpdate.storyId === id) {
-      setLogs(prev => [...prev, lastUpdate]);
-      loadStatus(); // Refresh status on update
+    if (!planningPending || !codebaseId) return;
+    const controller = new AbortController();
+    const { signal } = controller;
+
+    (async () => {
+      try {
+        const projects = await codebasesApi.getProjects(codebaseId, { signal });
+        const withFiles = await Promise.all(projects.map(async p => ({
+          name: p.name,
+          files: (await codebasesApi.getProjectFiles(codebaseId, p.name, { signal })).map(f => f.path)
+        })));
+        setPlanProjects(withFiles);
+      } catch {
+        // Without project data the editor still works, the server validates on submit
+      }
+    })();
+
+    return () => controller.abort();
+  }, [planningPending, codebaseId]);
+
+  usePipelineEvent('PipelineUpdate', message => {
+    if (message.storyId !== id) return;
+
+    switch (message.updateType) {
+      case 'LLMCallCompleted': {
+        const call = message.data;
+        if (call) setLiveCalls(prev => [...prev, call]);
+        return; // Log-only apart from the cost meter
+      }
+      case 'LLMCallStarting':
+      case 'Progress':
+      case 'DeploymentFileWritten':
+      case 'FixTasksGenerated':
+      case 'TestResults':
+      case 'ConnectionLost':
+        return; // Log-only, phase state is unchanged
+      case 'PhasePendingApproval':
+        // The review report and output are rewritten by the phase that just finished
+        invalidateQueries(queryKeys.reviewReport(message.storyId));
+        invalidateQueries(queryKeys.pipelineOutput(message.storyId));
+        break;
+      case 'RetryRequired': {
+        // Show the retry panel right away; loadStatus fills in the rest
+        const retryInfo = message.data;
+        if (retryInfo) setStatus(prev => prev && { ...prev, retryInfo });
+        break;
+      }
+      case 'Error':
+        setError(message.data ? `${message.data.exceptionType}: ${message.data.message}` : message.message);
+        break;
     }
-  }, [lastUpdate, id, loadStatus]);
+    loadStatus(); // Refresh status on update
+  });
 
-  const handleApprove = async (phase: PipelinePhase) => {
+  const handleApprove = async (phase: PipelinePhase, request?: ApprovePhaseRequest) => {
     if (!id) return;
+    setApproving(true);
+    setApprovalErrors({});
     try {
-      await pipelineApi.approvePhase(id, phase);
+      await pipelineApi.approvePhase(id, phase, request);
       await loadStatus();
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to approve phase');
+      const errors = getFieldErrors(err);
+      setApprovalErrors(errors);
+      if (Object.keys(errors).length === 0) setError(getErrorMessage(err, 'Failed to approve phase'));
+    } finally {
+      setApproving(false);
     }
   };
 
-  const handleReject = async (phase: PipelinePhase) => {
+  const rejectPhase = async (phase: PipelinePhase, feedback?: RejectPhaseRequest) => {
     if (!id) return;
-    const reason = prompt('Reason for rejection (optional):');
     try {
-      await pipelineApi.rejectPhase(id, phase, reason || undefined);
+      await pipelineApi.rejectPhase(id, phase, feedback);
       await loadStatus();
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to reject phase');
     }
   };
 
+  const handleReject = (phase: PipelinePhase) => {
+    // Rejecting the PR phase just completes without a PR - nothing to explain
+    if (phase === PipelinePhase.PullRequest) {
+      rejectPhase(phase);
+      return;
+    }
+    setRejectingPhase(phase);
+  };
+
+  const handleSubmitRejection = async (feedback: RejectPhaseRequest) => {
+    if (rejectingPhase === null) return;
+    setRejecting(true);
+    await rejectPhase(rejectingPhase, feedback);
+    setRejecting(false);
+    setRejectingPhase(null);
+  };
+
   const handleCancel = async () => {
     if (!id) return;
     if (!confirm('Are you sure you want to cancel this pipeline?')) return;
@@ -111,18 +268,101 @@ export function PipelineView() {
       await loadStatus();
 
       // Add log entry
-      setLogs(prev => [...prev, {
+      log.append({
+        id: createLocalLogId(),
         storyId: id,
         updateType: 'RetryApproved',
         phase: status?.currentPhase || PipelinePhase.None,
         message: `Retry action selected: ${actionLabels[action]}`,
+        data: { action },
         timestamp: new Date().toISOString()
-      }]);
+      });
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to approve retry');
     }
   };
 
+  const handleRerun = async (phase: PipelinePhase) => {
+    if (!id) return;
+    if (!confirm(`Rerun from ${getPhaseLabel(phase)}? It and every later phase run again; earlier phases keep their results.`)) return;
+
+    try {
+      await pipelineApi.rerun(id, phase);
+      await loadStatus();
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to rerun the pipeline'));
+    }
+  };
+
+  const handleSaveFixFile = async (path: string, content: string): Promise<boolean> => {
+    if (!id) return false;
+    try {
+      await pipelineApi.saveManualFixFile(id, path, content);
+      setQueryData(queryKeys.manualFixFile(id, path), { path, content });
+      return true;
+    } catch (err) {
+      setError(getErrorMessage(err, `Failed to save ${path}`));
+      return false;
+    }
+  };
+
+  const handleResumeManualFix = async () => {
+    if (!id) return;
+    setResumingFix(true);
+    try {
+      await pipelineApi.resumeManualFix(id);
+      await loadStatus();
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to resume the tests'));
+    } finally {
+      setResumingFix(false);
+    }
+  };
+
+  const handleContinueOverBudget = async () => {
+    if (!id) return;
+    setContinuingOverBudget(true);
+    try {
+      await pipelineApi.continueOverBudget(id);
+      await loadStatus();
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to continue the pipeline'));
+    } finally {
+      setContinuingOverBudget(false);
+    }
+  };
+
+  const handleCreateReviewFixTasks = async (findings: ReviewFinding[]) => {
+    if (!id) return;
+    if (!confirm(`Send ${findings.length === 1 ? 'this finding' : `${findings.length} findings`} back to Coding? The review is rejected and the code is regenerated with the fixes.`)) return;
+
+    setCreatingFixTasks(true);
+    try {
+      await pipelineApi.createReviewFixTasks(id, findings.map(f => ({
+        severity: f.severity,
+        category: f.category,
+        file: f.file,
+        line: f.line,
+        description: f.description,
+        suggestion: f.suggestion
+      })));
+      await loadStatus();
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to create fix tasks'));
+    } finally {
+      setCreatingFixTasks(false);
+    }
+  };
+
+  // Live calls fill in for the running phase until the status lists them
+  const statusCalls = status ? getRunLLMCalls(status) : [];
+  const listedCallIds = new Set(statusCalls.map(c => c.callId));
+  const runStart = status?.startedAt ? new Date(status.startedAt).getTime() : 0;
+  const runCalls = [
+    ...statusCalls,
+    ...liveCalls.filter(c => !listedCallIds.has(c.callId) && (!c.timestamp || new Date(c.timestamp).getTime() >= runStart))
+  ];
+
   if (loading) {
     return (
       <div className="flex items-center justify-center h-full">
@@ -177,6 +417,13 @@ export function PipelineView() {
         </div>
       )}
 
+      {/* Cost Meter - the run's LLM calls against the story budget */}
+      {status && (
+        <div className="mb-6">
+          <CostMeter calls={runCalls} budget={story?.budget} />
+        </div>
+      )}
+
       {/* Pipeline Status */}
       {status && (
         <div className="bg-slate-800/50 backdrop-blur border border-slate-700 rounded-xl p-6 mb-6">
@@ -186,6 +433,52 @@ export function PipelineView() {
             onApprove={handleApprove}
             onReject={handleReject}
             onApproveRetry={handleApproveRetry}
+            plan={story ? { tasks: story.tasks, projects: planProjects, errors: approvalErrors } : undefined}
+            pullRequestErrors={approvalErrors}
+            pullRequestPatchUrl={id ? pipelineApi.getPullRequestPatchUrl(id) : undefined}
+            approving={approving}
+            onInspectCall={setInspectedCall}
+            onOpenFrame={openFrame}
+            onRerun={handleRerun}
+            onContinueOverBudget={handleContinueOverBudget}
+            continuingOverBudget={continuingOverBudget}
+          />
+        </div>
+      )}
+
+      {/* Manual Fix Workspace */}
+      {manualFix && (
+        <div className="bg-slate-800/50 backdrop-blur border border-orange-500/30 rounded-xl p-6 mb-6">
+          <h2 className="text-lg font-semibold text-orange-400 mb-4 flex items-center gap-2">
+            <Wrench className="w-5 h-5" />
+            Manual Fix
+          </h2>
+          <ManualFixWorkspace
+            workspace={manualFix}
+            selectedPath={selectedFixPath}
+            onSelectFile={setManualFixPath}
+            file={fixFileQuery.data}
+            isLoading={fixFileQuery.isLoading}
+            error={fixFileQuery.error ? getErrorMessage(fixFileQuery.error, 'Failed to load the file') : null}
+            onSave={handleSaveFixFile}
+            onResume={handleResumeManualFix}
+            resuming={resumingFix}
+          />
+        </div>
+      )}
+
+      {/* Review Report */}
+      {reviewQuery.data && (
+        <div className="bg-slate-800/50 backdrop-blur border border-slate-700 rounded-xl p-6 mb-6">
+          <h2 className="text-lg font-semibold text-white mb-4 flex items-center gap-2">
+            <ClipboardCheck className="w-5 h-5 text-slate-400" />
+            Review Report
+          </h2>
+          <ReviewReportViewer
+            report={reviewQuery.data}
+            onOpenFinding={setOpenedFinding}
+            onCreateFixTasks={reviewPending ? handleCreateReviewFixTasks : undefined}
+            creatingFixTasks={creatingFixTasks}
           />
         </div>
       )}
@@ -193,9 +486,71 @@ export function PipelineView() {
       {/* Logs */}
       <div className="bg-slate-800/50 backdrop-blur border border-slate-700 rounded-xl p-6">
         <h2 className="text-lg font-semibold text-white mb-4">Activity Log</h2>
-        <LogViewer logs={logs} className="h-80" />
+        {log.error && (
+          <p className="mb-2 text-sm text-red-400">{log.error}</p>
+        )}
+        <LogViewer
+          logs={log.logs}
+          hasMore={log.hasMore}
+          isLoadingOlder={log.isLoadingOlder}
+          onLoadOlder={log.loadOlder}
+          onInspectCall={setInspectedCall}
+          className="h-80"
+        />
       </div>
 
+      {/* Rejection Dialog */}
+      {rejectingPhase !== null && (
+        <RejectPhaseDialog
+          phase={rejectingPhase}
+          tasks={story?.tasks ?? []}
+          files={getPhaseFiles(status?.phases.find(p => p.phase === rejectingPhase)?.result, story?.tasks ?? [])}
+          warning={rejectingPhase >= PipelinePhase.UnitTesting
+            ? 'Rejecting will rollback all deployment changes (delete new files, revert modified files).'
+            : undefined}
+          submitting={rejecting}
+          onSubmit={handleSubmitRejection}
+          onCancel={() => setRejectingPhase(null)}
+        />
+      )}
+
+      {/* LLM Call Inspector */}
+      {inspectedCall && (
+        <LLMCallInspector
+          call={inspectedCall}
+          detail={callQuery.data}
+          isLoading={callQuery.isLoading}
+          error={callQuery.error ? getErrorMessage(callQuery.error, 'Failed to load the LLM call') : null}
+          onClose={() => setInspectedCall(null)}
+        />
+      )}
+
+      {/* Source file opened from a test stack trace */}
+      {openedFrame && (
+        <SourceFileDialog
+          path={openedFrame.file}
+          line={openedFrame.line}
+          file={sourceQuery.data}
+          isLoading={sourceQuery.isLoading}
+          error={sourceQuery.error ? getErrorMessage(sourceQuery.error, 'Failed to load the file') : null}
+          onClose={() => setOpenedFrame(null)}
+        />
+      )}
+
+      {/* Generated file opened from a review finding */}
+      {openedFinding && (
+        <SourceFileDialog
+          path={findingPath ?? openedFinding.file}
+          line={openedFinding.line}
+          file={findingPath && outputQuery.data ? { path: findingPath, content: outputQuery.data[findingPath] } : undefined}
+          isLoading={outputQuery.isLoading}
+          error={outputQuery.error
+            ? getErrorMessage(outputQuery.error, 'Failed to load the generated output')
+            : outputQuery.data && !findingPath ? `${openedFinding.file} is not in the generated output` : null}
+          onClose={() => setOpenedFinding(null)}
+        />
+      )}
+
       {/* Completed Actions */}
       {status?.currentPhase === PipelinePhase.Completed && (
         <div className="mt-6 flex gap-4">
@@ -1,13 +1,15 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
 import { useParams, useNavigate, Link } from 'react-router-dom';
-import { ArrowLeft, RefreshCw, XCircle, Play, Edit2, Save, X, ClipboardList } from 'lucide-react';
-import { requirementsApi, codebasesApi } from '../services/api';
+import { ArrowLeft, RefreshCw, XCircle, Play, Edit2, Save, X, ClipboardList, Coins } from 'lucide-react';
+import { requirementsApi, codebasesApi, approvalPoliciesApi } from '../services/api';
+import { invalidateQueries, queryKeys, setQueryData } from '../services/queryCache';
+import { useQuery } from '../hooks/useQuery';
 import type {
   RequirementDetailDto,
   WizardStatusDto,
   AnswerDto,
-  CodebaseDto,
-  RequirementType
+  RequirementType,
+  CostBudgetDto
 } from '../types';
 import {
   RequirementStatus,
@@ -17,6 +19,9 @@ import {
   getRequirementStatusColor
 } from '../types';
 import { WizardStatus } from '../components/WizardStatus';
+import { StartRunDialog } from '../components/StartRunDialog';
+import { StoryDependencyGraph } from '../components/StoryDependencyGraph';
+import { CostBudgetEditor } from '../components/CostBudgetEditor';
 
 export default function RequirementDetail() {
   const { id } = useParams<{ id: string }>();
@@ -34,9 +39,23 @@ export default function RequirementDetail() {
   const [editContent, setEditContent] = useState('');
   const [editType, setEditType] = useState<RequirementType>(0);
   const [editCodebaseId, setEditCodebaseId] = useState<string>('');
-  const [codebases, setCodebases] = useState<CodebaseDto[]>([]);
+  const { data: codebases = [] } = useQuery(queryKeys.codebases, signal => codebasesApi.getAll({ signal }));
   const [saving, setSaving] = useState(false);
 
+  // Start dialog state
+  const { data: policies = [] } = useQuery(queryKeys.approvalPolicies, signal => approvalPoliciesApi.getAll({ signal }));
+  const [showStartDialog, setShowStartDialog] = useState(false);
+
+  // Story run state
+  const hasCreatedStories = (requirement?.createdStoryIds.length ?? 0) > 0;
+  const { data: storyGraph } = useQuery(
+    id && hasCreatedStories ? queryKeys.requirementGraph(id) : null,
+    signal => requirementsApi.getStoryGraph(id!, { signal })
+  );
+  const [showRunDialog, setShowRunDialog] = useState(false);
+  const [runningStories, setRunningStories] = useState(false);
+  const [savingBudget, setSavingBudget] = useState(false);
+
   // Answers state
   const [answers, setAnswers] = useState<Record<string, AnswerDto>>({});
   const [aiNotes, setAiNotes] = useState('');
@@ -93,11 +112,6 @@ export default function RequirementDetail() {
     }
   }, [id, answers, aiNotes]);
 
-  // Load codebases for edit form
-  useEffect(() => {
-    codebasesApi.getAll().then(setCodebases).catch(console.error);
-  }, []);
-
   useEffect(() => {
     loadData();
   }, [loadData]);
@@ -142,6 +156,7 @@ export default function RequirementDetail() {
         codebaseId: editCodebaseId || null
       });
       setIsEditing(false);
+      invalidateQueries(queryKeys.requirements);
       await loadData();
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to save changes');
@@ -150,17 +165,47 @@ export default function RequirementDetail() {
     }
   };
 
-  const handleStartWizard = async () => {
+  const handleBudgetSave = async (budget: CostBudgetDto) => {
+    if (!id) return;
+
+    try {
+      setSavingBudget(true);
+      await requirementsApi.updateBudget(id, budget);
+      await loadData();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save the budget');
+    } finally {
+      setSavingBudget(false);
+    }
+  };
+
+  const handleStartWizard = async (approvalPolicyId: string) => {
     if (!id) return;
     try {
       setActionLoading(true);
-      const status = await requirementsApi.startWizard(id, false);
+      const status = await requirementsApi.startWizard(id, { approvalPolicyId });
       setWizardStatus(status);
       await loadData();
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to start wizard');
     } finally {
       setActionLoading(false);
+      setShowStartDialog(false);
+    }
+  };
+
+  const handleRunStories = async (approvalPolicyId: string) => {
+    if (!id) return;
+    try {
+      setRunningStories(true);
+      const queue = await requirementsApi.runStories(id, { approvalPolicyId });
+      setQueryData(queryKeys.pipelineQueue, queue);
+      invalidateQueries(queryKeys.requirementGraph(id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to run stories');
+    } finally {
+      setRunningStories(false);
+      setShowRunDialog(false);
     }
   };
 
@@ -204,6 +249,9 @@ export default function RequirementDetail() {
         selectedStoryIds: Array.from(selectedStories)
       });
       setWizardStatus(status);
+      invalidateQueries(queryKeys.stories);
+      invalidateQueries(queryKeys.requirements);
+      invalidateQueries(queryKeys.requirementGraph(id));
       await loadData();
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to create stories');
@@ -319,7 +367,7 @@ export default function RequirementDetail() {
 
           {requirement.status === RequirementStatus.Draft && !isEditing && (
             <button
-              onClick={handleStartWizard}
+              onClick={() => setShowStartDialog(true)}
               disabled={actionLoading}
               className="flex items-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-slate-600 text-white rounded-lg transition-colors"
             >
@@ -355,6 +403,25 @@ export default function RequirementDetail() {
         </div>
       )}
 
+      {/* Cost Budget - shared by every run of the requirement's stories */}
+      <div className="mb-6 bg-slate-800/50 backdrop-blur border border-slate-700 rounded-xl p-4 flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h2 className="text-sm font-semibold text-white flex items-center gap-2">
+            <Coins className="w-4 h-4 text-amber-400" />
+            Cost Budget
+          </h2>
+          <p className="text-xs text-slate-500">
+            Covers every pipeline run of the stories created from this requirement; a run pauses before its next phase once they spend more, so the phase in progress can go over
+          </p>
+        </div>
+        <CostBudgetEditor
+          key={`${requirement.budget?.maxTokens ?? ''}-${requirement.budget?.maxCostUSD ?? ''}`}
+          budget={requirement.budget}
+          saving={savingBudget}
+          onSave={handleBudgetSave}
+        />
+      </div>
+
       {/* Edit Form or Raw Requirement Display */}
       {isEditing ? (
         <div className="mb-6 bg-slate-800/50 backdrop-blur border border-blue-500/50 rounded-xl p-6">
@@ -504,6 +571,15 @@ export default function RequirementDetail() {
           </div>
         )}
 
+      {/* Stories in dependency order */}
+      {storyGraph && storyGraph.nodes.length > 0 && !isEditing && (
+        <StoryDependencyGraph
+          graph={storyGraph}
+          running={runningStories}
+          onRun={() => setShowRunDialog(true)}
+        />
+      )}
+
       {/* Completed Actions */}
       {requirement.status === RequirementStatus.Completed && !isEditing && (
         <div className="mt-6 flex gap-4">
@@ -521,6 +597,32 @@ export default function RequirementDetail() {
           </Link>
         </div>
       )}
+
+      {showStartDialog && (
+        <StartRunDialog
+          kind="wizard"
+          title="Start Wizard"
+          policies={policies}
+          assignedPolicyId={codebases.find(cb => cb.id === requirement.codebaseId)?.approvalPolicyId}
+          assignedFrom="codebase"
+          starting={actionLoading}
+          onStart={handleStartWizard}
+          onCancel={() => setShowStartDialog(false)}
+        />
+      )}
+
+      {showRunDialog && (
+        <StartRunDialog
+          kind="pipeline"
+          title="Run All Stories"
+          policies={policies}
+          assignedPolicyId={codebases.find(cb => cb.id === requirement.codebaseId)?.approvalPolicyId}
+          assignedFrom="codebase"
+          starting={runningStories}
+          onStart={handleRunStories}
+          onCancel={() => setShowRunDialog(false)}
+        />
+      )}
     </div>
   );
 }
@@ -1,12 +1,11 @@
-import { useState, useEffect } from 'react';
+import { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { Plus, RefreshCw, Activity, CheckCircle, Clock, FileText, Trash2, ChevronRight, Sparkles, GitBranch, ClipboardList } from 'lucide-react';
-import { requirementsApi, codebasesApi } from '../services/api';
-import type {
-  RequirementDto,
-  CodebaseDto,
-  RequirementType
-} from '../types';
+import { requirementsApi, codebasesApi, getFieldErrors, getErrorMessage } from '../services/api';
+import { FieldError } from '../components';
+import { invalidateQueries, queryKeys } from '../services/queryCache';
+import { useQuery } from '../hooks/useQuery';
+import type { RequirementDto, RequirementType } from '../types';
 import {
   getRequirementTypeLabel,
   getRequirementTypeColor,
@@ -18,10 +17,15 @@ import {
 
 export default function Requirements() {
   const navigate = useNavigate();
-  const [requirements, setRequirements] = useState<RequirementDto[]>([]);
-  const [codebases, setCodebases] = useState<CodebaseDto[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+  const requirementsQuery = useQuery(queryKeys.requirements, signal => requirementsApi.getAll({ signal }));
+  const codebasesQuery = useQuery(queryKeys.codebases, signal => codebasesApi.getAll({ signal }));
+  const requirements = requirementsQuery.data ?? [];
+  const codebases = codebasesQuery.data ?? [];
+  const loading = requirementsQuery.isLoading || codebasesQuery.isLoading;
+  const refreshing = requirementsQuery.isFetching || codebasesQuery.isFetching;
+  const [actionError, setError] = useState<string | null>(null);
+  const loadError = requirementsQuery.error ?? codebasesQuery.error;
+  const error = actionError ?? (loadError ? getErrorMessage(loadError, 'Failed to load requirements') : null);
 
   // New requirement form state
   const [showForm, setShowForm] = useState(false);
@@ -30,26 +34,11 @@ export default function Requirements() {
   const [formType, setFormType] = useState<RequirementType>(0);
   const [formCodebaseId, setFormCodebaseId] = useState<string>('');
   const [creating, setCreating] = useState(false);
-
-  useEffect(() => {
-    loadData();
-  }, []);
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
 
   const loadData = async () => {
-    try {
-      setLoading(true);
-      const [reqs, cbs] = await Promise.all([
-        requirementsApi.getAll(),
-        codebasesApi.getAll()
-      ]);
-      setRequirements(reqs);
-      setCodebases(cbs);
-      setError(null);
-    } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to load requirements');
-    } finally {
-      setLoading(false);
-    }
+    setError(null);
+    await Promise.all([requirementsQuery.refetch(), codebasesQuery.refetch()]).catch(() => { });
   };
 
   const handleCreate = async (e: React.FormEvent) => {
@@ -58,6 +47,7 @@ export default function Requirements() {
 
     try {
       setCreating(true);
+      setFieldErrors({});
       const req = await requirementsApi.create({
         title: formTitle || undefined,
         rawContent: formContent,
@@ -66,9 +56,12 @@ export default function Requirements() {
       });
 
       // Navigate to the new requirement
+      invalidateQueries(queryKeys.requirements);
       navigate(`/requirements/${req.id}`);
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to create requirement');
+      const errors = getFieldErrors(err);
+      setFieldErrors(errors);
+      if (Object.keys(errors).length === 0) setError(getErrorMessage(err, 'Failed to create requirement'));
     } finally {
       setCreating(false);
     }
@@ -80,8 +73,7 @@ export default function Requirements() {
 
     try {
       await requirementsApi.delete(id);
-      // Reload data to ensure UI is in sync
-      await loadData();
+      invalidateQueries(queryKeys.requirements);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to delete requirement');
     }
@@ -111,7 +103,7 @@ export default function Requirements() {
             onClick={loadData}
             className="flex items-center gap-2 px-4 py-2 bg-slate-700 hover:bg-slate-600 text-white rounded-lg transition-colors"
           >
-            <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+            <RefreshCw className={`w-4 h-4 ${refreshing ? 'animate-spin' : ''}`} />
             Refresh
           </button>
           <button
@@ -202,6 +194,7 @@ export default function Requirements() {
                 placeholder="Auto-generated from content if empty"
                 className="w-full px-4 py-2 bg-slate-900 border border-slate-600 rounded-lg text-white placeholder-slate-500 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
               />
+              <FieldError message={fieldErrors.title} />
             </div>
 
             {/* Type Selection */}
@@ -244,6 +237,7 @@ export default function Requirements() {
                   </option>
                 ))}
               </select>
+              <FieldError message={fieldErrors.codebaseId} />
             </div>
 
             {/* Raw Content */}
@@ -259,6 +253,7 @@ export default function Requirements() {
                 required
                 className="w-full px-4 py-3 bg-slate-900 border border-slate-600 rounded-lg text-white placeholder-slate-500 focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none"
               />
+              <FieldError message={fieldErrors.rawContent} />
               <p className="text-xs text-slate-500 mt-1">
                 Write your requirement in natural language. The AI will analyze it and ask clarifying questions.
               </p>
@@ -1,12 +1,34 @@
 import { useState, useEffect } from 'react';
-import { Save, RefreshCw, Server, Wifi, WifiOff, Brain, Zap, RotateCcw, Settings as SettingsIcon } from 'lucide-react';
-import { settingsApi, type LLMSettingsDto, type LLMUsageStatsDto } from '../services/api';
+import { Save, RefreshCw, Server, Wifi, WifiOff, Brain, Zap, RotateCcw, Settings as SettingsIcon, Plus, Trash2, Edit2, Check, X, ShieldCheck } from 'lucide-react';
+import { settingsApi, approvalPoliciesApi, getErrorMessage, type LLMSettingsDto, type LLMUsageStatsDto } from '../services/api';
 import { PageLayout, ErrorAlert } from '../components';
+import { useBackendProfile } from '../hooks/useBackendProfile';
+import { useQuery } from '../hooks/useQuery';
+import { invalidateQueries, queryKeys } from '../services/queryCache';
+import {
+  ApprovalPolicyDto,
+  SaveApprovalPolicyRequest,
+  PipelinePhase,
+  WizardPhase,
+  APPROVAL_GATE_PHASES,
+  APPROVAL_GATE_WIZARD_PHASES,
+  getPhaseLabel,
+  getWizardPhaseLabel
+} from '../types';
+import {
+  resolveBackendUrl,
+  saveBackendProfile,
+  deleteBackendProfile,
+  setActiveBackendProfile,
+  createProfileId,
+  DEFAULT_PROFILE,
+  type BackendProfile
+} from '../services/backendProfiles';
 
 export function Settings() {
-  const [apiUrl, setApiUrl] = useState(() => localStorage.getItem('apiUrl') || '');
+  const { profiles, activeId, activeProfile } = useBackendProfile();
+  const [draftProfile, setDraftProfile] = useState<BackendProfile | null>(null);
   const [healthStatus, setHealthStatus] = useState<'checking' | 'healthy' | 'unhealthy'>('checking');
-  const [saved, setSaved] = useState(false);
 
   const [llmSettings, setLlmSettings] = useState<LLMSettingsDto>({
     maxPromptTokens: 8000,
@@ -19,12 +41,14 @@ export function Settings() {
   const [llmSaved, setLlmSaved] = useState(false);
   const [llmError, setLlmError] = useState<string | null>(null);
 
+  const { data: policies = [] } = useQuery(queryKeys.approvalPolicies, signal => approvalPoliciesApi.getAll({ signal }));
+  const [draftPolicy, setDraftPolicy] = useState<(SaveApprovalPolicyRequest & { id?: string }) | null>(null);
+  const [policyError, setPolicyError] = useState<string | null>(null);
+
   const checkHealth = async () => {
     setHealthStatus('checking');
-    const base = (apiUrl || '').trim();
-    const url = base ? `${base.replace(/\/$/, '')}/health` : '/health';
     try {
-      const response = await fetch(url);
+      const response = await fetch(resolveBackendUrl('/health'));
       setHealthStatus(response.ok ? 'healthy' : 'unhealthy');
     } catch {
       setHealthStatus('unhealthy');
@@ -78,11 +102,70 @@ export function Settings() {
     return () => clearInterval(interval);
   }, []);
 
-  const handleSave = () => {
-    localStorage.setItem('apiUrl', apiUrl);
-    setSaved(true);
-    setTimeout(() => setSaved(false), 2000);
+  // Switching reroutes REST calls, the hub and the heartbeat; reload what this page shows
+  const handleUseProfile = (id: string) => {
+    setActiveBackendProfile(id);
     checkHealth();
+    loadLLMSettings();
+    loadLLMStats();
+  };
+
+  const handleSaveProfile = () => {
+    if (!draftProfile || !draftProfile.name.trim()) return;
+    const isActive = draftProfile.id === activeId;
+    saveBackendProfile(draftProfile);
+    setDraftProfile(null);
+    if (isActive) handleUseProfile(draftProfile.id);
+  };
+
+  const handleDeleteProfile = (profile: BackendProfile) => {
+    if (!confirm(`Delete backend profile "${profile.name}"?`)) return;
+    const wasActive = profile.id === activeId;
+    deleteBackendProfile(profile.id);
+    if (wasActive) handleUseProfile(DEFAULT_PROFILE.id);
+  };
+
+  const handleSavePolicy = async () => {
+    if (!draftPolicy || !draftPolicy.name.trim()) return;
+    const { id, ...request } = draftPolicy;
+    try {
+      if (id) await approvalPoliciesApi.update(id, request);
+      else await approvalPoliciesApi.create(request);
+      setDraftPolicy(null);
+      setPolicyError(null);
+      invalidateQueries(queryKeys.approvalPolicies);
+    } catch (err) {
+      setPolicyError(getErrorMessage(err, 'Failed to save approval policy'));
+    }
+  };
+
+  const handleDeletePolicy = async (policy: ApprovalPolicyDto) => {
+    if (!confirm(`Delete approval policy "${policy.name}"? Stories and codebases using it fall back to manual approval.`)) return;
+    try {
+      await approvalPoliciesApi.delete(policy.id);
+      setPolicyError(null);
+      invalidateQueries(queryKeys.approvalPolicies);
+    } catch (err) {
+      setPolicyError(getErrorMessage(err, 'Failed to delete approval policy'));
+    }
+  };
+
+  const togglePolicyPhase = (phase: PipelinePhase) => {
+    if (!draftPolicy) return;
+    const phases = draftPolicy.autoApprovePhases;
+    setDraftPolicy({
+      ...draftPolicy,
+      autoApprovePhases: phases.includes(phase) ? phases.filter(p => p !== phase) : [...phases, phase]
+    });
+  };
+
+  const togglePolicyWizardPhase = (phase: WizardPhase) => {
+    if (!draftPolicy) return;
+    const phases = draftPolicy.autoApproveWizardPhases;
+    setDraftPolicy({
+      ...draftPolicy,
+      autoApproveWizardPhases: phases.includes(phase) ? phases.filter(p => p !== phase) : [...phases, phase]
+    });
   };
 
   const tokensToKB = (tokens: number) => Math.ceil(tokens * 4 / 1024);
@@ -250,52 +333,287 @@ export function Settings() {
           </div>
         )}
 
-        {/* API Connection */}
+        {/* Backend Profiles */}
         <div className="bg-slate-800/50 backdrop-blur border border-slate-700 rounded-xl p-6">
-          <div className="flex items-center gap-3 mb-4">
-            <Server className="w-5 h-5 text-blue-400" />
-            <h2 className="text-lg font-semibold text-white">API Connection</h2>
-          </div>
-          <div className="space-y-4">
-            <div>
-              <label className="block text-sm font-medium text-slate-300 mb-2">API Base URL</label>
-              <input
-                type="text"
-                value={apiUrl}
-                onChange={e => setApiUrl(e.target.value)}
-                placeholder={window.location.origin}
-                className="w-full px-4 py-3 bg-slate-900 border border-slate-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-blue-500 placeholder-slate-500"
-              />
+          <div className="flex items-center justify-between mb-4">
+            <div className="flex items-center gap-3">
+              <Server className="w-5 h-5 text-blue-400" />
+              <h2 className="text-lg font-semibold text-white">Backend Profiles</h2>
             </div>
-            <div className="flex items-center justify-between">
-              <div className="flex items-center gap-2">
-                {healthStatus === 'checking' ? (
-                  <>
-                    <RefreshCw className="w-4 h-4 text-slate-400 animate-spin" />
-                    <span className="text-slate-400">Checking connection...</span>
-                  </>
-                ) : healthStatus === 'healthy' ? (
-                  <>
-                    <Wifi className="w-4 h-4 text-emerald-400" />
-                    <span className="text-emerald-400">Connected</span>
-                  </>
-                ) : (
-                  <>
-                    <WifiOff className="w-4 h-4 text-red-400" />
-                    <span className="text-red-400">Not connected</span>
-                  </>
-                )}
+            <button
+              onClick={() => setDraftProfile({ id: createProfileId(), name: '', baseUrl: '' })}
+              className="flex items-center gap-2 px-3 py-1.5 bg-slate-700 hover:bg-slate-600 text-white text-sm rounded-lg transition-colors"
+            >
+              <Plus className="w-4 h-4" />
+              Add Profile
+            </button>
+          </div>
+          <p className="text-sm text-slate-400 mb-4">
+            All API calls, the live-update hub and the health heartbeat go to the active profile.
+            Leave the URL empty to use the server this UI is served from.
+          </p>
+
+          <div className="space-y-2 mb-4">
+            {profiles.map(profile => {
+              const isActive = profile.id === activeId;
+              return (
+                <div
+                  key={profile.id}
+                  className={`flex items-center justify-between gap-3 px-4 py-3 rounded-lg border ${isActive
+                    ? 'bg-blue-600/10 border-blue-500/40'
+                    : 'bg-slate-900/50 border-slate-700'
+                    }`}
+                >
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className="text-white font-medium truncate">{profile.name}</span>
+                      {isActive && (
+                        <span className="px-2 py-0.5 text-xs rounded-full bg-blue-500/20 text-blue-300">Active</span>
+                      )}
+                    </div>
+                    <div className="text-xs text-slate-500 font-mono truncate">
+                      {profile.baseUrl || `${window.location.origin} (same origin)`}
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-1 flex-shrink-0">
+                    {!isActive && (
+                      <button
+                        onClick={() => handleUseProfile(profile.id)}
+                        className="px-3 py-1 text-sm bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors"
+                      >
+                        Use
+                      </button>
+                    )}
+                    <button
+                      onClick={() => setDraftProfile({ ...profile })}
+                      className="p-1.5 text-slate-400 hover:text-white hover:bg-slate-700 rounded-lg transition-colors"
+                      title="Edit"
+                    >
+                      <Edit2 className="w-4 h-4" />
+                    </button>
+                    {profile.id !== DEFAULT_PROFILE.id && (
+                      <button
+                        onClick={() => handleDeleteProfile(profile)}
+                        className="p-1.5 text-slate-400 hover:text-red-400 hover:bg-slate-700 rounded-lg transition-colors"
+                        title="Delete"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+
+          {draftProfile && (
+            <div className="mb-4 p-4 bg-slate-900/70 border border-slate-600 rounded-lg space-y-3">
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                <div>
+                  <label className="block text-sm font-medium text-slate-300 mb-1">Name</label>
+                  <input
+                    type="text"
+                    value={draftProfile.name}
+                    onChange={e => setDraftProfile({ ...draftProfile, name: e.target.value })}
+                    placeholder="e.g., Team A"
+                    className="w-full px-3 py-2 bg-slate-900 border border-slate-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-blue-500 placeholder-slate-500"
+                  />
+                </div>
+                <div className="md:col-span-2">
+                  <label className="block text-sm font-medium text-slate-300 mb-1">Base URL</label>
+                  <input
+                    type="text"
+                    value={draftProfile.baseUrl}
+                    onChange={e => setDraftProfile({ ...draftProfile, baseUrl: e.target.value })}
+                    placeholder={window.location.origin}
+                    className="w-full px-3 py-2 bg-slate-900 border border-slate-600 rounded-lg text-white font-mono focus:outline-none focus:ring-2 focus:ring-blue-500 placeholder-slate-500"
+                  />
+                </div>
               </div>
-              <button
-                onClick={checkHealth}
-                className="px-4 py-2 bg-slate-700 hover:bg-slate-600 text-white rounded-lg transition-colors"
-              >
-                Test Connection
-              </button>
+              <div className="flex justify-end gap-2">
+                <button
+                  onClick={() => setDraftProfile(null)}
+                  className="flex items-center gap-1 px-3 py-1.5 text-slate-300 hover:text-white transition-colors"
+                >
+                  <X className="w-4 h-4" />
+                  Cancel
+                </button>
+                <button
+                  onClick={handleSaveProfile}
+                  disabled={!draftProfile.name.trim()}
+                  className="flex items-center gap-1 px-3 py-1.5 bg-blue-600 hover:bg-blue-700 disabled:bg-slate-600 text-white rounded-lg transition-colors"
+                >
+                  <Check className="w-4 h-4" />
+                  Save Profile
+                </button>
+              </div>
+            </div>
+          )}
+
+          <div className="flex items-center justify-between pt-4 border-t border-slate-700">
+            <div className="flex items-center gap-2">
+              {healthStatus === 'checking' ? (
+                <>
+                  <RefreshCw className="w-4 h-4 text-slate-400 animate-spin" />
+                  <span className="text-slate-400">Checking {activeProfile.name}...</span>
+                </>
+              ) : healthStatus === 'healthy' ? (
+                <>
+                  <Wifi className="w-4 h-4 text-emerald-400" />
+                  <span className="text-emerald-400">{activeProfile.name} is reachable</span>
+                </>
+              ) : (
+                <>
+                  <WifiOff className="w-4 h-4 text-red-400" />
+                  <span className="text-red-400">{activeProfile.name} is not reachable</span>
+                </>
+              )}
             </div>
+            <button
+              onClick={checkHealth}
+              className="px-4 py-2 bg-slate-700 hover:bg-slate-600 text-white rounded-lg transition-colors"
+            >
+              Test Connection
+            </button>
           </div>
         </div>
 
+        {/* Approval Policies */}
+        <div className="bg-slate-800/50 backdrop-blur border border-slate-700 rounded-xl p-6">
+          <div className="flex items-center justify-between mb-4">
+            <div className="flex items-center gap-3">
+              <ShieldCheck className="w-5 h-5 text-emerald-400" />
+              <h2 className="text-lg font-semibold text-white">Approval Policies</h2>
+            </div>
+            <button
+              onClick={() => setDraftPolicy({ name: '', description: '', autoApprovePhases: [], autoApproveWizardPhases: [] })}
+              className="flex items-center gap-2 px-3 py-1.5 bg-slate-700 hover:bg-slate-600 text-white text-sm rounded-lg transition-colors"
+            >
+              <Plus className="w-4 h-4" />
+              Add Policy
+            </button>
+          </div>
+          <p className="text-sm text-slate-400 mb-4">
+            Gates listed in a policy continue without waiting. Assign a policy to a codebase or story, or pick one when starting a run.
+          </p>
+
+          {policyError && <div className="mb-4"><ErrorAlert message={policyError} /></div>}
+
+          <div className="space-y-2 mb-4">
+            {policies.map(policy => (
+              <div
+                key={policy.id}
+                className="flex items-center justify-between gap-3 px-4 py-3 rounded-lg border bg-slate-900/50 border-slate-700"
+              >
+                <div className="min-w-0">
+                  <div className="text-white font-medium truncate">{policy.name}</div>
+                  <div className="text-xs text-slate-500 truncate">
+                    {[
+                      ...policy.autoApprovePhases.map(getPhaseLabel),
+                      ...policy.autoApproveWizardPhases.map(p => `Wizard ${getWizardPhaseLabel(p)}`)
+                    ].join(', ') || 'No gates auto-approved'}
+                  </div>
+                </div>
+                <div className="flex items-center gap-1 flex-shrink-0">
+                  <button
+                    onClick={() => setDraftPolicy({
+                      id: policy.id,
+                      name: policy.name,
+                      description: policy.description ?? '',
+                      autoApprovePhases: [...policy.autoApprovePhases],
+                      autoApproveWizardPhases: [...policy.autoApproveWizardPhases]
+                    })}
+                    className="p-1.5 text-slate-400 hover:text-white hover:bg-slate-700 rounded-lg transition-colors"
+                    title="Edit"
+                  >
+                    <Edit2 className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => handleDeletePolicy(policy)}
+                    className="p-1.5 text-slate-400 hover:text-red-400 hover:bg-slate-700 rounded-lg transition-colors"
+                    title="Delete"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          {draftPolicy && (
+            <div className="p-4 bg-slate-900/70 border border-slate-600 rounded-lg space-y-3">
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                <div>
+                  <label className="block text-sm font-medium text-slate-300 mb-1">Name</label>
+                  <input
+                    type="text"
+                    value={draftPolicy.name}
+                    onChange={e => setDraftPolicy({ ...draftPolicy, name: e.target.value })}
+                    placeholder="e.g., Trusted refactors"
+                    className="w-full px-3 py-2 bg-slate-900 border border-slate-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-blue-500 placeholder-slate-500"
+                  />
+                </div>
+                <div className="md:col-span-2">
+                  <label className="block text-sm font-medium text-slate-300 mb-1">Description</label>
+                  <input
+                    type="text"
+                    value={draftPolicy.description ?? ''}
+                    onChange={e => setDraftPolicy({ ...draftPolicy, description: e.target.value })}
+                    className="w-full px-3 py-2 bg-slate-900 border border-slate-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-blue-500 placeholder-slate-500"
+                  />
+                </div>
+              </div>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                <div>
+                  <div className="text-sm font-medium text-slate-300 mb-1">Pipeline gates</div>
+                  {APPROVAL_GATE_PHASES.map(phase => (
+                    <label key={phase} className="flex items-center gap-2 py-0.5 text-sm text-slate-300">
+                      <input
+                        type="checkbox"
+                        checked={draftPolicy.autoApprovePhases.includes(phase)}
+                        onChange={() => togglePolicyPhase(phase)}
+                        className="w-4 h-4 rounded border-slate-600 bg-slate-700 text-blue-500 focus:ring-blue-500"
+                      />
+                      {getPhaseLabel(phase)}
+                    </label>
+                  ))}
+                </div>
+                <div>
+                  <div className="text-sm font-medium text-slate-300 mb-1">Requirement wizard gates</div>
+                  {APPROVAL_GATE_WIZARD_PHASES.map(phase => (
+                    <label key={phase} className="flex items-center gap-2 py-0.5 text-sm text-slate-300">
+                      <input
+                        type="checkbox"
+                        checked={draftPolicy.autoApproveWizardPhases.includes(phase)}
+                        onChange={() => togglePolicyWizardPhase(phase)}
+                        className="w-4 h-4 rounded border-slate-600 bg-slate-700 text-blue-500 focus:ring-blue-500"
+                      />
+                      {getWizardPhaseLabel(phase)}
+                    </label>
+                  ))}
+                </div>
+              </div>
+              <div className="flex justify-end gap-2">
+                <button
+                  onClick={() => setDraftPolicy(null)}
+                  className="flex items-center gap-1 px-3 py-1.5 text-slate-300 hover:text-white transition-colors"
+                >
+                  <X className="w-4 h-4" />
+                  Cancel
+                </button>
+                <button
+                  onClick={handleSavePolicy}
+                  disabled={!draftPolicy.name.trim()}
+                  className="flex items-center gap-1 px-3 py-1.5 bg-blue-600 hover:bg-blue-700 disabled:bg-slate-600 text-white rounded-lg transition-colors"
+                >
+                  <Check className="w-4 h-4" />
+                  Save Policy
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+
         {/* About */}
         <div className="bg-slate-800/50 backdrop-blur border border-slate-700 rounded-xl p-6">
           <h2 className="text-lg font-semibold text-white mb-4">About</h2>
@@ -312,14 +630,6 @@ export function Settings() {
             </div>
           </div>
         </div>
-
-        <button
-          onClick={handleSave}
-          className="flex items-center gap-2 px-6 py-3 bg-blue-600 hover:bg-blue-700 text-white font-medium rounded-lg transition-colors"
-        >
-          <Save className="w-5 h-5" />
-          {saved ? 'Saved!' : 'Save API Settings'}
-        </button>
       </div>
     </PageLayout>
   );
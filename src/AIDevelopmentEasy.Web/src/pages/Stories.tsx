@@ -1,53 +1,63 @@
-import { useEffect, useState } from 'react';
+import { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { Plus, RefreshCw, Activity, CheckCircle, Clock, AlertTriangle, ChevronRight, Database, FileCode } from 'lucide-react';
-import { StoryDto, StoryStatus, CodebaseDto } from '../types';
-import { storiesApi, pipelineApi, codebasesApi } from '../services/api';
+import { Plus, RefreshCw, Activity, CheckCircle, Clock, AlertTriangle, ChevronRight, Database, FileCode, ListOrdered, X } from 'lucide-react';
+import { StoryDto, StoryStatus, EnqueueStoriesRequest, PipelineQueueDto, PipelineQueueItemDto, PipelineQueueSettings, QueueItemState } from '../types';
+import { storiesApi, pipelineApi, codebasesApi, approvalPoliciesApi, getFieldErrors, getErrorMessage } from '../services/api';
 import { StoryCard } from '../components/StoryCard';
-import { useSignalR } from '../hooks/useSignalR';
+import { FieldError } from '../components';
+import { StartRunDialog } from '../components/StartRunDialog';
+import { EnqueueStoriesDialog } from '../components/EnqueueStoriesDialog';
+import { PipelineQueuePanel } from '../components/PipelineQueuePanel';
+import { useQuery } from '../hooks/useQuery';
+import { invalidateQueries, removeQueries, setQueryData, queryKeys } from '../services/queryCache';
 
 export function Stories() {
   const navigate = useNavigate();
-  const [stories, setStories] = useState<StoryDto[]>([]);
-  const [codebases, setCodebases] = useState<CodebaseDto[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-  const { storyListChanged } = useSignalR();
+  const storiesQuery = useQuery(queryKeys.stories, signal => storiesApi.getAll({ signal }));
+  const codebasesQuery = useQuery(queryKeys.codebases, signal => codebasesApi.getAll({ signal }));
+  const stories = storiesQuery.data ?? [];
+  const codebases = codebasesQuery.data ?? [];
+  const loading = storiesQuery.isLoading || codebasesQuery.isLoading;
+  const refreshing = storiesQuery.isFetching || codebasesQuery.isFetching;
+  const [actionError, setError] = useState<string | null>(null);
+  const loadError = storiesQuery.error ?? codebasesQuery.error;
+  const error = actionError ?? (loadError ? getErrorMessage(loadError, 'Failed to load data') : null);
 
   // New story form state
   const [showForm, setShowForm] = useState(false);
   const [formName, setFormName] = useState('');
   const [formContent, setFormContent] = useState('');
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
   const [formCodebaseId, setFormCodebaseId] = useState<string>('');
   const [creating, setCreating] = useState(false);
 
+  // Start dialog state
+  const { data: policies = [] } = useQuery(queryKeys.approvalPolicies, signal => approvalPoliciesApi.getAll({ signal }));
+  const [startingStory, setStartingStory] = useState<StoryDto | null>(null);
+  const [starting, setStarting] = useState(false);
+
+  // Batch queue state
+  const { data: queue } = useQuery(queryKeys.pipelineQueue, signal => pipelineApi.getQueue({ signal }));
+  const { data: runningIds = [] } = useQuery(queryKeys.runningPipelines, signal => pipelineApi.getRunning({ signal }));
+  const [selecting, setSelecting] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [showEnqueue, setShowEnqueue] = useState(false);
+  const [enqueuing, setEnqueuing] = useState(false);
+
+  // Stories and codebases stay current through hub-driven cache invalidation;
+  // this is only for the explicit Refresh button.
   const loadData = async () => {
-    try {
-      setLoading(true);
-      setError(null);
-      const [storiesData, codebasesData] = await Promise.all([
-        storiesApi.getAll(),
-        codebasesApi.getAll()
-      ]);
-      setStories(storiesData);
-      setCodebases(codebasesData);
-    } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to load data');
-    } finally {
-      setLoading(false);
-    }
+    setError(null);
+    await Promise.all([storiesQuery.refetch(), codebasesQuery.refetch()]).catch(() => { });
   };
 
-  useEffect(() => {
-    loadData();
-  }, [storyListChanged]);
-
   const handleCreate = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!formContent.trim()) return;
 
     try {
       setCreating(true);
+      setFieldErrors({});
       const story = await storiesApi.create({
         name: formName.trim(),
         content: formContent,
@@ -55,6 +65,8 @@ export function Stories() {
         codebaseId: formCodebaseId || undefined
       });
 
+      invalidateQueries(queryKeys.stories);
+
       // Reset form
       setFormName('');
       setFormContent('');
@@ -64,28 +76,131 @@ export function Stories() {
       // Navigate to the new story
       navigate(`/stories/${story.id}`);
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to create story');
+      const errors = getFieldErrors(err);
+      setFieldErrors(errors);
+      if (Object.keys(errors).length === 0) setError(getErrorMessage(err, 'Failed to create story'));
     } finally {
       setCreating(false);
     }
   };
 
-  const handleStart = async (id: string) => {
+  const handleStart = (id: string) => {
+    setStartingStory(stories.find(s => s.id === id) ?? null);
+  };
+
+  const handleConfirmStart = async (approvalPolicyId: string) => {
+    if (!startingStory) return;
+
+    setStarting(true);
+    try {
+      await pipelineApi.start(startingStory.id, { approvalPolicyId });
+      navigate(`/pipeline/${startingStory.id}`);
+    } catch (err) {
+      setStartingStory(null);
+      setError(getErrorMessage(err, 'Failed to start pipeline'));
+    } finally {
+      setStarting(false);
+    }
+  };
+
+  const startingCodebase = startingStory?.codebaseId ? codebases.find(c => c.id === startingStory.codebaseId) : undefined;
+
+  const toggleSelect = (id: string) => {
+    setSelectedIds(prev => prev.includes(id) ? prev.filter(s => s !== id) : [...prev, id]);
+  };
+
+  const stopSelecting = () => {
+    setSelecting(false);
+    setSelectedIds([]);
+  };
+
+  const updateQueue = (updated: PipelineQueueDto) => {
+    setQueryData(queryKeys.pipelineQueue, updated);
+    invalidateQueries(queryKeys.runningPipelines);
+  };
+
+  const handleEnqueue = async (request: EnqueueStoriesRequest) => {
+    setEnqueuing(true);
+    try {
+      updateQueue(await pipelineApi.enqueue(request));
+      setShowEnqueue(false);
+      stopSelecting();
+    } catch (err) {
+      setShowEnqueue(false);
+      setError(getErrorMessage(err, 'Failed to queue the stories'));
+    } finally {
+      setEnqueuing(false);
+    }
+  };
+
+  const handleMoveQueueItem = async (itemId: string, offset: number) => {
+    if (!queue) return;
+    const ids = queue.items.filter(i => i.state === QueueItemState.Queued).map(i => i.id);
+    const index = ids.indexOf(itemId);
+    const target = index + offset;
+    if (index < 0 || target < 0 || target >= ids.length) return;
+    [ids[index], ids[target]] = [ids[target], ids[index]];
+
+    try {
+      updateQueue(await pipelineApi.reorderQueue(ids));
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to reorder the queue'));
+    }
+  };
+
+  const handleCancelQueueItem = async (item: PipelineQueueItemDto) => {
+    if (item.state === QueueItemState.Running && !confirm(`Cancel the running pipeline for "${item.storyName}"?`)) return;
+
+    try {
+      await pipelineApi.cancelQueueItem(item.id);
+      invalidateQueries(queryKeys.pipelineQueue);
+      invalidateQueries(queryKeys.runningPipelines);
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to cancel the queued story'));
+    }
+  };
+
+  const handleResumeQueue = async () => {
     try {
-      await pipelineApi.start(id);
-      navigate(`/pipeline/${id}`);
+      updateQueue(await pipelineApi.resumeQueue());
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to start pipeline');
+      setError(getErrorMessage(err, 'Failed to resume the queue'));
     }
   };
 
+  const handleClearFinished = async () => {
+    try {
+      updateQueue(await pipelineApi.clearFinishedQueueItems());
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to clear finished runs'));
+    }
+  };
+
+  const handleQueueSettingsChange = async (settings: PipelineQueueSettings) => {
+    try {
+      updateQueue(await pipelineApi.updateQueueSettings(settings));
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to update the queue settings'));
+    }
+  };
+
+  const queueRunningIds = new Set(queue?.items.filter(i => i.state === QueueItemState.Running).map(i => i.storyId));
+  const otherRunning = runningIds
+    .filter(id => !queueRunningIds.has(id))
+    .map(id => ({ storyId: id, name: stories.find(s => s.id === id)?.name ?? id }));
+  const showQueue = !!queue && (queue.items.length > 0 || otherRunning.length > 0);
+  const selectedStories = selectedIds
+    .map(id => stories.find(s => s.id === id))
+    .filter((s): s is StoryDto => !!s);
+
   const handleReset = async (id: string) => {
     if (!confirm('Are you sure you want to reset this story? All generated tasks and output will be cleared.')) {
       return;
     }
     try {
       await storiesApi.reset(id);
-      await loadData();
+      invalidateQueries(queryKeys.story(id));
+      invalidateQueries(queryKeys.stories);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to reset story');
     }
@@ -97,7 +212,8 @@ export function Stories() {
     }
     try {
       await storiesApi.delete(id);
-      await loadData();
+      removeQueries(queryKeys.story(id));
+      invalidateQueries(queryKeys.stories);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to delete story');
     }
@@ -123,11 +239,39 @@ export function Stories() {
           <p className="text-slate-400">Manage your development stories and run the AI pipeline</p>
         </div>
         <div className="flex gap-3">
+          {selecting ? (
+            <>
+              <button
+                onClick={stopSelecting}
+                className="flex items-center gap-2 px-4 py-2 bg-slate-700 hover:bg-slate-600 text-white rounded-lg transition-colors"
+              >
+                <X className="w-4 h-4" />
+                Cancel
+              </button>
+              <button
+                onClick={() => setShowEnqueue(true)}
+                disabled={selectedStories.length === 0}
+                className="flex items-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed text-white rounded-lg transition-colors"
+              >
+                <ListOrdered className="w-4 h-4" />
+                Queue {selectedStories.length} Selected
+              </button>
+            </>
+          ) : (
+            <button
+              onClick={() => setSelecting(true)}
+              className="flex items-center gap-2 px-4 py-2 bg-slate-700 hover:bg-slate-600 text-white rounded-lg transition-colors"
+              title="Select stories to run as a batch"
+            >
+              <ListOrdered className="w-4 h-4" />
+              Batch Run
+            </button>
+          )}
           <button
             onClick={loadData}
             className="flex items-center gap-2 px-4 py-2 bg-slate-700 hover:bg-slate-600 text-white rounded-lg transition-colors"
           >
-            <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+            <RefreshCw className={`w-4 h-4 ${refreshing ? 'animate-spin' : ''}`} />
             Refresh
           </button>
           <button
@@ -201,6 +345,19 @@ export function Stories() {
         </div>
       )}
 
+      {/* Batch queue */}
+      {showQueue && (
+        <PipelineQueuePanel
+          queue={queue}
+          otherRunning={otherRunning}
+          onMove={handleMoveQueueItem}
+          onCancel={handleCancelQueueItem}
+          onResume={handleResumeQueue}
+          onClearFinished={handleClearFinished}
+          onSettingsChange={handleQueueSettingsChange}
+        />
+      )}
+
       {/* Create Form */}
       {showForm && (
         <div className="mb-8 bg-slate-800/50 backdrop-blur border border-slate-700 rounded-xl p-6">
@@ -218,6 +375,7 @@ export function Stories() {
                 placeholder="Leave empty to generate a title from your content using AI"
                 className="w-full px-4 py-2 bg-slate-900 border border-slate-600 rounded-lg text-white placeholder-slate-500 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
               />
+              <FieldError message={fieldErrors.name} />
               <p className="text-xs text-slate-500 mt-1">
                 A short, clear name is generated from the story content if you leave this blank.
               </p>
@@ -243,6 +401,7 @@ export function Stories() {
                   </option>
                 ))}
               </select>
+              <FieldError message={fieldErrors.codebaseId} />
               <p className="text-xs text-slate-500 mt-1">
                 Select a codebase for context-aware code generation
               </p>
@@ -261,6 +420,7 @@ export function Stories() {
                 required
                 className="w-full px-4 py-3 bg-slate-900 border border-slate-600 rounded-lg text-white placeholder-slate-500 focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none font-mono text-sm"
               />
+              <FieldError message={fieldErrors.content} />
               <p className="text-xs text-slate-500 mt-1">
                 Write a clear description of the feature or task. The AI will analyze and create implementation tasks.
               </p>
@@ -330,12 +490,39 @@ export function Stories() {
                   onStart={handleStart}
                   onReset={handleReset}
                   onDelete={handleDelete}
+                  selectionIndex={selectedIds.includes(story.id) ? selectedIds.indexOf(story.id) + 1 : undefined}
+                  onToggleSelect={selecting ? toggleSelect : undefined}
                 />
               </div>
             );
           })}
         </div>
       )}
+
+      {showEnqueue && (
+        <EnqueueStoriesDialog
+          stories={selectedStories}
+          policies={policies}
+          maxConcurrency={queue?.maxConcurrency ?? 1}
+          pauseOnFailure={queue?.pauseOnFailure ?? true}
+          submitting={enqueuing}
+          onSubmit={handleEnqueue}
+          onCancel={() => setShowEnqueue(false)}
+        />
+      )}
+
+      {startingStory && (
+        <StartRunDialog
+          kind="pipeline"
+          title={`Start ${startingStory.name}`}
+          policies={policies}
+          assignedPolicyId={startingStory.approvalPolicyId ?? startingCodebase?.approvalPolicyId}
+          assignedFrom={startingStory.approvalPolicyId ? 'story' : 'codebase'}
+          starting={starting}
+          onStart={handleConfirmStart}
+          onCancel={() => setStartingStory(null)}
+        />
+      )}
     </div>
   );
 }
@@ -1,28 +1,64 @@
 import { useEffect, useState } from 'react';
 import { useParams, Link, useNavigate } from 'react-router-dom';
 import { ArrowLeft, Play, RefreshCw, FileCode, Eye, Trash2, RotateCcw, History, X, Edit2, Save, Target } from 'lucide-react';
-import { StoryDto, StoryStatus, TaskStatus, TaskType, PipelineStatusDto, ChangeType, getChangeTypeLabel, getChangeTypeColor, ProjectSummaryDto, ClassInfoDto, MethodInfoDto } from '../types';
-import { storiesApi, pipelineApi, codebasesApi } from '../services/api';
+import { StoryDto, StoryStatus, TaskStatus, TaskType, PipelineStatusDto, OutputFileDiffDto, ChangeType, getChangeTypeLabel, getChangeTypeColor, ProjectSummaryDto, ClassInfoDto, MethodInfoDto, LLMCallResultDto, PipelinePhase, CostBudgetDto, getPhaseLabel } from '../types';
+import { storiesApi, pipelineApi, codebasesApi, approvalPoliciesApi, isAbortError, getErrorMessage, getFieldErrors } from '../services/api';
+import { fetchQuery, invalidateQueries, removeQueries, setQueryData, queryKeys } from '../services/queryCache';
+import { useQuery } from '../hooks/useQuery';
+import { usePipelineLog } from '../hooks/usePipelineLog';
+import { usePipelineEvent } from '../hooks/useSignalR';
 import { StatusBadge } from '../components/StatusBadge';
 import { PipelineHistorySummary } from '../components/PipelineHistorySummary';
-import { SearchableSelect } from '../components';
+import { LogViewer } from '../components/LogViewer';
+import { DiffViewer } from '../components/DiffViewer';
+import { LLMCallInspector } from '../components/LLMCallInspector';
+import { SourceFileDialog } from '../components/SourceFileDialog';
+import { StartRunDialog } from '../components/StartRunDialog';
+import { CostBudgetEditor } from '../components/CostBudgetEditor';
+import { ReviewReportViewer } from '../components/ReviewReportViewer';
+import { findOutputFile, type ReviewFinding } from '../services/reviewReport';
+import { SearchableSelect, FieldError } from '../components';
 
 export function StoryDetail() {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
-  const [story, setStory] = useState<StoryDto | null>(null);
+  const { data: story = null } = useQuery(
+    id ? queryKeys.story(id) : null,
+    signal => storiesApi.getById(id!, { signal })
+  );
   const [content, setContent] = useState<string>('');
   const [editedContent, setEditedContent] = useState<string>('');
   const [editedName, setEditedName] = useState<string>('');
   const [isEditing, setIsEditing] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
-  const [output, setOutput] = useState<Record<string, string>>({});
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
+  const [output, setOutput] = useState<OutputFileDiffDto[]>([]);
+  const [outputVersion, setOutputVersion] = useState(0);
+  const [inspectedCall, setInspectedCall] = useState<LLMCallResultDto | null>(null);
+  // Transcripts never change once stored
+  const callQuery = useQuery(
+    id && inspectedCall?.callId ? queryKeys.llmCall(id, inspectedCall.callId) : null,
+    signal => pipelineApi.getLLMCall(id!, inspectedCall!.callId!, { signal }),
+    { staleTime: Infinity }
+  );
+  const [openedFrame, setOpenedFrame] = useState<{ file: string; line: number } | null>(null);
+  const sourceCodebaseId = story?.codebaseId;
+  const sourceQuery = useQuery(
+    sourceCodebaseId && openedFrame ? queryKeys.sourceFile(sourceCodebaseId, openedFrame.file) : null,
+    signal => codebasesApi.getSource(sourceCodebaseId!, openedFrame!.file, { signal })
+  );
+  const openFrame = sourceCodebaseId ? (file: string, line: number) => setOpenedFrame({ file, line }) : undefined;
+  const { data: policies = [] } = useQuery(queryKeys.approvalPolicies, signal => approvalPoliciesApi.getAll({ signal }));
+  const [showStartDialog, setShowStartDialog] = useState(false);
+  const [starting, setStarting] = useState(false);
+  const [savingBudget, setSavingBudget] = useState(false);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [activeTab, setActiveTab] = useState<'overview' | 'content' | 'tasks' | 'output'>('overview');
   const [showHistory, setShowHistory] = useState(false);
   const [historyData, setHistoryData] = useState<PipelineStatusDto | null>(null);
   const [historyLoading, setHistoryLoading] = useState(false);
+  const historyLog = usePipelineLog(showHistory ? id : undefined);
 
   // Target Info State
   const [projects, setProjects] = useState<ProjectSummaryDto[]>([]);
@@ -44,20 +80,23 @@ export function StoryDetail() {
   const [targetTestClass, setTargetTestClass] = useState<string>('');
 
   // Codebase display (name + path for header/overview)
-  const [codebase, setCodebase] = useState<{ name: string; path: string } | null>(null);
+  const [codebase, setCodebase] = useState<{ name: string; path: string; approvalPolicyId?: string | null } | null>(null);
 
   useEffect(() => {
+    const controller = new AbortController();
+    const { signal } = controller;
+
     const load = async () => {
       if (!id) return;
 
       try {
         setLoading(true);
         const [req, reqContent] = await Promise.all([
-          storiesApi.getById(id),
-          storiesApi.getContent(id).catch(() => '')
+          fetchQuery(queryKeys.story(id), s => storiesApi.getById(id, { signal: s })),
+          storiesApi.getContent(id, { signal }).catch(() => '')
         ]);
+        if (signal.aborted) return;
 
-        setStory(req);
         setContent(reqContent);
 
         // Load target info from story
@@ -73,52 +112,90 @@ export function StoryDetail() {
 
         // Load codebase and projects if codebase exists
         if (req.codebaseId) {
-          const [cb, projs] = await Promise.all([
-            codebasesApi.getById(req.codebaseId).catch(() => null),
-            codebasesApi.getProjects(req.codebaseId).catch(() => [])
+          const [codebases, projs] = await Promise.all([
+            fetchQuery(queryKeys.codebases, s => codebasesApi.getAll({ signal: s })).catch(() => []),
+            codebasesApi.getProjects(req.codebaseId, { signal }).catch(() => [])
           ]);
-          if (cb) setCodebase({ name: cb.name, path: cb.path });
+          if (signal.aborted) return;
+          const cb = codebases.find(c => c.id === req.codebaseId);
+          if (cb) setCodebase({ name: cb.name, path: cb.path, approvalPolicyId: cb.approvalPolicyId });
           setProjects(projs);
           // Separate test projects
           setTestProjects(projs.filter(p => p.isTestProject));
 
           // Load classes if target project exists
           if (req.targetProject) {
-            const cls = await codebasesApi.getProjectClasses(req.codebaseId, req.targetProject).catch(() => []);
+            const cls = await codebasesApi.getProjectClasses(req.codebaseId, req.targetProject, { signal }).catch(() => []);
+            if (signal.aborted) return;
             setClasses(cls);
 
             // Load methods if target class exists
             if (req.targetClass) {
-              const meths = await codebasesApi.getClassMethods(req.codebaseId, req.targetProject, req.targetClass).catch(() => []);
+              const meths = await codebasesApi.getClassMethods(req.codebaseId, req.targetProject, req.targetClass, { signal }).catch(() => []);
+              if (signal.aborted) return;
               setMethods(meths);
             }
           }
 
           // Load test classes if test project exists
           if (req.targetTestProject) {
-            const testCls = await codebasesApi.getProjectClasses(req.codebaseId, req.targetTestProject).catch(() => []);
+            const testCls = await codebasesApi.getProjectClasses(req.codebaseId, req.targetTestProject, { signal }).catch(() => []);
+            if (signal.aborted) return;
             setTestClasses(testCls);
           }
         } else {
           setCodebase(null);
         }
 
-        if (req.status === StoryStatus.Completed) {
-          const out = await pipelineApi.getOutput(id).catch(() => ({}));
-          setOutput(out);
-        }
-
         setError(null);
       } catch (err) {
-        setError(err instanceof Error ? err.message : 'Failed to load story');
+        if (isAbortError(err)) return;
+        setError(getErrorMessage(err, 'Failed to load story'));
       } finally {
-        setLoading(false);
+        if (!signal.aborted) setLoading(false);
       }
     };
 
     load();
+    return () => controller.abort();
   }, [id]);
 
+  // Output exists once the Coding phase has run, so it can be reviewed before Deployment
+  const hasOutput = story?.status === StoryStatus.InProgress
+    || story?.status === StoryStatus.Completed
+    || story?.status === StoryStatus.Failed;
+
+  const { data: reviewReport } = useQuery(
+    id && hasOutput ? queryKeys.reviewReport(id) : null,
+    signal => pipelineApi.getReviewReport(id!, { signal })
+  );
+  const [openedFinding, setOpenedFinding] = useState<ReviewFinding | null>(null);
+  const findingPath = openedFinding ? findOutputFile(output.map(f => f.path), openedFinding.file) : undefined;
+
+  useEffect(() => {
+    if (!id || !hasOutput) return;
+
+    const controller = new AbortController();
+    pipelineApi.getOutputDiff(id, { signal: controller.signal })
+      .then(setOutput)
+      .catch(() => { });
+    return () => controller.abort();
+  }, [id, hasOutput, outputVersion]);
+
+  // Files are (re)written whenever a phase finishes and waits for approval
+  usePipelineEvent('PipelineUpdate', message => {
+    if (message.storyId === id && message.updateType === 'PhasePendingApproval') {
+      setOutputVersion(v => v + 1);
+      invalidateQueries(queryKeys.reviewReport(message.storyId));
+    }
+  });
+
+  const updateStory = (patch: Partial<StoryDto>) => {
+    if (!id) return;
+    setQueryData<StoryDto>(queryKeys.story(id), prev => ({ ...prev!, ...patch }));
+    invalidateQueries(queryKeys.stories);
+  };
+
   // Load classes when project changes
   const handleProjectChange = async (projectName: string) => {
     setTargetProject(projectName);
@@ -220,8 +297,7 @@ export function StoryDetail() {
       setTargetDirty(false);
       // Update local story state
       if (story) {
-        setStory({
-          ...story,
+        updateStory({
           targetProject,
           targetFile,
           targetClass,
@@ -247,11 +323,58 @@ export function StoryDetail() {
       await handleSaveTarget();
     }
 
+    setShowStartDialog(true);
+  };
+
+  const handleConfirmStart = async (approvalPolicyId: string) => {
+    if (!id) return;
+
+    setStarting(true);
+    try {
+      await pipelineApi.start(id, { approvalPolicyId });
+      navigate(`/pipeline/${id}`);
+    } catch (err) {
+      setShowStartDialog(false);
+      setError(getErrorMessage(err, 'Failed to start pipeline'));
+    } finally {
+      setStarting(false);
+    }
+  };
+
+  const handleApprovalPolicyChange = async (approvalPolicyId: string) => {
+    if (!id) return;
+
+    try {
+      await storiesApi.updateApprovalPolicy(id, approvalPolicyId || null);
+      updateStory({ approvalPolicyId: approvalPolicyId || null });
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to assign the approval policy'));
+    }
+  };
+
+  const handleBudgetSave = async (budget: CostBudgetDto) => {
+    if (!id) return;
+
+    setSavingBudget(true);
+    try {
+      await storiesApi.updateBudget(id, budget);
+      updateStory({ budget: budget.maxTokens != null || budget.maxCostUSD != null ? budget : null });
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to save the budget'));
+    } finally {
+      setSavingBudget(false);
+    }
+  };
+
+  const handleRerun = async (phase: PipelinePhase) => {
+    if (!id) return;
+    if (!confirm(`Rerun from ${getPhaseLabel(phase)}? It and every later phase run again; earlier phases keep their results.`)) return;
+
     try {
-      await pipelineApi.start(id);
+      await pipelineApi.rerun(id, phase);
       navigate(`/pipeline/${id}`);
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to start pipeline');
+      setError(getErrorMessage(err, 'Failed to rerun the pipeline'));
     }
   };
 
@@ -261,7 +384,9 @@ export function StoryDetail() {
 
     try {
       await storiesApi.reset(id);
-      window.location.reload();
+      setOutput([]);
+      invalidateQueries(queryKeys.story(id));
+      invalidateQueries(queryKeys.stories);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to reset story');
     }
@@ -273,6 +398,8 @@ export function StoryDetail() {
 
     try {
       await storiesApi.delete(id);
+      removeQueries(queryKeys.story(id));
+      invalidateQueries(queryKeys.stories);
       navigate('/');
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to delete story');
@@ -306,6 +433,7 @@ export function StoryDetail() {
     setIsEditing(false);
     setEditedContent('');
     setEditedName('');
+    setFieldErrors({});
     setError(null);
   };
 
@@ -321,19 +449,22 @@ export function StoryDetail() {
     }
 
     setIsSaving(true);
+    setFieldErrors({});
     try {
       await storiesApi.updateContent(id, editedContent, editedName);
       setContent(editedContent);
       // Update local story state with new name
       if (story) {
-        setStory({ ...story, name: editedName });
+        updateStory({ name: editedName });
       }
       setIsEditing(false);
       setEditedContent('');
       setEditedName('');
       setError(null);
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to save content');
+      const errors = getFieldErrors(err);
+      setFieldErrors(errors);
+      if (Object.keys(errors).length === 0) setError(getErrorMessage(err, 'Failed to save content'));
     } finally {
       setIsSaving(false);
     }
@@ -373,6 +504,8 @@ export function StoryDetail() {
     );
   }
 
+  const codebasePolicy = policies.find(p => p.id === codebase?.approvalPolicyId);
+
   return (
     <div className="p-8">
       {/* Header */}
@@ -727,6 +860,30 @@ export function StoryDetail() {
                     )}
                   </dd>
                 </div>
+                <div>
+                  <dt className="text-sm text-slate-400">Approval Policy</dt>
+                  <dd>
+                    <select
+                      value={story.approvalPolicyId ?? ''}
+                      onChange={e => handleApprovalPolicyChange(e.target.value)}
+                      className="mt-1 w-full max-w-xs px-3 py-1.5 bg-slate-900 border border-slate-700 rounded-lg text-sm text-white focus:outline-none focus:border-blue-500"
+                    >
+                      <option value="">
+                        {codebasePolicy ? `Codebase default (${codebasePolicy.name})` : 'Manual - every gate waits'}
+                      </option>
+                      {policies.map(p => (
+                        <option key={p.id} value={p.id}>{p.name}</option>
+                      ))}
+                    </select>
+                  </dd>
+                </div>
+                <div>
+                  <dt className="text-sm text-slate-400">Budget per Run</dt>
+                  <dd className="mt-1">
+                    <CostBudgetEditor budget={story.budget} saving={savingBudget} onSave={handleBudgetSave} />
+                    <p className="text-xs text-slate-500 mt-1">The pipeline pauses before the next phase once a run spends more; the phase in progress still finishes, so a run can go over</p>
+                  </dd>
+                </div>
                 <div>
                   <dt className="text-sm text-slate-400">Status</dt>
                   <dd><StatusBadge status={story.status} /></dd>
@@ -817,6 +974,7 @@ export function StoryDetail() {
                     className="w-full px-3 py-2 bg-slate-900 border border-slate-600 rounded-lg text-white placeholder-slate-500 focus:border-blue-500 focus:outline-none"
                     placeholder="Enter story name..."
                   />
+                  <FieldError message={fieldErrors.name} />
                 </div>
 
                 {/* Content Textarea */}
@@ -828,6 +986,7 @@ export function StoryDetail() {
                     className="w-full h-96 bg-slate-900 p-4 rounded-lg text-slate-300 font-mono text-sm border border-slate-600 focus:border-blue-500 focus:outline-none resize-y"
                     placeholder="Enter story content..."
                   />
+                  <FieldError message={fieldErrors.content} />
                 </div>
                 <div className="flex items-center justify-end gap-3">
                   <button
@@ -938,22 +1097,17 @@ export function StoryDetail() {
         {activeTab === 'output' && (
           <div>
             <h3 className="text-lg font-semibold text-white mb-4">Generated Output</h3>
-            {Object.keys(output).length === 0 ? (
+            {output.length === 0 ? (
               <div className="text-center py-8 text-slate-400">
-                No output yet. Complete the pipeline to see generated files.
+                No output yet. Run the pipeline through the Coding phase to see generated changes.
               </div>
             ) : (
-              <div className="space-y-4">
-                {Object.entries(output).map(([filename, fileContent]) => (
-                  <div key={filename} className="border border-slate-700 rounded-lg overflow-hidden">
-                    <div className="px-4 py-2 bg-slate-700 text-white font-mono text-sm">
-                      {filename}
-                    </div>
-                    <pre className="p-4 bg-slate-900 overflow-x-auto text-sm text-slate-300">
-                      {fileContent}
-                    </pre>
-                  </div>
-                ))}
+              <DiffViewer files={output} />
+            )}
+            {reviewReport && (
+              <div className="mt-6">
+                <h3 className="text-lg font-semibold text-white mb-4">Review Report</h3>
+                <ReviewReportViewer report={reviewReport} onOpenFinding={setOpenedFinding} />
               </div>
             )}
           </div>
@@ -990,7 +1144,31 @@ export function StoryDetail() {
                   <RefreshCw className="w-8 h-8 text-blue-400 animate-spin" />
                 </div>
               ) : historyData ? (
-                <PipelineHistorySummary status={historyData} showSuccessBanner={true} compact={true} />
+                <>
+                  <PipelineHistorySummary
+                    status={historyData}
+                    showSuccessBanner={true}
+                    compact={true}
+                    onInspectCall={setInspectedCall}
+                    onOpenFrame={openFrame}
+                    onRerun={handleRerun}
+                    pullRequestPatchUrl={id ? pipelineApi.getPullRequestPatchUrl(id) : undefined}
+                  />
+                  <div className="mt-6">
+                    <h3 className="text-sm font-semibold text-slate-300 mb-2">Run Log</h3>
+                    {historyLog.error && (
+                      <p className="mb-2 text-sm text-red-400">{historyLog.error}</p>
+                    )}
+                    <LogViewer
+                      logs={historyLog.logs}
+                      hasMore={historyLog.hasMore}
+                      isLoadingOlder={historyLog.isLoadingOlder}
+                      onLoadOlder={historyLog.loadOlder}
+                      onInspectCall={setInspectedCall}
+                      className="h-72"
+                    />
+                  </div>
+                </>
               ) : (
                 <div className="text-center py-12 text-slate-400">
                   <History className="w-12 h-12 mx-auto mb-4 opacity-50" />
@@ -1012,6 +1190,55 @@ export function StoryDetail() {
           </div>
         </div>
       )}
+
+      {/* Start with an approval policy */}
+      {showStartDialog && (
+        <StartRunDialog
+          kind="pipeline"
+          title="Start Pipeline"
+          policies={policies}
+          assignedPolicyId={story.approvalPolicyId ?? codebase?.approvalPolicyId}
+          assignedFrom={story.approvalPolicyId ? 'story' : 'codebase'}
+          starting={starting}
+          onStart={handleConfirmStart}
+          onCancel={() => setShowStartDialog(false)}
+        />
+      )}
+
+      {/* LLM Call Inspector */}
+      {inspectedCall && (
+        <LLMCallInspector
+          call={inspectedCall}
+          detail={callQuery.data}
+          isLoading={callQuery.isLoading}
+          error={callQuery.error ? getErrorMessage(callQuery.error, 'Failed to load the LLM call') : null}
+          onClose={() => setInspectedCall(null)}
+        />
+      )}
+
+      {/* Source file opened from a test stack trace */}
+      {openedFrame && (
+        <SourceFileDialog
+          path={openedFrame.file}
+          line={openedFrame.line}
+          file={sourceQuery.data}
+          isLoading={sourceQuery.isLoading}
+          error={sourceQuery.error ? getErrorMessage(sourceQuery.error, 'Failed to load the file') : null}
+          onClose={() => setOpenedFrame(null)}
+        />
+      )}
+
+      {/* Generated file opened from a review finding */}
+      {openedFinding && (
+        <SourceFileDialog
+          path={findingPath ?? openedFinding.file}
+          line={openedFinding.line}
+          file={findingPath ? { path: findingPath, content: output.find(f => f.path === findingPath)!.modified } : undefined}
+          isLoading={false}
+          error={findingPath ? null : `${openedFinding.file} is not in the generated output`}
+          onClose={() => setOpenedFinding(null)}
+        />
+      )}
     </div>
   );
 }
@@ -1,10 +1,16 @@
 import type {
   StoryDto,
   PipelineStatusDto,
+  PipelineLogPageDto,
+  PipelineUpdateMessage,
   CreateStoryRequest,
   UpdateStoryTargetRequest,
   PipelinePhase,
+  PipelineQueueDto,
+  PipelineQueueSettings,
+  EnqueueStoriesRequest,
   CodebaseDto,
+  SourceFileDto,
   CreateCodebaseRequest,
   ProjectSummaryDto,
   RequirementContextDto,
@@ -14,12 +20,20 @@ import type {
   MethodInfoDto,
   RetryInfoDto,
   RetryAction,
+  ReviewFindingDto,
+  CreateReviewFixTasksRequest,
+  RejectPhaseRequest,
+  OutputFileDiffDto,
+  LLMCallDetailDto,
+  ApprovePhaseRequest,
   RequirementDto,
   RequirementDetailDto,
   CreateRequirementRequest,
   WizardStatusDto,
   SubmitAnswersRequest,
   CreateStoriesRequest,
+  StoryGraphDto,
+  RunRequirementStoriesRequest,
   // Knowledge types
   KnowledgeEntryDto,
   SuccessfulPatternDto,
@@ -38,214 +52,279 @@ import type {
   PatternSubcategory,
   ErrorType,
   PromptsByCategory,
-  PromptContentDto
+  PromptContentDto,
+  ApprovalPolicyDto,
+  SaveApprovalPolicyRequest,
+  StartRunRequest,
+  CostBudgetDto
 } from '../types';
 
+import {
+  requestJson,
+  requestText,
+  requestVoid,
+  jsonBody,
+  ApiError,
+  type RequestOptions
+} from './http';
+import { resolveBackendUrl } from './backendProfiles';
+import { parsePipelineUpdate } from './pipelineLog';
+
+export { ApiError, isAbortError, getFieldErrors, getErrorMessage, configureRetryPolicy } from './http';
+export type { RequestOptions, RetryPolicy, ValidationErrors } from './http';
+
 const API_BASE = '/api';
 
-async function handleResponse<T>(response: Response): Promise<T> {
-  if (!response.ok) {
-    const text = await response.text();
-    let message = text || `HTTP ${response.status}`;
-    try {
-      const json = text ? JSON.parse(text) : null;
-      if (json && typeof json.detail === 'string') message = json.detail;
-      else if (json && typeof json.title === 'string') message = json.title;
-    } catch {
-      // keep message as text
-    }
-    throw new Error(message);
+// Resolves to null instead of throwing when the resource does not exist
+async function orNullOn404<T>(promise: Promise<T>): Promise<T | null> {
+  try {
+    return await promise;
+  } catch (err) {
+    if (err instanceof ApiError && err.isNotFound) return null;
+    throw err;
   }
-
-  const text = await response.text();
-  return text ? JSON.parse(text) : ({} as T);
 }
 
 // Stories API
 export const storiesApi = {
-  getAll: async (): Promise<StoryDto[]> => {
-    const response = await fetch(`${API_BASE}/stories`);
-    return handleResponse<StoryDto[]>(response);
+  getAll: async (options?: RequestOptions): Promise<StoryDto[]> => {
+    return requestJson<StoryDto[]>(`${API_BASE}/stories`, {}, options);
   },
 
-  getById: async (id: string): Promise<StoryDto> => {
-    const response = await fetch(`${API_BASE}/stories/${id}`);
-    return handleResponse<StoryDto>(response);
+  getById: async (id: string, options?: RequestOptions): Promise<StoryDto> => {
+    return requestJson<StoryDto>(`${API_BASE}/stories/${id}`, {}, options);
   },
 
-  getContent: async (id: string): Promise<string> => {
-    const response = await fetch(`${API_BASE}/stories/${id}/content`);
-    if (!response.ok) {
-      throw new Error(`HTTP ${response.status}`);
-    }
-    return response.text(); // Content is plain text, not JSON
+  getContent: async (id: string, options?: RequestOptions): Promise<string> => {
+    // Content is plain text, not JSON
+    return requestText(`${API_BASE}/stories/${id}/content`, {}, options);
   },
 
-  create: async (request: CreateStoryRequest): Promise<StoryDto> => {
-    const response = await fetch(`${API_BASE}/stories`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify(request)
-    });
-    return handleResponse<StoryDto>(response);
+  create: async (request: CreateStoryRequest, options?: RequestOptions): Promise<StoryDto> => {
+    return requestJson<StoryDto>(`${API_BASE}/stories`, jsonBody('POST', request), options);
   },
 
-  delete: async (id: string): Promise<void> => {
-    const response = await fetch(`${API_BASE}/stories/${id}`, {
-      method: 'DELETE'
-    });
-    await handleResponse<void>(response);
+  delete: async (id: string, options?: RequestOptions): Promise<void> => {
+    await requestVoid(`${API_BASE}/stories/${id}`, { method: 'DELETE' }, options);
   },
 
-  reset: async (id: string, clearTasks: boolean = true): Promise<void> => {
-    const response = await fetch(
+  reset: async (id: string, clearTasks: boolean = true, options?: RequestOptions): Promise<void> => {
+    await requestVoid(
       `${API_BASE}/stories/${id}/reset?clearTasks=${clearTasks}`,
-      { method: 'POST' }
+      { method: 'POST' },
+      options
     );
-    await handleResponse<void>(response);
   },
 
-  updateContent: async (id: string, content: string, name?: string): Promise<void> => {
-    const response = await fetch(`${API_BASE}/stories/${id}/content`, {
-      method: 'PUT',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ content, name })
-    });
-    await handleResponse<void>(response);
+  updateContent: async (id: string, content: string, name?: string, options?: RequestOptions): Promise<void> => {
+    await requestVoid(`${API_BASE}/stories/${id}/content`, jsonBody('PUT', { content, name }), options);
   },
 
-  updateTarget: async (id: string, request: UpdateStoryTargetRequest): Promise<void> => {
-    const response = await fetch(`${API_BASE}/stories/${id}/target`, {
-      method: 'PUT',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify(request)
-    });
-    await handleResponse<void>(response);
+  updateTarget: async (id: string, request: UpdateStoryTargetRequest, options?: RequestOptions): Promise<void> => {
+    await requestVoid(`${API_BASE}/stories/${id}/target`, jsonBody('PUT', request), options);
+  },
+
+  /** Null falls back to the codebase's policy. */
+  updateApprovalPolicy: async (id: string, approvalPolicyId: string | null, options?: RequestOptions): Promise<void> => {
+    await requestVoid(`${API_BASE}/stories/${id}/approval-policy`, jsonBody('PUT', { approvalPolicyId }), options);
+  },
+
+  /** A budget without limits clears it. */
+  updateBudget: async (id: string, budget: CostBudgetDto, options?: RequestOptions): Promise<void> => {
+    await requestVoid(`${API_BASE}/stories/${id}/budget`, jsonBody('PUT', budget), options);
   }
 };
 
 // Pipeline API
 export const pipelineApi = {
-  start: async (storyId: string, autoApproveAll: boolean = false): Promise<PipelineStatusDto> => {
-    const response = await fetch(`${API_BASE}/pipeline/${storyId}/start`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ autoApproveAll })
-    });
-    return handleResponse<PipelineStatusDto>(response);
+  start: async (storyId: string, request: StartRunRequest = {}, options?: RequestOptions): Promise<PipelineStatusDto> => {
+    return requestJson<PipelineStatusDto>(
+      `${API_BASE}/pipeline/${storyId}/start`,
+      jsonBody('POST', request),
+      options
+    );
   },
 
-  getStatus: async (storyId: string): Promise<PipelineStatusDto> => {
-    const response = await fetch(`${API_BASE}/pipeline/${storyId}/status`);
-    return handleResponse<PipelineStatusDto>(response);
+  /** Reruns the last run from a completed or failed phase; earlier phases keep their results. */
+  rerun: async (storyId: string, fromPhase: PipelinePhase, request: StartRunRequest = {}, options?: RequestOptions): Promise<PipelineStatusDto> => {
+    return requestJson<PipelineStatusDto>(
+      `${API_BASE}/pipeline/${storyId}/rerun`,
+      jsonBody('POST', { fromPhase, ...request }),
+      options
+    );
+  },
+
+  getStatus: async (storyId: string, options?: RequestOptions): Promise<PipelineStatusDto> => {
+    return requestJson<PipelineStatusDto>(`${API_BASE}/pipeline/${storyId}/status`, {}, options);
   },
 
-  approvePhase: async (storyId: string, phase: PipelinePhase): Promise<void> => {
-    const response = await fetch(
+  /** Approves a phase; the request can carry an edited plan (Planning) or file decisions (Coding). */
+  approvePhase: async (storyId: string, phase: PipelinePhase, request?: ApprovePhaseRequest, options?: RequestOptions): Promise<void> => {
+    await requestVoid(
       `${API_BASE}/pipeline/${storyId}/approve/${phase}`,
-      { method: 'POST' }
+      request ? jsonBody('POST', { approved: true, ...request }) : { method: 'POST' },
+      options
     );
-    await handleResponse<void>(response);
   },
 
-  rejectPhase: async (storyId: string, phase: PipelinePhase, reason?: string): Promise<void> => {
-    const response = await fetch(
+  rejectPhase: async (storyId: string, phase: PipelinePhase, feedback?: RejectPhaseRequest, options?: RequestOptions): Promise<void> => {
+    await requestVoid(
       `${API_BASE}/pipeline/${storyId}/reject/${phase}`,
-      {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ reason })
-      }
+      jsonBody('POST', feedback ?? {}),
+      options
     );
-    await handleResponse<void>(response);
   },
 
-  cancel: async (storyId: string): Promise<void> => {
-    const response = await fetch(
-      `${API_BASE}/pipeline/${storyId}/cancel`,
-      { method: 'POST' }
-    );
-    await handleResponse<void>(response);
+  cancel: async (storyId: string, options?: RequestOptions): Promise<void> => {
+    await requestVoid(`${API_BASE}/pipeline/${storyId}/cancel`, { method: 'POST' }, options);
+  },
+
+  getRunning: async (options?: RequestOptions): Promise<string[]> => {
+    return requestJson<string[]>(`${API_BASE}/pipeline/running`, {}, options);
+  },
+
+  getQueue: async (options?: RequestOptions): Promise<PipelineQueueDto> => {
+    return requestJson<PipelineQueueDto>(`${API_BASE}/pipeline/queue`, {}, options);
+  },
+
+  enqueue: async (request: EnqueueStoriesRequest, options?: RequestOptions): Promise<PipelineQueueDto> => {
+    return requestJson<PipelineQueueDto>(`${API_BASE}/pipeline/queue`, jsonBody('POST', request), options);
   },
 
-  getRunning: async (): Promise<string[]> => {
-    const response = await fetch(`${API_BASE}/pipeline/running`);
-    return handleResponse<string[]>(response);
+  updateQueueSettings: async (settings: PipelineQueueSettings, options?: RequestOptions): Promise<PipelineQueueDto> => {
+    return requestJson<PipelineQueueDto>(`${API_BASE}/pipeline/queue/settings`, jsonBody('PUT', settings), options);
   },
 
-  getOutput: async (storyId: string): Promise<Record<string, string>> => {
-    const response = await fetch(`${API_BASE}/pipeline/${storyId}/output`);
-    return handleResponse<Record<string, string>>(response);
+  reorderQueue: async (itemIds: string[], options?: RequestOptions): Promise<PipelineQueueDto> => {
+    return requestJson<PipelineQueueDto>(`${API_BASE}/pipeline/queue/order`, jsonBody('PUT', { itemIds }), options);
   },
 
-  getReviewReport: async (storyId: string): Promise<string> => {
-    const response = await fetch(`${API_BASE}/pipeline/${storyId}/review`);
-    return handleResponse<string>(response);
+  cancelQueueItem: async (itemId: string, options?: RequestOptions): Promise<void> => {
+    await requestVoid(`${API_BASE}/pipeline/queue/${itemId}`, { method: 'DELETE' }, options);
   },
 
+  resumeQueue: async (options?: RequestOptions): Promise<PipelineQueueDto> => {
+    return requestJson<PipelineQueueDto>(`${API_BASE}/pipeline/queue/resume`, { method: 'POST' }, options);
+  },
+
+  clearFinishedQueueItems: async (options?: RequestOptions): Promise<PipelineQueueDto> => {
+    return requestJson<PipelineQueueDto>(`${API_BASE}/pipeline/queue/finished`, { method: 'DELETE' }, options);
+  },
+
+  getOutput: async (storyId: string, options?: RequestOptions): Promise<Record<string, string>> => {
+    return requestJson<Record<string, string>>(`${API_BASE}/pipeline/${storyId}/output`, {}, options);
+  },
+
+  getOutputDiff: async (storyId: string, options?: RequestOptions): Promise<OutputFileDiffDto[]> => {
+    return requestJson<OutputFileDiffDto[]>(`${API_BASE}/pipeline/${storyId}/output/diff`, {}, options);
+  },
+
+  /** Raw reviewer output (markdown with a JSON block); null before the Reviewing phase has run */
+  getReviewReport: async (storyId: string, options?: RequestOptions): Promise<string | null> => {
+    return orNullOn404(requestText(`${API_BASE}/pipeline/${storyId}/review`, {}, options));
+  },
+
+  createReviewFixTasks: async (storyId: string, findings: ReviewFindingDto[], options?: RequestOptions): Promise<void> => {
+    const request: CreateReviewFixTasksRequest = { findings };
+    await requestVoid(`${API_BASE}/pipeline/${storyId}/review/fix-tasks`, jsonBody('POST', request), options);
+  },
+
+  /** Download address of the patch written by the PullRequest phase (served as an attachment), on the active backend profile */
+  getPullRequestPatchUrl: (storyId: string): string =>
+    resolveBackendUrl(`${API_BASE}/pipeline/${encodeURIComponent(storyId)}/pull-request/patch`),
+
   // Retry endpoints
-  approveRetry: async (storyId: string, action: RetryAction): Promise<void> => {
-    const response = await fetch(`${API_BASE}/pipeline/${storyId}/retry`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ action })
-    });
-    await handleResponse<void>(response);
+  approveRetry: async (storyId: string, action: RetryAction, options?: RequestOptions): Promise<void> => {
+    await requestVoid(`${API_BASE}/pipeline/${storyId}/retry`, jsonBody('POST', { action }), options);
+  },
+
+  getRetryInfo: async (storyId: string, options?: RequestOptions): Promise<RetryInfoDto | null> => {
+    return requestJson<RetryInfoDto | null>(`${API_BASE}/pipeline/${storyId}/retry`, {}, options);
+  },
+
+  getManualFixFile: async (storyId: string, path: string, options?: RequestOptions): Promise<SourceFileDto> => {
+    return requestJson<SourceFileDto>(`${API_BASE}/pipeline/${storyId}/manual-fix/file?path=${encodeURIComponent(path)}`, {}, options);
+  },
+
+  saveManualFixFile: async (storyId: string, path: string, content: string, options?: RequestOptions): Promise<void> => {
+    await requestVoid(`${API_BASE}/pipeline/${storyId}/manual-fix/file`, jsonBody('PUT', { path, content }), options);
+  },
+
+  resumeManualFix: async (storyId: string, options?: RequestOptions): Promise<void> => {
+    await requestVoid(`${API_BASE}/pipeline/${storyId}/manual-fix/resume`, { method: 'POST' }, options);
   },
 
-  getRetryInfo: async (storyId: string): Promise<RetryInfoDto | null> => {
-    const response = await fetch(`${API_BASE}/pipeline/${storyId}/retry`);
-    return handleResponse<RetryInfoDto | null>(response);
+  /** Approves going over the budget the run is paused for. */
+  continueOverBudget: async (storyId: string, options?: RequestOptions): Promise<void> => {
+    await requestVoid(`${API_BASE}/pipeline/${storyId}/budget/continue`, { method: 'POST' }, options);
   },
 
   // History endpoint - get completed pipeline details
-  getHistory: async (storyId: string): Promise<PipelineStatusDto | null> => {
-    const response = await fetch(`${API_BASE}/pipeline/${storyId}/history`);
-    if (response.status === 404) {
-      return null;
-    }
-    return handleResponse<PipelineStatusDto>(response);
+  getHistory: async (storyId: string, options?: RequestOptions): Promise<PipelineStatusDto | null> => {
+    return orNullOn404(requestJson<PipelineStatusDto>(`${API_BASE}/pipeline/${storyId}/history`, {}, options));
+  },
+
+  // Transcript of a single LLM call (prompts and raw completion)
+  getLLMCall: async (storyId: string, callId: string, options?: RequestOptions): Promise<LLMCallDetailDto> => {
+    return requestJson<LLMCallDetailDto>(`${API_BASE}/pipeline/${storyId}/llm-calls/${callId}`, {}, options);
+  },
+
+  // Run log of the latest pipeline run, paged backwards from the newest entry
+  getLogs: async (
+    storyId: string,
+    page: { beforeId?: string; limit?: number } = {},
+    options?: RequestOptions
+  ): Promise<PipelineLogPageDto> => {
+    const params = new URLSearchParams();
+    if (page.beforeId) params.set('beforeId', page.beforeId);
+    if (page.limit) params.set('limit', String(page.limit));
+    const query = params.toString() ? `?${params}` : '';
+    const result = await requestJson<{ entries?: unknown[]; hasMore?: boolean }>(
+      `${API_BASE}/pipeline/${storyId}/logs${query}`,
+      {},
+      options
+    );
+    return {
+      entries: (result.entries ?? [])
+        .map(parsePipelineUpdate)
+        .filter((entry): entry is PipelineUpdateMessage => entry !== null),
+      hasMore: result.hasMore ?? false
+    };
   }
 };
 
 // Codebases API
 export const codebasesApi = {
-  getAll: async (): Promise<CodebaseDto[]> => {
-    const response = await fetch(`${API_BASE}/codebases`);
-    return handleResponse<CodebaseDto[]>(response);
+  getAll: async (options?: RequestOptions): Promise<CodebaseDto[]> => {
+    return requestJson<CodebaseDto[]>(`${API_BASE}/codebases`, {}, options);
   },
 
-  getById: async (id: string): Promise<CodebaseDto> => {
-    const response = await fetch(`${API_BASE}/codebases/${id}`);
-    return handleResponse<CodebaseDto>(response);
+  getById: async (id: string, options?: RequestOptions): Promise<CodebaseDto> => {
+    return requestJson<CodebaseDto>(`${API_BASE}/codebases/${id}`, {}, options);
   },
 
-  getAnalysis: async (id: string): Promise<unknown> => {
-    const response = await fetch(`${API_BASE}/codebases/${id}/analysis`);
-    return handleResponse<unknown>(response);
+  getSource: async (id: string, path: string, options?: RequestOptions): Promise<SourceFileDto> => {
+    return requestJson<SourceFileDto>(`${API_BASE}/codebases/${id}/source?path=${encodeURIComponent(path)}`, {}, options);
   },
 
-  getContext: async (id: string): Promise<string> => {
-    const response = await fetch(`${API_BASE}/codebases/${id}/context`);
-    if (!response.ok) {
-      throw new Error(`HTTP ${response.status}`);
-    }
-    return response.text();
+  getAnalysis: async (id: string, options?: RequestOptions): Promise<unknown> => {
+    return requestJson<unknown>(`${API_BASE}/codebases/${id}/analysis`, {}, options);
   },
 
-  getRequirementContext: async (id: string): Promise<RequirementContextDto> => {
-    const response = await fetch(`${API_BASE}/codebases/${id}/context/requirement`);
-    return handleResponse<RequirementContextDto>(response);
+  getContext: async (id: string, options?: RequestOptions): Promise<string> => {
+    return requestText(`${API_BASE}/codebases/${id}/context`, {}, options);
   },
 
-  getPipelineContext: async (id: string): Promise<PipelineContextDto> => {
-    const response = await fetch(`${API_BASE}/codebases/${id}/context/pipeline`);
-    return handleResponse<PipelineContextDto>(response);
+  getRequirementContext: async (id: string, options?: RequestOptions): Promise<RequirementContextDto> => {
+    return requestJson<RequirementContextDto>(`${API_BASE}/codebases/${id}/context/requirement`, {}, options);
   },
 
-  getProjects: async (id: string): Promise<ProjectSummaryDto[]> => {
-    const response = await fetch(`${API_BASE}/codebases/${id}/projects`);
-    const raw = await handleResponse<unknown>(response);
+  getPipelineContext: async (id: string, options?: RequestOptions): Promise<PipelineContextDto> => {
+    return requestJson<PipelineContextDto>(`${API_BASE}/codebases/${id}/context/pipeline`, {}, options);
+  },
+
+  getProjects: async (id: string, options?: RequestOptions): Promise<ProjectSummaryDto[]> => {
+    const raw = await requestJson<unknown>(`${API_BASE}/codebases/${id}/projects`, {}, options);
     const arr = Array.isArray(raw) ? raw : [];
     return arr.map((p: Record<string, unknown>) => ({
       name: (p.name ?? p.Name ?? '') as string,
@@ -263,137 +342,122 @@ export const codebasesApi = {
     })) as ProjectSummaryDto[];
   },
 
-  getProjectFiles: async (codebaseId: string, projectName: string): Promise<FileInfoDto[]> => {
-    const response = await fetch(`${API_BASE}/codebases/${codebaseId}/projects/${encodeURIComponent(projectName)}/files`);
-    return handleResponse<FileInfoDto[]>(response);
+  getProjectFiles: async (codebaseId: string, projectName: string, options?: RequestOptions): Promise<FileInfoDto[]> => {
+    return requestJson<FileInfoDto[]>(
+      `${API_BASE}/codebases/${codebaseId}/projects/${encodeURIComponent(projectName)}/files`,
+      {},
+      options
+    );
   },
 
-  getProjectClasses: async (codebaseId: string, projectName: string): Promise<ClassInfoDto[]> => {
-    const response = await fetch(`${API_BASE}/codebases/${codebaseId}/projects/${encodeURIComponent(projectName)}/classes`);
-    return handleResponse<ClassInfoDto[]>(response);
+  getProjectClasses: async (codebaseId: string, projectName: string, options?: RequestOptions): Promise<ClassInfoDto[]> => {
+    return requestJson<ClassInfoDto[]>(
+      `${API_BASE}/codebases/${codebaseId}/projects/${encodeURIComponent(projectName)}/classes`,
+      {},
+      options
+    );
   },
 
-  getClassMethods: async (codebaseId: string, projectName: string, className: string): Promise<MethodInfoDto[]> => {
-    const response = await fetch(`${API_BASE}/codebases/${codebaseId}/projects/${encodeURIComponent(projectName)}/classes/${encodeURIComponent(className)}/methods`);
-    return handleResponse<MethodInfoDto[]>(response);
+  getClassMethods: async (codebaseId: string, projectName: string, className: string, options?: RequestOptions): Promise<MethodInfoDto[]> => {
+    return requestJson<MethodInfoDto[]>(
+      `${API_BASE}/codebases/${codebaseId}/projects/${encodeURIComponent(projectName)}/classes/${encodeURIComponent(className)}/methods`,
+      {},
+      options
+    );
   },
 
-  create: async (request: CreateCodebaseRequest): Promise<CodebaseDto> => {
-    const response = await fetch(`${API_BASE}/codebases`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify(request)
-    });
-    return handleResponse<CodebaseDto>(response);
+  create: async (request: CreateCodebaseRequest, options?: RequestOptions): Promise<CodebaseDto> => {
+    return requestJson<CodebaseDto>(`${API_BASE}/codebases`, jsonBody('POST', request), options);
   },
 
-  analyze: async (id: string): Promise<void> => {
-    const response = await fetch(`${API_BASE}/codebases/${id}/analyze`, {
-      method: 'POST'
-    });
-    await handleResponse<void>(response);
+  analyze: async (id: string, options?: RequestOptions): Promise<void> => {
+    await requestVoid(`${API_BASE}/codebases/${id}/analyze`, { method: 'POST' }, options);
   },
 
-  delete: async (id: string): Promise<void> => {
-    const response = await fetch(`${API_BASE}/codebases/${id}`, {
-      method: 'DELETE'
-    });
-    await handleResponse<void>(response);
+  delete: async (id: string, options?: RequestOptions): Promise<void> => {
+    await requestVoid(`${API_BASE}/codebases/${id}`, { method: 'DELETE' }, options);
+  },
+
+  /** Default policy for the codebase's stories and requirements; null clears it. */
+  updateApprovalPolicy: async (id: string, approvalPolicyId: string | null, options?: RequestOptions): Promise<void> => {
+    await requestVoid(`${API_BASE}/codebases/${id}/approval-policy`, jsonBody('PUT', { approvalPolicyId }), options);
   }
 };
 
 // Requirements API
 export const requirementsApi = {
-  getAll: async (): Promise<RequirementDto[]> => {
-    const response = await fetch(`${API_BASE}/requirements`);
-    return handleResponse<RequirementDto[]>(response);
+  getAll: async (options?: RequestOptions): Promise<RequirementDto[]> => {
+    return requestJson<RequirementDto[]>(`${API_BASE}/requirements`, {}, options);
   },
 
-  getById: async (id: string): Promise<RequirementDetailDto> => {
-    const response = await fetch(`${API_BASE}/requirements/${id}`);
-    return handleResponse<RequirementDetailDto>(response);
+  getById: async (id: string, options?: RequestOptions): Promise<RequirementDetailDto> => {
+    return requestJson<RequirementDetailDto>(`${API_BASE}/requirements/${id}`, {}, options);
   },
 
-  create: async (request: CreateRequirementRequest): Promise<RequirementDto> => {
-    const response = await fetch(`${API_BASE}/requirements`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify(request)
-    });
-    return handleResponse<RequirementDto>(response);
+  create: async (request: CreateRequirementRequest, options?: RequestOptions): Promise<RequirementDto> => {
+    return requestJson<RequirementDto>(`${API_BASE}/requirements`, jsonBody('POST', request), options);
   },
 
-  update: async (id: string, request: { title?: string; rawContent?: string; type?: number; codebaseId?: string | null }): Promise<RequirementDto> => {
-    const response = await fetch(`${API_BASE}/requirements/${id}`, {
-      method: 'PUT',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify(request)
-    });
-    return handleResponse<RequirementDto>(response);
+  update: async (id: string, request: { title?: string; rawContent?: string; type?: number; codebaseId?: string | null }, options?: RequestOptions): Promise<RequirementDto> => {
+    return requestJson<RequirementDto>(`${API_BASE}/requirements/${id}`, jsonBody('PUT', request), options);
   },
 
-  delete: async (id: string): Promise<void> => {
-    const response = await fetch(`${API_BASE}/requirements/${id}`, {
-      method: 'DELETE'
-    });
-    await handleResponse<void>(response);
+  delete: async (id: string, options?: RequestOptions): Promise<void> => {
+    await requestVoid(`${API_BASE}/requirements/${id}`, { method: 'DELETE' }, options);
+  },
+
+  /** Budget across the requirement's stories; a budget without limits clears it. */
+  updateBudget: async (id: string, budget: CostBudgetDto, options?: RequestOptions): Promise<void> => {
+    await requestVoid(`${API_BASE}/requirements/${id}/budget`, jsonBody('PUT', budget), options);
   },
 
   // Wizard operations
-  startWizard: async (id: string, autoApproveAll: boolean = false): Promise<WizardStatusDto> => {
-    const response = await fetch(`${API_BASE}/requirements/${id}/wizard/start`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ autoApproveAll })
-    });
-    return handleResponse<WizardStatusDto>(response);
-  },
-
-  getWizardStatus: async (id: string): Promise<WizardStatusDto | null> => {
-    const response = await fetch(`${API_BASE}/requirements/${id}/wizard/status`);
-    if (response.status === 404) {
-      return null;
-    }
-    return handleResponse<WizardStatusDto>(response);
+  startWizard: async (id: string, request: StartRunRequest = {}, options?: RequestOptions): Promise<WizardStatusDto> => {
+    return requestJson<WizardStatusDto>(
+      `${API_BASE}/requirements/${id}/wizard/start`,
+      jsonBody('POST', request),
+      options
+    );
+  },
+
+  getWizardStatus: async (id: string, options?: RequestOptions): Promise<WizardStatusDto | null> => {
+    return orNullOn404(requestJson<WizardStatusDto>(`${API_BASE}/requirements/${id}/wizard/status`, {}, options));
+  },
+
+  approvePhase: async (id: string, approved: boolean = true, comment?: string, options?: RequestOptions): Promise<WizardStatusDto> => {
+    return requestJson<WizardStatusDto>(
+      `${API_BASE}/requirements/${id}/wizard/approve`,
+      jsonBody('POST', { approved, comment }),
+      options
+    );
+  },
+
+  submitAnswers: async (id: string, request: SubmitAnswersRequest, options?: RequestOptions): Promise<WizardStatusDto> => {
+    return requestJson<WizardStatusDto>(`${API_BASE}/requirements/${id}/wizard/answers`, jsonBody('POST', request), options);
   },
 
-  approvePhase: async (id: string, approved: boolean = true, comment?: string): Promise<WizardStatusDto> => {
-    const response = await fetch(`${API_BASE}/requirements/${id}/wizard/approve`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ approved, comment })
-    });
-    return handleResponse<WizardStatusDto>(response);
+  createStories: async (id: string, request: CreateStoriesRequest, options?: RequestOptions): Promise<WizardStatusDto> => {
+    return requestJson<WizardStatusDto>(`${API_BASE}/requirements/${id}/wizard/stories`, jsonBody('POST', request), options);
   },
 
-  submitAnswers: async (id: string, request: SubmitAnswersRequest): Promise<WizardStatusDto> => {
-    const response = await fetch(`${API_BASE}/requirements/${id}/wizard/answers`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify(request)
-    });
-    return handleResponse<WizardStatusDto>(response);
+  cancelWizard: async (id: string, options?: RequestOptions): Promise<WizardStatusDto> => {
+    return requestJson<WizardStatusDto>(`${API_BASE}/requirements/${id}/wizard/cancel`, { method: 'POST' }, options);
   },
 
-  createStories: async (id: string, request: CreateStoriesRequest): Promise<WizardStatusDto> => {
-    const response = await fetch(`${API_BASE}/requirements/${id}/wizard/stories`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify(request)
-    });
-    return handleResponse<WizardStatusDto>(response);
+  getStories: async (id: string, options?: RequestOptions): Promise<string[]> => {
+    return requestJson<string[]>(`${API_BASE}/requirements/${id}/stories`, {}, options);
   },
 
-  cancelWizard: async (id: string): Promise<WizardStatusDto> => {
-    const response = await fetch(`${API_BASE}/requirements/${id}/wizard/cancel`, {
-      method: 'POST'
-    });
-    return handleResponse<WizardStatusDto>(response);
+  getStoryGraph: async (id: string, options?: RequestOptions): Promise<StoryGraphDto> => {
+    return requestJson<StoryGraphDto>(`${API_BASE}/requirements/${id}/stories/graph`, {}, options);
   },
 
-  getStories: async (id: string): Promise<string[]> => {
-    const response = await fetch(`${API_BASE}/requirements/${id}/stories`);
-    return handleResponse<string[]>(response);
+  runStories: async (id: string, request: RunRequirementStoriesRequest = {}, options?: RequestOptions): Promise<PipelineQueueDto> => {
+    return requestJson<PipelineQueueDto>(
+      `${API_BASE}/requirements/${id}/stories/run`,
+      jsonBody('POST', request),
+      options
+    );
   }
 };
 
@@ -403,197 +467,156 @@ export const requirementsApi = {
 
 export const knowledgeApi = {
   // General CRUD
-  getAll: async (category?: KnowledgeCategory): Promise<KnowledgeEntryDto[]> => {
+  getAll: async (category?: KnowledgeCategory, options?: RequestOptions): Promise<KnowledgeEntryDto[]> => {
     const params = category !== undefined ? `?category=${category}` : '';
-    const response = await fetch(`${API_BASE}/knowledge${params}`);
-    return handleResponse<KnowledgeEntryDto[]>(response);
+    return requestJson<KnowledgeEntryDto[]>(`${API_BASE}/knowledge${params}`, {}, options);
   },
 
-  getById: async (id: string): Promise<KnowledgeEntryDto> => {
-    const response = await fetch(`${API_BASE}/knowledge/${id}`);
-    return handleResponse<KnowledgeEntryDto>(response);
+  getById: async (id: string, options?: RequestOptions): Promise<KnowledgeEntryDto> => {
+    return requestJson<KnowledgeEntryDto>(`${API_BASE}/knowledge/${id}`, {}, options);
   },
 
-  delete: async (id: string): Promise<void> => {
-    const response = await fetch(`${API_BASE}/knowledge/${id}`, {
-      method: 'DELETE'
-    });
-    if (!response.ok) {
-      throw new Error(`HTTP ${response.status}`);
-    }
+  delete: async (id: string, options?: RequestOptions): Promise<void> => {
+    await requestVoid(`${API_BASE}/knowledge/${id}`, { method: 'DELETE' }, options);
   },
 
-  update: async (id: string, data: { title: string; description: string; tags: string[]; context?: string }): Promise<KnowledgeEntryDto> => {
-    const response = await fetch(`${API_BASE}/knowledge/${id}`, {
-      method: 'PUT',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify(data)
-    });
-    return handleResponse<KnowledgeEntryDto>(response);
+  update: async (id: string, data: { title: string; description: string; tags: string[]; context?: string }, options?: RequestOptions): Promise<KnowledgeEntryDto> => {
+    return requestJson<KnowledgeEntryDto>(`${API_BASE}/knowledge/${id}`, jsonBody('PUT', data), options);
   },
 
   // Patterns
-  getPatterns: async (subcategory?: PatternSubcategory): Promise<SuccessfulPatternDto[]> => {
+  getPatterns: async (subcategory?: PatternSubcategory, options?: RequestOptions): Promise<SuccessfulPatternDto[]> => {
     const params = subcategory !== undefined ? `?subcategory=${subcategory}` : '';
-    const response = await fetch(`${API_BASE}/knowledge/patterns${params}`);
-    return handleResponse<SuccessfulPatternDto[]>(response);
+    return requestJson<SuccessfulPatternDto[]>(`${API_BASE}/knowledge/patterns${params}`, {}, options);
   },
 
-  getPattern: async (id: string): Promise<SuccessfulPatternDto> => {
-    const response = await fetch(`${API_BASE}/knowledge/patterns/${id}`);
-    return handleResponse<SuccessfulPatternDto>(response);
+  getPattern: async (id: string, options?: RequestOptions): Promise<SuccessfulPatternDto> => {
+    return requestJson<SuccessfulPatternDto>(`${API_BASE}/knowledge/patterns/${id}`, {}, options);
   },
 
-  createPattern: async (request: CreatePatternRequest): Promise<SuccessfulPatternDto> => {
-    const response = await fetch(`${API_BASE}/knowledge/patterns`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify(request)
-    });
-    return handleResponse<SuccessfulPatternDto>(response);
+  createPattern: async (request: CreatePatternRequest, options?: RequestOptions): Promise<SuccessfulPatternDto> => {
+    return requestJson<SuccessfulPatternDto>(`${API_BASE}/knowledge/patterns`, jsonBody('POST', request), options);
   },
 
-  findSimilarPatterns: async (problemDescription: string, limit: number = 5): Promise<PatternSearchResultDto> => {
-    const response = await fetch(`${API_BASE}/knowledge/patterns/search`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ problemDescription, limit })
-    });
-    return handleResponse<PatternSearchResultDto>(response);
+  findSimilarPatterns: async (problemDescription: string, limit: number = 5, options?: RequestOptions): Promise<PatternSearchResultDto> => {
+    return requestJson<PatternSearchResultDto>(
+      `${API_BASE}/knowledge/patterns/search`,
+      jsonBody('POST', { problemDescription, limit }),
+      options
+    );
   },
 
   // Errors
-  getErrors: async (errorType?: ErrorType): Promise<CommonErrorDto[]> => {
+  getErrors: async (errorType?: ErrorType, options?: RequestOptions): Promise<CommonErrorDto[]> => {
     const params = errorType !== undefined ? `?errorType=${errorType}` : '';
-    const response = await fetch(`${API_BASE}/knowledge/errors${params}`);
-    return handleResponse<CommonErrorDto[]>(response);
+    return requestJson<CommonErrorDto[]>(`${API_BASE}/knowledge/errors${params}`, {}, options);
   },
 
-  getError: async (id: string): Promise<CommonErrorDto> => {
-    const response = await fetch(`${API_BASE}/knowledge/errors/${id}`);
-    return handleResponse<CommonErrorDto>(response);
+  getError: async (id: string, options?: RequestOptions): Promise<CommonErrorDto> => {
+    return requestJson<CommonErrorDto>(`${API_BASE}/knowledge/errors/${id}`, {}, options);
   },
 
-  createError: async (request: CreateErrorRequest): Promise<CommonErrorDto> => {
-    const response = await fetch(`${API_BASE}/knowledge/errors`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify(request)
-    });
-    return handleResponse<CommonErrorDto>(response);
+  createError: async (request: CreateErrorRequest, options?: RequestOptions): Promise<CommonErrorDto> => {
+    return requestJson<CommonErrorDto>(`${API_BASE}/knowledge/errors`, jsonBody('POST', request), options);
   },
 
-  findMatchingError: async (errorMessage: string, errorType?: ErrorType): Promise<ErrorMatchResultDto> => {
-    const response = await fetch(`${API_BASE}/knowledge/errors/match`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ errorMessage, errorType })
-    });
-    return handleResponse<ErrorMatchResultDto>(response);
+  findMatchingError: async (errorMessage: string, errorType?: ErrorType, options?: RequestOptions): Promise<ErrorMatchResultDto> => {
+    return requestJson<ErrorMatchResultDto>(
+      `${API_BASE}/knowledge/errors/match`,
+      jsonBody('POST', { errorMessage, errorType }),
+      options
+    );
   },
 
   // Templates
-  getTemplates: async (type?: string): Promise<ProjectTemplateDto[]> => {
+  getTemplates: async (type?: string, options?: RequestOptions): Promise<ProjectTemplateDto[]> => {
     const params = type ? `?type=${encodeURIComponent(type)}` : '';
-    const response = await fetch(`${API_BASE}/knowledge/templates${params}`);
-    return handleResponse<ProjectTemplateDto[]>(response);
+    return requestJson<ProjectTemplateDto[]>(`${API_BASE}/knowledge/templates${params}`, {}, options);
   },
 
-  getTemplate: async (id: string): Promise<ProjectTemplateDto> => {
-    const response = await fetch(`${API_BASE}/knowledge/templates/${id}`);
-    return handleResponse<ProjectTemplateDto>(response);
+  getTemplate: async (id: string, options?: RequestOptions): Promise<ProjectTemplateDto> => {
+    return requestJson<ProjectTemplateDto>(`${API_BASE}/knowledge/templates/${id}`, {}, options);
   },
 
-  createTemplate: async (request: CreateTemplateRequest): Promise<ProjectTemplateDto> => {
-    const response = await fetch(`${API_BASE}/knowledge/templates`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify(request)
-    });
-    return handleResponse<ProjectTemplateDto>(response);
+  createTemplate: async (request: CreateTemplateRequest, options?: RequestOptions): Promise<ProjectTemplateDto> => {
+    return requestJson<ProjectTemplateDto>(`${API_BASE}/knowledge/templates`, jsonBody('POST', request), options);
   },
 
-  createInsight: async (request: CreateInsightRequest): Promise<AgentInsightDto> => {
-    const response = await fetch(`${API_BASE}/knowledge/insights`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify(request)
-    });
-    return handleResponse<AgentInsightDto>(response);
+  createInsight: async (request: CreateInsightRequest, options?: RequestOptions): Promise<AgentInsightDto> => {
+    return requestJson<AgentInsightDto>(`${API_BASE}/knowledge/insights`, jsonBody('POST', request), options);
   },
 
   // Search
-  search: async (request: SearchKnowledgeRequest): Promise<KnowledgeEntryDto[]> => {
-    const response = await fetch(`${API_BASE}/knowledge/search`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify(request)
-    });
-    return handleResponse<KnowledgeEntryDto[]>(response);
+  search: async (request: SearchKnowledgeRequest, options?: RequestOptions): Promise<KnowledgeEntryDto[]> => {
+    return requestJson<KnowledgeEntryDto[]>(`${API_BASE}/knowledge/search`, jsonBody('POST', request), options);
   },
 
-  getTags: async (): Promise<string[]> => {
-    const response = await fetch(`${API_BASE}/knowledge/tags`);
-    return handleResponse<string[]>(response);
+  getTags: async (options?: RequestOptions): Promise<string[]> => {
+    return requestJson<string[]>(`${API_BASE}/knowledge/tags`, {}, options);
   },
 
   // Usage tracking
-  recordUsage: async (id: string): Promise<void> => {
-    const response = await fetch(`${API_BASE}/knowledge/${id}/usage`, {
-      method: 'POST'
-    });
-    if (!response.ok) {
-      throw new Error(`HTTP ${response.status}`);
-    }
+  recordUsage: async (id: string, options?: RequestOptions): Promise<void> => {
+    await requestVoid(`${API_BASE}/knowledge/${id}/usage`, { method: 'POST' }, options);
   },
 
-  updateSuccess: async (id: string, wasSuccessful: boolean): Promise<void> => {
-    const response = await fetch(`${API_BASE}/knowledge/${id}/success?wasSuccessful=${wasSuccessful}`, {
-      method: 'POST'
-    });
-    if (!response.ok) {
-      throw new Error(`HTTP ${response.status}`);
-    }
+  updateSuccess: async (id: string, wasSuccessful: boolean, options?: RequestOptions): Promise<void> => {
+    await requestVoid(
+      `${API_BASE}/knowledge/${id}/success?wasSuccessful=${wasSuccessful}`,
+      { method: 'POST' },
+      options
+    );
   },
 
-  verify: async (id: string): Promise<void> => {
-    const response = await fetch(`${API_BASE}/knowledge/${id}/verify`, {
-      method: 'POST'
-    });
-    if (!response.ok) {
-      throw new Error(`HTTP ${response.status}`);
-    }
+  verify: async (id: string, options?: RequestOptions): Promise<void> => {
+    await requestVoid(`${API_BASE}/knowledge/${id}/verify`, { method: 'POST' }, options);
   },
 
   // Statistics
-  getStats: async (): Promise<KnowledgeStatsDto> => {
-    const response = await fetch(`${API_BASE}/knowledge/stats`);
-    return handleResponse<KnowledgeStatsDto>(response);
+  getStats: async (options?: RequestOptions): Promise<KnowledgeStatsDto> => {
+    return requestJson<KnowledgeStatsDto>(`${API_BASE}/knowledge/stats`, {}, options);
+  }
+};
+
+// Approval Policies API
+export const approvalPoliciesApi = {
+  getAll: async (options?: RequestOptions): Promise<ApprovalPolicyDto[]> => {
+    return requestJson<ApprovalPolicyDto[]>(`${API_BASE}/approvalpolicies`, {}, options);
+  },
+
+  create: async (request: SaveApprovalPolicyRequest, options?: RequestOptions): Promise<ApprovalPolicyDto> => {
+    return requestJson<ApprovalPolicyDto>(`${API_BASE}/approvalpolicies`, jsonBody('POST', request), options);
+  },
+
+  update: async (id: string, request: SaveApprovalPolicyRequest, options?: RequestOptions): Promise<ApprovalPolicyDto> => {
+    return requestJson<ApprovalPolicyDto>(`${API_BASE}/approvalpolicies/${id}`, jsonBody('PUT', request), options);
+  },
+
+  delete: async (id: string, options?: RequestOptions): Promise<void> => {
+    await requestVoid(`${API_BASE}/approvalpolicies/${id}`, { method: 'DELETE' }, options);
   }
 };
 
 // Prompts API (list, get, update – no add/delete)
 export const promptsApi = {
-  list: async (): Promise<PromptsByCategory> => {
-    const response = await fetch(`${API_BASE}/prompts`);
-    return handleResponse<PromptsByCategory>(response);
+  list: async (options?: RequestOptions): Promise<PromptsByCategory> => {
+    return requestJson<PromptsByCategory>(`${API_BASE}/prompts`, {}, options);
   },
 
-  get: async (category: string, name: string): Promise<PromptContentDto> => {
-    const response = await fetch(`${API_BASE}/prompts/${encodeURIComponent(category)}/${encodeURIComponent(name)}`);
-    return handleResponse<PromptContentDto>(response);
+  get: async (category: string, name: string, options?: RequestOptions): Promise<PromptContentDto> => {
+    return requestJson<PromptContentDto>(
+      `${API_BASE}/prompts/${encodeURIComponent(category)}/${encodeURIComponent(name)}`,
+      {},
+      options
+    );
   },
 
-  update: async (category: string, name: string, content: string): Promise<void> => {
-    const response = await fetch(
+  update: async (category: string, name: string, content: string, options?: RequestOptions): Promise<void> => {
+    await requestVoid(
       `${API_BASE}/prompts/${encodeURIComponent(category)}/${encodeURIComponent(name)}`,
-      {
-        method: 'PUT',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ content })
-      }
+      jsonBody('PUT', { content }),
+      options
     );
-    await handleResponse<void>(response);
   }
 };
 
@@ -617,28 +640,25 @@ export interface LLMUsageStatsDto {
 }
 
 export const settingsApi = {
-  getLlm: async (): Promise<LLMSettingsDto> => {
-    const response = await fetch(`${API_BASE}/settings/llm`);
-    return handleResponse<LLMSettingsDto>(response);
+  getLlm: async (options?: RequestOptions): Promise<LLMSettingsDto> => {
+    return requestJson<LLMSettingsDto>(`${API_BASE}/settings/llm`, {}, options);
   },
 
-  updateLlm: async (settings: LLMSettingsDto): Promise<LLMSettingsDto> => {
-    const response = await fetch(`${API_BASE}/settings/llm`, {
-      method: 'PUT',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify(settings)
-    });
-    return handleResponse<LLMSettingsDto>(response);
+  updateLlm: async (settings: LLMSettingsDto, options?: RequestOptions): Promise<LLMSettingsDto> => {
+    return requestJson<LLMSettingsDto>(`${API_BASE}/settings/llm`, jsonBody('PUT', settings), options);
   },
 
-  getLlmStats: async (): Promise<LLMUsageStatsDto | null> => {
-    const response = await fetch(`${API_BASE}/settings/llm/stats`);
-    if (!response.ok) return null;
-    return handleResponse<LLMUsageStatsDto>(response);
+  // Stats are optional; any failure other than cancellation resolves to null
+  getLlmStats: async (options?: RequestOptions): Promise<LLMUsageStatsDto | null> => {
+    try {
+      return await requestJson<LLMUsageStatsDto>(`${API_BASE}/settings/llm/stats`, {}, options);
+    } catch (err) {
+      if (err instanceof ApiError) return null;
+      throw err;
+    }
   },
 
-  resetLlmStats: async (): Promise<void> => {
-    const response = await fetch(`${API_BASE}/settings/llm/stats/reset`, { method: 'POST' });
-    if (!response.ok) throw new Error('Failed to reset stats');
+  resetLlmStats: async (options?: RequestOptions): Promise<void> => {
+    await requestVoid(`${API_BASE}/settings/llm/stats/reset`, { method: 'POST' }, options);
   }
 };
@@ -0,0 +1,124 @@
+// ════════════════════════════════════════════════════════════════════════════
+// Backend profiles
+// Named backend instances the UI can talk to. The active profile's base URL is
+// prefixed to every REST call, the SignalR hub URL and the /health heartbeat.
+// ════════════════════════════════════════════════════════════════════════════
+
+export interface BackendProfile {
+  id: string;
+  name: string;
+  /** Origin (and optional path prefix) of the backend; empty = same origin as the UI. */
+  baseUrl: string;
+}
+
+export interface BackendProfilesState {
+  profiles: BackendProfile[];
+  activeId: string;
+}
+
+const PROFILES_KEY = 'backendProfiles';
+const ACTIVE_KEY = 'activeBackendProfile';
+/** Pre-profile single setting, migrated on first load. */
+const LEGACY_API_URL_KEY = 'apiUrl';
+
+export const DEFAULT_PROFILE: BackendProfile = { id: 'default', name: 'Local', baseUrl: '' };
+
+export function normalizeBaseUrl(url: string): string {
+  return url.trim().replace(/\/+$/, '');
+}
+
+function loadState(): BackendProfilesState {
+  let profiles: BackendProfile[] = [];
+  try {
+    const raw = localStorage.getItem(PROFILES_KEY);
+    const parsed = raw ? JSON.parse(raw) : null;
+    if (Array.isArray(parsed)) {
+      profiles = parsed.filter((p): p is BackendProfile =>
+        p && typeof p.id === 'string' && typeof p.name === 'string' && typeof p.baseUrl === 'string');
+    }
+  } catch {
+    // corrupted storage - fall back to defaults
+  }
+
+  if (!profiles.some(p => p.id === DEFAULT_PROFILE.id)) {
+    profiles.unshift(DEFAULT_PROFILE);
+  }
+
+  let activeId = localStorage.getItem(ACTIVE_KEY) ?? DEFAULT_PROFILE.id;
+
+  const legacyUrl = normalizeBaseUrl(localStorage.getItem(LEGACY_API_URL_KEY) ?? '');
+  if (legacyUrl) {
+    const migrated: BackendProfile = { id: 'migrated', name: 'Custom', baseUrl: legacyUrl };
+    if (!profiles.some(p => p.id === migrated.id)) profiles.push(migrated);
+    activeId = migrated.id;
+    localStorage.removeItem(LEGACY_API_URL_KEY);
+    persist({ profiles, activeId });
+  }
+
+  if (!profiles.some(p => p.id === activeId)) activeId = DEFAULT_PROFILE.id;
+  return { profiles, activeId };
+}
+
+function persist(next: BackendProfilesState) {
+  localStorage.setItem(PROFILES_KEY, JSON.stringify(next.profiles));
+  localStorage.setItem(ACTIVE_KEY, next.activeId);
+}
+
+let state: BackendProfilesState = loadState();
+const listeners = new Set<() => void>();
+
+function update(next: BackendProfilesState) {
+  state = next;
+  persist(next);
+  listeners.forEach(listener => listener());
+}
+
+export function getBackendProfilesState(): BackendProfilesState {
+  return state;
+}
+
+export function getActiveProfile(): BackendProfile {
+  return state.profiles.find(p => p.id === state.activeId) ?? DEFAULT_PROFILE;
+}
+
+export function subscribeBackendProfiles(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/** Prefixes a root-relative path ("/api/...", "/hubs/...", "/health") with the active backend. */
+export function resolveBackendUrl(path: string): string {
+  if (!path.startsWith('/')) return path;
+  return `${getActiveProfile().baseUrl}${path}`;
+}
+
+/** Adds or replaces a profile (matched by id). */
+export function saveBackendProfile(profile: BackendProfile): void {
+  const normalized = { ...profile, name: profile.name.trim(), baseUrl: normalizeBaseUrl(profile.baseUrl) };
+  const exists = state.profiles.some(p => p.id === normalized.id);
+  update({
+    ...state,
+    profiles: exists
+      ? state.profiles.map(p => (p.id === normalized.id ? normalized : p))
+      : [...state.profiles, normalized]
+  });
+}
+
+export function deleteBackendProfile(id: string): void {
+  if (id === DEFAULT_PROFILE.id) return;
+  update({
+    profiles: state.profiles.filter(p => p.id !== id),
+    activeId: state.activeId === id ? DEFAULT_PROFILE.id : state.activeId
+  });
+}
+
+export function setActiveBackendProfile(id: string): void {
+  if (id === state.activeId || !state.profiles.some(p => p.id === id)) return;
+  update({ ...state, activeId: id });
+}
+
+export function createProfileId(): string {
+  return `profile-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+}
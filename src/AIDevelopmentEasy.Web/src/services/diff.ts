@@ -0,0 +1,297 @@
+// ════════════════════════════════════════════════════════════════════════════
+// Text diff
+// Line diff (Myers) with word-level highlighting inside changed line pairs,
+// plus helpers to collapse unchanged regions and lay lines out side by side.
+// ════════════════════════════════════════════════════════════════════════════
+
+export type DiffLineType = 'equal' | 'insert' | 'delete';
+
+export interface DiffSegment {
+  text: string;
+  changed: boolean;
+}
+
+export interface DiffLine {
+  type: DiffLineType;
+  text: string;
+  /** 1-based line number in the original (null for inserted lines). */
+  oldNumber: number | null;
+  /** 1-based line number in the modified file (null for deleted lines). */
+  newNumber: number | null;
+  /** Word-level changes, set on changed lines that pair up with a similar counterpart. */
+  segments?: DiffSegment[];
+}
+
+export type DiffChunk =
+  | { kind: 'lines'; lines: DiffLine[] }
+  | { kind: 'collapsed'; id: number; lines: DiffLine[] };
+
+export interface SplitRow {
+  left: DiffLine | null;
+  right: DiffLine | null;
+}
+
+export interface DiffStats {
+  additions: number;
+  deletions: number;
+}
+
+type EditOp = { type: DiffLineType; aIndex: number; bIndex: number };
+
+// Beyond this many edits the diff is reported as a full replacement
+const MAX_EDIT_DISTANCE = 4000;
+
+// Paired lines sharing less than this much text are shown as plain delete + insert
+const MIN_INTRALINE_SIMILARITY = 0.4;
+
+/**
+ * Shortest edit script between two sequences (Myers' O(ND) algorithm).
+ * Returns null when the sequences differ by more than maxEdits.
+ */
+function myers<T>(a: T[], b: T[], maxEdits: number): EditOp[] | null {
+  const n = a.length;
+  const m = b.length;
+  const max = Math.min(n + m, maxEdits);
+  // trace[d] holds the furthest x for diagonals -d..d after step d
+  const trace: Int32Array[] = [];
+  let v = new Int32Array(0);
+
+  const at = (arr: Int32Array, d: number, k: number) => arr[k + d];
+
+  for (let d = 0; d <= max; d++) {
+    const next = new Int32Array(2 * d + 1);
+    for (let k = -d; k <= d; k += 2) {
+      const prev = d - 1;
+      let x: number;
+      if (d === 0) {
+        x = 0;
+      } else if (k === -d || (k !== d && at(v, prev, k - 1) < at(v, prev, k + 1))) {
+        x = at(v, prev, k + 1);
+      } else {
+        x = at(v, prev, k - 1) + 1;
+      }
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      next[k + d] = x;
+
+      if (x >= n && y >= m) {
+        trace.push(next);
+        return backtrack(trace, n, m);
+      }
+    }
+    trace.push(next);
+    v = next;
+  }
+  return null;
+}
+
+function backtrack(trace: Int32Array[], n: number, m: number): EditOp[] {
+  const ops: EditOp[] = [];
+  let x = n;
+  let y = m;
+
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const k = x - y;
+    if (d === 0) {
+      while (x > 0 && y > 0) ops.push({ type: 'equal', aIndex: --x, bIndex: --y });
+      break;
+    }
+    const v = trace[d - 1];
+    const prev = d - 1;
+    const prevK = k === -d || (k !== d && v[k - 1 + prev] < v[k + 1 + prev]) ? k + 1 : k - 1;
+    const prevX = v[prevK + prev];
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) ops.push({ type: 'equal', aIndex: --x, bIndex: --y });
+    if (x === prevX) {
+      ops.push({ type: 'insert', aIndex: x, bIndex: --y });
+    } else {
+      ops.push({ type: 'delete', aIndex: --x, bIndex: y });
+    }
+  }
+
+  return ops.reverse();
+}
+
+function splitLines(text: string): string[] {
+  if (text === '') return [];
+  const lines = text.replace(/\r\n?/g, '\n').split('\n');
+  if (lines[lines.length - 1] === '') lines.pop();
+  return lines;
+}
+
+const tokenize = (line: string) => line.match(/\w+|\s+|[^\w\s]/g) ?? [];
+
+/**
+ * Word-level segments for a deleted/inserted line pair, or null when the
+ * lines have too little in common for highlighting to help.
+ */
+function diffWords(oldText: string, newText: string): { left: DiffSegment[]; right: DiffSegment[] } | null {
+  const a = tokenize(oldText);
+  const b = tokenize(newText);
+  const ops = myers(a, b, 200);
+  if (!ops) return null;
+
+  const left: DiffSegment[] = [];
+  const right: DiffSegment[] = [];
+  const push = (segments: DiffSegment[], text: string, changed: boolean) => {
+    const last = segments[segments.length - 1];
+    if (last && last.changed === changed) last.text += text;
+    else segments.push({ text, changed });
+  };
+
+  let common = 0;
+  for (const op of ops) {
+    if (op.type === 'equal') {
+      common += a[op.aIndex].length;
+      push(left, a[op.aIndex], false);
+      push(right, b[op.bIndex], false);
+    } else if (op.type === 'delete') {
+      push(left, a[op.aIndex], true);
+    } else {
+      push(right, b[op.bIndex], true);
+    }
+  }
+
+  const longest = Math.max(oldText.length, newText.length);
+  if (longest === 0 || common / longest < MIN_INTRALINE_SIMILARITY) return null;
+  return { left, right };
+}
+
+// Pairs each run of deletions with the insertions right after it for word-level highlighting
+function addIntralineSegments(lines: DiffLine[]): void {
+  let i = 0;
+  while (i < lines.length) {
+    if (lines[i].type !== 'delete') {
+      i++;
+      continue;
+    }
+    const deleteStart = i;
+    while (i < lines.length && lines[i].type === 'delete') i++;
+    const insertStart = i;
+    while (i < lines.length && lines[i].type === 'insert') i++;
+
+    const pairs = Math.min(insertStart - deleteStart, i - insertStart);
+    for (let p = 0; p < pairs; p++) {
+      const deleted = lines[deleteStart + p];
+      const inserted = lines[insertStart + p];
+      const words = diffWords(deleted.text, inserted.text);
+      if (words) {
+        deleted.segments = words.left;
+        inserted.segments = words.right;
+      }
+    }
+  }
+}
+
+/** Line-by-line diff of two texts; line endings are normalized. */
+export function diffLines(original: string, modified: string): DiffLine[] {
+  const a = splitLines(original);
+  const b = splitLines(modified);
+
+  // Common prefix/suffix are cheap to strip and keep the edit search small
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) suffix++;
+
+  const midA = a.slice(prefix, a.length - suffix);
+  const midB = b.slice(prefix, b.length - suffix);
+  const ops = myers(midA, midB, MAX_EDIT_DISTANCE) ?? [
+    ...midA.map((_, i) => ({ type: 'delete' as const, aIndex: i, bIndex: 0 })),
+    ...midB.map((_, i) => ({ type: 'insert' as const, aIndex: 0, bIndex: i }))
+  ];
+
+  const lines: DiffLine[] = [];
+  for (let i = 0; i < prefix; i++) {
+    lines.push({ type: 'equal', text: a[i], oldNumber: i + 1, newNumber: i + 1 });
+  }
+  for (const op of ops) {
+    const oldNumber = prefix + op.aIndex + 1;
+    const newNumber = prefix + op.bIndex + 1;
+    if (op.type === 'equal') {
+      lines.push({ type: 'equal', text: midA[op.aIndex], oldNumber, newNumber });
+    } else if (op.type === 'delete') {
+      lines.push({ type: 'delete', text: midA[op.aIndex], oldNumber, newNumber: null });
+    } else {
+      lines.push({ type: 'insert', text: midB[op.bIndex], oldNumber: null, newNumber });
+    }
+  }
+  for (let i = suffix; i > 0; i--) {
+    lines.push({ type: 'equal', text: a[a.length - i], oldNumber: a.length - i + 1, newNumber: b.length - i + 1 });
+  }
+
+  addIntralineSegments(lines);
+  return lines;
+}
+
+export function getDiffStats(lines: DiffLine[]): DiffStats {
+  let additions = 0;
+  let deletions = 0;
+  for (const line of lines) {
+    if (line.type === 'insert') additions++;
+    else if (line.type === 'delete') deletions++;
+  }
+  return { additions, deletions };
+}
+
+/**
+ * Groups lines into visible chunks and collapsible runs of unchanged lines,
+ * keeping `context` unchanged lines around every change visible.
+ */
+export function collapseUnchanged(lines: DiffLine[], context = 3): DiffChunk[] {
+  const visible = new Array<boolean>(lines.length).fill(false);
+  lines.forEach((line, i) => {
+    if (line.type === 'equal') return;
+    const from = Math.max(0, i - context);
+    const to = Math.min(lines.length - 1, i + context);
+    for (let j = from; j <= to; j++) visible[j] = true;
+  });
+
+  const chunks: DiffChunk[] = [];
+  let i = 0;
+  while (i < lines.length) {
+    const start = i;
+    const isVisible = visible[i];
+    while (i < lines.length && visible[i] === isVisible) i++;
+    const slice = lines.slice(start, i);
+    // Hiding a line or two saves nothing over just showing them
+    if (isVisible || slice.length <= 2) {
+      const last = chunks[chunks.length - 1];
+      if (last?.kind === 'lines') last.lines.push(...slice);
+      else chunks.push({ kind: 'lines', lines: slice });
+    } else {
+      chunks.push({ kind: 'collapsed', id: start, lines: slice });
+    }
+  }
+  return chunks;
+}
+
+/** Side-by-side layout: unchanged lines on both sides, deletions left, insertions right. */
+export function toSplitRows(lines: DiffLine[]): SplitRow[] {
+  const rows: SplitRow[] = [];
+  let i = 0;
+  while (i < lines.length) {
+    const line = lines[i];
+    if (line.type === 'equal') {
+      rows.push({ left: line, right: line });
+      i++;
+      continue;
+    }
+    const deleted: DiffLine[] = [];
+    const inserted: DiffLine[] = [];
+    while (i < lines.length && lines[i].type === 'delete') deleted.push(lines[i++]);
+    while (i < lines.length && lines[i].type === 'insert') inserted.push(lines[i++]);
+    for (let r = 0; r < Math.max(deleted.length, inserted.length); r++) {
+      rows.push({ left: deleted[r] ?? null, right: inserted[r] ?? null });
+    }
+  }
+  return rows;
+}
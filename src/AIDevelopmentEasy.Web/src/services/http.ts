@@ -0,0 +1,252 @@
+// ════════════════════════════════════════════════════════════════════════════
+// HTTP transport shared by every API module
+// ════════════════════════════════════════════════════════════════════════════
+
+import { resolveBackendUrl } from './backendProfiles';
+
+/** Field name -> validation messages, keyed by camelCase property name. */
+export type ValidationErrors = Record<string, string[]>;
+
+/**
+ * Error thrown for every failed API call. Carries the HTTP status and, when the
+ * backend answered with RFC 7807 ProblemDetails, its fields and validation errors.
+ * Network failures use status 0.
+ */
+export class ApiError extends Error {
+  readonly status: number;
+  readonly title?: string;
+  readonly detail?: string;
+  readonly type?: string;
+  readonly instance?: string;
+  readonly errors: ValidationErrors;
+  /** Seconds from a Retry-After header (429/503), if present. */
+  readonly retryAfter?: number;
+
+  constructor(init: {
+    status: number;
+    message: string;
+    title?: string;
+    detail?: string;
+    type?: string;
+    instance?: string;
+    errors?: ValidationErrors;
+    retryAfter?: number;
+  }) {
+    super(init.message);
+    this.name = 'ApiError';
+    this.status = init.status;
+    this.title = init.title;
+    this.detail = init.detail;
+    this.type = init.type;
+    this.instance = init.instance;
+    this.errors = init.errors ?? {};
+    this.retryAfter = init.retryAfter;
+  }
+
+  get isNetworkError(): boolean {
+    return this.status === 0;
+  }
+
+  get isNotFound(): boolean {
+    return this.status === 404;
+  }
+
+  get hasValidationErrors(): boolean {
+    return Object.keys(this.errors).length > 0;
+  }
+
+  /** First validation message for a field (camelCase name), if any. */
+  fieldError(field: string): string | undefined {
+    return this.errors[field]?.[0];
+  }
+}
+
+/** Retry/backoff settings for idempotent GET requests. */
+export interface RetryPolicy {
+  /** Number of retries after the first attempt (0 disables retrying). */
+  retries: number;
+  /** Delay before the first retry; doubles on each subsequent attempt. */
+  baseDelayMs: number;
+  /** Upper bound for a single backoff delay. */
+  maxDelayMs: number;
+  /** Decides whether a failure is worth retrying. */
+  shouldRetry: (error: ApiError) => boolean;
+}
+
+export interface RequestOptions {
+  /** Cancels the request (and any pending retry delay) when aborted. */
+  signal?: AbortSignal;
+  /** Overrides the default retry policy for this call; `false` disables retries. GET only. */
+  retry?: Partial<RetryPolicy> | false;
+}
+
+const RETRYABLE_STATUSES = new Set([408, 429, 502, 503, 504]);
+
+let defaultRetryPolicy: RetryPolicy = {
+  retries: 2,
+  baseDelayMs: 300,
+  maxDelayMs: 4000,
+  shouldRetry: (error) => error.isNetworkError || RETRYABLE_STATUSES.has(error.status)
+};
+
+/** Change the retry policy used by all GET requests that don't pass their own. */
+export function configureRetryPolicy(policy: Partial<RetryPolicy>): void {
+  defaultRetryPolicy = { ...defaultRetryPolicy, ...policy };
+}
+
+export function isAbortError(err: unknown): boolean {
+  return err instanceof DOMException && err.name === 'AbortError';
+}
+
+/** Flattens validation errors to one message per field, for form rendering. */
+export function getFieldErrors(err: unknown): Record<string, string> {
+  if (!(err instanceof ApiError)) return {};
+  const result: Record<string, string> = {};
+  for (const [field, messages] of Object.entries(err.errors)) {
+    if (messages.length > 0) result[field] = messages[0];
+  }
+  return result;
+}
+
+/** User-facing message for any thrown value, with a fallback. */
+export function getErrorMessage(err: unknown, fallback: string): string {
+  return err instanceof Error && err.message ? err.message : fallback;
+}
+
+// ASP.NET keys validation errors by property path ("Name", "$.codebaseId", "Tasks[0].Title").
+function normalizeFieldName(key: string): string {
+  const trimmed = key.startsWith('$.') ? key.slice(2) : key;
+  return trimmed.charAt(0).toLowerCase() + trimmed.slice(1);
+}
+
+function parseRetryAfter(response: Response): number | undefined {
+  const header = response.headers.get('Retry-After');
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (!Number.isNaN(seconds)) return seconds;
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, (date - Date.now()) / 1000);
+}
+
+async function toApiError(response: Response): Promise<ApiError> {
+  const text = await response.text().catch(() => '');
+  let message = text || `HTTP ${response.status}`;
+  let problem: Record<string, unknown> | null = null;
+
+  try {
+    const json = text ? JSON.parse(text) : null;
+    if (json && typeof json === 'object' && !Array.isArray(json)) problem = json;
+    else if (typeof json === 'string' && json) message = json;
+  } catch {
+    // keep message as text
+  }
+
+  const errors: ValidationErrors = {};
+  if (problem) {
+    if (typeof problem.detail === 'string') message = problem.detail;
+    else if (typeof problem.title === 'string') message = problem.title;
+    else if (typeof problem.message === 'string') message = problem.message;
+
+    if (problem.errors && typeof problem.errors === 'object') {
+      for (const [key, value] of Object.entries(problem.errors as Record<string, unknown>)) {
+        const messages = Array.isArray(value) ? value.map(String) : [String(value)];
+        errors[normalizeFieldName(key)] = messages;
+      }
+    }
+  }
+
+  return new ApiError({
+    status: response.status,
+    message,
+    title: typeof problem?.title === 'string' ? problem.title : undefined,
+    detail: typeof problem?.detail === 'string' ? problem.detail : undefined,
+    type: typeof problem?.type === 'string' ? problem.type : undefined,
+    instance: typeof problem?.instance === 'string' ? problem.instance : undefined,
+    errors,
+    retryAfter: parseRetryAfter(response)
+  });
+}
+
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason ?? new DOMException('Aborted', 'AbortError'));
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason ?? new DOMException('Aborted', 'AbortError'));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+function backoffDelay(policy: RetryPolicy, attempt: number, error: ApiError): number {
+  if (error.retryAfter !== undefined) {
+    return Math.min(policy.maxDelayMs, error.retryAfter * 1000);
+  }
+  const exponential = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** attempt);
+  // Full jitter in the upper half so concurrent clients don't retry in lockstep
+  return exponential / 2 + Math.random() * (exponential / 2);
+}
+
+// Root-relative URLs are routed to the active backend profile
+async function send(url: string, init: RequestInit, options: RequestOptions): Promise<Response> {
+  const method = (init.method ?? 'GET').toUpperCase();
+  const policy: RetryPolicy | null =
+    method === 'GET' && options.retry !== false
+      ? { ...defaultRetryPolicy, ...(options.retry ?? {}) }
+      : null;
+
+  for (let attempt = 0; ; attempt++) {
+    let error: ApiError;
+    try {
+      const response = await fetch(resolveBackendUrl(url), { ...init, signal: options.signal });
+      if (response.ok) return response;
+      error = await toApiError(response);
+    } catch (err) {
+      if (isAbortError(err) || options.signal?.aborted) throw err;
+      if (err instanceof ApiError) throw err;
+      error = new ApiError({
+        status: 0,
+        message: err instanceof Error ? err.message : 'Network error'
+      });
+    }
+
+    if (!policy || attempt >= policy.retries || !policy.shouldRetry(error)) {
+      throw error;
+    }
+    await delay(backoffDelay(policy, attempt, error), options.signal);
+  }
+}
+
+/** Performs a request and parses a JSON body (empty body resolves to `{}`). */
+export async function requestJson<T>(url: string, init: RequestInit = {}, options: RequestOptions = {}): Promise<T> {
+  const response = await send(url, init, options);
+  const text = await response.text();
+  return text ? JSON.parse(text) : ({} as T);
+}
+
+/** Performs a request and returns the raw text body. */
+export async function requestText(url: string, init: RequestInit = {}, options: RequestOptions = {}): Promise<string> {
+  const response = await send(url, init, options);
+  return response.text();
+}
+
+/** Performs a request whose response body is ignored. */
+export async function requestVoid(url: string, init: RequestInit = {}, options: RequestOptions = {}): Promise<void> {
+  await send(url, init, options);
+}
+
+/** Builds a JSON request init for POST/PUT bodies. */
+export function jsonBody(method: 'POST' | 'PUT' | 'PATCH' | 'DELETE', body: unknown): RequestInit {
+  return {
+    method,
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body)
+  };
+}
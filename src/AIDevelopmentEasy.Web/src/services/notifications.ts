@@ -0,0 +1,150 @@
+// ════════════════════════════════════════════════════════════════════════════
+// Notifications
+// App-wide history of pipeline events that need (or needed) the user's
+// attention. Persisted per backend profile so read state survives reloads.
+// ════════════════════════════════════════════════════════════════════════════
+
+import { getActiveProfile, subscribeBackendProfiles } from './backendProfiles';
+import type { PipelinePhase } from '../types';
+
+export type NotificationKind = 'approval' | 'retryApproval' | 'completed' | 'failed';
+
+export interface AppNotification {
+  id: string;
+  kind: NotificationKind;
+  storyId: string;
+  storyName?: string;
+  phase: PipelinePhase;
+  message: string;
+  createdAt: string;
+  read: boolean;
+  /** Id of the hub update that raised it; replayed updates don't notify twice. */
+  sourceId?: string;
+  /** Approvals only: set once the pipeline moved past the approval gate. */
+  resolved?: boolean;
+}
+
+export interface NotificationsState {
+  notifications: AppNotification[];
+  desktopEnabled: boolean;
+}
+
+const STORAGE_KEY_PREFIX = 'notifications:';
+const DESKTOP_KEY = 'desktopNotifications';
+const MAX_NOTIFICATIONS = 100;
+
+export const isApprovalKind = (kind: NotificationKind) => kind === 'approval' || kind === 'retryApproval';
+
+export const isPendingApproval = (n: AppNotification) => isApprovalKind(n.kind) && !n.resolved;
+
+function storageKey(): string {
+  return `${STORAGE_KEY_PREFIX}${getActiveProfile().id}`;
+}
+
+function loadState(): NotificationsState {
+  let notifications: AppNotification[] = [];
+  try {
+    const raw = localStorage.getItem(storageKey());
+    const parsed = raw ? JSON.parse(raw) : null;
+    if (Array.isArray(parsed)) {
+      notifications = parsed.filter((n): n is AppNotification =>
+        n && typeof n.id === 'string' && typeof n.storyId === 'string' && typeof n.kind === 'string');
+    }
+  } catch {
+    // corrupted storage - start with an empty history
+  }
+  return {
+    notifications,
+    desktopEnabled: localStorage.getItem(DESKTOP_KEY) === 'true'
+  };
+}
+
+let state: NotificationsState = loadState();
+let loadedProfileId = getActiveProfile().id;
+const listeners = new Set<() => void>();
+
+function update(next: NotificationsState) {
+  state = next;
+  localStorage.setItem(storageKey(), JSON.stringify(next.notifications));
+  localStorage.setItem(DESKTOP_KEY, String(next.desktopEnabled));
+  listeners.forEach(listener => listener());
+}
+
+// Story ids belong to a backend, so each profile has its own history
+subscribeBackendProfiles(() => {
+  const profileId = getActiveProfile().id;
+  if (profileId === loadedProfileId) return;
+  loadedProfileId = profileId;
+  state = loadState();
+  listeners.forEach(listener => listener());
+});
+
+export function getNotificationsState(): NotificationsState {
+  return state;
+}
+
+export function subscribeNotifications(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Adds a notification (newest first). An unresolved approval for the same story,
+ * phase and kind, or one raised by the same hub update, is not duplicated.
+ * Returns the added notification, if any.
+ */
+export function addNotification(
+  input: Omit<AppNotification, 'id' | 'createdAt' | 'read' | 'resolved'>
+): AppNotification | null {
+  if (input.sourceId && state.notifications.some(n => n.sourceId === input.sourceId)) return null;
+  if (isApprovalKind(input.kind) && state.notifications.some(n =>
+    isPendingApproval(n) && n.storyId === input.storyId && n.phase === input.phase && n.kind === input.kind)) {
+    return null;
+  }
+
+  const notification: AppNotification = {
+    ...input,
+    id: `ntf-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+    createdAt: new Date().toISOString(),
+    read: false
+  };
+  update({
+    ...state,
+    notifications: [notification, ...state.notifications].slice(0, MAX_NOTIFICATIONS)
+  });
+  return notification;
+}
+
+/** Marks a story's pending approvals as handled (the pipeline moved on). */
+export function resolveApprovals(storyId: string): void {
+  if (!state.notifications.some(n => n.storyId === storyId && isPendingApproval(n))) return;
+  update({
+    ...state,
+    notifications: state.notifications.map(n =>
+      n.storyId === storyId && isPendingApproval(n) ? { ...n, resolved: true } : n)
+  });
+}
+
+export function markNotificationRead(id: string): void {
+  if (!state.notifications.some(n => n.id === id && !n.read)) return;
+  update({
+    ...state,
+    notifications: state.notifications.map(n => (n.id === id ? { ...n, read: true } : n))
+  });
+}
+
+export function markAllNotificationsRead(): void {
+  if (!state.notifications.some(n => !n.read)) return;
+  update({ ...state, notifications: state.notifications.map(n => (n.read ? n : { ...n, read: true })) });
+}
+
+/** Removes read notifications, keeping unread ones and pending approvals. */
+export function clearReadNotifications(): void {
+  update({ ...state, notifications: state.notifications.filter(n => !n.read || isPendingApproval(n)) });
+}
+
+export function setDesktopNotificationsEnabled(enabled: boolean): void {
+  update({ ...state, desktopEnabled: enabled });
+}
@@ -0,0 +1,269 @@
+// ════════════════════════════════════════════════════════════════════════════
+// Pipeline hub client
+// One SignalR connection per backend, shared by the whole app through
+// SignalRProvider. Handles heartbeat, reconnects and ref-counted story groups,
+// and replays updates a subscribed story missed while disconnected.
+// ════════════════════════════════════════════════════════════════════════════
+
+import * as signalR from '@microsoft/signalr';
+import { PipelinePhase, type ConnectionGapData, type PipelineUpdateMessage } from '../types';
+import { createLocalLogId, parsePipelineUpdate } from './pipelineLog';
+
+const HUB_PATH = '/hubs/pipeline';
+const HEALTH_PATH = '/health';
+const HEARTBEAT_INTERVAL_MS = 3000;
+const RECONNECT_INTERVAL_MS = 2000;
+const HEALTH_TIMEOUT_MS = 2000;
+
+/** Server -> client hub methods and their arguments. */
+export interface PipelineHubEvents {
+  PipelineUpdate: [message: PipelineUpdateMessage];
+  StoryListChanged: [];
+  QueueChanged: [];
+  StoryCompleted: [storyId: string];
+}
+
+export type PipelineHubEventName = keyof PipelineHubEvents;
+export type PipelineHubHandler<E extends PipelineHubEventName> = (...args: PipelineHubEvents[E]) => void;
+
+export interface HubConnectionSnapshot {
+  isConnected: boolean;
+}
+
+export interface PipelineHub {
+  readonly baseUrl: string;
+  start(): void;
+  stop(): void;
+  getSnapshot(): HubConnectionSnapshot;
+  subscribeConnection(listener: () => void): () => void;
+  on<E extends PipelineHubEventName>(event: E, handler: PipelineHubHandler<E>): () => void;
+  /** Joins the story's group; the group is left when the last holder releases. */
+  subscribeToStory(storyId: string): () => void;
+}
+
+/** Events forwarded as-is; PipelineUpdate is parsed first. */
+const HUB_EVENTS: PipelineHubEventName[] = ['StoryListChanged', 'QueueChanged', 'StoryCompleted'];
+
+export function createPipelineHub(baseUrl: string): PipelineHub {
+  let connection: signalR.HubConnection | null = null;
+  let timers: ReturnType<typeof setInterval>[] = [];
+  let snapshot: HubConnectionSnapshot = { isConnected: false };
+
+  const connectionListeners = new Set<() => void>();
+  const handlers = new Map<PipelineHubEventName, Set<(...args: unknown[]) => void>>();
+  const storyRefCounts = new Map<string, number>();
+  // Timestamp of the newest update seen per subscribed story, the replay cursor
+  const lastUpdateAt = new Map<string, string>();
+  let droppedAt: string | null = null;
+
+  const setConnected = (isConnected: boolean) => {
+    if (snapshot.isConnected === isConnected) return;
+    snapshot = { isConnected };
+    if (!isConnected) droppedAt ??= new Date().toISOString();
+    connectionListeners.forEach(listener => listener());
+  };
+
+  const dispatch = (event: PipelineHubEventName, args: unknown[]) => {
+    handlers.get(event)?.forEach(handler => {
+      try {
+        handler(...args);
+      } catch (err) {
+        console.error(`Pipeline hub handler for ${event} failed`, err);
+      }
+    });
+  };
+
+  const receiveUpdate = (message: PipelineUpdateMessage) => {
+    if (storyRefCounts.has(message.storyId)) {
+      const last = lastUpdateAt.get(message.storyId);
+      if (!last || Date.parse(message.timestamp) > Date.parse(last)) {
+        lastUpdateAt.set(message.storyId, message.timestamp);
+      }
+    }
+    dispatch('PipelineUpdate', [message]);
+  };
+
+  const isConnected = () => connection?.state === signalR.HubConnectionState.Connected;
+
+  // Groups are per connection, so every (re)connect has to rejoin them
+  const joinGroups = (conn: signalR.HubConnection) => {
+    conn.invoke('SubscribeToAll').catch(() => { });
+    storyRefCounts.forEach((_count, storyId) => {
+      conn.invoke('SubscribeToStory', storyId).catch(() => { });
+    });
+  };
+
+  const gapMarker = (
+    storyId: string,
+    updateType: 'ConnectionLost' | 'ConnectionRestored',
+    timestamp: string,
+    data: ConnectionGapData
+  ): PipelineUpdateMessage => ({
+    id: createLocalLogId(),
+    storyId,
+    updateType,
+    phase: PipelinePhase.None,
+    message: updateType === 'ConnectionLost'
+      ? 'Connection to server lost'
+      : `Connection restored, ${data.replayedCount} missed update(s) replayed`,
+    data,
+    timestamp
+  });
+
+  // Markers use server timestamps (the last update before the gap, the last replayed one)
+  // so they sort around the replayed updates regardless of client clock skew
+  const replayMissedUpdates = (conn: signalR.HubConnection, gapStartedAt: string) => {
+    const recoveredAt = new Date().toISOString();
+    storyRefCounts.forEach((_count, storyId) => {
+      const since = lastUpdateAt.get(storyId) ?? null;
+      conn.invoke<unknown[]>('GetUpdatesSince', storyId, since)
+        .then(raw => {
+          if (connection !== conn) return;
+          const missed = (raw ?? [])
+            .map(parsePipelineUpdate)
+            .filter((m): m is PipelineUpdateMessage => m !== null);
+          const data: ConnectionGapData = { droppedAt: gapStartedAt, recoveredAt, replayedCount: missed.length };
+          const lostAt = since ?? gapStartedAt;
+
+          dispatch('PipelineUpdate', [gapMarker(storyId, 'ConnectionLost', lostAt, data)]);
+          missed.forEach(receiveUpdate);
+          const restoredAt = missed.length > 0 ? missed[missed.length - 1].timestamp : lostAt;
+          dispatch('PipelineUpdate', [gapMarker(storyId, 'ConnectionRestored', restoredAt, data)]);
+        })
+        .catch(() => { });
+    });
+  };
+
+  const onConnected = (conn: signalR.HubConnection) => {
+    setConnected(true);
+    joinGroups(conn);
+    const gapStartedAt = droppedAt;
+    droppedAt = null;
+    if (gapStartedAt) replayMissedUpdates(conn, gapStartedAt);
+  };
+
+  const connect = () => {
+    const conn = connection;
+    if (!conn || conn.state !== signalR.HubConnectionState.Disconnected) return;
+    conn.start()
+      .then(() => {
+        if (connection !== conn) return;
+        onConnected(conn);
+      })
+      .catch(() => { });
+  };
+
+  const onVisibility = () => {
+    if (document.visibilityState === 'visible') connect();
+  };
+
+  return {
+    baseUrl,
+
+    start() {
+      if (connection) return;
+
+      const conn = new signalR.HubConnectionBuilder()
+        .withUrl(`${baseUrl}${HUB_PATH}`)
+        .withAutomaticReconnect([0, 1000, 2000, 5000, 10000])
+        .configureLogging(signalR.LogLevel.Warning)
+        .build();
+      connection = conn;
+
+      HUB_EVENTS.forEach(event => {
+        conn.on(event, (...args: unknown[]) => dispatch(event, args));
+      });
+      conn.on('PipelineUpdate', (raw: unknown) => {
+        const message = parsePipelineUpdate(raw);
+        if (message) receiveUpdate(message);
+      });
+      conn.onclose(() => setConnected(false));
+      conn.onreconnecting(() => setConnected(false));
+      conn.onreconnected(() => onConnected(conn));
+
+      // Nothing has been missed on the very first connect
+      connect();
+
+      // Heartbeat: detect server death quickly (UI shows Disconnected sooner)
+      timers.push(setInterval(async () => {
+        if (!isConnected()) return;
+        const c = new AbortController();
+        const t = setTimeout(() => c.abort(), HEALTH_TIMEOUT_MS);
+        try {
+          const res = await fetch(`${baseUrl}${HEALTH_PATH}`, { signal: c.signal });
+          if (!res.ok) throw new Error(`HTTP ${res.status}`);
+        } catch {
+          setConnected(false);
+          conn.stop().catch(() => { });
+        } finally {
+          clearTimeout(t);
+        }
+      }, HEARTBEAT_INTERVAL_MS));
+
+      // Reconnect: when disconnected, try to connect again so UI shows Connected soon after server is back
+      timers.push(setInterval(connect, RECONNECT_INTERVAL_MS));
+
+      // When user returns to the tab/window, try reconnect immediately
+      document.addEventListener('visibilitychange', onVisibility);
+    },
+
+    stop() {
+      timers.forEach(clearInterval);
+      timers = [];
+      document.removeEventListener('visibilitychange', onVisibility);
+      const conn = connection;
+      connection = null;
+      setConnected(false);
+      droppedAt = null;
+      conn?.stop().catch(() => { });
+    },
+
+    getSnapshot() {
+      return snapshot;
+    },
+
+    subscribeConnection(listener) {
+      connectionListeners.add(listener);
+      return () => {
+        connectionListeners.delete(listener);
+      };
+    },
+
+    on(event, handler) {
+      let set = handlers.get(event);
+      if (!set) {
+        set = new Set();
+        handlers.set(event, set);
+      }
+      const entry = handler as (...args: unknown[]) => void;
+      set.add(entry);
+      return () => {
+        set.delete(entry);
+      };
+    },
+
+    subscribeToStory(storyId) {
+      const count = storyRefCounts.get(storyId) ?? 0;
+      storyRefCounts.set(storyId, count + 1);
+      if (count === 0 && isConnected()) {
+        connection!.invoke('SubscribeToStory', storyId).catch(() => { });
+      }
+
+      let released = false;
+      return () => {
+        if (released) return;
+        released = true;
+        const remaining = (storyRefCounts.get(storyId) ?? 1) - 1;
+        if (remaining > 0) {
+          storyRefCounts.set(storyId, remaining);
+          return;
+        }
+        storyRefCounts.delete(storyId);
+        lastUpdateAt.delete(storyId);
+        if (isConnected()) {
+          connection!.invoke('UnsubscribeFromStory', storyId).catch(() => { });
+        }
+      };
+    }
+  };
+}
@@ -0,0 +1,62 @@
+// ════════════════════════════════════════════════════════════════════════════
+// Pipeline log helpers
+// Live, replayed and client-side entries all land in one list ordered by time.
+// ════════════════════════════════════════════════════════════════════════════
+
+import { isPipelineUpdateType, type PipelineUpdateMessage } from '../types';
+
+/**
+ * Narrows a raw PipelineUpdate payload to the typed union. Update types this
+ * client doesn't know (a newer backend) are dropped, and reported in dev builds.
+ */
+export function parsePipelineUpdate(raw: unknown): PipelineUpdateMessage | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const message = raw as { updateType?: unknown };
+  if (!isPipelineUpdateType(message.updateType)) {
+    if (import.meta.env.DEV) {
+      console.warn(`Unknown pipeline update type "${String(message.updateType)}"`, raw);
+    }
+    return null;
+  }
+  return raw as PipelineUpdateMessage;
+}
+
+const LOCAL_ID_PREFIX = 'local-';
+
+/** Id for entries created in the browser (never collides with server ids). */
+export function createLocalLogId(): string {
+  return `${LOCAL_ID_PREFIX}${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/** True for entries that only exist in this browser (markers, user actions). */
+export function isLocalLogId(id: string): boolean {
+  return id.startsWith(LOCAL_ID_PREFIX);
+}
+
+const timeOf = (entry: PipelineUpdateMessage) => Date.parse(entry.timestamp) || 0;
+
+/**
+ * Adds entries to a timestamp-ordered log, skipping ids already present.
+ * Returns the same array when nothing was added so React can bail out.
+ */
+export function mergePipelineLogs(
+  current: PipelineUpdateMessage[],
+  incoming: PipelineUpdateMessage[]
+): PipelineUpdateMessage[] {
+  const seen = new Set(current.map(entry => entry.id));
+  const added = incoming.filter(entry => {
+    if (seen.has(entry.id)) return false;
+    seen.add(entry.id);
+    return true;
+  });
+  if (added.length === 0) return current;
+
+  const result = [...current];
+  for (const entry of added) {
+    // Live updates almost always belong at the end, so scan backwards
+    let index = result.length;
+    while (index > 0 && timeOf(result[index - 1]) > timeOf(entry)) index--;
+    result.splice(index, 0, entry);
+  }
+  return result;
+}
@@ -0,0 +1,220 @@
+// ════════════════════════════════════════════════════════════════════════════
+// Client-side query cache
+// Keyed by resource; dedupes in-flight requests, serves stale data while
+// revalidating, and refetches observed keys when they are invalidated.
+// ════════════════════════════════════════════════════════════════════════════
+
+import { getActiveProfile, subscribeBackendProfiles } from './backendProfiles';
+
+export type QueryFetcher<T> = (signal: AbortSignal) => Promise<T>;
+
+export interface QueryState<T> {
+  data: T | undefined;
+  error: unknown;
+  /** Epoch ms of the last successful fetch (0 = never / invalidated). */
+  updatedAt: number;
+  isFetching: boolean;
+}
+
+export interface FetchQueryOptions {
+  /** Data younger than this is returned without a request. */
+  staleTime?: number;
+  /** Ignore staleTime and always hit the server (still deduped with an in-flight request). */
+  force?: boolean;
+}
+
+/** Cache keys. Hierarchical: invalidating `story` also invalidates `story/<id>`. */
+export const queryKeys = {
+  stories: 'stories',
+  story: (id: string) => `story/${id}`,
+  codebases: 'codebases',
+  approvalPolicies: 'approval-policies',
+  pipelineQueue: 'pipeline-queue',
+  runningPipelines: 'pipeline-running',
+  requirements: 'requirements',
+  requirement: (id: string) => `requirement/${id}`,
+  requirementGraph: (id: string) => `requirement-graph/${id}`,
+  knowledge: 'knowledge',
+  knowledgeEntries: (category?: number | null) => `knowledge/entries/${category ?? 'all'}`,
+  knowledgeStats: 'knowledge/stats',
+  knowledgeTags: 'knowledge/tags',
+  llmCall: (storyId: string, callId: string) => `llm-call/${storyId}/${callId}`,
+  reviewReport: (storyId: string) => `review-report/${storyId}`,
+  pipelineOutput: (storyId: string) => `pipeline-output/${storyId}`,
+  sourceFile: (codebaseId: string, path: string) => `source/${codebaseId}/${path}`,
+  manualFixFile: (storyId: string, path: string) => `manual-fix/${storyId}/${path}`
+};
+
+export const DEFAULT_STALE_TIME_MS = 5000;
+
+interface CacheEntry {
+  state: QueryState<unknown>;
+  listeners: Set<() => void>;
+  fetcher?: QueryFetcher<unknown>;
+  promise?: Promise<unknown>;
+  controller?: AbortController;
+  /** Invalidated while a request was in flight; fetch again once it settles. */
+  refetchPending?: boolean;
+}
+
+const EMPTY_STATE: QueryState<never> = { data: undefined, error: null, updatedAt: 0, isFetching: false };
+
+const cache = new Map<string, CacheEntry>();
+
+function getEntry(key: string): CacheEntry {
+  let entry = cache.get(key);
+  if (!entry) {
+    entry = { state: EMPTY_STATE, listeners: new Set() };
+    cache.set(key, entry);
+  }
+  return entry;
+}
+
+// State objects are replaced, never mutated, so they work as useSyncExternalStore snapshots
+function setState(entry: CacheEntry, patch: Partial<QueryState<unknown>>) {
+  entry.state = { ...entry.state, ...patch };
+  entry.listeners.forEach(listener => listener());
+}
+
+function matchesKey(key: string, prefix: string): boolean {
+  return key === prefix || key.startsWith(`${prefix}/`);
+}
+
+function isAborted(err: unknown): boolean {
+  return err instanceof DOMException && err.name === 'AbortError';
+}
+
+function refetchIfPending(entry: CacheEntry) {
+  if (!entry.refetchPending || !entry.fetcher) return;
+  entry.refetchPending = false;
+  runFetch(entry, entry.fetcher).catch(() => { /* surfaced through state.error */ });
+}
+
+function runFetch<T>(entry: CacheEntry, fetcher: QueryFetcher<T>): Promise<T> {
+  const controller = new AbortController();
+  entry.controller = controller;
+  entry.refetchPending = false;
+  setState(entry, { isFetching: true });
+
+  const promise = fetcher(controller.signal)
+    .then(data => {
+      if (entry.promise === promise) {
+        entry.promise = undefined;
+        setState(entry, { data, error: null, updatedAt: Date.now(), isFetching: false });
+        refetchIfPending(entry);
+      }
+      return data;
+    })
+    .catch(err => {
+      if (entry.promise === promise) {
+        entry.promise = undefined;
+        // Keep the last good data around; only the error changes
+        setState(entry, { error: isAborted(err) ? entry.state.error : err, isFetching: false });
+        refetchIfPending(entry);
+      }
+      throw err;
+    });
+
+  entry.promise = promise;
+  return promise;
+}
+
+export function getQueryState<T>(key: string): QueryState<T> {
+  return (cache.get(key)?.state ?? EMPTY_STATE) as QueryState<T>;
+}
+
+export function subscribeQuery(key: string, listener: () => void): () => void {
+  const entry = getEntry(key);
+  entry.listeners.add(listener);
+  return () => {
+    entry.listeners.delete(listener);
+  };
+}
+
+/**
+ * Returns cached data when fresh, otherwise fetches. Concurrent callers for the same
+ * key share one request. The fetcher is remembered so invalidation can refetch.
+ */
+export function fetchQuery<T>(key: string, fetcher: QueryFetcher<T>, options: FetchQueryOptions = {}): Promise<T> {
+  const entry = getEntry(key);
+  entry.fetcher = fetcher as QueryFetcher<unknown>;
+
+  if (entry.promise) return entry.promise as Promise<T>;
+
+  const staleTime = options.staleTime ?? DEFAULT_STALE_TIME_MS;
+  const { data, updatedAt } = entry.state;
+  if (!options.force && data !== undefined && updatedAt > 0 && Date.now() - updatedAt < staleTime) {
+    return Promise.resolve(data as T);
+  }
+
+  return runFetch(entry, fetcher);
+}
+
+/** Refetches a key with its last known fetcher. Resolves to the cached data if none was registered. */
+export function refetchQuery<T>(key: string): Promise<T | undefined> {
+  const entry = getEntry(key);
+  if (!entry.fetcher) return Promise.resolve(entry.state.data as T | undefined);
+  return fetchQuery(key, entry.fetcher as QueryFetcher<T>, { force: true });
+}
+
+/** Writes data directly (e.g. after a successful mutation). */
+export function setQueryData<T>(key: string, updater: T | ((previous: T | undefined) => T)): void {
+  const entry = getEntry(key);
+  const data = typeof updater === 'function'
+    ? (updater as (previous: T | undefined) => T)(entry.state.data as T | undefined)
+    : updater;
+  setState(entry, { data, error: null, updatedAt: Date.now() });
+}
+
+/**
+ * Marks every key equal to or nested under `prefix` as stale. Keys that are currently
+ * observed are refetched right away, or once their in-flight request settles so the
+ * result reflects the change; the rest refetch on their next use.
+ */
+export function invalidateQueries(prefix: string): void {
+  for (const [key, entry] of cache) {
+    if (!matchesKey(key, prefix)) continue;
+
+    entry.state = { ...entry.state, updatedAt: 0 };
+    if (entry.promise) {
+      entry.refetchPending = true;
+    } else if (entry.listeners.size > 0 && entry.fetcher) {
+      runFetch(entry, entry.fetcher).catch(() => { /* surfaced through state.error */ });
+    }
+  }
+}
+
+/** Drops keys (and their nested keys) from the cache, e.g. after a delete. */
+export function removeQueries(prefix: string): void {
+  for (const [key, entry] of cache) {
+    if (!matchesKey(key, prefix)) continue;
+    entry.controller?.abort();
+    entry.promise = undefined;
+    entry.refetchPending = false;
+    setState(entry, { ...EMPTY_STATE });
+  }
+}
+
+/**
+ * Clears all data and refetches observed keys. Used when switching backends, where
+ * nothing cached from the previous instance is valid.
+ */
+export function resetQueryCache(): void {
+  for (const entry of cache.values()) {
+    entry.controller?.abort();
+    entry.promise = undefined;
+    entry.refetchPending = false;
+    setState(entry, { ...EMPTY_STATE });
+    if (entry.listeners.size > 0 && entry.fetcher) {
+      runFetch(entry, entry.fetcher).catch(() => { /* surfaced through state.error */ });
+    }
+  }
+}
+
+let cachedBackendUrl = getActiveProfile().baseUrl;
+subscribeBackendProfiles(() => {
+  const baseUrl = getActiveProfile().baseUrl;
+  if (baseUrl === cachedBackendUrl) return;
+  cachedBackendUrl = baseUrl;
+  resetQueryCache();
+});
@@ -0,0 +1,137 @@
+// ════════════════════════════════════════════════════════════════════════════
+// Retry history
+// Links retry attempts to the test runs they produced, compares attempts and
+// tells whether the auto-fix loop is converging or going in circles.
+// ════════════════════════════════════════════════════════════════════════════
+
+import type { OutputFileDiffDto, RetryAttemptDto, TestSummaryDto } from '../types';
+import { getTestKey } from './testResults';
+
+export type ConvergenceKind = 'converging' | 'stalled' | 'diverging' | 'unknown';
+
+export interface ConvergencePoint {
+  label: string;
+  /** Failing tests at this point; null when the attempt has not been tested yet. */
+  failed: number | null;
+}
+
+export interface Convergence {
+  points: ConvergencePoint[];
+  kind: ConvergenceKind;
+}
+
+export interface FailureComparison {
+  fixed: string[];
+  stillFailing: string[];
+  newlyFailing: string[];
+}
+
+/** Test run produced by an attempt's fix (the UnitTesting run tagged with its number). */
+export function getAttemptResult(attempt: RetryAttemptDto, testRuns: TestSummaryDto[]): TestSummaryDto | undefined {
+  return testRuns.find(run => run.retryAttempt === attempt.attempt);
+}
+
+function getFailingKeys(run: TestSummaryDto | undefined): Set<string> {
+  return new Set(run?.failedTests.map(getTestKey) ?? []);
+}
+
+/** Failing tests of run `b` compared with run `a`. */
+export function compareFailures(a: TestSummaryDto | undefined, b: TestSummaryDto | undefined): FailureComparison {
+  const before = getFailingKeys(a);
+  const after = getFailingKeys(b);
+  return {
+    fixed: [...before].filter(k => !after.has(k)).sort(),
+    stillFailing: [...after].filter(k => before.has(k)).sort(),
+    newlyFailing: [...after].filter(k => !before.has(k)).sort()
+  };
+}
+
+/**
+ * Failing test counts from the run that triggered the first retry through each attempt's
+ * result. Stalled means the last attempt left exactly the same tests failing.
+ */
+export function getConvergence(history: RetryAttemptDto[], testRuns: TestSummaryDto[]): Convergence {
+  if (history.length === 0) return { points: [], kind: 'unknown' };
+
+  const initial = history[0].testSummary;
+  const points: ConvergencePoint[] = [{ label: 'Initial', failed: initial?.failed ?? null }];
+  const runs: (TestSummaryDto | undefined)[] = [initial];
+  for (const attempt of history) {
+    const result = getAttemptResult(attempt, testRuns);
+    points.push({ label: `#${attempt.attempt}`, failed: result?.failed ?? null });
+    runs.push(result);
+  }
+
+  // Compare the two latest points that have results
+  const tested = runs.map((run, i) => ({ run, failed: points[i].failed })).filter(p => p.run && p.failed !== null);
+  if (tested.length < 2) return { points, kind: 'unknown' };
+  const [prev, last] = tested.slice(-2);
+
+  let kind: ConvergenceKind;
+  if (last.failed! < prev.failed!) {
+    kind = 'converging';
+  } else if (last.failed! > prev.failed!) {
+    kind = 'diverging';
+  } else {
+    const { fixed, newlyFailing } = compareFailures(prev.run, last.run);
+    kind = fixed.length === 0 && newlyFailing.length === 0 ? 'stalled' : 'converging';
+  }
+  return { points, kind };
+}
+
+/** Content of a file after an attempt: its latest fix so far, else the code before the first fix. */
+export function getFileAfterAttempt(history: RetryAttemptDto[], path: string, attempt: number): string | null {
+  let content: string | null = null;
+  let seen = false;
+  for (const record of history) {
+    const change = record.changes.find(c => c.path === path);
+    if (!change) continue;
+    if (record.attempt > attempt) {
+      return seen ? content : change.before ?? null;
+    }
+    content = change.after;
+    seen = true;
+  }
+  return content;
+}
+
+/** Earlier attempts whose output this attempt reproduces exactly for some file (a loop). */
+export function findRepeatedAttempts(history: RetryAttemptDto[], attempt: RetryAttemptDto): number[] {
+  const repeated = new Set<number>();
+  for (const change of attempt.changes) {
+    for (const earlier of history) {
+      if (earlier.attempt >= attempt.attempt) break;
+      const match = earlier.changes.find(c => c.path === change.path);
+      if (match && (match.after === change.after || match.before === change.after)) {
+        repeated.add(earlier.attempt);
+      }
+    }
+  }
+  return [...repeated].sort((a, b) => a - b);
+}
+
+/** The attempt's own changes as diffs against the code it started from. */
+export function getAttemptDiffs(attempt: RetryAttemptDto): OutputFileDiffDto[] {
+  return attempt.changes.map(c => ({
+    path: c.path,
+    original: c.before ?? null,
+    modified: c.after,
+    isNewFile: c.before == null
+  }));
+}
+
+/** Files touched by either attempt, as the code after `a` against the code after `b`. */
+export function getAttemptComparisonDiffs(history: RetryAttemptDto[], a: number, b: number): OutputFileDiffDto[] {
+  const paths = new Set(history
+    .filter(r => r.attempt === a || r.attempt === b)
+    .flatMap(r => r.changes.map(c => c.path)));
+
+  const diffs: OutputFileDiffDto[] = [];
+  for (const path of [...paths].sort()) {
+    const left = getFileAfterAttempt(history, path, a);
+    const right = getFileAfterAttempt(history, path, b) ?? '';
+    if (left === right) continue;
+    diffs.push({ path, original: left, modified: right, isNewFile: left === null });
+  }
+  return diffs;
+}
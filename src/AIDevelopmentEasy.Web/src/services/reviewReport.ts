@@ -0,0 +1,168 @@
+// ════════════════════════════════════════════════════════════════════════════
+// Review report
+// Splits the ReviewerAgent's output into its JSON verdict(s) and the surrounding
+// markdown. A retry review writes one "## <file>" section per generated file,
+// each with its own JSON block; their findings are merged.
+// ════════════════════════════════════════════════════════════════════════════
+
+import { REVIEW_SEVERITIES, type ReviewFindingDto, type ReviewSeverity } from '../types';
+
+export interface ReviewFinding extends ReviewFindingDto {
+  /** Stable within one parsed report, for selection */
+  id: string;
+}
+
+export interface ReviewReport {
+  /** False when any reviewed section was not approved; null when no verdict was found */
+  approved: boolean | null;
+  summaries: string[];
+  verdicts: string[];
+  requirementsMet: string[];
+  improvements: string[];
+  findings: ReviewFinding[];
+  /** Report text with the JSON blocks taken out */
+  markdown: string;
+}
+
+interface RawIssue {
+  severity?: unknown;
+  category?: unknown;
+  file?: unknown;
+  line?: unknown;
+  description?: unknown;
+  suggestion?: unknown;
+}
+
+interface RawReview {
+  approved?: unknown;
+  summary?: unknown;
+  requirements_met?: unknown;
+  issues?: unknown;
+  improvements?: unknown;
+  final_verdict?: unknown;
+}
+
+const FENCED_BLOCK = /```(?:json)?[^\S\n]*\n([\s\S]*?)```/g;
+const SECTION_HEADING = /^#{1,3}\s+(.+)$/gm;
+
+function asText(value: unknown): string {
+  return typeof value === 'string' ? value.trim() : '';
+}
+
+function asTextList(value: unknown): string[] {
+  return Array.isArray(value) ? value.map(asText).filter(Boolean) : [];
+}
+
+function asSeverity(value: unknown): ReviewSeverity {
+  const severity = asText(value).toLowerCase();
+  return REVIEW_SEVERITIES.find(s => s === severity) ?? 'minor';
+}
+
+function tryParseReview(json: string): RawReview | null {
+  try {
+    const value: unknown = JSON.parse(json);
+    if (value && typeof value === 'object' && ('issues' in value || 'approved' in value)) {
+      return value as RawReview;
+    }
+  } catch {
+    // Not JSON, or not the reviewer's verdict
+  }
+  return null;
+}
+
+// "Foo.cs:42" names the line in the file reference when the issue has none of its own
+function toFinding(issue: RawIssue, sectionFile: string | undefined, id: string): ReviewFinding {
+  let file = asText(issue.file) || sectionFile || '';
+  let line = typeof issue.line === 'number' ? issue.line : parseInt(asText(issue.line), 10);
+  const location = /^(.*?):(\d+)$/.exec(file);
+  if (location) {
+    file = location[1];
+    if (!Number.isFinite(line)) line = parseInt(location[2], 10);
+  }
+
+  const category = asText(issue.category).toLowerCase().replace(/[_-]+/g, ' ');
+  return {
+    id,
+    severity: asSeverity(issue.severity),
+    category: category || null,
+    file,
+    line: Number.isFinite(line) && line > 0 ? line : null,
+    description: asText(issue.description),
+    suggestion: asText(issue.suggestion) || null
+  };
+}
+
+export function parseReviewReport(text: string): ReviewReport {
+  const report: ReviewReport = {
+    approved: null,
+    summaries: [],
+    verdicts: [],
+    requirementsMet: [],
+    improvements: [],
+    findings: [],
+    markdown: text
+  };
+
+  const blocks: { start: number; end: number; review: RawReview }[] = [];
+  for (const match of text.matchAll(FENCED_BLOCK)) {
+    const review = tryParseReview(match[1]);
+    if (review) blocks.push({ start: match.index, end: match.index + match[0].length, review });
+  }
+
+  // The model sometimes answers with bare JSON
+  if (blocks.length === 0) {
+    const start = text.indexOf('{');
+    const end = text.lastIndexOf('}');
+    const review = start >= 0 && end > start ? tryParseReview(text.slice(start, end + 1)) : null;
+    if (review) blocks.push({ start, end: end + 1, review });
+  }
+
+  const headings = [...text.matchAll(SECTION_HEADING)].map(m => ({ index: m.index, title: m[1].trim() }));
+
+  blocks.forEach(({ start, review }, blockIndex) => {
+    const sectionFile = blocks.length > 1
+      ? headings.filter(h => h.index < start).pop()?.title
+      : undefined;
+
+    if (typeof review.approved === 'boolean') {
+      report.approved = (report.approved ?? true) && review.approved;
+    }
+    const summary = asText(review.summary);
+    if (summary) report.summaries.push(sectionFile ? `${sectionFile}: ${summary}` : summary);
+    const verdict = asText(review.final_verdict);
+    if (verdict && !report.verdicts.includes(verdict)) report.verdicts.push(verdict);
+    report.requirementsMet.push(...asTextList(review.requirements_met).filter(r => !report.requirementsMet.includes(r)));
+    report.improvements.push(...asTextList(review.improvements));
+
+    const issues = Array.isArray(review.issues) ? review.issues as RawIssue[] : [];
+    issues.forEach((issue, issueIndex) => {
+      if (issue && typeof issue === 'object') {
+        report.findings.push(toFinding(issue, sectionFile, `${blockIndex}-${issueIndex}`));
+      }
+    });
+  });
+
+  report.findings.sort((a, b) => REVIEW_SEVERITIES.indexOf(a.severity) - REVIEW_SEVERITIES.indexOf(b.severity));
+
+  // Cut the blocks out back to front so earlier offsets stay valid
+  report.markdown = blocks
+    .reduceRight((rest, { start, end }) => rest.slice(0, start) + rest.slice(end), text)
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+
+  return report;
+}
+
+/** Path of the generated file a report refers to: by full path, by trailing path, then by file name. */
+export function findOutputFile(paths: string[], reference: string): string | undefined {
+  const path = reference.replace(/\\/g, '/').trim().replace(/^\/+/, '').toLowerCase();
+  if (!path) return undefined;
+
+  const normalized = paths.map(p => ({ original: p, path: p.replace(/\\/g, '/').toLowerCase() }));
+  const fileName = path.split('/').pop();
+  return (
+    normalized.find(p => p.path === path)
+    ?? normalized.find(p => p.path.endsWith(`/${path}`))
+    ?? normalized.find(p => p.path.split('/').pop() === fileName)
+  )?.original;
+}
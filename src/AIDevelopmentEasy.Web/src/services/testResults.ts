@@ -0,0 +1,120 @@
+// ════════════════════════════════════════════════════════════════════════════
+// Test results
+// Outcome helpers, .NET stack trace parsing, per-class grouping and per-test
+// trends across the UnitTesting runs of a pipeline (retry attempts).
+// ════════════════════════════════════════════════════════════════════════════
+
+import type { TestResultDto, TestSummaryDto } from '../types';
+
+export type TestOutcome = 'passed' | 'failed' | 'skipped';
+
+/** How a test behaved across runs: fixed/regressed flipped once, flaky flipped more than once. */
+export type TestTrendKind = 'passing' | 'failing' | 'fixed' | 'regressed' | 'flaky';
+
+export interface StackFrame {
+  method: string;
+  /** Source file, when the trace carries line info. */
+  file?: string;
+  line?: number;
+}
+
+export interface TestClassGroup {
+  className: string;
+  tests: TestResultDto[];
+  passed: number;
+  failed: number;
+  skipped: number;
+}
+
+export interface TestTrend {
+  /** Outcome per run, oldest first; null when the run did not report the test. */
+  history: (TestOutcome | null)[];
+  kind: TestTrendKind;
+}
+
+export function getTestOutcome(test: TestResultDto): TestOutcome {
+  if (test.skipped) return 'skipped';
+  return test.passed ? 'passed' : 'failed';
+}
+
+export function getTestKey(test: TestResultDto): string {
+  return `${test.className}.${test.testName}`;
+}
+
+/** Tests reported by a run; runs recorded before full results were kept only list failures. */
+export function getRunTests(run: TestSummaryDto): TestResultDto[] {
+  return run.tests && run.tests.length > 0 ? run.tests : run.failedTests;
+}
+
+export function hasFullResults(run: TestSummaryDto): boolean {
+  return !!run.tests && run.tests.length > 0;
+}
+
+// "   at Namespace.Class.Method(Args) in C:\path\File.cs:line 42"
+const FRAME_PATTERN = /^\s*at (.+?)(?: in (.+):line (\d+))?\s*$/;
+
+/** Parses the frames of a .NET stack trace; lines that are not frames are dropped. */
+export function parseStackTrace(stackTrace: string | undefined): StackFrame[] {
+  if (!stackTrace) return [];
+  const frames: StackFrame[] = [];
+  for (const line of stackTrace.split(/\r?\n/)) {
+    const match = FRAME_PATTERN.exec(line);
+    if (!match) continue;
+    frames.push(match[2]
+      ? { method: match[1], file: match[2], line: Number(match[3]) }
+      : { method: match[1] });
+  }
+  return frames;
+}
+
+/** Groups tests by class; classes with failures come first, then by name. */
+export function groupTestsByClass(tests: TestResultDto[]): TestClassGroup[] {
+  const groups = new Map<string, TestClassGroup>();
+  for (const test of tests) {
+    let group = groups.get(test.className);
+    if (!group) {
+      group = { className: test.className, tests: [], passed: 0, failed: 0, skipped: 0 };
+      groups.set(test.className, group);
+    }
+    group.tests.push(test);
+    group[getTestOutcome(test)]++;
+  }
+
+  const order: Record<TestOutcome, number> = { failed: 0, skipped: 1, passed: 2 };
+  const list = [...groups.values()];
+  for (const group of list) {
+    group.tests.sort((a, b) =>
+      order[getTestOutcome(a)] - order[getTestOutcome(b)] || a.testName.localeCompare(b.testName));
+  }
+  return list.sort((a, b) =>
+    Number(b.failed > 0) - Number(a.failed > 0) || a.className.localeCompare(b.className));
+}
+
+function classifyTrend(history: (TestOutcome | null)[]): TestTrendKind {
+  // Skipped and unreported runs say nothing about pass/fail
+  const known = history.filter((o): o is 'passed' | 'failed' => o === 'passed' || o === 'failed');
+  let flips = 0;
+  for (let i = 1; i < known.length; i++) {
+    if (known[i] !== known[i - 1]) flips++;
+  }
+  const last = known[known.length - 1];
+  if (flips >= 2) return 'flaky';
+  if (flips === 1) return last === 'passed' ? 'fixed' : 'regressed';
+  return last === 'failed' ? 'failing' : 'passing';
+}
+
+/**
+ * Outcome history of every test across runs, keyed by getTestKey.
+ * Runs that only kept failures report failed tests; other tests are unknown there.
+ */
+export function buildTestTrends(runs: TestSummaryDto[]): Map<string, TestTrend> {
+  const perRun = runs.map(run => new Map(getRunTests(run).map(t => [getTestKey(t), getTestOutcome(t)])));
+  const keys = new Set(perRun.flatMap(outcomes => [...outcomes.keys()]));
+
+  const trends = new Map<string, TestTrend>();
+  for (const key of keys) {
+    const history = perRun.map(outcomes => outcomes.get(key) ?? null);
+    trends.set(key, { history, kind: classifyTrend(history) });
+  }
+  return trends;
+}
@@ -0,0 +1,177 @@
+// ════════════════════════════════════════════════════════════════════════════
+// Run timeline
+// Turns phase runs and their LLM calls into time ranges for the Gantt view,
+// splitting compute time from time spent waiting for approval.
+// ════════════════════════════════════════════════════════════════════════════
+
+import type { LLMCallResultDto, PhaseRunDto, PhaseState, PipelinePhase, PipelineStatusDto } from '../types';
+
+export interface TimelineCall {
+  start: number;
+  end: number;
+  call: LLMCallResultDto;
+}
+
+export interface TimelineRun {
+  retryAttempt: number;
+  state: PhaseState;
+  start: number;
+  /** Start of the approval wait; null when the run never waited. */
+  waitStart: number | null;
+  end: number;
+  /** The run is still open (end is "now"). */
+  ongoing: boolean;
+  /** Approval policy that passed the run's gate, if any. */
+  autoApprovedBy: string | null;
+  calls: TimelineCall[];
+}
+
+export interface TimelineRow {
+  phase: PipelinePhase;
+  runs: TimelineRun[];
+  computeMs: number;
+  waitingMs: number;
+}
+
+export interface RetryBand {
+  attempt: number;
+  start: number;
+  end: number;
+}
+
+export interface Timeline {
+  start: number;
+  end: number;
+  rows: TimelineRow[];
+  retryBands: RetryBand[];
+  computeMs: number;
+  waitingMs: number;
+  llmMs: number;
+  llmCallCount: number;
+}
+
+/** Parses a .NET TimeSpan string ("[d.]hh:mm:ss[.fffffff]") to milliseconds. */
+export function parseTimeSpan(value: string | undefined): number {
+  const match = value?.match(/^(-)?(?:(\d+)\.)?(\d+):(\d+):(\d+(?:\.\d+)?)$/);
+  if (!match) return 0;
+  const [, negative, days, hours, minutes, seconds] = match;
+  const ms = ((Number(days ?? 0) * 24 + Number(hours)) * 60 + Number(minutes)) * 60_000 + Number(seconds) * 1000;
+  return negative ? -ms : ms;
+}
+
+/** Compact human duration: "850ms", "42s", "3m 05s", "1h 12m". */
+export function formatDuration(ms: number): string {
+  if (ms < 1000) return `${Math.round(ms)}ms`;
+  const totalSeconds = Math.round(ms / 1000);
+  if (totalSeconds < 60) return `${totalSeconds}s`;
+  const minutes = Math.floor(totalSeconds / 60);
+  if (minutes < 60) return `${minutes}m ${String(totalSeconds % 60).padStart(2, '0')}s`;
+  return `${Math.floor(minutes / 60)}h ${String(minutes % 60).padStart(2, '0')}m`;
+}
+
+const toTime = (value: string | undefined) => (value ? Date.parse(value) : NaN);
+
+// LLM call timestamps mark completion; the call started `duration` earlier
+function toCalls(calls: LLMCallResultDto[] | undefined, runStart: number, runEnd: number): TimelineCall[] {
+  return (calls ?? [])
+    .map(call => {
+      const end = toTime(call.timestamp);
+      if (Number.isNaN(end)) return null;
+      const start = Math.max(runStart, end - parseTimeSpan(call.duration));
+      return { start, end: Math.min(end, runEnd), call };
+    })
+    .filter((c): c is TimelineCall => c !== null && c.end >= c.start)
+    .sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Builds the timeline for a run. Histories saved before phase runs were
+ * recorded fall back to one run per phase from its start/completion times.
+ * `now` closes runs that are still in progress.
+ */
+export function buildTimeline(status: PipelineStatusDto, now: number): Timeline | null {
+  const rows: TimelineRow[] = [];
+
+  for (const phase of status.phases) {
+    const runs: TimelineRun[] = [];
+    const sources: PhaseRunDto[] = phase.runs && phase.runs.length > 0
+      ? phase.runs
+      : phase.startedAt
+        ? [{
+          retryAttempt: 0,
+          state: phase.state,
+          startedAt: phase.startedAt,
+          completedAt: phase.completedAt,
+          llmCalls: phase.llmCallsSummary ?? []
+        }]
+        : [];
+
+    for (const run of sources) {
+      const start = toTime(run.startedAt);
+      if (Number.isNaN(start)) continue;
+      const completed = toTime(run.completedAt);
+      const ongoing = Number.isNaN(completed);
+      const end = Math.max(start, ongoing ? now : completed);
+      const waiting = toTime(run.waitingSince);
+      const waitStart = Number.isNaN(waiting) ? null : Math.min(Math.max(waiting, start), end);
+      runs.push({
+        retryAttempt: run.retryAttempt,
+        state: run.state,
+        start,
+        waitStart,
+        end,
+        ongoing,
+        autoApprovedBy: run.autoApprovedBy ?? null,
+        calls: toCalls(run.llmCalls, start, waitStart ?? end)
+      });
+    }
+
+    if (runs.length === 0) continue;
+    rows.push({
+      phase: phase.phase,
+      runs,
+      computeMs: runs.reduce((sum, r) => sum + ((r.waitStart ?? r.end) - r.start), 0),
+      waitingMs: runs.reduce((sum, r) => sum + (r.waitStart === null ? 0 : r.end - r.waitStart), 0)
+    });
+  }
+
+  if (rows.length === 0) return null;
+
+  const allRuns = rows.flatMap(r => r.runs);
+  const allCalls = allRuns.flatMap(r => r.calls);
+
+  const bands = new Map<number, RetryBand>();
+  for (const run of allRuns) {
+    if (run.retryAttempt === 0) continue;
+    const band = bands.get(run.retryAttempt);
+    if (band) {
+      band.start = Math.min(band.start, run.start);
+      band.end = Math.max(band.end, run.end);
+    } else {
+      bands.set(run.retryAttempt, { attempt: run.retryAttempt, start: run.start, end: run.end });
+    }
+  }
+
+  return {
+    start: Math.min(...allRuns.map(r => r.start)),
+    end: Math.max(...allRuns.map(r => r.end)),
+    rows,
+    retryBands: [...bands.values()].sort((a, b) => a.attempt - b.attempt),
+    computeMs: rows.reduce((sum, r) => sum + r.computeMs, 0),
+    waitingMs: rows.reduce((sum, r) => sum + r.waitingMs, 0),
+    llmMs: allCalls.reduce((sum, c) => sum + (c.end - c.start), 0),
+    llmCallCount: allCalls.length
+  };
+}
+
+/** Evenly spaced axis ticks (offsets from the start) on a round step. */
+export function getAxisTicks(spanMs: number, maxTicks = 6): number[] {
+  if (spanMs <= 0) return [0];
+  const steps = [1, 2, 5, 10, 15, 30].map(s => s * 1000)
+    .concat([1, 2, 5, 10, 15, 30].map(m => m * 60_000))
+    .concat([1, 2, 3, 6, 12].map(h => h * 3_600_000));
+  const step = steps.find(s => spanMs / s <= maxTicks) ?? steps[steps.length - 1];
+  const ticks: number[] = [];
+  for (let t = 0; t <= spanMs; t += step) ticks.push(t);
+  return ticks;
+}
@@ -75,6 +75,10 @@ export interface StoryDto {
   codebaseId?: string;
   /** The requirement this story was created from (if any) */
   requirementId?: string;
+  /** Approval policy for this story's runs; overrides the codebase's policy */
+  approvalPolicyId?: string | null;
+  /** LLM spend allowed per pipeline run (retries included); unlimited when absent */
+  budget?: CostBudgetDto | null;
   createdAt: string;
   lastProcessedAt?: string;
   tasks: TaskDto[];
@@ -110,6 +114,8 @@ export interface UpdateStoryTargetRequest {
 
 /** Single LLM call result (tokens, cost, duration) */
 export interface LLMCallResultDto {
+  /** Id of the stored transcript; absent for calls recorded before transcripts were kept */
+  callId?: string;
   agentName: string;
   phase?: string;
   promptTokens: number;
@@ -122,6 +128,33 @@ export interface LLMCallResultDto {
   timestamp?: string;
 }
 
+/** Full transcript of one LLM call */
+export interface LLMCallDetailDto {
+  callId: string;
+  storyId: string;
+  agentName: string;
+  phase: PipelinePhase;
+  /** Prompt files the prompts were built from, e.g. "coder/coder-csharp" */
+  promptFiles: string[];
+  /** Prompt sections in the order sent, followed by the completion */
+  sections: LLMCallSectionDto[];
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  actualCostUSD: number;
+  duration: string; // TimeSpan as string from API
+  timestamp: string;
+}
+
+export type LLMCallSectionRole = 'system' | 'user' | 'assistant' | 'completion';
+
+export interface LLMCallSectionDto {
+  role: LLMCallSectionRole;
+  content: string;
+  /** Estimated for prompt sections, as reported by the model for the completion */
+  tokens: number;
+}
+
 export interface PhaseStatusDto {
   phase: PipelinePhase;
   state: PhaseState;
@@ -131,6 +164,22 @@ export interface PhaseStatusDto {
   result?: unknown;
   /** LLM calls made during this phase (since last approval) */
   llmCallsSummary?: LLMCallResultDto[];
+  /** Every execution of the phase, oldest first (retries and revisions add runs) */
+  runs?: PhaseRunDto[];
+  /** Result is left over from before a rerun; cleared when the phase runs again */
+  isStale?: boolean;
+}
+
+/** One execution of a phase, for the run timeline */
+export interface PhaseRunDto {
+  retryAttempt: number;
+  state: PhaseState;
+  startedAt: string;
+  waitingSince?: string;  // agent finished, waiting for a user decision
+  completedAt?: string;
+  llmCalls: LLMCallResultDto[];
+  /** Name of the approval policy that approved the run without waiting for the user */
+  autoApprovedBy?: string | null;
 }
 
 export interface PipelineStatusDto {
@@ -142,6 +191,229 @@ export interface PipelineStatusDto {
   completedAt?: string;
   retryInfo?: RetryInfoDto;
   retryTargetPhase?: PipelinePhase;
+  rejections?: PhaseRejectionDto[];
+  /** Every UnitTesting run in this pipeline run, oldest first */
+  testRuns?: TestSummaryDto[];
+  /** Manual fix workspace while UnitTesting waits for the user to fix failed tests by hand */
+  manualFix?: ManualFixDto | null;
+  /** Set while the run is paused because a cost budget was exceeded */
+  budgetPause?: BudgetPauseDto | null;
+  /** Every retry attempt in this pipeline run, oldest first; retryInfo only describes the pending one */
+  retryHistory?: RetryAttemptDto[];
+  /** Phase this run was restarted from; earlier phases kept their results */
+  rerunFrom?: PipelinePhase | null;
+  /** Policy the run was started with (as it was then); null when every phase waits for approval */
+  approvalPolicy?: ApprovalPolicyDto | null;
+}
+
+/** Named set of approval gates that continue without waiting for the user */
+export interface ApprovalPolicyDto {
+  id: string;
+  name: string;
+  description?: string | null;
+  /** UnitTesting also auto-fixes failed tests; PullRequest completes without a PR */
+  autoApprovePhases: PipelinePhase[];
+  autoApproveWizardPhases: WizardPhase[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface SaveApprovalPolicyRequest {
+  name: string;
+  description?: string | null;
+  autoApprovePhases: PipelinePhase[];
+  autoApproveWizardPhases: WizardPhase[];
+}
+
+/** How a run or wizard decides its approval gates; an omitted policy falls back to the story's or codebase's */
+export interface StartRunRequest {
+  autoApproveAll?: boolean;
+  approvalPolicyId?: string | null;
+}
+
+// ════════════════════════════════════════════════════════════════════════════
+// Pipeline Queue Types
+// ════════════════════════════════════════════════════════════════════════════
+
+export enum QueueItemState {
+  Queued = 0,
+  Running = 1,
+  Completed = 2,
+  Failed = 3,     // Did not complete (failed, rejected or cancelled outside the queue)
+  Cancelled = 4,  // Removed from the queue, or cancelled from the queue panel
+  Blocked = 5     // A story it depends on did not complete
+}
+
+/** Highest maxConcurrency the queue accepts */
+export const MAX_QUEUE_CONCURRENCY = 5;
+
+/** Batch queue of stories started in order, a few at a time */
+export interface PipelineQueueDto {
+  /** Pipelines allowed to run at once; pipelines started outside the queue count too */
+  maxConcurrency: number;
+  /** Stop starting queued stories after a run fails, or carry on with the next one */
+  pauseOnFailure: boolean;
+  /** Why the queue stopped starting stories; null while it is active */
+  pausedReason?: string | null;
+  /** Queued items in start order, then running and finished ones */
+  items: PipelineQueueItemDto[];
+}
+
+export interface PipelineQueueItemDto {
+  id: string;
+  storyId: string;
+  storyName: string;
+  state: QueueItemState;
+  approvalPolicyId?: string | null;
+  message?: string | null;
+  /** Story ids of queue items that must complete before this one starts */
+  dependsOn: string[];
+  enqueuedAt: string;
+  startedAt?: string | null;
+  finishedAt?: string | null;
+}
+
+export interface EnqueueStoriesRequest {
+  storyIds: string[];
+  approvalPolicyId?: string | null;
+  maxConcurrency?: number;
+  pauseOnFailure?: boolean;
+  /** Story id -> story ids in the same batch it waits for */
+  dependsOn?: Record<string, string[]>;
+}
+
+export interface PipelineQueueSettings {
+  maxConcurrency: number;
+  pauseOnFailure: boolean;
+}
+
+/** Generated file paired with the codebase content it replaces */
+export interface OutputFileDiffDto {
+  path: string;
+  original?: string | null;  // null/absent for new files
+  modified: string;
+  isNewFile: boolean;
+}
+
+// ════════════════════════════════════════════════════════════════════════════
+// Phase Approval Types
+// ════════════════════════════════════════════════════════════════════════════
+
+export enum FileReviewDecision {
+  Accept = 0,   // carried forward as is
+  Reject = 1,   // sent back to CoderAgent with the note
+  Exclude = 2   // dropped - not debugged, reviewed or deployed
+}
+
+export interface CodingFileDecisionDto {
+  path: string;   // file key from the Coding result, e.g. "MyProject/Services/UserService.cs"
+  decision: FileReviewDecision;
+  note?: string;  // required when rejecting
+}
+
+export interface ApprovePhaseRequest {
+  tasks?: TaskDto[];                // edited plan (Planning only)
+  files?: CodingFileDecisionDto[];  // per-file review (Coding only)
+  pullRequest?: PullRequestOptionsDto;  // composed pull request (PullRequest only)
+}
+
+export enum PullRequestTarget {
+  GitHub = 0,       // branch, commit, push and open a PR with the gh CLI
+  LocalBranch = 1,  // branch and commit in the local repository only
+  PatchFile = 2     // .patch file next to the story output, repository untouched
+}
+
+/** PullRequest phase result while it waits: prefilled from the story, tasks, tests and review */
+export interface PullRequestDraftDto {
+  target: PullRequestTarget;
+  branchName: string;
+  baseBranch?: string | null;  // branch the codebase repository is on
+  title: string;
+  body: string;                // markdown
+  labels: string[];
+  reviewers: string[];
+  files: string[];             // relative to the codebase root
+  newFiles: number;
+  modifiedFiles: number;
+  retryAttempts: number;
+  error?: string | null;       // why the last attempt failed
+}
+
+export interface PullRequestOptionsDto {
+  target: PullRequestTarget;
+  branchName: string;
+  baseBranch?: string | null;
+  title: string;
+  body: string;
+  labels: string[];
+  reviewers: string[];
+}
+
+/** PullRequest phase result once completed */
+export interface PullRequestResultDto {
+  target: PullRequestTarget;
+  branchName: string;
+  commitSha?: string | null;
+  url?: string | null;
+  hasPatch: boolean;
+  message: string;
+}
+
+// ════════════════════════════════════════════════════════════════════════════
+// Cost Budget Types
+// ════════════════════════════════════════════════════════════════════════════
+
+/**
+ * A null limit is not enforced; a budget without limits is removed. Enforced at phase
+ * boundaries, so the phase in progress can take spend above a limit.
+ */
+export interface CostBudgetDto {
+  maxTokens?: number | null;   // prompt and completion tokens
+  maxCostUSD?: number | null;
+}
+
+export enum BudgetScope {
+  Story = 0,        // one pipeline run of the story, retries included
+  Requirement = 1   // every run of every story created from the requirement
+}
+
+/** The run waits before a phase until the overrun is approved */
+export interface BudgetPauseDto {
+  scope: BudgetScope;
+  scopeId: string;          // story or requirement id
+  phase: PipelinePhase;     // waits to start
+  budget: CostBudgetDto;
+  spentTokens: number;
+  spentCostUSD: number;
+  pausedAt: string;
+}
+
+// ════════════════════════════════════════════════════════════════════════════
+// Phase Rejection Types
+// ════════════════════════════════════════════════════════════════════════════
+
+export enum RejectionCategory {
+  WrongApproach = 0,
+  MissingFiles = 1,
+  Style = 2,
+  IncorrectTarget = 3,
+  Other = 4
+}
+
+export interface RejectPhaseRequest {
+  category: RejectionCategory;
+  reason?: string;
+  taskReferences?: number[];
+  fileReferences?: string[];
+}
+
+export interface PhaseRejectionDto {
+  phase: PipelinePhase;
+  category: RejectionCategory;
+  reason?: string;
+  taskReferences: number[];
+  fileReferences: string[];
+  rejectedAt: string;
 }
 
 // ════════════════════════════════════════════════════════════════════════════
@@ -151,13 +423,15 @@ export interface PipelineStatusDto {
 export enum FixTaskType {
   BuildError = 0,
   TestFailure = 1,
-  IntegrationError = 2
+  IntegrationError = 2,
+  ReviewFinding = 3
 }
 
 export enum RetryReason {
   BuildFailed = 0,
   TestsFailed = 1,
-  IntegrationFailed = 2
+  IntegrationFailed = 2,
+  ReviewFindings = 3
 }
 
 export enum RetryAction {
@@ -184,6 +458,7 @@ export interface TestResultDto {
   className: string;
   filePath?: string;
   passed: boolean;
+  skipped?: boolean;
   errorMessage?: string;
   stackTrace?: string;
   duration: string;
@@ -201,6 +476,11 @@ export interface TestSummaryDto {
   totalDuration: string;
   isBreakingChange: boolean;
   failedTests: TestResultDto[];
+  /** Every executed test; empty when only console output was available */
+  tests?: TestResultDto[];
+  /** Retry attempt the tests ran in (0 = first run) */
+  retryAttempt?: number;
+  runAt?: string;
 }
 
 export interface RetryInfoDto {
@@ -213,15 +493,192 @@ export interface RetryInfoDto {
   lastAttemptAt?: string;
 }
 
-export interface PipelineUpdateMessage {
-  storyId: string;
-  updateType: string;
-  phase: PipelinePhase;
-  message: string;
-  data?: unknown;
+export interface RetryAttemptDto {
+  /** 1-based, matches TaskDto.retryAttempt of the attempt's fix tasks */
+  attempt: number;
+  reason: RetryReason;
+  error?: string;
+  /** Test results that triggered the attempt */
+  testSummary?: TestSummaryDto;
+  fixTasks: FixTaskDto[];
+  /** Action picked for the attempt; absent while waiting for a decision */
+  action?: RetryAction | null;
+  requestedAt: string;
+  startedAt?: string;
+  /** Files changed by the attempt's fix tasks */
+  changes: RetryFileChangeDto[];
+}
+
+export type ReviewSeverity = 'critical' | 'major' | 'minor';
+
+/** Most severe first */
+export const REVIEW_SEVERITIES: ReviewSeverity[] = ['critical', 'major', 'minor'];
+
+/** Issue from the review report; sent back to Coding as a fix task */
+export interface ReviewFindingDto {
+  severity: ReviewSeverity;
+  category?: string | null;
+  /** Generated file the finding refers to, as named in the report */
+  file: string;
+  line?: number | null;
+  description: string;
+  suggestion?: string | null;
+}
+
+export interface CreateReviewFixTasksRequest {
+  findings: ReviewFindingDto[];
+}
+
+export interface ManualFixDto {
+  fixTasks: FixTaskDto[];
+  files: ManualFixFileDto[];
+  startedAt: string;
+}
+
+export interface ManualFixFileDto {
+  /** Path relative to the codebase root */
+  path: string;
+  /** 1-based failing line from the error location or stack trace */
+  line?: number | null;
+  /** Indexes of the fix tasks that point at this file */
+  fixTaskIndexes: number[];
+  saved: boolean;
+}
+
+export interface RetryFileChangeDto {
+  path: string;
+  before?: string | null;  // null for files the fix created
+  after: string;
+}
+
+// ════════════════════════════════════════════════════════════════════════════
+// Pipeline Hub Update Types
+// ════════════════════════════════════════════════════════════════════════════
+
+/** Estimate sent before an LLM call (LLMCallStarting) */
+export interface LLMCallInfoDto {
+  agentName: string;
+  phase?: string;
+  estimatedInputTokens: number;
+  estimatedInputKB: number;
+  maxCompletionTokens: number;
+  estimatedCostUSD: number;
   timestamp: string;
 }
 
+export interface ProgressUpdateData {
+  progress: number;
+}
+
+export interface PipelineCompletedData {
+  outputPath: string;
+}
+
+export interface RetryStartingData {
+  attempt: number;
+  maxAttempts: number;
+  targetPhase: PipelinePhase;
+}
+
+export interface DeploymentFileWrittenData {
+  /** Path relative to the codebase root */
+  filePath: string;
+  isNewFile: boolean;
+  success: boolean;
+  error?: string | null;
+}
+
+export interface PipelineErrorData {
+  exceptionType: string;
+  message: string;
+}
+
+export interface RetryApprovedData {
+  action: RetryAction;
+}
+
+export interface ConnectionGapData {
+  /** When the hub connection dropped (client clock) */
+  droppedAt: string;
+  /** When it was re-established (client clock) */
+  recoveredAt: string;
+  /** Updates fetched from the server to fill the gap */
+  replayedCount: number;
+}
+
+/** `data` payload for each PipelineUpdate `updateType` */
+export interface PipelineUpdateDataMap {
+  PhaseStarted: null;
+  /** Phase-specific result object */
+  PhaseCompleted: unknown;
+  /** Phase-specific approval payload */
+  PhasePendingApproval: unknown;
+  PhaseFailed: null;
+  Progress: ProgressUpdateData | null;
+  PipelineCompleted: PipelineCompletedData;
+  RetryRequired: RetryInfoDto;
+  FixTasksGenerated: FixTaskDto[];
+  TestResults: TestSummaryDto;
+  RetryStarting: RetryStartingData;
+  LLMCallStarting: LLMCallInfoDto;
+  LLMCallCompleted: LLMCallResultDto;
+  DeploymentFileWritten: DeploymentFileWrittenData;
+  Error: PipelineErrorData;
+  /** Client-side only: added to the log when the user picks a retry action */
+  RetryApproved: RetryApprovedData;
+  /** Client-side only: markers around updates replayed after a reconnect */
+  ConnectionLost: ConnectionGapData;
+  ConnectionRestored: ConnectionGapData;
+}
+
+export type PipelineUpdateType = keyof PipelineUpdateDataMap;
+
+/** PipelineUpdate hub message, discriminated by `updateType` */
+export type PipelineUpdateMessage = {
+  [K in PipelineUpdateType]: {
+    id: string;
+    storyId: string;
+    updateType: K;
+    phase: PipelinePhase;
+    message: string;
+    data?: PipelineUpdateDataMap[K];
+    timestamp: string;
+  }
+}[PipelineUpdateType];
+
+/** A page of a pipeline run's log, oldest entry first */
+export interface PipelineLogPageDto {
+  entries: PipelineUpdateMessage[];
+  /** True when older entries exist before the first one */
+  hasMore: boolean;
+}
+
+export type PipelineUpdateOf<K extends PipelineUpdateType> = Extract<PipelineUpdateMessage, { updateType: K }>;
+
+const PIPELINE_UPDATE_TYPES: Record<PipelineUpdateType, true> = {
+  PhaseStarted: true,
+  PhaseCompleted: true,
+  PhasePendingApproval: true,
+  PhaseFailed: true,
+  Progress: true,
+  PipelineCompleted: true,
+  RetryRequired: true,
+  FixTasksGenerated: true,
+  TestResults: true,
+  RetryStarting: true,
+  LLMCallStarting: true,
+  LLMCallCompleted: true,
+  DeploymentFileWritten: true,
+  Error: true,
+  RetryApproved: true,
+  ConnectionLost: true,
+  ConnectionRestored: true
+};
+
+export function isPipelineUpdateType(value: unknown): value is PipelineUpdateType {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(PIPELINE_UPDATE_TYPES, value);
+}
+
 export interface CreateStoryRequest {
   name: string;
   content: string;
@@ -307,6 +764,14 @@ export interface CodebaseDto {
   analyzedAt?: string;
   createdAt: string;
   summary?: CodebaseSummaryDto;
+  /** Default approval policy for stories and requirements on this codebase */
+  approvalPolicyId?: string | null;
+}
+
+export interface SourceFileDto {
+  /** Path relative to the codebase root */
+  path: string;
+  content: string;
 }
 
 export interface CodebaseSummaryDto {
@@ -474,16 +939,81 @@ export function getPhaseAgent(phase: PipelinePhase): string | null {
   return agents[phase];
 }
 
+// Policy id a start request passes to make every gate wait, overriding assigned policies
+export const MANUAL_APPROVAL_POLICY_ID = 'manual';
+
+// Pipeline phases with an approval gate a policy can pass
+export const APPROVAL_GATE_PHASES: PipelinePhase[] = [
+  PipelinePhase.Analysis,
+  PipelinePhase.Planning,
+  PipelinePhase.Coding,
+  PipelinePhase.Debugging,
+  PipelinePhase.Reviewing,
+  PipelinePhase.Deployment,
+  PipelinePhase.UnitTesting,
+  PipelinePhase.PullRequest
+];
+
+// Name of the approval policy that passed the phase's latest run, if a policy rather than the user decided
+export function getAutoApprovedBy(phase: PhaseStatusDto): string | null {
+  const runs = phase.runs ?? [];
+  return runs[runs.length - 1]?.autoApprovedBy ?? null;
+}
+
+// Phases a finished or stopped run can be rerun from. Tests need the deployment made in the
+// same run, so a test rerun starts at Deployment.
+export function canRerunFromPhase(phase: PhaseStatusDto): boolean {
+  return phase.phase >= PipelinePhase.Analysis &&
+    phase.phase <= PipelinePhase.Deployment &&
+    (phase.state === PhaseState.Completed || phase.state === PhaseState.Failed);
+}
+
+// LLM calls made in this run, retries included. Runs before the start belong to an earlier run
+// (kept by a rerun); a phase without runs falls back to its summary.
+export function getRunLLMCalls(status: PipelineStatusDto): LLMCallResultDto[] {
+  const runStart = status.startedAt ? new Date(status.startedAt).getTime() : 0;
+  return status.phases.flatMap(phase => phase.runs && phase.runs.length > 0
+    ? phase.runs.filter(run => new Date(run.startedAt).getTime() >= runStart).flatMap(run => run.llmCalls ?? [])
+    : phase.llmCallsSummary ?? []);
+}
+
+export function getBudgetScopeLabel(scope: BudgetScope): string {
+  const labels: Record<BudgetScope, string> = {
+    [BudgetScope.Story]: 'Story',
+    [BudgetScope.Requirement]: 'Requirement'
+  };
+  return labels[scope] || 'Unknown';
+}
+
 // Get retry reason label
 export function getRetryReasonLabel(reason: RetryReason): string {
   const labels: Record<RetryReason, string> = {
     [RetryReason.BuildFailed]: 'Build Failed',
     [RetryReason.TestsFailed]: 'Tests Failed',
-    [RetryReason.IntegrationFailed]: 'Integration Failed'
+    [RetryReason.IntegrationFailed]: 'Integration Failed',
+    [RetryReason.ReviewFindings]: 'Review Findings'
   };
   return labels[reason] || 'Unknown';
 }
 
+export function getReviewSeverityColor(severity: ReviewSeverity): string {
+  const colors: Record<ReviewSeverity, string> = {
+    critical: 'bg-red-500/20 text-red-400',
+    major: 'bg-amber-500/20 text-amber-400',
+    minor: 'bg-slate-500/20 text-slate-300'
+  };
+  return colors[severity] || 'bg-slate-500/20 text-slate-300';
+}
+
+export function getPullRequestTargetLabel(target: PullRequestTarget): string {
+  const labels: Record<PullRequestTarget, string> = {
+    [PullRequestTarget.GitHub]: 'GitHub PR',
+    [PullRequestTarget.LocalBranch]: 'Local Branch',
+    [PullRequestTarget.PatchFile]: 'Patch File'
+  };
+  return labels[target] || 'Unknown';
+}
+
 // Get retry action label
 export function getRetryActionLabel(action: RetryAction): string {
   const labels: Record<RetryAction, string> = {
@@ -495,16 +1025,54 @@ export function getRetryActionLabel(action: RetryAction): string {
   return labels[action] || 'Unknown';
 }
 
+// Get rejection category label
+export function getRejectionCategoryLabel(category: RejectionCategory): string {
+  const labels: Record<RejectionCategory, string> = {
+    [RejectionCategory.WrongApproach]: 'Wrong Approach',
+    [RejectionCategory.MissingFiles]: 'Missing Files',
+    [RejectionCategory.Style]: 'Style',
+    [RejectionCategory.IncorrectTarget]: 'Incorrect Target',
+    [RejectionCategory.Other]: 'Other'
+  };
+  return labels[category] || 'Unknown';
+}
+
 // Get fix task type label
 export function getFixTaskTypeLabel(type: FixTaskType): string {
   const labels: Record<FixTaskType, string> = {
     [FixTaskType.BuildError]: 'Build Error',
     [FixTaskType.TestFailure]: 'Test Failure',
-    [FixTaskType.IntegrationError]: 'Integration Error'
+    [FixTaskType.IntegrationError]: 'Integration Error',
+    [FixTaskType.ReviewFinding]: 'Review Finding'
   };
   return labels[type] || 'Unknown';
 }
 
+// Get queue item state label
+export function getQueueItemStateLabel(state: QueueItemState): string {
+  const labels: Record<QueueItemState, string> = {
+    [QueueItemState.Queued]: 'Queued',
+    [QueueItemState.Running]: 'Running',
+    [QueueItemState.Completed]: 'Completed',
+    [QueueItemState.Failed]: 'Failed',
+    [QueueItemState.Cancelled]: 'Cancelled',
+    [QueueItemState.Blocked]: 'Blocked'
+  };
+  return labels[state] || 'Unknown';
+}
+
+export function getQueueItemStateColor(state: QueueItemState): string {
+  const colors: Record<QueueItemState, string> = {
+    [QueueItemState.Queued]: 'bg-slate-500/20 text-slate-300',
+    [QueueItemState.Running]: 'bg-blue-500/20 text-blue-400',
+    [QueueItemState.Completed]: 'bg-emerald-500/20 text-emerald-400',
+    [QueueItemState.Failed]: 'bg-red-500/20 text-red-400',
+    [QueueItemState.Cancelled]: 'bg-slate-600/30 text-slate-400',
+    [QueueItemState.Blocked]: 'bg-orange-500/20 text-orange-400'
+  };
+  return colors[state] || 'bg-slate-500/20 text-slate-300';
+}
+
 export function getPhaseStateColor(state: PhaseState): string {
   const colors: Record<PhaseState, string> = {
     [PhaseState.Pending]: 'text-slate-400',
@@ -585,6 +1153,8 @@ export interface RequirementDto {
   status: RequirementStatus;
   currentPhase: WizardPhase;
   codebaseId?: string;
+  /** LLM spend allowed across all runs of the requirement's stories; unlimited when absent */
+  budget?: CostBudgetDto | null;
   createdAt: string;
   updatedAt: string;
   completedAt?: string;
@@ -632,6 +1202,8 @@ export interface StoryDefinitionDto {
   dependencies: string[];
   technicalNotes?: string;
   selected: boolean;
+  /** Story created from this definition; dependencies name other definitions by id */
+  createdStoryId?: string | null;
 }
 
 export interface WizardStatusDto {
@@ -642,6 +1214,8 @@ export interface WizardStatusDto {
   startedAt?: string;
   completedAt?: string;
   error?: string;
+  /** Policy the wizard was started with; null when every phase waits for approval */
+  approvalPolicy?: ApprovalPolicyDto | null;
 }
 
 export interface WizardPhaseStatusDto {
@@ -651,6 +1225,8 @@ export interface WizardPhaseStatusDto {
   startedAt?: string;
   completedAt?: string;
   result?: unknown;
+  /** Name of the approval policy that approved the phase without waiting for the user */
+  autoApprovedBy?: string | null;
 }
 
 export interface CreateRequirementRequest {
@@ -669,6 +1245,36 @@ export interface CreateStoriesRequest {
   selectedStoryIds: string[];
 }
 
+/** Stories created from a requirement, linked by their definitions' dependencies */
+export interface StoryGraphDto {
+  requirementId: string;
+  /** Stories in run order (topological, then creation order) */
+  nodes: StoryGraphNodeDto[];
+  /** Some dependencies form a cycle, so the stories cannot be run in order */
+  hasCycle: boolean;
+}
+
+export interface StoryGraphNodeDto {
+  storyId: string;
+  definitionId?: string | null;
+  name: string;
+  status: StoryStatus;
+  /** State of the story's latest queue item; null when it was never queued */
+  queueState?: QueueItemState | null;
+  queueMessage?: string | null;
+  /** Story ids that must complete first */
+  dependsOn: string[];
+  /** Longest dependency chain leading to this story (0 = no dependencies) */
+  level: number;
+  inCycle: boolean;
+}
+
+export interface RunRequirementStoriesRequest {
+  approvalPolicyId?: string | null;
+  maxConcurrency?: number;
+  pauseOnFailure?: boolean;
+}
+
 // Helper functions for Requirements
 export function getRequirementTypeLabel(type: RequirementType): string {
   const labels: Record<RequirementType, string> = {
@@ -725,6 +1331,13 @@ export function getWizardPhaseLabel(phase: WizardPhase): string {
   return labels[phase] || 'Unknown';
 }
 
+// Wizard phases a policy can pass; Questions and Review need the user's input
+export const APPROVAL_GATE_WIZARD_PHASES: WizardPhase[] = [
+  WizardPhase.Analysis,
+  WizardPhase.Refinement,
+  WizardPhase.Decomposition
+];
+
 export function getWizardPhaseDescription(phase: WizardPhase): string {
   const descriptions: Record<WizardPhase, string> = {
     [WizardPhase.Input]: 'Enter raw requirement and select type',